@@ -0,0 +1,208 @@
+/**
+ * Benchmark Command Implementation
+ *
+ * Compares the latency of the standard and edge n-gram search modes against
+ * the loaded address index, with progress indicators and a results table.
+ */
+
+import { esConnect } from "@repo/addresskit-client/elasticsearch";
+import debug from "debug";
+import {
+    BENCHMARK_MODES,
+    DEFAULT_BENCHMARK_QUERIES,
+    benchmarkSearchModes,
+    hasEdgeNgramFields,
+    readBenchmarkQueries,
+} from "../../service/commands/benchmark";
+import { VERBOSE } from "../../service/config";
+import {
+    createProgressBar,
+    displayBox,
+    displayKeyValue,
+    displaySection,
+    failSpinner,
+    formatDuration,
+    formatNumber,
+    getDaemonMode,
+    logError,
+    logSuccess,
+    startSpinner,
+    succeedSpinner,
+    theme,
+    updateSpinner,
+} from "../../service/helpers/terminalUI";
+
+/** Debug logger for API operations */
+const logger = debug("api");
+
+/** Debug logger for error operations */
+const error = debug("error");
+
+/**
+ * Command options for the benchmark command.
+ */
+interface BenchmarkCommandOptions {
+    /** Run in daemon (background) mode */
+    daemon: boolean;
+    /** File of search strings, one per line */
+    queries?: string;
+    /** Timed passes over the queries */
+    iterations: string;
+    /** Hits requested per search */
+    size?: string;
+}
+
+/**
+ * Formats a latency in milliseconds for display.
+ *
+ * @param ms - The latency in milliseconds.
+ * @returns The latency with one decimal place (e.g. "12.3 ms").
+ */
+const formatLatency = (ms: number): string => `${ms.toFixed(1)} ms`;
+
+/**
+ * Executes the benchmark command with beautiful terminal output.
+ *
+ * This function benchmarks the search modes:
+ * 1. Connects to OpenSearch
+ * 2. Checks the index has the edge n-gram subfields
+ * 3. Runs every query in both modes, alternating between them
+ * 4. Reports p50/p95 latency for each mode
+ *
+ * @param options - Command options from the CLI.
+ * @returns Promise that resolves when the benchmark completes.
+ * @throws Error if the index is unavailable or was loaded without edge n-grams.
+ */
+export async function runBenchmarkCommand(
+    options: BenchmarkCommandOptions,
+): Promise<void> {
+    const startTime = Date.now();
+    const isDaemon = getDaemonMode();
+    const iterations = Number.parseInt(options.iterations, 10);
+    const pageSize =
+        options.size !== undefined
+            ? Number.parseInt(options.size, 10)
+            : undefined;
+
+    if (!Number.isInteger(iterations) || iterations < 1) {
+        throw new Error("--iterations must be a positive whole number");
+    }
+    if (
+        pageSize !== undefined &&
+        (!Number.isInteger(pageSize) || pageSize < 1)
+    ) {
+        throw new Error("--size must be a positive whole number");
+    }
+
+    // Enable debug loggers if not in daemon mode
+    if (!isDaemon && process.env.DEBUG === undefined) {
+        debug.enable("error");
+    }
+
+    const queries =
+        options.queries !== undefined
+            ? await readBenchmarkQueries(options.queries)
+            : DEFAULT_BENCHMARK_QUERIES;
+    if (queries.length === 0) {
+        throw new Error(`No queries found in ${options.queries}`);
+    }
+
+    // Display configuration section
+    if (!isDaemon) {
+        displaySection("Configuration");
+        displayKeyValue({
+            "OpenSearch URL": process.env.ES_HOST || "http://localhost:9200",
+            "Index Name": process.env.ES_INDEX_NAME || "addresskit",
+            Queries:
+                options.queries !== undefined
+                    ? `${formatNumber(queries.length)} from ${options.queries}`
+                    : `${formatNumber(queries.length)} built-in`,
+            Iterations: formatNumber(iterations),
+            Modes: BENCHMARK_MODES.join(", "),
+        });
+    }
+
+    // Connect to OpenSearch
+    startSpinner("Connecting to OpenSearch...");
+    try {
+        await esConnect();
+        succeedSpinner("Connected to OpenSearch");
+        if (VERBOSE) logger("es client connected");
+    } catch (err) {
+        failSpinner("Failed to connect to OpenSearch");
+        logError("Connection error", err as Error);
+        throw err;
+    }
+
+    // Both modes must run against the same index, so it needs the edge n-grams
+    if (!(await hasEdgeNgramFields())) {
+        const message =
+            "The address index has no edge n-gram fields. Reload it with `addresskit load --edge-ngram` (or ADDRESSKIT_ENABLE_EDGE_NGRAM=1) to benchmark the edge-ngram mode.";
+        if (!isDaemon) {
+            displayBox(message, "error");
+        }
+        throw new Error(message);
+    }
+
+    // Display benchmark section
+    if (!isDaemon) {
+        displaySection("Benchmark");
+    }
+
+    startSpinner("Warming up...");
+    try {
+        const results = await benchmarkSearchModes(queries, {
+            iterations,
+            pageSize,
+            onProgress: (progress) => {
+                const progressBar = createProgressBar(
+                    progress.completed,
+                    progress.total,
+                    20,
+                );
+                updateSpinner(
+                    `Searching  ${progressBar}  ${theme.muted(`${formatNumber(progress.completed)} / ${formatNumber(progress.total)} searches`)}`,
+                );
+            },
+        });
+        succeedSpinner(
+            `Ran ${formatNumber(results.reduce((sum, result) => sum + result.samples, 0))} timed searches`,
+        );
+
+        // Display the latency of each mode
+        const duration = Date.now() - startTime;
+        if (!isDaemon) {
+            for (const result of results) {
+                displaySection(`${result.mode} mode`);
+                displayKeyValue({
+                    p50: formatLatency(result.p50),
+                    p95: formatLatency(result.p95),
+                    Mean: formatLatency(result.mean),
+                    "OpenSearch p50": formatLatency(result.tookP50),
+                    "OpenSearch p95": formatLatency(result.tookP95),
+                    Searches: formatNumber(result.samples),
+                });
+            }
+            console.log();
+        }
+
+        logSuccess(
+            `Benchmark completed in ${formatDuration(duration)}: ${results
+                .map(
+                    (result) =>
+                        `${result.mode} p50 ${formatLatency(result.p50)}, p95 ${formatLatency(result.p95)}`,
+                )
+                .join("; ")}`,
+        );
+    } catch (err) {
+        failSpinner("Failed to run benchmark");
+        logError("Benchmark error", err as Error);
+        error("error running benchmark", err);
+
+        if (!isDaemon) {
+            displayBox("Benchmark failed. Check logs for details.", "error");
+        }
+
+        throw err;
+    }
+}
@@ -0,0 +1,184 @@
+/**
+ * Geocode Command Implementation
+ *
+ * Matches the addresses in a CSV or PSV file against the search index and
+ * writes the file back out with the matched address details, with progress
+ * indicators and a summary of the run.
+ */
+
+import * as path from "node:path";
+import { esConnect } from "@repo/addresskit-client/elasticsearch";
+import debug from "debug";
+import {
+    GEOCODE_OUTPUT_COLUMNS,
+    geocodeFile,
+} from "../../service/commands/geocode";
+import { VERBOSE } from "../../service/config";
+import {
+    createProgressBar,
+    displayBox,
+    displayKeyValue,
+    displaySection,
+    failSpinner,
+    formatBytes,
+    formatDuration,
+    formatNumber,
+    getDaemonMode,
+    logError,
+    logSuccess,
+    startSpinner,
+    succeedSpinner,
+    theme,
+    updateSpinner,
+} from "../../service/helpers/terminalUI";
+
+/** Debug logger for API operations */
+const logger = debug("api");
+
+/** Debug logger for error operations */
+const error = debug("error");
+
+/**
+ * Command options for the geocode command.
+ */
+interface GeocodeCommandOptions {
+    /** Run in daemon (background) mode */
+    daemon: boolean;
+    /** Path of the file to write */
+    output?: string;
+    /** Column holding the full free-text address */
+    column: string;
+    /** Comma-separated component columns joined to form the address */
+    columns?: string;
+    /** Field delimiter */
+    delimiter?: string;
+}
+
+/**
+ * Builds the default output path by adding ".geocoded" before the extension.
+ *
+ * @param input - The input file path.
+ * @returns The output file path (e.g. "addresses.geocoded.csv").
+ */
+const getDefaultOutputPath = (input: string): string => {
+    const extension = path.extname(input);
+    return `${input.slice(0, input.length - extension.length)}.geocoded${extension || ".csv"}`;
+};
+
+/**
+ * Executes the geocode command with beautiful terminal output.
+ *
+ * This function geocodes an address file:
+ * 1. Connects to OpenSearch
+ * 2. Streams the input file, matching each row against the index
+ * 3. Writes each row with the matched address details appended
+ * 4. Reports how many rows were matched
+ *
+ * @param input - Path of the CSV or PSV file to geocode.
+ * @param options - Command options from the CLI.
+ * @returns Promise that resolves when the output file has been written.
+ * @throws Error if the index is unavailable or the file cannot be processed.
+ */
+export async function runGeocodeCommand(
+    input: string,
+    options: GeocodeCommandOptions,
+): Promise<void> {
+    const startTime = Date.now();
+    const isDaemon = getDaemonMode();
+    const output = options.output ?? getDefaultOutputPath(input);
+    const columns = options.columns
+        ?.split(",")
+        .map((name) => name.trim())
+        .filter((name) => name !== "");
+
+    // Enable debug loggers if not in daemon mode
+    if (!isDaemon && process.env.DEBUG === undefined) {
+        debug.enable("error");
+    }
+
+    // Display configuration section
+    if (!isDaemon) {
+        displaySection("Configuration");
+        displayKeyValue({
+            "OpenSearch URL": process.env.ES_HOST || "http://localhost:9200",
+            "Index Name": process.env.ES_INDEX_NAME || "addresskit",
+            Input: input,
+            Output: output,
+            "Address Column":
+                columns !== undefined && columns.length > 0
+                    ? columns.join(" + ")
+                    : options.column,
+            "Added Columns": GEOCODE_OUTPUT_COLUMNS.join(", "),
+        });
+    }
+
+    // Connect to OpenSearch
+    startSpinner("Connecting to OpenSearch...");
+    try {
+        await esConnect();
+        succeedSpinner("Connected to OpenSearch");
+        if (VERBOSE) logger("es client connected");
+    } catch (err) {
+        failSpinner("Failed to connect to OpenSearch");
+        logError("Connection error", err as Error);
+        throw err;
+    }
+
+    // Display geocoding section
+    if (!isDaemon) {
+        displaySection("Geocoding");
+    }
+
+    startSpinner(`Geocoding ${path.basename(input)}...`);
+    try {
+        const summary = await geocodeFile(input, output, {
+            column: options.column,
+            columns,
+            delimiter: options.delimiter,
+            onProgress: (progress) => {
+                // Build progress display with the terminalUI progress bar
+                const progressBar = createProgressBar(
+                    progress.bytesRead,
+                    progress.totalBytes,
+                    20,
+                );
+
+                updateSpinner(
+                    `Geocoding  ${progressBar}  ${theme.muted(`${formatNumber(progress.rows)} rows, ${formatBytes(progress.bytesRead)} / ${formatBytes(progress.totalBytes)}`)}  ${theme.secondary(`${formatNumber(progress.rowsPerSecond)}/s`)}`,
+                );
+            },
+        });
+        succeedSpinner(`Geocoded ${formatNumber(summary.rows)} rows`);
+
+        // Display completion summary
+        const duration = Date.now() - startTime;
+        if (!isDaemon) {
+            displaySection("Summary");
+            displayKeyValue({
+                Duration: formatDuration(duration),
+                Rows: formatNumber(summary.rows),
+                Matched: formatNumber(summary.matched),
+                Unmatched: formatNumber(summary.unmatched),
+                Failed: formatNumber(summary.failed),
+            });
+
+            console.log();
+            displayBox(`Geocoded file written to ${output}`, "success");
+            console.log();
+        }
+
+        logSuccess(
+            `Geocoding completed in ${formatDuration(duration)}: ${formatNumber(summary.matched)} of ${formatNumber(summary.rows)} rows matched`,
+        );
+    } catch (err) {
+        failSpinner("Failed to geocode file");
+        logError("Geocoding error", err as Error);
+        error("error geocoding file", err);
+
+        if (!isDaemon) {
+            displayBox("Geocoding failed. Check logs for details.", "error");
+        }
+
+        throw err;
+    }
+}
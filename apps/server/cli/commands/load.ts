@@ -41,6 +41,10 @@ interface LoadCommandOptions {
     clear: boolean;
     /** Enable geocoding support */
     geo: boolean;
+    /** Attach ABS mesh blocks and statistical areas */
+    statistical: boolean;
+    /** Index edge n-gram subfields for the edge-ngram search mode */
+    edgeNgram: boolean;
 }
 
 /**
@@ -81,6 +85,16 @@ export async function runLoadCommand(
                 process.env.ADDRESSKIT_ENABLE_GEO === "1" || options.geo
                     ? "Enabled"
                     : "Disabled",
+            "Statistical Areas":
+                process.env.ADDRESSKIT_ENABLE_STATISTICAL === "1" ||
+                options.statistical
+                    ? "Enabled"
+                    : "Disabled",
+            "Edge N-grams":
+                process.env.ADDRESSKIT_ENABLE_EDGE_NGRAM === "1" ||
+                options.edgeNgram
+                    ? "Enabled"
+                    : "Disabled",
             States: process.env.COVERED_STATES || options.states || "All",
         });
     }
@@ -135,6 +135,62 @@ export async function runStartCommand(
             `       ${theme.dim("Get detailed information for a specific address")}`,
         );
         console.log();
+        console.log(
+            `  ${theme.secondary("GET")}  ${theme.muted("/addresses/:id/secondaries")}`,
+        );
+        console.log(
+            `       ${theme.dim("List the units of a building's primary address")}`,
+        );
+        console.log();
+        console.log(
+            `  ${theme.secondary("GET")}  ${theme.muted("/addresses/:id/primary")}`,
+        );
+        console.log(
+            `       ${theme.dim("Get the primary address of a unit's building")}`,
+        );
+        console.log();
+        console.log(
+            `  ${theme.secondary("GET")}  ${theme.muted("/addresses/:id/site-siblings")}`,
+        );
+        console.log(
+            `       ${theme.dim("List the other addresses on the same address site")}`,
+        );
+        console.log();
+        console.log(
+            `  ${theme.secondary("POST")} ${theme.muted("/addresses/search")}`,
+        );
+        console.log(
+            `       ${theme.dim("Search for addresses with filters in a JSON body")}`,
+        );
+        console.log();
+        console.log(
+            `  ${theme.secondary("POST")} ${theme.muted("/addresses/validate")}`,
+        );
+        console.log(
+            `       ${theme.dim("Validate a free-text address with per-component verdicts")}`,
+        );
+        console.log();
+        console.log(
+            `  ${theme.secondary("POST")} ${theme.muted("/addresses/batch")}`,
+        );
+        console.log(
+            `       ${theme.dim("Validate many addresses or PIDs in one request")}`,
+        );
+        console.log();
+        console.log(
+            `  ${theme.secondary("GET")}  ${theme.muted("/addresses/parse?q=<address>")}`,
+        );
+        console.log(
+            `       ${theme.dim("Split a free-text address into its components")}`,
+        );
+        console.log();
+        console.log(
+            `  ${theme.secondary("GET")}  ${theme.muted("/addresses/reverse?lat=<lat>&lon=<lon>")}`,
+        );
+        console.log(
+            `       ${theme.dim("Find the nearest addresses to a point")}`,
+        );
+        console.log();
         console.log(
             `  ${theme.secondary("GET")}  ${theme.muted("/localities?q=<query>")}`,
         );
@@ -149,6 +205,34 @@ export async function runStartCommand(
             `       ${theme.dim("Get detailed information for a specific locality")}`,
         );
         console.log();
+        console.log(
+            `  ${theme.secondary("GET")}  ${theme.muted("/streets?q=<query>")}`,
+        );
+        console.log(
+            `       ${theme.dim("Search for streets matching the query")}`,
+        );
+        console.log();
+        console.log(
+            `  ${theme.secondary("GET")}  ${theme.muted("/streets/:id")}`,
+        );
+        console.log(
+            `       ${theme.dim("Get detailed information for a specific street")}`,
+        );
+        console.log();
+        console.log(
+            `  ${theme.secondary("GET")}  ${theme.muted("/postcodes?q=<query>")}`,
+        );
+        console.log(
+            `       ${theme.dim("Search for postcodes by number or suburb")}`,
+        );
+        console.log();
+        console.log(
+            `  ${theme.secondary("GET")}  ${theme.muted("/postcodes/:postcode")}`,
+        );
+        console.log(
+            `       ${theme.dim("Get the suburbs and states sharing a postcode")}`,
+        );
+        console.log();
         console.log(`  ${theme.secondary("GET")}  ${theme.muted("/docs")}`);
         console.log(`       ${theme.dim("OpenAPI/Swagger documentation")}`);
         console.log();
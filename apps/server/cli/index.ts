@@ -8,6 +8,8 @@
  * Usage:
  *   addresskit load    - Load G-NAF data into the search index
  *   addresskit start   - Start the REST API server
+ *   addresskit geocode - Match the addresses in a CSV or PSV file
+ *   addresskit benchmark - Compare the latency of the search modes
  *
  * Options:
  *   -d, --daemon       Run in background (daemon) mode
@@ -62,6 +64,16 @@ program
     )
     .option("--clear", "Clear existing index before loading", false)
     .option("--geo", "Enable geocoding support", false)
+    .option(
+        "--statistical",
+        "Attach ABS mesh blocks and statistical areas to addresses",
+        false,
+    )
+    .option(
+        "--edge-ngram",
+        "Index edge n-grams for the edge-ngram search mode",
+        false,
+    )
     .action(async (options) => {
         // Set daemon mode based on CLI flag
         setDaemonMode(options.daemon);
@@ -77,6 +89,12 @@ program
         if (options.geo) {
             process.env.ADDRESSKIT_ENABLE_GEO = "1";
         }
+        if (options.statistical) {
+            process.env.ADDRESSKIT_ENABLE_STATISTICAL = "1";
+        }
+        if (options.edgeNgram) {
+            process.env.ADDRESSKIT_ENABLE_EDGE_NGRAM = "1";
+        }
 
         // Display banner in non-daemon mode
         if (!options.daemon) {
@@ -132,6 +150,96 @@ program
         }
     });
 
+/**
+ * Geocode Command - Matches the addresses in a CSV or PSV file.
+ *
+ * Streams the file through the search index and writes it back out with the
+ * matched address PID, single-line address, confidence, match score and
+ * latitude/longitude appended to each row.
+ */
+program
+    .command("geocode")
+    .description("Match the addresses in a CSV or PSV file against the index")
+    .argument("<file>", "CSV or PSV file of addresses")
+    .option("-d, --daemon", "Run in background (daemon) mode", false)
+    .option(
+        "-o, --output <file>",
+        "File to write (default: <file>.geocoded.<ext> alongside the input)",
+    )
+    .option(
+        "-c, --column <column>",
+        "Column holding the full address",
+        "address",
+    )
+    .option(
+        "--columns <columns>",
+        "Comma-separated component columns joined to form the address (e.g., street,suburb,state,postcode)",
+    )
+    .option(
+        "--delimiter <delimiter>",
+        "Field delimiter (default: | for .psv files, otherwise ,)",
+    )
+    .action(async (file, options) => {
+        // Set daemon mode based on CLI flag
+        setDaemonMode(options.daemon);
+
+        // Display banner in non-daemon mode
+        if (!options.daemon) {
+            displayBanner(version);
+        }
+
+        try {
+            // Dynamically import the geocode command to ensure env vars are set
+            const { runGeocodeCommand } = await import("./commands/geocode");
+            await runGeocodeCommand(file, options);
+        } catch (error) {
+            logError("Failed to execute geocode command", error as Error);
+            process.exit(1);
+        }
+    });
+
+/**
+ * Benchmark Command - Compares the latency of the search modes.
+ *
+ * Runs the same searches with the standard and edge n-gram queries against
+ * the loaded index and reports p50/p95 latency for each.
+ */
+program
+    .command("benchmark")
+    .description(
+        "Compare standard and edge n-gram search latency against the index",
+    )
+    .option("-d, --daemon", "Run in background (daemon) mode", false)
+    .option(
+        "-q, --queries <file>",
+        "File of search strings, one per line (default: built-in samples)",
+    )
+    .option("-n, --iterations <n>", "Timed passes over the queries", "5")
+    .option("--size <n>", "Results requested per search")
+    .action(async (options) => {
+        // Set daemon mode based on CLI flag
+        setDaemonMode(options.daemon);
+
+        // Every search must reach OpenSearch, so the search cache is disabled
+        process.env.ADDRESSKIT_CACHE_ENABLED = "false";
+
+        // Display banner in non-daemon mode
+        if (!options.daemon) {
+            displayBanner(version);
+        }
+
+        try {
+            // Dynamically import the benchmark command to ensure env vars are set
+            const { runBenchmarkCommand } = await import(
+                "./commands/benchmark"
+            );
+            await runBenchmarkCommand(options);
+        } catch (error) {
+            logError("Failed to execute benchmark command", error as Error);
+            process.exit(1);
+        }
+    });
+
 /**
  * Version Command - Displays detailed version information.
  */
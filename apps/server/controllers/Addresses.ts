@@ -3,10 +3,23 @@ import debug from "debug";
 import type { Request, Response } from "express";
 import {
     getAddress as fetchAddress,
+    getAddressPrimary as fetchAddressPrimary,
+    getAddressSecondaries as fetchAddressSecondaries,
+    getAddressSiteSiblings as fetchAddressSiteSiblings,
     getAddresses as fetchAddresses,
+    validateAddressBatch as fetchBatchValidation,
+    getParsedAddress as fetchParsedAddress,
+    reverseGeocode as fetchReverseGeocode,
+    searchAddresses as fetchSearch,
+    validateAddress as fetchValidation,
 } from "../service";
 import { VERBOSE } from "../service/config";
+import {
+    GEOJSON_CONTENT_TYPE,
+    getResponseFormat,
+} from "../service/helpers/geojson";
 import { JSONAPI_CONTENT_TYPE } from "../service/helpers/jsonapi";
+import type { AddressFilterInput } from "../service/types";
 
 /**
  * Structured response from address service functions.
@@ -21,6 +34,8 @@ type AddressResponse = {
     link?: { toString(): string };
     /** Link-Template header for API discoverability */
     linkTemplate?: { toString(): string };
+    /** Location header for redirects from retired addresses */
+    location?: string;
 };
 
 /**
@@ -34,6 +49,31 @@ type SwaggerRequest = Request & {
             addressId?: { value: string };
             q?: { value: string | undefined };
             p?: { value: number | undefined };
+            lat?: { value: number | undefined };
+            lon?: { value: number | undefined };
+            radius?: { value: number | undefined };
+            "page[number]"?: { value: number | undefined };
+            "page[size]"?: { value: number | undefined };
+            "filter[near]"?: { value: string | undefined };
+            "filter[bbox]"?: { value: string | undefined };
+            "filter[state]"?: { value: string | undefined };
+            "filter[postcode]"?: { value: string | undefined };
+            "filter[localityPid]"?: { value: string | undefined };
+            "filter[minConfidence]"?: { value: number | undefined };
+            "filter[legalParcelId]"?: { value: string | undefined };
+            "fields[address]"?: { value: string | undefined };
+            "fields[locality]"?: { value: string | undefined };
+            include?: { value: string | undefined };
+            group?: { value: string | undefined };
+            body?: {
+                value:
+                    | {
+                          q?: string;
+                          filter?: AddressFilterInput;
+                          items?: unknown;
+                      }
+                    | undefined;
+            };
         };
         /** Swagger path definition for the matched route */
         path?: {
@@ -111,8 +151,9 @@ export function getAddress(request: SwaggerRequest, response: Response): void {
     // Log the incoming request for debugging
     if (VERBOSE) logger("IN getAddress");
 
-    // Extract the address ID from the validated Swagger parameters
-    const addressId = request.swagger.params.addressId?.value;
+    // Extract the address ID, sparse fieldsets and include from the validated Swagger parameters
+    const { params } = request.swagger;
+    const addressId = params.addressId?.value;
 
     // Guard against missing address ID (should not occur with proper Swagger validation)
     if (addressId === undefined) {
@@ -125,12 +166,24 @@ export function getAddress(request: SwaggerRequest, response: Response): void {
     }
 
     // Fetch the address from OpenSearch and handle the response
-    const addressPromise = fetchAddress(addressId) as Promise<AddressResponse>;
+    const format = getResponseFormat(request);
+    const addressPromise = fetchAddress(
+        addressId,
+        params["fields[address]"]?.value,
+        params.include?.value,
+        params["fields[locality]"]?.value,
+        format,
+    ) as Promise<AddressResponse>;
 
     addressPromise
         .then((addressResponse) => {
             // Handle error responses from the service layer (JSON:API error documents)
             if (addressResponse.statusCode !== undefined) {
+                // Redirect retired addresses to their current successor
+                if (addressResponse.location !== undefined) {
+                    response.setHeader("Location", addressResponse.location);
+                }
+
                 // Set JSON:API content type and return the error response
                 response.setHeader("Content-Type", JSONAPI_CONTENT_TYPE);
                 response.status(addressResponse.statusCode);
@@ -143,8 +196,14 @@ export function getAddress(request: SwaggerRequest, response: Response): void {
                 response.setHeader("link", addressResponse.link.toString());
             }
 
-            // Set JSON:API content type and write the address data
-            response.setHeader("Content-Type", JSONAPI_CONTENT_TYPE);
+            // Set the negotiated content type and write the address data
+            response.setHeader("Vary", "Accept");
+            response.setHeader(
+                "Content-Type",
+                format === "geojson"
+                    ? GEOJSON_CONTENT_TYPE
+                    : JSONAPI_CONTENT_TYPE,
+            );
             writeJson(response, addressResponse.json);
         })
         .catch((error: unknown) => {
@@ -158,12 +217,219 @@ export function getAddress(request: SwaggerRequest, response: Response): void {
         });
 }
 
+/**
+ * Lists the secondary addresses (units, shops, etc.) of a building's primary address.
+ *
+ * This endpoint returns address resources (shaped like the address detail
+ * resource) ordered by level then flat number, paginated with `page[number]`
+ * and `page[size]`.
+ *
+ * @param request - Express request augmented with Swagger metadata.
+ * @param response - Express response.
+ */
+export function getAddressSecondaries(
+    request: SwaggerRequest,
+    response: Response,
+): void {
+    if (VERBOSE) logger("IN getAddressSecondaries");
+
+    // Extract the address ID and pagination from the validated Swagger parameters
+    const { params } = request.swagger;
+    const addressId = params.addressId?.value;
+
+    // Guard against missing address ID (should not occur with proper Swagger validation)
+    if (addressId === undefined) {
+        writeErrorResponse(
+            response,
+            400,
+            "Missing required parameter: addressId",
+        );
+        return;
+    }
+
+    // Fetch the secondary addresses and handle the response
+    const secondariesPromise = fetchAddressSecondaries(
+        addressId,
+        params["page[number]"]?.value,
+        params["page[size]"]?.value,
+        params["fields[address]"]?.value,
+    ) as Promise<AddressResponse>;
+
+    secondariesPromise
+        .then((secondariesResponse) => {
+            // Handle error responses from the service layer (JSON:API error documents)
+            if (secondariesResponse.statusCode !== undefined) {
+                // Redirect a retired primary address to its current successor
+                if (secondariesResponse.location !== undefined) {
+                    response.setHeader(
+                        "Location",
+                        secondariesResponse.location,
+                    );
+                }
+                response.setHeader("Content-Type", JSONAPI_CONTENT_TYPE);
+                response.status(secondariesResponse.statusCode);
+                response.json(secondariesResponse.json);
+                return;
+            }
+
+            // Set JSON:API content type and write the secondary addresses
+            response.setHeader("Content-Type", JSONAPI_CONTENT_TYPE);
+            writeJson(response, secondariesResponse.json);
+        })
+        .catch((error: unknown) => {
+            // Handle unexpected errors from the service layer
+            writeErrorResponse(
+                response,
+                500,
+                "An unexpected error occurred while fetching the secondary addresses",
+                error,
+            );
+        });
+}
+
+/**
+ * Fetches the primary address of the building a secondary address belongs to.
+ *
+ * This endpoint returns the primary address exactly as the address detail
+ * endpoint does, or a 404 when the address has no primary address.
+ *
+ * @param request - Express request augmented with Swagger metadata.
+ * @param response - Express response.
+ */
+export function getAddressPrimary(
+    request: SwaggerRequest,
+    response: Response,
+): void {
+    if (VERBOSE) logger("IN getAddressPrimary");
+
+    // Extract the address ID and sparse fieldset from the validated Swagger parameters
+    const { params } = request.swagger;
+    const addressId = params.addressId?.value;
+
+    // Guard against missing address ID (should not occur with proper Swagger validation)
+    if (addressId === undefined) {
+        writeErrorResponse(
+            response,
+            400,
+            "Missing required parameter: addressId",
+        );
+        return;
+    }
+
+    // Fetch the primary address and handle the response
+    const primaryPromise = fetchAddressPrimary(
+        addressId,
+        params["fields[address]"]?.value,
+    ) as Promise<AddressResponse>;
+
+    primaryPromise
+        .then((primaryResponse) => {
+            // Handle error responses from the service layer (JSON:API error documents)
+            if (primaryResponse.statusCode !== undefined) {
+                // Redirect a retired primary address to its current successor
+                if (primaryResponse.location !== undefined) {
+                    response.setHeader("Location", primaryResponse.location);
+                }
+                response.setHeader("Content-Type", JSONAPI_CONTENT_TYPE);
+                response.status(primaryResponse.statusCode);
+                response.json(primaryResponse.json);
+                return;
+            }
+
+            // Handle success responses with HATEOAS links
+            if (primaryResponse.link !== undefined) {
+                response.setHeader("link", primaryResponse.link.toString());
+            }
+
+            // Set JSON:API content type and write the primary address
+            response.setHeader("Content-Type", JSONAPI_CONTENT_TYPE);
+            writeJson(response, primaryResponse.json);
+        })
+        .catch((error: unknown) => {
+            // Handle unexpected errors from the service layer
+            writeErrorResponse(
+                response,
+                500,
+                "An unexpected error occurred while fetching the primary address",
+                error,
+            );
+        });
+}
+
+/**
+ * Lists the other addresses on the same address site as an address.
+ *
+ * This endpoint returns address resources (shaped like the address detail
+ * resource) ordered by level then flat number, paginated with `page[number]`
+ * and `page[size]`.
+ *
+ * @param request - Express request augmented with Swagger metadata.
+ * @param response - Express response.
+ */
+export function getAddressSiteSiblings(
+    request: SwaggerRequest,
+    response: Response,
+): void {
+    if (VERBOSE) logger("IN getAddressSiteSiblings");
+
+    // Extract the address ID and pagination from the validated Swagger parameters
+    const { params } = request.swagger;
+    const addressId = params.addressId?.value;
+
+    // Guard against missing address ID (should not occur with proper Swagger validation)
+    if (addressId === undefined) {
+        writeErrorResponse(
+            response,
+            400,
+            "Missing required parameter: addressId",
+        );
+        return;
+    }
+
+    // Fetch the sibling addresses and handle the response
+    const siblingsPromise = fetchAddressSiteSiblings(
+        addressId,
+        params["page[number]"]?.value,
+        params["page[size]"]?.value,
+        params["fields[address]"]?.value,
+    ) as Promise<AddressResponse>;
+
+    siblingsPromise
+        .then((siblingsResponse) => {
+            // Handle error responses from the service layer (JSON:API error documents)
+            if (siblingsResponse.statusCode !== undefined) {
+                // Redirect a retired address to its current successor
+                if (siblingsResponse.location !== undefined) {
+                    response.setHeader("Location", siblingsResponse.location);
+                }
+                response.setHeader("Content-Type", JSONAPI_CONTENT_TYPE);
+                response.status(siblingsResponse.statusCode);
+                response.json(siblingsResponse.json);
+                return;
+            }
+
+            // Set JSON:API content type and write the sibling addresses
+            response.setHeader("Content-Type", JSONAPI_CONTENT_TYPE);
+            writeJson(response, siblingsResponse.json);
+        })
+        .catch((error: unknown) => {
+            // Handle unexpected errors from the service layer
+            writeErrorResponse(
+                response,
+                500,
+                "An unexpected error occurred while fetching the site sibling addresses",
+                error,
+            );
+        });
+}
+
 /**
  * Searches for addresses matching a query string with pagination support.
  *
  * This endpoint provides autocomplete/typeahead functionality for address
  * searches. It uses fuzzy matching against the single-line address (SLA)
- * and short single-line address (SSLA) fields.
+ * and short single-line address (SSLA) fields, optionally restricted by
+ * `filter[...]` geo and structured filters.
  *
  * @param request - Express request augmented with Swagger metadata.
  * @param response - Express response.
@@ -175,6 +441,16 @@ export function getAddresses(
     // Extract search query and page number from validated Swagger parameters
     const q = request.swagger.params.q?.value;
     const p = request.swagger.params.p?.value;
+    const filter: AddressFilterInput = {
+        near: request.swagger.params["filter[near]"]?.value,
+        bbox: request.swagger.params["filter[bbox]"]?.value,
+        state: request.swagger.params["filter[state]"]?.value,
+        postcode: request.swagger.params["filter[postcode]"]?.value,
+        localityPid: request.swagger.params["filter[localityPid]"]?.value,
+        minConfidence: request.swagger.params["filter[minConfidence]"]?.value,
+        legalParcelId: request.swagger.params["filter[legalParcelId]"]?.value,
+    };
+    const group = request.swagger.params.group?.value;
 
     // Construct the base URL for HATEOAS link generation
     const url = new URL(
@@ -184,11 +460,18 @@ export function getAddresses(
 
     // Fetch matching addresses from OpenSearch
     // Cast swagger context as the service expects the path.get structure
+    const format = getResponseFormat(request);
     const addressesPromise = fetchAddresses(
         url.pathname,
         request.swagger as Parameters<typeof fetchAddresses>[1],
         q,
         p,
+        filter,
+        group,
+        request.swagger.params["fields[address]"]?.value,
+        request.swagger.params.include?.value,
+        request.swagger.params["fields[locality]"]?.value,
+        format,
     ) as Promise<AddressResponse>;
 
     addressesPromise
@@ -214,8 +497,14 @@ export function getAddresses(
                 );
             }
 
-            // Set JSON:API content type and write the search results
-            response.setHeader("Content-Type", JSONAPI_CONTENT_TYPE);
+            // Set the negotiated content type and write the search results
+            response.setHeader("Vary", "Accept");
+            response.setHeader(
+                "Content-Type",
+                format === "geojson"
+                    ? GEOJSON_CONTENT_TYPE
+                    : JSONAPI_CONTENT_TYPE,
+            );
             writeJson(response, addressesResponse.json);
         })
         .catch((error: unknown) => {
@@ -228,3 +517,251 @@ export function getAddresses(
             );
         });
 }
+
+/**
+ * Searches for addresses with filters supplied in a JSON request body.
+ *
+ * This endpoint accepts the same `q` and filters as `GET /addresses`, plus a
+ * GeoJSON `polygon` filter that is too large to pass in a query string.
+ *
+ * @param request - Express request augmented with Swagger metadata.
+ * @param response - Express response.
+ */
+export function searchAddresses(
+    request: SwaggerRequest,
+    response: Response,
+): void {
+    if (VERBOSE) logger("IN searchAddresses");
+
+    // Extract the query and filters from the validated request body
+    const body = request.swagger.params.body?.value;
+    const p = request.swagger.params.p?.value;
+
+    const searchPromise = fetchSearch(
+        body?.q,
+        p,
+        body?.filter,
+    ) as Promise<AddressResponse>;
+
+    searchPromise
+        .then((searchResponse) => {
+            // Results depend on the request body, so never cache them
+            response.setHeader("Cache-Control", "no-store");
+            response.setHeader("Content-Type", JSONAPI_CONTENT_TYPE);
+
+            // Handle error responses from the service layer (JSON:API error documents)
+            if (searchResponse.statusCode !== undefined) {
+                response.status(searchResponse.statusCode);
+                response.json(searchResponse.json);
+                return;
+            }
+
+            writeJson(response, searchResponse.json);
+        })
+        .catch((error: unknown) => {
+            // Handle unexpected errors from the service layer
+            writeErrorResponse(
+                response,
+                500,
+                "An unexpected error occurred while searching addresses",
+                error,
+            );
+        });
+}
+
+/**
+ * Validates a free-text address and reports per-component verdicts.
+ *
+ * This endpoint returns the best matching address (shaped exactly like the
+ * address detail resource), an overall match score, and whether each address
+ * component was matched, corrected, missing or conflicting.
+ *
+ * @param request - Express request augmented with Swagger metadata.
+ * @param response - Express response.
+ */
+export function validateAddress(
+    request: SwaggerRequest,
+    response: Response,
+): void {
+    if (VERBOSE) logger("IN validateAddress");
+
+    // Extract the free-text address from the validated request body
+    const q = request.swagger.params.body?.value?.q;
+
+    // Validate the address against OpenSearch and handle the response
+    const validationPromise = fetchValidation(q) as Promise<AddressResponse>;
+
+    validationPromise
+        .then((validationResponse) => {
+            // Validation depends on the request body, so never cache it
+            response.setHeader("Cache-Control", "no-store");
+            response.setHeader("Content-Type", JSONAPI_CONTENT_TYPE);
+
+            // Handle error responses from the service layer (JSON:API error documents)
+            if (validationResponse.statusCode !== undefined) {
+                response.status(validationResponse.statusCode);
+                response.json(validationResponse.json);
+                return;
+            }
+
+            writeJson(response, validationResponse.json);
+        })
+        .catch((error: unknown) => {
+            // Handle unexpected errors from the service layer
+            writeErrorResponse(
+                response,
+                500,
+                "An unexpected error occurred while validating the address",
+                error,
+            );
+        });
+}
+
+/**
+ * Validates a batch of free-text addresses and address PIDs.
+ *
+ * This endpoint returns one result per input item, in request order, each
+ * with the best match and its score or a per-item JSON:API error.
+ *
+ * @param request - Express request augmented with Swagger metadata.
+ * @param response - Express response.
+ */
+export function validateAddressBatch(
+    request: SwaggerRequest,
+    response: Response,
+): void {
+    if (VERBOSE) logger("IN validateAddressBatch");
+
+    // Extract the batch items from the validated request body
+    const items = request.swagger.params.body?.value?.items;
+
+    // Validate every item against OpenSearch and handle the response
+    const batchPromise = fetchBatchValidation(
+        items,
+    ) as Promise<AddressResponse>;
+
+    batchPromise
+        .then((batchResponse) => {
+            // Results depend on the request body, so never cache them
+            response.setHeader("Cache-Control", "no-store");
+            response.setHeader("Content-Type", JSONAPI_CONTENT_TYPE);
+
+            // Handle error responses from the service layer (JSON:API error documents)
+            if (batchResponse.statusCode !== undefined) {
+                response.status(batchResponse.statusCode);
+                response.json(batchResponse.json);
+                return;
+            }
+
+            writeJson(response, batchResponse.json);
+        })
+        .catch((error: unknown) => {
+            // Handle unexpected errors from the service layer
+            writeErrorResponse(
+                response,
+                500,
+                "An unexpected error occurred while validating the addresses",
+                error,
+            );
+        });
+}
+
+/**
+ * Parses a free-text address into its components.
+ *
+ * This endpoint splits the input into flat, level, lot, number, street,
+ * locality, state and postcode without searching the index, returning the
+ * same component shape as the address detail resource.
+ *
+ * @param request - Express request augmented with Swagger metadata.
+ * @param response - Express response.
+ */
+export function parseAddress(
+    request: SwaggerRequest,
+    response: Response,
+): void {
+    if (VERBOSE) logger("IN parseAddress");
+
+    // Extract the free-text address from the validated Swagger parameters
+    const q = request.swagger.params.q?.value;
+
+    // Parse the address and handle the response
+    const parsePromise = fetchParsedAddress(q) as Promise<AddressResponse>;
+
+    parsePromise
+        .then((parseResponse) => {
+            // Handle error responses from the service layer (JSON:API error documents)
+            if (parseResponse.statusCode !== undefined) {
+                response.setHeader("Content-Type", JSONAPI_CONTENT_TYPE);
+                response.status(parseResponse.statusCode);
+                response.json(parseResponse.json);
+                return;
+            }
+
+            // Set JSON:API content type and write the parsed address
+            response.setHeader("Content-Type", JSONAPI_CONTENT_TYPE);
+            writeJson(response, parseResponse.json);
+        })
+        .catch((error: unknown) => {
+            // Handle unexpected errors from the service layer
+            writeErrorResponse(
+                response,
+                500,
+                "An unexpected error occurred while parsing the address",
+                error,
+            );
+        });
+}
+
+/**
+ * Finds the addresses nearest to a latitude/longitude.
+ *
+ * This endpoint returns address resources (shaped like the address detail
+ * resource) ordered by distance, each with its distance in metres in the
+ * resource `meta`. Only addresses loaded with geocoding enabled are found.
+ *
+ * @param request - Express request augmented with Swagger metadata.
+ * @param response - Express response.
+ */
+export function reverseGeocode(
+    request: SwaggerRequest,
+    response: Response,
+): void {
+    if (VERBOSE) logger("IN reverseGeocode");
+
+    // Extract the point, radius and page size from the validated Swagger parameters
+    const { params } = request.swagger;
+
+    // Find the nearest addresses and handle the response
+    const reversePromise = fetchReverseGeocode(
+        params.lat?.value,
+        params.lon?.value,
+        params.radius?.value,
+        params["page[size]"]?.value,
+        params["fields[address]"]?.value,
+    ) as Promise<AddressResponse>;
+
+    reversePromise
+        .then((reverseResponse) => {
+            // Handle error responses from the service layer (JSON:API error documents)
+            if (reverseResponse.statusCode !== undefined) {
+                response.setHeader("Content-Type", JSONAPI_CONTENT_TYPE);
+                response.status(reverseResponse.statusCode);
+                response.json(reverseResponse.json);
+                return;
+            }
+
+            // Set JSON:API content type and write the nearest addresses
+            response.setHeader("Content-Type", JSONAPI_CONTENT_TYPE);
+            writeJson(response, reverseResponse.json);
+        })
+        .catch((error: unknown) => {
+            // Handle unexpected errors from the service layer
+            writeErrorResponse(
+                response,
+                500,
+                "An unexpected error occurred while reverse geocoding",
+                error,
+            );
+        });
+}
@@ -6,6 +6,10 @@ import {
     getLocality as fetchLocality,
 } from "../service";
 import { VERBOSE } from "../service/config";
+import {
+    GEOJSON_CONTENT_TYPE,
+    getResponseFormat,
+} from "../service/helpers/geojson";
 import { JSONAPI_CONTENT_TYPE } from "../service/helpers/jsonapi";
 
 /**
@@ -34,6 +38,7 @@ type SwaggerRequest = Request & {
             localityId?: { value: string };
             q?: { value: string | undefined };
             p?: { value: number | undefined };
+            "fields[locality]"?: { value: string | undefined };
         };
         /** Swagger path definition for the matched route */
         path?: {
@@ -110,8 +115,9 @@ export function getLocality(request: SwaggerRequest, response: Response): void {
     // Log the incoming request for debugging
     if (VERBOSE) logger("IN getLocality");
 
-    // Extract the locality ID from the validated Swagger parameters
-    const localityId = request.swagger.params.localityId?.value;
+    // Extract the locality ID and sparse fieldset from the validated Swagger parameters
+    const { params } = request.swagger;
+    const localityId = params.localityId?.value;
 
     // Guard against missing locality ID (should not occur with proper Swagger validation)
     if (localityId === undefined) {
@@ -124,8 +130,11 @@ export function getLocality(request: SwaggerRequest, response: Response): void {
     }
 
     // Fetch the locality from OpenSearch and handle the response
+    const format = getResponseFormat(request);
     const localityPromise = fetchLocality(
         localityId,
+        params["fields[locality]"]?.value,
+        format,
     ) as Promise<LocalityResponse>;
 
     localityPromise
@@ -144,8 +153,14 @@ export function getLocality(request: SwaggerRequest, response: Response): void {
                 response.setHeader("link", localityResponse.link.toString());
             }
 
-            // Set JSON:API content type and write the locality data
-            response.setHeader("Content-Type", JSONAPI_CONTENT_TYPE);
+            // Set the negotiated content type and write the locality data
+            response.setHeader("Vary", "Accept");
+            response.setHeader(
+                "Content-Type",
+                format === "geojson"
+                    ? GEOJSON_CONTENT_TYPE
+                    : JSONAPI_CONTENT_TYPE,
+            );
             writeJson(response, localityResponse.json);
         })
         .catch((error: unknown) => {
@@ -190,6 +205,7 @@ export function getLocalities(
         request.swagger as Parameters<typeof fetchLocalities>[1],
         q,
         p,
+        request.swagger.params["fields[locality]"]?.value,
     ) as Promise<LocalityResponse>;
 
     localitiesPromise
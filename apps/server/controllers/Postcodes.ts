@@ -0,0 +1,231 @@
+import { writeJson } from "@repo/addresskit-core";
+import debug from "debug";
+import type { Request, Response } from "express";
+import {
+    getPostcode as fetchPostcode,
+    getPostcodes as fetchPostcodes,
+} from "../service";
+import { VERBOSE } from "../service/config";
+import { JSONAPI_CONTENT_TYPE } from "../service/helpers/jsonapi";
+
+/**
+ * Structured response from postcode service functions.
+ * May contain either success data (link, json) or error data (statusCode, json).
+ */
+type PostcodeResponse = {
+    /** HTTP status code for error responses */
+    statusCode?: number;
+    /** Response body payload */
+    json: unknown;
+    /** HATEOAS Link header for navigation */
+    link?: { toString(): string };
+    /** Link-Template header for API discoverability */
+    linkTemplate?: { toString(): string };
+};
+
+/**
+ * Extended Express Request with Swagger-tools augmentation.
+ * Swagger-tools middleware attaches parsed parameters and metadata.
+ */
+type SwaggerRequest = Request & {
+    swagger: {
+        /** Parsed and validated request parameters */
+        params: {
+            postcode?: { value: string };
+            q?: { value: string | undefined };
+            p?: { value: number | undefined };
+        };
+        /** Swagger path definition for the matched route */
+        path?: {
+            get?: {
+                operationId?: string;
+                "x-swagger-router-controller"?: string;
+                "x-root-rel"?: string;
+                summary?: string;
+                parameters?: Array<{
+                    name: string;
+                    in: string;
+                    required?: boolean;
+                }>;
+            };
+        };
+    };
+};
+
+/**
+ * The logger for the API postcode controller.
+ */
+const logger = debug("api:postcodes");
+
+/**
+ * The logger for errors.
+ */
+const errorLogger = debug("error:postcodes");
+
+/**
+ * Writes a standardized JSON:API error response to the client.
+ * Used for consistent error handling across all postcode endpoints.
+ *
+ * @param response - Express response object.
+ * @param statusCode - HTTP status code to return.
+ * @param message - Human-readable error message.
+ * @param errorDetails - Optional error object for logging (not sent to client).
+ */
+const writeErrorResponse = (
+    response: Response,
+    statusCode: number,
+    message: string,
+    errorDetails?: unknown,
+): void => {
+    // Log the error details for debugging (not exposed to client)
+    if (errorDetails !== undefined) {
+        if (VERBOSE)
+            errorLogger(`Error [${statusCode}]: ${message}`, errorDetails);
+    }
+
+    // Set response headers and send JSON:API error payload
+    response.setHeader("Content-Type", JSONAPI_CONTENT_TYPE);
+    response.status(statusCode);
+    response.json({
+        jsonapi: { version: "1.1" },
+        errors: [
+            {
+                status: String(statusCode),
+                title: message,
+            },
+        ],
+    });
+};
+
+/**
+ * Fetches a single postcode.
+ *
+ * This endpoint returns the localities sharing the postcode,
+ * the states it spans, and address counts.
+ *
+ * @param request - Express request augmented with Swagger metadata.
+ * @param response - Express response.
+ */
+export function getPostcode(request: SwaggerRequest, response: Response): void {
+    // Log the incoming request for debugging
+    if (VERBOSE) logger("IN getPostcode");
+
+    // Extract the postcode from the validated Swagger parameters
+    const postcode = request.swagger.params.postcode?.value;
+
+    // Guard against missing postcode (should not occur with proper Swagger validation)
+    if (postcode === undefined) {
+        writeErrorResponse(
+            response,
+            400,
+            "Missing required parameter: postcode",
+        );
+        return;
+    }
+
+    // Fetch the postcode from OpenSearch and handle the response
+    const postcodePromise = fetchPostcode(
+        postcode,
+    ) as Promise<PostcodeResponse>;
+
+    postcodePromise
+        .then((postcodeResponse) => {
+            // Handle error responses from the service layer (JSON:API error documents)
+            if (postcodeResponse.statusCode !== undefined) {
+                // Set JSON:API content type and return the error response
+                response.setHeader("Content-Type", JSONAPI_CONTENT_TYPE);
+                response.status(postcodeResponse.statusCode);
+                response.json(postcodeResponse.json);
+                return;
+            }
+
+            // Handle success responses with HATEOAS links
+            if (postcodeResponse.link !== undefined) {
+                response.setHeader("link", postcodeResponse.link.toString());
+            }
+
+            // Set JSON:API content type and write the postcode data
+            response.setHeader("Content-Type", JSONAPI_CONTENT_TYPE);
+            writeJson(response, postcodeResponse.json);
+        })
+        .catch((error: unknown) => {
+            // Handle unexpected errors from the service layer
+            writeErrorResponse(
+                response,
+                500,
+                "An unexpected error occurred while fetching the postcode",
+                error,
+            );
+        });
+}
+
+/**
+ * Searches for postcodes matching a query string with pagination support.
+ *
+ * This endpoint provides autocomplete/typeahead functionality for postcode
+ * searches. It matches postcode prefixes and the names of the localities
+ * using each postcode.
+ *
+ * @param request - Express request augmented with Swagger metadata.
+ * @param response - Express response.
+ */
+export function getPostcodes(
+    request: SwaggerRequest,
+    response: Response,
+): void {
+    // Extract search query and page number from validated Swagger parameters
+    const q = request.swagger.params.q?.value;
+    const p = request.swagger.params.p?.value;
+
+    // Construct the base URL for HATEOAS link generation
+    const url = new URL(
+        request.url,
+        `http://localhost:${process.env.PORT ?? "7234"}`,
+    );
+
+    // Fetch matching postcodes from OpenSearch
+    // Cast swagger context as the service expects the path.get structure
+    const postcodesPromise = fetchPostcodes(
+        url.pathname,
+        request.swagger as Parameters<typeof fetchPostcodes>[1],
+        q,
+        p,
+    ) as Promise<PostcodeResponse>;
+
+    postcodesPromise
+        .then((postcodesResponse) => {
+            // Handle error responses from the service layer (JSON:API error documents)
+            if (postcodesResponse.statusCode !== undefined) {
+                response.setHeader("Content-Type", JSONAPI_CONTENT_TYPE);
+                response.status(postcodesResponse.statusCode);
+                response.json(postcodesResponse.json);
+                return;
+            }
+
+            // Set HATEOAS Link header for pagination navigation
+            if (postcodesResponse.link !== undefined) {
+                response.setHeader("link", postcodesResponse.link.toString());
+            }
+
+            // Set Link-Template header for API discoverability (RFC 6570)
+            if (postcodesResponse.linkTemplate !== undefined) {
+                response.setHeader(
+                    "link-template",
+                    postcodesResponse.linkTemplate.toString(),
+                );
+            }
+
+            // Set JSON:API content type and write the search results
+            response.setHeader("Content-Type", JSONAPI_CONTENT_TYPE);
+            writeJson(response, postcodesResponse.json);
+        })
+        .catch((error: unknown) => {
+            // Handle unexpected errors from the service layer
+            writeErrorResponse(
+                response,
+                500,
+                "An unexpected error occurred while searching postcodes",
+                error,
+            );
+        });
+}
@@ -0,0 +1,228 @@
+import { writeJson } from "@repo/addresskit-core";
+import debug from "debug";
+import type { Request, Response } from "express";
+import {
+    getStreet as fetchStreet,
+    getStreets as fetchStreets,
+} from "../service";
+import { VERBOSE } from "../service/config";
+import { JSONAPI_CONTENT_TYPE } from "../service/helpers/jsonapi";
+
+/**
+ * Structured response from street service functions.
+ * May contain either success data (link, json) or error data (statusCode, json).
+ */
+type StreetResponse = {
+    /** HTTP status code for error responses */
+    statusCode?: number;
+    /** Response body payload */
+    json: unknown;
+    /** HATEOAS Link header for navigation */
+    link?: { toString(): string };
+    /** Link-Template header for API discoverability */
+    linkTemplate?: { toString(): string };
+};
+
+/**
+ * Extended Express Request with Swagger-tools augmentation.
+ * Swagger-tools middleware attaches parsed parameters and metadata.
+ */
+type SwaggerRequest = Request & {
+    swagger: {
+        /** Parsed and validated request parameters */
+        params: {
+            streetLocalityPid?: { value: string };
+            q?: { value: string | undefined };
+            p?: { value: number | undefined };
+        };
+        /** Swagger path definition for the matched route */
+        path?: {
+            get?: {
+                operationId?: string;
+                "x-swagger-router-controller"?: string;
+                "x-root-rel"?: string;
+                summary?: string;
+                parameters?: Array<{
+                    name: string;
+                    in: string;
+                    required?: boolean;
+                }>;
+            };
+        };
+    };
+};
+
+/**
+ * The logger for the API street controller.
+ */
+const logger = debug("api:streets");
+
+/**
+ * The logger for errors.
+ */
+const errorLogger = debug("error:streets");
+
+/**
+ * Writes a standardized JSON:API error response to the client.
+ * Used for consistent error handling across all street endpoints.
+ *
+ * @param response - Express response object.
+ * @param statusCode - HTTP status code to return.
+ * @param message - Human-readable error message.
+ * @param errorDetails - Optional error object for logging (not sent to client).
+ */
+const writeErrorResponse = (
+    response: Response,
+    statusCode: number,
+    message: string,
+    errorDetails?: unknown,
+): void => {
+    // Log the error details for debugging (not exposed to client)
+    if (errorDetails !== undefined) {
+        if (VERBOSE)
+            errorLogger(`Error [${statusCode}]: ${message}`, errorDetails);
+    }
+
+    // Set response headers and send JSON:API error payload
+    response.setHeader("Content-Type", JSONAPI_CONTENT_TYPE);
+    response.status(statusCode);
+    response.json({
+        jsonapi: { version: "1.1" },
+        errors: [
+            {
+                status: String(statusCode),
+                title: message,
+            },
+        ],
+    });
+};
+
+/**
+ * Fetches a single street by its unique G-NAF Street Locality PID.
+ *
+ * This endpoint returns the full street data including
+ * name, type, locality, state, postcodes, and address count.
+ *
+ * @param request - Express request augmented with Swagger metadata.
+ * @param response - Express response.
+ */
+export function getStreet(request: SwaggerRequest, response: Response): void {
+    // Log the incoming request for debugging
+    if (VERBOSE) logger("IN getStreet");
+
+    // Extract the street locality PID from the validated Swagger parameters
+    const streetLocalityPid = request.swagger.params.streetLocalityPid?.value;
+
+    // Guard against missing street locality PID (should not occur with proper Swagger validation)
+    if (streetLocalityPid === undefined) {
+        writeErrorResponse(
+            response,
+            400,
+            "Missing required parameter: streetLocalityPid",
+        );
+        return;
+    }
+
+    // Fetch the street from OpenSearch and handle the response
+    const streetPromise = fetchStreet(
+        streetLocalityPid,
+    ) as Promise<StreetResponse>;
+
+    streetPromise
+        .then((streetResponse) => {
+            // Handle error responses from the service layer (JSON:API error documents)
+            if (streetResponse.statusCode !== undefined) {
+                // Set JSON:API content type and return the error response
+                response.setHeader("Content-Type", JSONAPI_CONTENT_TYPE);
+                response.status(streetResponse.statusCode);
+                response.json(streetResponse.json);
+                return;
+            }
+
+            // Handle success responses with HATEOAS links
+            if (streetResponse.link !== undefined) {
+                response.setHeader("link", streetResponse.link.toString());
+            }
+
+            // Set JSON:API content type and write the street data
+            response.setHeader("Content-Type", JSONAPI_CONTENT_TYPE);
+            writeJson(response, streetResponse.json);
+        })
+        .catch((error: unknown) => {
+            // Handle unexpected errors from the service layer
+            writeErrorResponse(
+                response,
+                500,
+                "An unexpected error occurred while fetching the street",
+                error,
+            );
+        });
+}
+
+/**
+ * Searches for streets matching a query string with pagination support.
+ *
+ * This endpoint provides autocomplete/typeahead functionality for street
+ * searches. It uses fuzzy matching against street names, localities, states,
+ * and postcodes.
+ *
+ * @param request - Express request augmented with Swagger metadata.
+ * @param response - Express response.
+ */
+export function getStreets(request: SwaggerRequest, response: Response): void {
+    // Extract search query and page number from validated Swagger parameters
+    const q = request.swagger.params.q?.value;
+    const p = request.swagger.params.p?.value;
+
+    // Construct the base URL for HATEOAS link generation
+    const url = new URL(
+        request.url,
+        `http://localhost:${process.env.PORT ?? "7234"}`,
+    );
+
+    // Fetch matching streets from OpenSearch
+    // Cast swagger context as the service expects the path.get structure
+    const streetsPromise = fetchStreets(
+        url.pathname,
+        request.swagger as Parameters<typeof fetchStreets>[1],
+        q,
+        p,
+    ) as Promise<StreetResponse>;
+
+    streetsPromise
+        .then((streetsResponse) => {
+            // Handle error responses from the service layer (JSON:API error documents)
+            if (streetsResponse.statusCode !== undefined) {
+                response.setHeader("Content-Type", JSONAPI_CONTENT_TYPE);
+                response.status(streetsResponse.statusCode);
+                response.json(streetsResponse.json);
+                return;
+            }
+
+            // Set HATEOAS Link header for pagination navigation
+            if (streetsResponse.link !== undefined) {
+                response.setHeader("link", streetsResponse.link.toString());
+            }
+
+            // Set Link-Template header for API discoverability (RFC 6570)
+            if (streetsResponse.linkTemplate !== undefined) {
+                response.setHeader(
+                    "link-template",
+                    streetsResponse.linkTemplate.toString(),
+                );
+            }
+
+            // Set JSON:API content type and write the search results
+            response.setHeader("Content-Type", JSONAPI_CONTENT_TYPE);
+            writeJson(response, streetsResponse.json);
+        })
+        .catch((error: unknown) => {
+            // Handle unexpected errors from the service layer
+            writeErrorResponse(
+                response,
+                500,
+                "An unexpected error occurred while searching streets",
+                error,
+            );
+        });
+}
@@ -0,0 +1,257 @@
+/**
+ * Search Mode Benchmark
+ *
+ * Runs the same address searches against the index with the standard and the
+ * edge n-gram query, and reports the latency of each mode. Modes alternate
+ * query by query, so load on the cluster affects both equally.
+ */
+
+import * as fs from "node:fs";
+import { performance } from "node:perf_hooks";
+import debug from "debug";
+import { searchForAddress } from "..";
+import { ES_INDEX_NAME, VERBOSE } from "../config";
+import type * as Types from "../types/index";
+
+/**
+ * The logger for the benchmark.
+ */
+const logger = debug("api");
+
+/**
+ * The query modes compared by the benchmark, in the order they are reported.
+ */
+export const BENCHMARK_MODES: Types.AddressSearchMode[] = [
+    "standard",
+    "edge-ngram",
+];
+
+/**
+ * Searches run when no query file is given: partly typed addresses of the
+ * kind an autocomplete field sends, from short and broad to long and specific.
+ */
+export const DEFAULT_BENCHMARK_QUERIES = [
+    "1 george",
+    "10 smith st",
+    "22 main rd",
+    "5 high street",
+    "100 queen st melb",
+    "300 barangaroo",
+    "1 martin pl syd",
+    "unit 4 12 church",
+    "level 2 88 pitt",
+    "15 beach rd bond",
+    "7 station st box hill",
+    "42 wallaby way",
+    "2 king william st adel",
+    "50 st georges tce perth",
+    "3 hay st subi",
+    "11 mitchell st darwin",
+    "9 elizabeth st hob",
+    "18 northbourne av",
+    "150 anzac pde kensing",
+    "60 margaret st brisbane",
+];
+
+/**
+ * Latency statistics for one query mode, in milliseconds.
+ */
+export interface SearchModeLatency {
+    /** The query mode */
+    mode: Types.AddressSearchMode;
+    /** Number of timed searches */
+    samples: number;
+    /** Median round-trip latency */
+    p50: number;
+    /** 95th percentile round-trip latency */
+    p95: number;
+    /** Mean round-trip latency */
+    mean: number;
+    /** Median time OpenSearch reported spending on the search */
+    tookP50: number;
+    /** 95th percentile time OpenSearch reported spending on the search */
+    tookP95: number;
+}
+
+/**
+ * Progress information for a benchmark run.
+ */
+export interface BenchmarkProgress {
+    /** Timed searches completed so far */
+    completed: number;
+    /** Timed searches in the run */
+    total: number;
+}
+
+/**
+ * Options for a benchmark run.
+ */
+export interface BenchmarkOptions {
+    /** Timed passes over the queries (default: 5) */
+    iterations?: number;
+    /** Hits requested per search (default: PAGE_SIZE) */
+    pageSize?: number;
+    /** Callback for progress updates */
+    onProgress?: (progress: BenchmarkProgress) => void;
+}
+
+/**
+ * Reads benchmark queries from a file, one per line. Blank lines and lines
+ * starting with `#` are skipped.
+ *
+ * @param file - Path of the query file.
+ * @returns The queries.
+ */
+export const readBenchmarkQueries = async (file: string): Promise<string[]> =>
+    (await fs.promises.readFile(file, "utf8"))
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter((line) => line !== "" && !line.startsWith("#"));
+
+/**
+ * Checks that the address index has the edge n-gram subfields the
+ * `edge-ngram` mode queries.
+ *
+ * @returns True when the single-line address has an `edge` subfield.
+ */
+export const hasEdgeNgramFields = async (): Promise<boolean> => {
+    const mapping = await (
+        global.esClient as Types.OpensearchClient
+    ).indices.getMapping({ index: ES_INDEX_NAME });
+    return Object.values(
+        mapping.body as Record<
+            string,
+            {
+                mappings?: {
+                    properties?: {
+                        sla?: { fields?: Record<string, unknown> };
+                    };
+                };
+            }
+        >,
+    ).some((index) => index.mappings?.properties?.sla?.fields?.edge);
+};
+
+/**
+ * Picks a percentile from sorted values, by the nearest-rank method.
+ *
+ * @param sorted - The values, in ascending order.
+ * @param percentile - The percentile to pick (0-100).
+ * @returns The value at the percentile, or 0 when there are no values.
+ */
+const pickPercentile = (sorted: number[], percentile: number): number =>
+    sorted.length === 0
+        ? 0
+        : sorted[
+              Math.min(
+                  sorted.length - 1,
+                  Math.max(
+                      0,
+                      Math.ceil((percentile / 100) * sorted.length) - 1,
+                  ),
+              )
+          ];
+
+/**
+ * Runs one search and times it.
+ *
+ * @param query - The search string.
+ * @param mode - The query mode.
+ * @param pageSize - Hits requested.
+ * @returns The round-trip latency and the time OpenSearch reported, in milliseconds.
+ */
+const timeSearch = async (
+    query: string,
+    mode: Types.AddressSearchMode,
+    pageSize: number | undefined,
+): Promise<{ latency: number; took: number }> => {
+    const start = performance.now();
+    const { searchResponse } = await searchForAddress(
+        query,
+        1,
+        pageSize,
+        undefined,
+        undefined,
+        mode,
+    );
+    const latency = performance.now() - start;
+    return { latency, took: searchResponse.body.took ?? 0 };
+};
+
+/**
+ * Benchmarks the standard and edge n-gram query modes against the same index.
+ *
+ * One untimed pass per mode warms the caches of OpenSearch, then every query
+ * is searched once per mode on each timed pass, alternating which mode goes
+ * first. The search cache must be disabled (ADDRESSKIT_CACHE_ENABLED=false),
+ * or repeated searches are answered without reaching OpenSearch.
+ *
+ * @param queries - The search strings to run.
+ * @param options - Benchmark options.
+ * @returns The latency statistics of each mode.
+ */
+export const benchmarkSearchModes = async (
+    queries: string[],
+    options: BenchmarkOptions = {},
+): Promise<SearchModeLatency[]> => {
+    const { iterations = 5, pageSize, onProgress } = options;
+
+    // Warm up both modes without recording
+    for (const mode of BENCHMARK_MODES) {
+        for (const query of queries) {
+            await timeSearch(query, mode, pageSize);
+        }
+    }
+
+    const latencies = new Map<Types.AddressSearchMode, number[]>(
+        BENCHMARK_MODES.map((mode) => [mode, []]),
+    );
+    const tooks = new Map<Types.AddressSearchMode, number[]>(
+        BENCHMARK_MODES.map((mode) => [mode, []]),
+    );
+    const total = iterations * queries.length * BENCHMARK_MODES.length;
+    let completed = 0;
+
+    for (let iteration = 0; iteration < iterations; iteration++) {
+        for (const [position, query] of queries.entries()) {
+            // Alternate the order of the modes to cancel out ordering effects
+            const modes =
+                (iteration + position) % 2 === 0
+                    ? BENCHMARK_MODES
+                    : [...BENCHMARK_MODES].reverse();
+            for (const mode of modes) {
+                const { latency, took } = await timeSearch(
+                    query,
+                    mode,
+                    pageSize,
+                );
+                latencies.get(mode)?.push(latency);
+                tooks.get(mode)?.push(took);
+                completed++;
+                onProgress?.({ completed, total });
+            }
+        }
+    }
+
+    return BENCHMARK_MODES.map((mode) => {
+        const modeLatencies = [...(latencies.get(mode) ?? [])].sort(
+            (a, b) => a - b,
+        );
+        const modeTooks = [...(tooks.get(mode) ?? [])].sort((a, b) => a - b);
+        const result: SearchModeLatency = {
+            mode,
+            samples: modeLatencies.length,
+            p50: pickPercentile(modeLatencies, 50),
+            p95: pickPercentile(modeLatencies, 95),
+            mean:
+                modeLatencies.length === 0
+                    ? 0
+                    : modeLatencies.reduce((sum, value) => sum + value, 0) /
+                      modeLatencies.length,
+            tookP50: pickPercentile(modeTooks, 50),
+            tookP95: pickPercentile(modeTooks, 95),
+        };
+        if (VERBOSE) logger("benchmark result", result);
+        return result;
+    });
+};
@@ -0,0 +1,368 @@
+/**
+ * Address File Geocoding
+ *
+ * Streams a CSV or PSV file of addresses, matches each row against the
+ * address index in batches, and writes the rows back out with the matched
+ * address PID, single-line address, confidence, match score and default
+ * geocode appended.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import debug from "debug";
+import * as Papa from "papaparse";
+import { validateAddressBatch } from "..";
+import { BATCH_MAX_ITEMS, VERBOSE } from "../config";
+import type * as Types from "../types/index";
+
+/**
+ * The logger for the geocoder.
+ */
+const logger = debug("api");
+
+/**
+ * The logger for errors.
+ */
+const error = debug("error");
+
+/**
+ * Columns appended to every output row, in order.
+ */
+export const GEOCODE_OUTPUT_COLUMNS = [
+    "pid",
+    "sla",
+    "confidence",
+    "score",
+    "latitude",
+    "longitude",
+] as const;
+
+/**
+ * The match details appended to an output row.
+ */
+type GeocodeMatch = Record<(typeof GEOCODE_OUTPUT_COLUMNS)[number], string>;
+
+/**
+ * How a row was resolved.
+ */
+type GeocodeStatus = "matched" | "unmatched" | "failed";
+
+/**
+ * Progress information for file geocoding.
+ */
+export interface GeocodeProgress {
+    /** Number of rows written so far */
+    rows: number;
+    /** Rows matched to an address so far */
+    matched: number;
+    /** Characters of the input file parsed so far (bytes for ASCII files) */
+    bytesRead: number;
+    /** Size of the input file in bytes */
+    totalBytes: number;
+    /** Processing speed in rows per second */
+    rowsPerSecond: number;
+}
+
+/**
+ * Totals for a completed geocoding run.
+ */
+export interface GeocodeSummary {
+    /** Number of rows written */
+    rows: number;
+    /** Rows matched to an address */
+    matched: number;
+    /** Rows that nothing in the index resembled */
+    unmatched: number;
+    /** Rows without an address, or whose lookup failed */
+    failed: number;
+}
+
+/**
+ * Options for geocoding an address file.
+ */
+export interface GeocodeFileOptions {
+    /** Column holding the full free-text address */
+    column?: string;
+    /** Component columns joined, in order, to form the address */
+    columns?: string[];
+    /** Field delimiter (default: "|" for .psv files, "," otherwise) */
+    delimiter?: string;
+    /** Callback for progress updates */
+    onProgress?: (progress: GeocodeProgress) => void;
+}
+
+/**
+ * Picks the field delimiter for a file from its extension.
+ *
+ * @param file - The file path.
+ * @returns "|" for pipe-separated files, otherwise ",".
+ */
+export const getDelimiterForFile = (file: string): string =>
+    path.extname(file).toLowerCase() === ".psv" ? "|" : ",";
+
+/**
+ * Builds the free-text address for a row.
+ *
+ * @param row - The parsed input row.
+ * @param column - Column holding the full address, if any.
+ * @param columns - Component columns to join, if any.
+ * @returns The address, or an empty string when the row has none.
+ */
+const getRowAddress = (
+    row: Record<string, string>,
+    column: string | undefined,
+    columns: string[] | undefined,
+): string => {
+    if (columns !== undefined && columns.length > 0) {
+        return columns
+            .map((name) => row[name]?.trim() ?? "")
+            .filter((value) => value !== "")
+            .join(" ");
+    }
+    return row[column ?? "address"]?.trim() ?? "";
+};
+
+/**
+ * Matches a batch of addresses against the index.
+ *
+ * @param addresses - The free-text addresses, one per row.
+ * @returns The match details for each address, in order (empty when unmatched).
+ * @throws {Error} If the batch as a whole fails (e.g. OpenSearch is unavailable).
+ */
+const matchAddresses = async (
+    addresses: string[],
+): Promise<{ match: GeocodeMatch; status: GeocodeStatus }[]> => {
+    const empty: GeocodeMatch = {
+        pid: "",
+        sla: "",
+        confidence: "",
+        score: "",
+        latitude: "",
+        longitude: "",
+    };
+
+    // Rows without an address are not sent to the index
+    const items = addresses
+        .map((q, index) => ({ q, index }))
+        .filter(({ q }) => q !== "");
+    const results = addresses.map(
+        (): { match: GeocodeMatch; status: GeocodeStatus } => ({
+            match: empty,
+            status: "failed",
+        }),
+    );
+    if (items.length === 0) return results;
+
+    const response = await validateAddressBatch(items.map(({ q }) => ({ q })));
+    if ("statusCode" in response && response.statusCode !== undefined) {
+        const [batchError] = (response.json as Types.JsonApiErrorDocument)
+            .errors;
+        throw new Error(
+            `Address batch failed: ${batchError?.detail ?? batchError?.title ?? response.statusCode}`,
+        );
+    }
+
+    const document = response.json as unknown as Types.AddressBatchDocument;
+    const addressesById = new Map(
+        document.included.map((resource) => [resource.id, resource.attributes]),
+    );
+    document.data.forEach((result, position) => {
+        const { index } = items[position];
+        const addressId = (
+            result.relationships?.address?.data as
+                | Types.JsonApiResourceIdentifier
+                | undefined
+        )?.id;
+        const address =
+            addressId === undefined ? undefined : addressesById.get(addressId);
+        if (result.attributes.error !== undefined || address === undefined) {
+            results[index] = {
+                match: { ...empty, score: `${result.attributes.score ?? ""}` },
+                status:
+                    result.attributes.error !== undefined
+                        ? "failed"
+                        : "unmatched",
+            };
+            return;
+        }
+
+        const geocodes = address.geo?.geocodes ?? [];
+        const geocode =
+            geocodes.find((candidate) => candidate.isDefault) ?? geocodes[0];
+        results[index] = {
+            match: {
+                pid: address.pid,
+                sla: address.sla,
+                confidence: `${address.structured.confidence ?? ""}`,
+                score: `${result.attributes.score ?? ""}`,
+                latitude: `${geocode?.latitude ?? ""}`,
+                longitude: `${geocode?.longitude ?? ""}`,
+            },
+            status: "matched",
+        };
+    });
+    return results;
+};
+
+/**
+ * Geocodes an address file.
+ *
+ * The input is streamed with Papa Parse and each parsed chunk is matched in
+ * batches of `BATCH_MAX_ITEMS` rows, pausing the parser until the chunk has
+ * been written, so large files never have to fit in memory. Every input row
+ * is written to the output, in order, with `GEOCODE_OUTPUT_COLUMNS` appended;
+ * the match columns are empty when a row could not be matched.
+ *
+ * @param input - Path of the CSV or PSV file to read.
+ * @param output - Path of the file to write.
+ * @param options - The address columns, delimiter and progress callback.
+ * @returns Promise resolving to the totals for the run.
+ * @throws {Error} If the file cannot be read, has no address column, or the index is unavailable.
+ */
+export const geocodeFile = async (
+    input: string,
+    output: string,
+    options: GeocodeFileOptions = {},
+): Promise<GeocodeSummary> => {
+    const { column, columns, onProgress } = options;
+    const delimiter = options.delimiter ?? getDelimiterForFile(input);
+    const totalBytes = (await fs.promises.stat(input)).size;
+    const summary: GeocodeSummary = {
+        rows: 0,
+        matched: 0,
+        unmatched: 0,
+        failed: 0,
+    };
+    const startTime = Date.now();
+
+    const writer = fs.createWriteStream(output);
+    let fields: string[] | undefined;
+
+    /**
+     * Writes text to the output, waiting for the stream to drain when its
+     * buffer is full.
+     */
+    const write = async (text: string): Promise<void> => {
+        if (!writer.write(text)) {
+            await new Promise<void>((resolve) => writer.once("drain", resolve));
+        }
+    };
+
+    /**
+     * Matches and writes one parsed chunk of rows.
+     */
+    const processChunk = async (
+        rows: Record<string, string>[],
+        inputFields: string[],
+        bytesRead: number,
+    ): Promise<void> => {
+        // Validate the address columns and write the header on the first chunk
+        if (fields === undefined) {
+            const required =
+                columns !== undefined && columns.length > 0
+                    ? columns
+                    : [column ?? "address"];
+            const missing = required.filter(
+                (name) => !inputFields.includes(name),
+            );
+            if (missing.length > 0) {
+                throw new Error(
+                    `Column(s) not found in ${input}: ${missing.join(", ")}`,
+                );
+            }
+            fields = [
+                ...inputFields,
+                ...GEOCODE_OUTPUT_COLUMNS.filter(
+                    (name) => !inputFields.includes(name),
+                ),
+            ];
+            await write(
+                `${Papa.unparse([fields], { delimiter, newline: "\n" })}\n`,
+            );
+        }
+
+        for (let start = 0; start < rows.length; start += BATCH_MAX_ITEMS) {
+            const batch = rows.slice(start, start + BATCH_MAX_ITEMS);
+            const results = await matchAddresses(
+                batch.map((row) => getRowAddress(row, column, columns)),
+            );
+
+            const outputRows = batch.map((row, index) => {
+                const { match, status } = results[index];
+                summary[status] += 1;
+                return { ...row, ...match };
+            });
+            summary.rows += batch.length;
+
+            await write(
+                `${Papa.unparse(outputRows, {
+                    columns: fields,
+                    delimiter,
+                    header: false,
+                    newline: "\n",
+                })}\n`,
+            );
+        }
+
+        const elapsedMs = Date.now() - startTime;
+        onProgress?.({
+            rows: summary.rows,
+            matched: summary.matched,
+            bytesRead,
+            totalBytes,
+            rowsPerSecond:
+                elapsedMs > 0
+                    ? Math.round((summary.rows / elapsedMs) * 1000)
+                    : 0,
+        });
+    };
+
+    try {
+        await new Promise<void>((resolve, reject) => {
+            // Aborting the parser calls `complete` synchronously, so a failed
+            // chunk is kept here for `complete` to reject with
+            let chunkError: Error | undefined;
+
+            Papa.parse(fs.createReadStream(input), {
+                header: true,
+                delimiter,
+                skipEmptyLines: true,
+                chunk: (
+                    chunk: Papa.ParseResult<Record<string, string>>,
+                    parser: Papa.Parser,
+                ) => {
+                    // Pause the parser to apply backpressure
+                    parser.pause();
+
+                    if (chunk.errors.length > 0) {
+                        error(`Errors reading '${input}'`, chunk.errors);
+                    }
+
+                    processChunk(
+                        chunk.data,
+                        chunk.meta.fields ?? [],
+                        chunk.meta.cursor,
+                    )
+                        .then(() => parser.resume())
+                        .catch((error_: Error) => {
+                            chunkError = error_;
+                            parser.abort();
+                        });
+                },
+                complete: () =>
+                    chunkError === undefined ? resolve() : reject(chunkError),
+                error: (parseError: Error) =>
+                    reject(
+                        new Error(
+                            `Failed to parse ${input}: ${parseError.message}`,
+                        ),
+                    ),
+            });
+        });
+    } finally {
+        await new Promise<void>((resolve) => writer.end(resolve));
+    }
+
+    if (VERBOSE) logger("geocoded", input, summary);
+    return summary;
+};
@@ -5,6 +5,8 @@ import * as stream from "node:stream";
 import {
     initIndex,
     initLocalityIndex,
+    initPostcodeIndex,
+    initStreetIndex,
 } from "@repo/addresskit-client/elasticsearch";
 import download from "@repo/addresskit-core/utils/stream-down";
 import directoryExists from "directory-exists";
@@ -12,16 +14,21 @@ import * as got from "got";
 import * as Papa from "papaparse";
 import * as unzip from "unzip-stream";
 import {
+    ABS_MESH_BLOCK_FILE,
     COVERED_STATES,
     DOWNLOAD_BACKOFF_INITIAL,
     DOWNLOAD_BACKOFF_MAX,
     DOWNLOAD_CONNECT_TIMEOUT,
     DOWNLOAD_MAX_RETRIES,
     DOWNLOAD_SOCKET_TIMEOUT,
+    ENABLE_EDGE_NGRAM,
     ENABLE_GEO,
+    ENABLE_STATISTICAL,
     ES_CLEAR_INDEX,
     ES_INDEX_NAME,
     ES_LOCALITY_INDEX_NAME,
+    ES_POSTCODE_INDEX_NAME,
+    ES_STREET_INDEX_NAME,
     GNAF_DIR,
     GNAF_MIRROR_URL,
     GNAF_PACKAGE_URL,
@@ -37,6 +44,7 @@ import {
 } from "../conf";
 import { DYNAMIC_RESOURCES_ENABLED, VERBOSE } from "../config";
 import {
+    type AuthorityCodeEntry,
     ResourceMonitor,
     buildSynonyms,
     clearAuthorityCodeMaps,
@@ -52,6 +60,10 @@ import {
     logInfo,
     logWarning,
     mapAddressDetails,
+    mapGeoPoint,
+    mapStreetLocality,
+    mapToAliasSla,
+    mapToStreetAliasSla,
     startSpinner,
     succeedSpinner,
     theme,
@@ -915,6 +927,30 @@ const processAddressChunk = async (
 
     // Process each row in the chunk
     for (const row of rows) {
+        // Index retired addresses as tombstones with no searchable fields, only
+        // the retirement date and the address that replaced it (the principal
+        // address for an alias, or the building's primary address for a unit)
+        if (row.DATE_RETIRED) {
+            processedCount += 1;
+            const successorPid =
+                context.addressAliasIndexed?.[row.ADDRESS_DETAIL_PID]
+                    ?.PRINCIPAL_PID ??
+                context.primaryIndexed?.[row.ADDRESS_DETAIL_PID];
+            indexingBody.push(
+                {
+                    index: {
+                        _index: ES_INDEX_NAME,
+                        _id: `/addresses/${row.ADDRESS_DETAIL_PID}`,
+                    },
+                },
+                {
+                    dateRetired: row.DATE_RETIRED,
+                    ...(successorPid !== undefined && { successorPid }),
+                },
+            );
+            continue;
+        }
+
         // Map the row to a structured address
         const item = mapAddressDetails(
             row,
@@ -937,12 +973,85 @@ const processAddressChunk = async (
         // Destructure address components for the document body
         const { sla, ssla, ...structured } = item;
 
+        // Index the default geocode as a geo point for distance queries
+        const location = mapGeoPoint(structured.geocoding?.geocodes);
+
+        // Index the address under its locality's alternative names as well
+        const localityAliases =
+            context.localityAliasIndexed?.[row.LOCALITY_PID] ?? [];
+        const aliasSla = localityAliases.map((alias) =>
+            mapToAliasSla(structured.structured, structured.mla, alias),
+        );
+
+        // Index the address under its street's former or alternate names
+        const streetAliasSla = (structured.structured.street.aliases ?? []).map(
+            (alias) => mapToStreetAliasSla(structured.structured, alias),
+        );
+
+        // Link alias addresses to the principal address for the same property
+        const addressAlias =
+            context.addressAliasIndexed?.[row.ADDRESS_DETAIL_PID];
+
+        // Link units to their building's primary address and count a primary's units
+        const primaryPid = context.primaryIndexed?.[row.ADDRESS_DETAIL_PID];
+        const secondaryCount =
+            context.secondaryCountIndexed?.[row.ADDRESS_DETAIL_PID];
+        const precedence =
+            structured.precedence ??
+            (primaryPid !== undefined
+                ? "secondary"
+                : secondaryCount !== undefined
+                  ? "primary"
+                  : undefined);
+
         // Create the document body with pre-computed hash for ETag support
         const docBody = {
             sla,
             ssla,
             structured,
             confidence: structured.structured.confidence,
+            state: structured.structured.state.abbreviation,
+            postcode: structured.structured.postcode,
+            localityPid: row.LOCALITY_PID,
+            ...(row.ADDRESS_SITE_PID && {
+                addressSitePid: row.ADDRESS_SITE_PID,
+            }),
+            ...(row.GNAF_PROPERTY_PID && {
+                gnafPropertyPid: row.GNAF_PROPERTY_PID,
+            }),
+            ...(row.LEGAL_PARCEL_ID && {
+                legalParcelId: row.LEGAL_PARCEL_ID.toUpperCase(),
+            }),
+            ...(localityAliases.length > 0 && { localityAliases, aliasSla }),
+            ...(streetAliasSla.length > 0 && { streetAliasSla }),
+            aliasPrincipal: row.ALIAS_PRINCIPAL,
+            ...(addressAlias !== undefined && {
+                principalPid: addressAlias.PRINCIPAL_PID,
+                aliasTypeCode: addressAlias.ALIAS_TYPE_CODE,
+            }),
+            ...(precedence !== undefined && { precedence }),
+            ...(primaryPid !== undefined && { primaryPid }),
+            // Units share their building's PID so search can collapse them
+            buildingPid: primaryPid ?? row.ADDRESS_DETAIL_PID,
+            ...(secondaryCount !== undefined && { secondaryCount }),
+            ...(structured.structured.level?.number !== undefined && {
+                levelNumber: structured.structured.level.number,
+            }),
+            ...(structured.structured.flat?.number !== undefined && {
+                flatNumber: structured.structured.flat.number,
+            }),
+            ...(structured.structured.number?.number !== undefined && {
+                number: {
+                    number: structured.structured.number.number,
+                    ...(structured.structured.number.last?.number !==
+                        undefined && {
+                        last: {
+                            number: structured.structured.number.last.number,
+                        },
+                    }),
+                },
+            }),
+            ...(location !== undefined && { location }),
         };
 
         // Compute and store the document hash for efficient ETag generation
@@ -1263,24 +1372,32 @@ const getStateName = async (abbr: string, file: string): Promise<string> => {
 };
 
 /**
- * Indexes localities for a state into the localities OpenSearch index.
- *
- * This function reads the address detail file to collect postcodes for each locality,
- * then indexes all localities with their associated postcodes for suburb/postcode
- * autocomplete functionality.
+ * Postcodes and address counts collected from a state's address detail file.
+ */
+type AddressDetailSummary = {
+    /** Address counts for each postcode used in a locality, keyed by LOCALITY_PID then postcode */
+    localityPostcodes: Record<string, Map<string, number>>;
+    /** Postcodes used by addresses on each street, keyed by STREET_LOCALITY_PID */
+    streetPostcodes: Record<string, Set<string>>;
+    /** Number of addresses on each street, keyed by STREET_LOCALITY_PID */
+    streetAddressCounts: Record<string, number>;
+};
+
+/**
+ * Reads a state's address detail file once to collect the postcodes used in
+ * each locality and on each street, and how many addresses each street has.
  *
- * @param context - The mapping context containing locality data and state information.
- * @param addressDetailFile - Path to the ADDRESS_DETAIL PSV file for postcode extraction.
- * @param refresh - Whether to refresh the index after indexing.
- * @returns A promise that resolves when all localities are indexed.
+ * @param addressDetailFile - Path to the ADDRESS_DETAIL PSV file.
+ * @returns A promise that resolves with the collected summary.
  */
-const indexLocalitiesForState = async (
-    context: Types.MapPropertyContext,
+const summariseAddressDetails = async (
     addressDetailFile: string,
-    refresh: boolean,
-): Promise<void> => {
-    // Build a mapping of locality PID -> postcodes from the address detail file
-    const localityPostcodes: Record<string, Set<string>> = {};
+): Promise<AddressDetailSummary> => {
+    const summary: AddressDetailSummary = {
+        localityPostcodes: {},
+        streetPostcodes: {},
+        streetAddressCounts: {},
+    };
 
     // Parse the address detail file to extract postcode associations
     await new Promise<void>((resolve, reject) => {
@@ -1292,21 +1409,53 @@ const indexLocalitiesForState = async (
                 // biome-ignore lint/suspicious/noExplicitAny: papaparse parser type
                 parser: any,
             ) => {
-                // Process each row to collect postcodes for localities
+                // Process each row to collect postcodes and address counts
                 for (const row of chunk.data) {
                     const localityPid = row.LOCALITY_PID;
+                    const streetLocalityPid = row.STREET_LOCALITY_PID;
                     const postcode = row.POSTCODE;
 
-                    // Skip rows without locality or postcode
-                    if (!localityPid || !postcode) continue;
+                    // Count the address against its street
+                    if (streetLocalityPid) {
+                        summary.streetAddressCounts[streetLocalityPid] =
+                            (summary.streetAddressCounts[streetLocalityPid] ??
+                                0) + 1;
+                    }
+
+                    // Skip rows without a postcode
+                    if (!postcode) continue;
 
-                    // Initialize the set if needed
-                    if (localityPostcodes[localityPid] === undefined) {
-                        localityPostcodes[localityPid] = new Set<string>();
+                    // Count the address against the locality's postcode
+                    if (localityPid) {
+                        if (
+                            summary.localityPostcodes[localityPid] === undefined
+                        ) {
+                            summary.localityPostcodes[localityPid] = new Map<
+                                string,
+                                number
+                            >();
+                        }
+                        const postcodeCounts =
+                            summary.localityPostcodes[localityPid];
+                        postcodeCounts.set(
+                            postcode,
+                            (postcodeCounts.get(postcode) ?? 0) + 1,
+                        );
                     }
 
-                    // Add the postcode to the locality's set
-                    localityPostcodes[localityPid].add(postcode);
+                    // Add the postcode to the street's set
+                    if (streetLocalityPid) {
+                        if (
+                            summary.streetPostcodes[streetLocalityPid] ===
+                            undefined
+                        ) {
+                            summary.streetPostcodes[streetLocalityPid] =
+                                new Set<string>();
+                        }
+                        summary.streetPostcodes[streetLocalityPid].add(
+                            postcode,
+                        );
+                    }
                 }
             },
             complete: () => resolve(),
@@ -1314,6 +1463,25 @@ const indexLocalitiesForState = async (
         });
     });
 
+    return summary;
+};
+
+/**
+ * Indexes localities for a state into the localities OpenSearch index.
+ *
+ * All localities are indexed with the postcodes used by their addresses for
+ * suburb/postcode autocomplete functionality.
+ *
+ * @param context - The mapping context containing locality data and state information.
+ * @param localityPostcodes - Postcodes for each locality, from `summariseAddressDetails`.
+ * @param refresh - Whether to refresh the index after indexing.
+ * @returns A promise that resolves when all localities are indexed.
+ */
+const indexLocalitiesForState = async (
+    context: Types.MapPropertyContext,
+    localityPostcodes: Record<string, Map<string, number>>,
+    refresh: boolean,
+): Promise<void> => {
     // Get the indexed localities and authority code context
     const localityIndexed = context.localityIndexed ?? {};
     const state = context.state ?? "";
@@ -1329,7 +1497,7 @@ const indexLocalitiesForState = async (
     for (const [localityPid, localityData] of Object.entries(localityIndexed)) {
         // Get postcodes for this locality (sorted for consistency)
         const postcodes = localityPostcodes[localityPid]
-            ? Array.from(localityPostcodes[localityPid]).sort()
+            ? Array.from(localityPostcodes[localityPid].keys()).sort()
             : [];
 
         // Use the first postcode as the primary (most common for display)
@@ -1356,6 +1524,10 @@ const indexLocalitiesForState = async (
         indexingBody.push({
             display,
             name: localityData.LOCALITY_NAME,
+            aliases: context.localityAliasIndexed?.[localityPid] ?? [],
+            ...(context.localityPointIndexed?.[localityPid] !== undefined && {
+                location: context.localityPointIndexed[localityPid],
+            }),
             localityPid,
             stateAbbreviation: state,
             stateName,
@@ -1372,6 +1544,283 @@ const indexLocalitiesForState = async (
     }
 };
 
+/**
+ * Number of street documents sent per bulk request. States have far more
+ * streets than localities, so they are indexed in several requests.
+ */
+const STREET_INDEX_BULK_SIZE = 5000;
+
+/**
+ * Indexes streets for a state into the streets OpenSearch index.
+ *
+ * Each street locality is indexed with its decoded type, suffix and class,
+ * its locality and state, the postcodes used by its addresses and how many
+ * addresses it has, for "street first, then number" autocomplete.
+ *
+ * @param context - The mapping context containing street, locality and state information.
+ * @param summary - Postcodes and address counts from `summariseAddressDetails`.
+ * @param refresh - Whether to refresh the index after indexing.
+ * @returns A promise that resolves when all streets are indexed.
+ */
+const indexStreetsForState = async (
+    context: Types.MapPropertyContext,
+    summary: AddressDetailSummary,
+    refresh: boolean,
+): Promise<void> => {
+    const streetLocalityIndexed = context.streetLocalityIndexed ?? {};
+    const localityIndexed = context.localityIndexed ?? {};
+    const state = context.state ?? "";
+    const stateName = context.stateName ?? "";
+
+    // Build the bulk indexing body for streets
+    const indexingBody: Types.BulkIndexBody = [];
+
+    for (const [streetLocalityPid, streetData] of Object.entries(
+        streetLocalityIndexed,
+    )) {
+        // Skip blank rows left by the PSV parser
+        if (!streetLocalityPid) continue;
+
+        // Decode the street type, suffix and class codes. The full name uses
+        // the long forms: G-NAF street type codes are the full word ("STREET")
+        // while street suffix codes are abbreviated ("N" for "NORTH").
+        const street = mapStreetLocality(streetData, context);
+        const name = [
+            street.name,
+            street.type?.code,
+            street.suffix?.name ?? street.suffix?.code,
+        ]
+            .filter((part) => part !== undefined && part !== "")
+            .join(" ");
+
+        // Get the locality this street belongs to
+        const localityPid = streetData.LOCALITY_PID ?? "";
+        const localityName = localityIndexed[localityPid]?.LOCALITY_NAME ?? "";
+
+        // Get postcodes for this street (sorted for consistency)
+        const postcodes = summary.streetPostcodes[streetLocalityPid]
+            ? Array.from(summary.streetPostcodes[streetLocalityPid]).sort()
+            : [];
+        const primaryPostcode = postcodes[0] ?? "";
+
+        // Build the display string (e.g., "GEORGE STREET, SYDNEY NSW 2000")
+        const display = [`${name},`, localityName, state, primaryPostcode]
+            .filter((part) => part !== "")
+            .join(" ");
+
+        // Add the index operation header
+        indexingBody.push({
+            index: {
+                _index: ES_STREET_INDEX_NAME,
+                _id: `/streets/${streetLocalityPid}`,
+            },
+        });
+
+        // Add the street document body
+        indexingBody.push({
+            display,
+            name,
+            streetLocalityPid,
+            streetName: street.name ?? "",
+            ...(street.type !== undefined && {
+                typeCode: street.type.code,
+                typeName: street.type.name,
+            }),
+            ...(street.suffix !== undefined && {
+                suffixCode: street.suffix.code,
+                suffixName: street.suffix.name,
+            }),
+            ...(street.class !== undefined && {
+                classCode: street.class.code,
+                className: street.class.name,
+            }),
+            localityPid,
+            localityName,
+            stateAbbreviation: state,
+            stateName,
+            postcode: primaryPostcode,
+            postcodes,
+            addressCount: summary.streetAddressCounts[streetLocalityPid] ?? 0,
+        });
+
+        // Send a full batch and start the next one
+        if (indexingBody.length >= STREET_INDEX_BULK_SIZE * 2) {
+            await sendIndexRequest(indexingBody.splice(0), undefined, {
+                refresh,
+            });
+        }
+    }
+
+    // Send the remaining streets
+    if (indexingBody.length > 0) {
+        await sendIndexRequest(indexingBody, undefined, { refresh });
+    }
+};
+
+/**
+ * The localities and states using a postcode, accumulated across states
+ * because some postcodes cross state borders (e.g., 2620 in ACT and NSW).
+ */
+type PostcodeSummary = {
+    /** Full state names keyed by state abbreviation */
+    states: Record<string, string>;
+    /** Localities using the postcode with the number of their addresses that do */
+    localities: {
+        localityPid: string;
+        name: string;
+        state: string;
+        addressCount: number;
+    }[];
+};
+
+/**
+ * Adds a state's locality–postcode associations to the postcode summaries.
+ *
+ * @param context - The mapping context containing locality data and state information.
+ * @param localityPostcodes - Address counts for each locality's postcodes, from `summariseAddressDetails`.
+ * @param postcodes - The postcode summaries to add to, keyed by postcode.
+ */
+const collectPostcodeLocalities = (
+    context: Types.MapPropertyContext,
+    localityPostcodes: Record<string, Map<string, number>>,
+    postcodes: Record<string, PostcodeSummary>,
+): void => {
+    const localityIndexed = context.localityIndexed ?? {};
+    const state = context.state ?? "";
+    const stateName = context.stateName ?? "";
+
+    for (const [localityPid, postcodeCounts] of Object.entries(
+        localityPostcodes,
+    )) {
+        for (const [postcode, addressCount] of postcodeCounts) {
+            if (postcodes[postcode] === undefined) {
+                postcodes[postcode] = { states: {}, localities: [] };
+            }
+            postcodes[postcode].states[state] = stateName;
+            postcodes[postcode].localities.push({
+                localityPid,
+                name: localityIndexed[localityPid]?.LOCALITY_NAME ?? "",
+                state,
+                addressCount,
+            });
+        }
+    }
+};
+
+/**
+ * Adds the states and localities of other states already indexed for the
+ * postcodes to their summaries.
+ *
+ * A load limited by `COVERED_STATES` only sees part of a postcode that
+ * crosses a state border, so the parts indexed by earlier loads of the
+ * other states are kept rather than overwritten.
+ *
+ * @param postcodes - The postcode summaries collected by `collectPostcodeLocalities`.
+ * @param loadedStates - The abbreviations of the states processed by this load.
+ * @returns A promise that resolves when the summaries are merged.
+ */
+const mergeIndexedPostcodes = async (
+    postcodes: Record<string, PostcodeSummary>,
+    loadedStates: string[],
+): Promise<void> => {
+    const ids = Object.keys(postcodes).map(
+        (postcode) => `/postcodes/${postcode}`,
+    );
+    if (ids.length === 0) return;
+
+    const resp = await (global.esClient as Types.OpensearchClient).mget({
+        index: ES_POSTCODE_INDEX_NAME,
+        body: { ids },
+        _source_includes: ["postcode", "states", "localities"],
+    });
+
+    for (const doc of resp.body.docs as {
+        found?: boolean;
+        _source?: {
+            postcode: string;
+            states: { abbreviation: string; name: string }[];
+            localities: PostcodeSummary["localities"];
+        };
+    }[]) {
+        if (!doc.found || doc._source === undefined) continue;
+        const summary = postcodes[doc._source.postcode];
+        if (summary === undefined) continue;
+
+        for (const state of doc._source.states) {
+            if (!loadedStates.includes(state.abbreviation)) {
+                summary.states[state.abbreviation] = state.name;
+            }
+        }
+        for (const locality of doc._source.localities) {
+            if (!loadedStates.includes(locality.state)) {
+                summary.localities.push(locality);
+            }
+        }
+    }
+};
+
+/**
+ * Indexes postcodes into the postcodes OpenSearch index.
+ *
+ * Each postcode is indexed with the localities that use it, the states it
+ * spans and how many addresses have it. Localities are listed busiest first.
+ * Localities of states outside this load that are already indexed for a
+ * postcode are kept (see `mergeIndexedPostcodes`).
+ *
+ * @param postcodes - The postcode summaries collected by `collectPostcodeLocalities`.
+ * @param loadedStates - The abbreviations of the states processed by this load.
+ * @param refresh - Whether to refresh the index after indexing.
+ * @returns A promise that resolves when all postcodes are indexed.
+ */
+const indexPostcodes = async (
+    postcodes: Record<string, PostcodeSummary>,
+    loadedStates: string[],
+    refresh: boolean,
+): Promise<void> => {
+    await mergeIndexedPostcodes(postcodes, loadedStates);
+
+    // Build the bulk indexing body for postcodes
+    const indexingBody: Types.BulkIndexBody = [];
+
+    for (const [postcode, summary] of Object.entries(postcodes)) {
+        const stateAbbreviations = Object.keys(summary.states).sort();
+        const localities = [...summary.localities].sort(
+            (a, b) =>
+                b.addressCount - a.addressCount || a.name.localeCompare(b.name),
+        );
+
+        // Add the index operation header
+        indexingBody.push({
+            index: {
+                _index: ES_POSTCODE_INDEX_NAME,
+                _id: `/postcodes/${postcode}`,
+            },
+        });
+
+        // Add the postcode document body (e.g., display "2620 ACT, NSW")
+        indexingBody.push({
+            display: `${postcode} ${stateAbbreviations.join(", ")}`,
+            postcode,
+            localityNames: localities.map((locality) => locality.name),
+            stateAbbreviations,
+            states: stateAbbreviations.map((abbreviation) => ({
+                abbreviation,
+                name: summary.states[abbreviation],
+            })),
+            localities,
+            addressCount: localities.reduce(
+                (total, locality) => total + locality.addressCount,
+                0,
+            ),
+        });
+    }
+
+    // Send the bulk index request if we have postcodes to index
+    if (indexingBody.length > 0) {
+        await sendIndexRequest(indexingBody, undefined, { refresh });
+    }
+};
+
 /**
  * Loads all G-NAF data from the specified directory into the OpenSearch index.
  *
@@ -1432,12 +1881,28 @@ const initGNAFDataLoader = async (
         loadContext as unknown as Types.MapPropertyContext,
     );
 
-    // Initialize the OpenSearch index with synonyms and appropriate mappings
-    await initIndex(global.esClient, ES_CLEAR_INDEX, synonyms);
+    // Initialize the OpenSearch index with synonyms and appropriate mappings.
+    // The authority code tables are stored in the mapping metadata so the API
+    // (which does not read the G-NAF files) can parse free-text addresses.
+    await initIndex(
+        global.esClient,
+        ES_CLEAR_INDEX,
+        synonyms,
+        {
+            authorityCodes: getAuthorityCodeTables(loadContext),
+        },
+        ENABLE_EDGE_NGRAM,
+    );
 
     // Initialize the OpenSearch locality index for suburb/postcode search
     await initLocalityIndex(global.esClient, ES_CLEAR_INDEX);
 
+    // Initialize the OpenSearch street index for street search
+    await initStreetIndex(global.esClient, ES_CLEAR_INDEX);
+
+    // Initialize the OpenSearch postcode index for postcode search
+    await initPostcodeIndex(global.esClient, ES_CLEAR_INDEX);
+
     // Find all ADDRESS_DETAIL files in the Standard directory for each state
     const addressDetailFiles = files.filter(
         (f) => f.match(/ADDRESS_DETAIL/) && f.match(/\/Standard\//),
@@ -1462,6 +1927,9 @@ const initGNAFDataLoader = async (
             );
     }
 
+    // Postcodes are collected across states and indexed once all are loaded
+    const postcodes: Record<string, PostcodeSummary> = {};
+
     // Process each state's address detail file
     let stateIndex = 0;
     for (const detailFile of addressDetailFiles) {
@@ -1503,6 +1971,41 @@ const initGNAFDataLoader = async (
                 loadContext.streetLocalityIndexed[sl.STREET_LOCALITY_PID] = sl;
             }
 
+            // Load street aliases (former or alternate street names) and index by STREET_LOCALITY_PID
+            if (VERBOSE) logger("Loading street aliases", state);
+            const streetLocalityAlias = await loadStreetLocalityAlias(
+                files,
+                directory,
+                state,
+            );
+            loadContext.streetLocalityAliasIndexed = {};
+            for (const alias of streetLocalityAlias) {
+                const street =
+                    loadContext.streetLocalityIndexed[
+                        alias.STREET_LOCALITY_PID
+                    ];
+
+                // Skip blank rows and aliases that repeat the official name
+                if (
+                    street === undefined ||
+                    !alias.STREET_NAME ||
+                    (alias.STREET_NAME === street.STREET_NAME &&
+                        alias.STREET_TYPE_CODE === street.STREET_TYPE_CODE &&
+                        alias.STREET_SUFFIX_CODE === street.STREET_SUFFIX_CODE)
+                ) {
+                    continue;
+                }
+
+                const aliases =
+                    loadContext.streetLocalityAliasIndexed[
+                        alias.STREET_LOCALITY_PID
+                    ] ?? [];
+                aliases.push(alias);
+                loadContext.streetLocalityAliasIndexed[
+                    alias.STREET_LOCALITY_PID
+                ] = aliases;
+            }
+
             // Load locality (suburb) data and index by LOCALITY_PID
             updateSpinner(
                 `${stateProgress} ${formatState(state)}: Loading localities...`,
@@ -1514,6 +2017,95 @@ const initGNAFDataLoader = async (
                 loadContext.localityIndexed[l.LOCALITY_PID] = l;
             }
 
+            // Load locality aliases (alternative suburb names) and index by LOCALITY_PID
+            if (VERBOSE) logger("Loading suburb aliases", state);
+            const localityAlias = await loadLocalityAlias(
+                files,
+                directory,
+                state,
+            );
+            loadContext.localityAliasIndexed = {};
+            for (const la of localityAlias) {
+                const aliased = loadContext.localityIndexed[la.LOCALITY_PID];
+
+                // Skip blank rows and aliases that repeat the official name
+                if (
+                    aliased === undefined ||
+                    !la.NAME ||
+                    la.NAME === aliased.LOCALITY_NAME
+                ) {
+                    continue;
+                }
+
+                const aliases =
+                    loadContext.localityAliasIndexed[la.LOCALITY_PID] ?? [];
+                if (!aliases.includes(la.NAME)) aliases.push(la.NAME);
+                loadContext.localityAliasIndexed[la.LOCALITY_PID] = aliases;
+            }
+
+            // Load locality centre points and index by LOCALITY_PID
+            if (VERBOSE) logger("Loading suburb points", state);
+            const localityPoint = await loadLocalityPoint(
+                files,
+                directory,
+                state,
+            );
+            loadContext.localityPointIndexed = {};
+            for (const lp of localityPoint) {
+                const lat = Number.parseFloat(lp.LATITUDE);
+                const lon = Number.parseFloat(lp.LONGITUDE);
+
+                // Skip blank rows, retired points and points without coordinates
+                if (
+                    !lp.LOCALITY_PID ||
+                    lp.DATE_RETIRED ||
+                    Number.isNaN(lat) ||
+                    Number.isNaN(lon)
+                ) {
+                    continue;
+                }
+                loadContext.localityPointIndexed[lp.LOCALITY_PID] = {
+                    lat,
+                    lon,
+                };
+            }
+
+            // Load address aliases and index by the alias ADDRESS_DETAIL_PID
+            updateSpinner(
+                `${stateProgress} ${formatState(state)}: Loading address aliases...`,
+            );
+            if (VERBOSE) logger("Loading address aliases", state);
+            const addressAlias = await loadAddressAlias(
+                files,
+                directory,
+                state,
+            );
+            loadContext.addressAliasIndexed = {};
+            for (const aa of addressAlias) {
+                if (!aa.ALIAS_PID || !aa.PRINCIPAL_PID) continue;
+                loadContext.addressAliasIndexed[aa.ALIAS_PID] = aa;
+            }
+
+            // Load building primary/secondary links, indexed both ways
+            updateSpinner(
+                `${stateProgress} ${formatState(state)}: Loading primary and secondary addresses...`,
+            );
+            if (VERBOSE) logger("Loading primary secondary", state);
+            const primarySecondary = await loadPrimarySecondary(
+                files,
+                directory,
+                state,
+            );
+            loadContext.primaryIndexed = {};
+            loadContext.secondaryCountIndexed = {};
+            for (const ps of primarySecondary) {
+                if (!ps.PRIMARY_PID || !ps.SECONDARY_PID) continue;
+                loadContext.primaryIndexed[ps.SECONDARY_PID] = ps.PRIMARY_PID;
+                loadContext.secondaryCountIndexed[ps.PRIMARY_PID] =
+                    (loadContext.secondaryCountIndexed[ps.PRIMARY_PID] ?? 0) +
+                    1;
+            }
+
             // Optionally load geocode data if geocoding is enabled
             if (ENABLE_GEO) {
                 // Load site geocodes (multiple geocodes per address site)
@@ -1545,6 +2137,48 @@ const initGNAFDataLoader = async (
                     );
             }
 
+            // Optionally load ABS mesh blocks if statistical areas are enabled
+            if (ENABLE_STATISTICAL) {
+                updateSpinner(
+                    `${stateProgress} ${formatState(state)}: Loading mesh blocks...`,
+                );
+
+                // Resolve mesh block PIDs to ABS mesh block codes
+                const meshBlocks = await loadMeshBlocks(
+                    files,
+                    directory,
+                    state,
+                );
+                const meshBlockCodes: Record<string, string> = {};
+                for (const mb of meshBlocks) {
+                    meshBlockCodes[mb.MB_2021_PID] = mb.MB_2021_CODE;
+                }
+
+                // Link each address detail to its mesh block
+                loadContext.addressMeshBlockIndexed =
+                    await loadAddressMeshBlock(
+                        files,
+                        directory,
+                        state,
+                        filesCounts,
+                        meshBlockCodes,
+                    );
+
+                // Place the mesh blocks in the ABS statistical area hierarchy
+                loadContext.meshBlockAllocationIndexed =
+                    ABS_MESH_BLOCK_FILE !== undefined
+                        ? await loadMeshBlockAllocation(
+                              ABS_MESH_BLOCK_FILE,
+                              new Set(Object.values(meshBlockCodes)),
+                          )
+                        : {};
+            } else {
+                if (VERBOSE)
+                    logger(
+                        `Skipping mesh blocks. set 'ADDRESSKIT_ENABLE_STATISTICAL' env var to enable`,
+                    );
+            }
+
             // Load and index the address details for this state
             const expectedCount = filesCounts[detailFile] || 0;
             const indexingStartTime = Date.now();
@@ -1588,20 +2222,46 @@ const initGNAFDataLoader = async (
                 `${stateProgress} ${formatState(state)}: ${formatNumber(expectedCount)} addresses indexed in ${formatDuration(indexingDuration)}`,
             );
 
-            // Index localities for this state
+            // Index localities and streets for this state
             const localitySpinner = startSpinner(
                 `${stateProgress} ${formatState(state)}: Indexing localities...`,
             );
+            const addressDetailSummary = await summariseAddressDetails(
+                `${directory}/${detailFile}`,
+            );
             await indexLocalitiesForState(
                 loadContext as unknown as Types.MapPropertyContext,
-                `${directory}/${detailFile}`,
+                addressDetailSummary.localityPostcodes,
                 refresh,
             );
+            collectPostcodeLocalities(
+                loadContext as unknown as Types.MapPropertyContext,
+                addressDetailSummary.localityPostcodes,
+                postcodes,
+            );
             succeedSpinner(
                 `${stateProgress} ${formatState(state)}: Localities indexed`,
             );
+            startSpinner(
+                `${stateProgress} ${formatState(state)}: Indexing streets...`,
+            );
+            await indexStreetsForState(
+                loadContext as unknown as Types.MapPropertyContext,
+                addressDetailSummary,
+                refresh,
+            );
+            succeedSpinner(
+                `${stateProgress} ${formatState(state)}: Streets indexed`,
+            );
         }
     }
+
+    // Index postcodes for all processed states
+    startSpinner("Indexing postcodes...");
+    await indexPostcodes(postcodes, statesToProcess, refresh);
+    succeedSpinner(
+        `${formatNumber(Object.keys(postcodes).length)} postcodes indexed`,
+    );
 };
 
 /**
@@ -1690,39 +2350,96 @@ const loadStreetLocality = async (
 };
 
 /**
- * Loads locality (suburb/town) data from the LOCALITY PSV file for a given state.
+ * Loads street locality alias data from the STREET_LOCALITY_ALIAS PSV file for a given state.
  *
- * Localities represent suburbs, towns, and other named areas. Each record
- * contains the locality name and its classification (e.g., GAZETTED LOCALITY).
+ * Street locality aliases are former or alternate names for a street, such as
+ * the name a street had before it was renamed.
  *
  * @param files - Array of all file paths in the G-NAF directory
  * @param directory - The base directory path containing G-NAF files
  * @param state - The state abbreviation (e.g., "NSW", "VIC", "QLD")
  *
- * @returns An array of locality records for the state
+ * @returns An array of street locality alias records for the state
  * @throws {Error} If the file cannot be parsed
  */
-const loadLocality = async (
+const loadStreetLocalityAlias = async (
     files: string[],
     directory: string,
     state: string,
-): Promise<Types.LocalityRow[]> => {
-    // Find the locality file matching the pattern
-    const localityFile = files.find((f) =>
-        f.match(new RegExp(`${state}_LOCALITY_psv`)),
+): Promise<Types.StreetLocalityAliasRow[]> => {
+    // Find the street locality alias file matching the pattern
+    const aliasFile = files.find((f) =>
+        f.match(new RegExp(`${state}_STREET_LOCALITY_ALIAS_psv`)),
     );
 
     // Log error and return empty array if file not found
-    if (localityFile === undefined) {
-        error(`Could not find locality file '${state}_LOCALITY_psv.psv'`);
+    if (aliasFile === undefined) {
+        error(
+            `Could not find street locality alias file '${state}_STREET_LOCALITY_ALIAS_psv.psv'`,
+        );
         return [];
     }
 
-    // Parse the PSV file and return all locality records
-    return await new Promise<Types.LocalityRow[]>((resolve, reject) => {
-        Papa.parse(fs.createReadStream(`${directory}/${localityFile}`), {
-            header: true,
-            delimiter: "|",
+    // Parse the PSV file and return all street locality alias records
+    return await new Promise<Types.StreetLocalityAliasRow[]>(
+        (resolve, reject) => {
+            Papa.parse(fs.createReadStream(`${directory}/${aliasFile}`), {
+                header: true,
+                delimiter: "|",
+                // On successful parse, resolve with the parsed data
+                complete: (
+                    results: Papa.ParseResult<Types.StreetLocalityAliasRow>,
+                ) => {
+                    resolve(results.data);
+                },
+                // On error, log and reject the promise
+                error: (parseError: Error, file: unknown) => {
+                    console.log(
+                        "[loadStreetLocalityAlias] error parsing file",
+                        parseError,
+                        file,
+                    );
+                    reject(parseError);
+                },
+            });
+        },
+    );
+};
+
+/**
+ * Loads locality (suburb/town) data from the LOCALITY PSV file for a given state.
+ *
+ * Localities represent suburbs, towns, and other named areas. Each record
+ * contains the locality name and its classification (e.g., GAZETTED LOCALITY).
+ *
+ * @param files - Array of all file paths in the G-NAF directory
+ * @param directory - The base directory path containing G-NAF files
+ * @param state - The state abbreviation (e.g., "NSW", "VIC", "QLD")
+ *
+ * @returns An array of locality records for the state
+ * @throws {Error} If the file cannot be parsed
+ */
+const loadLocality = async (
+    files: string[],
+    directory: string,
+    state: string,
+): Promise<Types.LocalityRow[]> => {
+    // Find the locality file matching the pattern
+    const localityFile = files.find((f) =>
+        f.match(new RegExp(`${state}_LOCALITY_psv`)),
+    );
+
+    // Log error and return empty array if file not found
+    if (localityFile === undefined) {
+        error(`Could not find locality file '${state}_LOCALITY_psv.psv'`);
+        return [];
+    }
+
+    // Parse the PSV file and return all locality records
+    return await new Promise<Types.LocalityRow[]>((resolve, reject) => {
+        Papa.parse(fs.createReadStream(`${directory}/${localityFile}`), {
+            header: true,
+            delimiter: "|",
             // On successful parse, resolve with the parsed data
             complete: (results: Papa.ParseResult<Types.LocalityRow>) => {
                 resolve(results.data);
@@ -1740,6 +2457,223 @@ const loadLocality = async (
     });
 };
 
+/**
+ * Loads locality point data from the LOCALITY_POINT PSV file for a given state.
+ *
+ * Locality points are the centre points of localities, used to position a
+ * locality on a map.
+ *
+ * @param files - Array of all file paths in the G-NAF directory
+ * @param directory - The base directory path containing G-NAF files
+ * @param state - The state abbreviation (e.g., "NSW", "VIC", "QLD")
+ *
+ * @returns An array of locality point records for the state
+ * @throws {Error} If the file cannot be parsed
+ */
+const loadLocalityPoint = async (
+    files: string[],
+    directory: string,
+    state: string,
+): Promise<Types.LocalityPointRow[]> => {
+    // Find the locality point file matching the pattern
+    const pointFile = files.find((f) =>
+        f.match(new RegExp(`${state}_LOCALITY_POINT_psv`)),
+    );
+
+    // Log error and return empty array if file not found
+    if (pointFile === undefined) {
+        error(
+            `Could not find locality point file '${state}_LOCALITY_POINT_psv.psv'`,
+        );
+        return [];
+    }
+
+    // Parse the PSV file and return all locality point records
+    return await new Promise<Types.LocalityPointRow[]>((resolve, reject) => {
+        Papa.parse(fs.createReadStream(`${directory}/${pointFile}`), {
+            header: true,
+            delimiter: "|",
+            // On successful parse, resolve with the parsed data
+            complete: (results: Papa.ParseResult<Types.LocalityPointRow>) => {
+                resolve(results.data);
+            },
+            // On error, log and reject the promise
+            error: (parseError: Error, file: unknown) => {
+                console.log(
+                    "[loadLocalityPoint] error parsing file",
+                    parseError,
+                    file,
+                );
+                reject(parseError);
+            },
+        });
+    });
+};
+
+/**
+ * Loads locality alias data from the LOCALITY_ALIAS PSV file for a given state.
+ *
+ * Locality aliases are alternative names for a locality, such as colloquial
+ * or historic suburb names, that users may type instead of the official name.
+ *
+ * @param files - Array of all file paths in the G-NAF directory
+ * @param directory - The base directory path containing G-NAF files
+ * @param state - The state abbreviation (e.g., "NSW", "VIC", "QLD")
+ *
+ * @returns An array of locality alias records for the state
+ * @throws {Error} If the file cannot be parsed
+ */
+const loadLocalityAlias = async (
+    files: string[],
+    directory: string,
+    state: string,
+): Promise<Types.LocalityAliasRow[]> => {
+    // Find the locality alias file matching the pattern
+    const aliasFile = files.find((f) =>
+        f.match(new RegExp(`${state}_LOCALITY_ALIAS_psv`)),
+    );
+
+    // Log error and return empty array if file not found
+    if (aliasFile === undefined) {
+        error(
+            `Could not find locality alias file '${state}_LOCALITY_ALIAS_psv.psv'`,
+        );
+        return [];
+    }
+
+    // Parse the PSV file and return all locality alias records
+    return await new Promise<Types.LocalityAliasRow[]>((resolve, reject) => {
+        Papa.parse(fs.createReadStream(`${directory}/${aliasFile}`), {
+            header: true,
+            delimiter: "|",
+            // On successful parse, resolve with the parsed data
+            complete: (results: Papa.ParseResult<Types.LocalityAliasRow>) => {
+                resolve(results.data);
+            },
+            // On error, log and reject the promise
+            error: (parseError: Error, file: unknown) => {
+                console.log(
+                    "[loadLocalityAlias] error parsing file",
+                    parseError,
+                    file,
+                );
+                reject(parseError);
+            },
+        });
+    });
+};
+
+/**
+ * Loads address alias data from the ADDRESS_ALIAS PSV file for a given state.
+ *
+ * Each row links an alias address (such as a ranged or alternative street
+ * address) to the principal address for the same property.
+ *
+ * @param files - Array of all file paths in the G-NAF directory
+ * @param directory - The base directory path containing G-NAF files
+ * @param state - The state abbreviation (e.g., "NSW", "VIC", "QLD")
+ *
+ * @returns An array of address alias records for the state
+ * @throws {Error} If the file cannot be parsed
+ */
+const loadAddressAlias = async (
+    files: string[],
+    directory: string,
+    state: string,
+): Promise<Types.AddressAliasRow[]> => {
+    // Find the address alias file matching the pattern
+    const aliasFile = files.find((f) =>
+        f.match(new RegExp(`${state}_ADDRESS_ALIAS_psv`)),
+    );
+
+    // Log error and return empty array if file not found
+    if (aliasFile === undefined) {
+        error(
+            `Could not find address alias file '${state}_ADDRESS_ALIAS_psv.psv'`,
+        );
+        return [];
+    }
+
+    // Parse the PSV file and return all address alias records
+    return await new Promise<Types.AddressAliasRow[]>((resolve, reject) => {
+        Papa.parse(fs.createReadStream(`${directory}/${aliasFile}`), {
+            header: true,
+            delimiter: "|",
+            // On successful parse, resolve with the parsed data
+            complete: (results: Papa.ParseResult<Types.AddressAliasRow>) => {
+                resolve(results.data);
+            },
+            // On error, log and reject the promise
+            error: (parseError: Error, file: unknown) => {
+                console.log(
+                    "[loadAddressAlias] error parsing file",
+                    parseError,
+                    file,
+                );
+                reject(parseError);
+            },
+        });
+    });
+};
+
+/**
+ * Loads primary/secondary data from the PRIMARY_SECONDARY PSV file for a given state.
+ *
+ * Each row links the primary address of a building or complex to one of its
+ * secondary addresses, such as a unit or shop.
+ *
+ * @param files - Array of all file paths in the G-NAF directory
+ * @param directory - The base directory path containing G-NAF files
+ * @param state - The state abbreviation (e.g., "NSW", "VIC", "QLD")
+ *
+ * @returns An array of primary/secondary records for the state
+ * @throws {Error} If the file cannot be parsed
+ */
+const loadPrimarySecondary = async (
+    files: string[],
+    directory: string,
+    state: string,
+): Promise<Types.PrimarySecondaryRow[]> => {
+    // Find the primary/secondary file matching the pattern
+    const primarySecondaryFile = files.find((f) =>
+        f.match(new RegExp(`${state}_PRIMARY_SECONDARY_psv`)),
+    );
+
+    // Log error and return empty array if file not found
+    if (primarySecondaryFile === undefined) {
+        error(
+            `Could not find primary secondary file '${state}_PRIMARY_SECONDARY_psv.psv'`,
+        );
+        return [];
+    }
+
+    // Parse the PSV file and return all primary/secondary records
+    return await new Promise<Types.PrimarySecondaryRow[]>((resolve, reject) => {
+        Papa.parse(
+            fs.createReadStream(`${directory}/${primarySecondaryFile}`),
+            {
+                header: true,
+                delimiter: "|",
+                // On successful parse, resolve with the parsed data
+                complete: (
+                    results: Papa.ParseResult<Types.PrimarySecondaryRow>,
+                ) => {
+                    resolve(results.data);
+                },
+                // On error, log and reject the promise
+                error: (parseError: Error, file: unknown) => {
+                    console.log(
+                        "[loadPrimarySecondary] error parsing file",
+                        parseError,
+                        file,
+                    );
+                    reject(parseError);
+                },
+            },
+        );
+    });
+};
+
 /**
  * Loads site geocode data from the ADDRESS_SITE_GEOCODE PSV file.
  *
@@ -1965,6 +2899,259 @@ const loadDefaultGeo = async (
     });
 };
 
+/**
+ * Loads mesh block data from the MB_2021 PSV file for a given state.
+ *
+ * G-NAF identifies mesh blocks by PID; this table gives the ABS 2021 mesh
+ * block code for each one.
+ *
+ * @param files - Array of all file paths in the G-NAF directory
+ * @param directory - The base directory path containing G-NAF files
+ * @param state - The state abbreviation (e.g., "NSW", "VIC", "QLD")
+ *
+ * @returns An array of mesh block records for the state
+ * @throws {Error} If the file cannot be parsed
+ */
+const loadMeshBlocks = async (
+    files: string[],
+    directory: string,
+    state: string,
+): Promise<Types.MeshBlockRow[]> => {
+    // Find the mesh block file matching the pattern
+    const meshBlockFile = files.find((f) =>
+        f.match(new RegExp(`${state}_MB_2021_psv`)),
+    );
+
+    // Log error and return empty array if file not found
+    if (meshBlockFile === undefined) {
+        error(`Could not find mesh block file '${state}_MB_2021_psv.psv'`);
+        return [];
+    }
+
+    // Parse the PSV file and return all mesh block records
+    return await new Promise<Types.MeshBlockRow[]>((resolve, reject) => {
+        Papa.parse(fs.createReadStream(`${directory}/${meshBlockFile}`), {
+            header: true,
+            delimiter: "|",
+            // On successful parse, resolve with the parsed data
+            complete: (results: Papa.ParseResult<Types.MeshBlockRow>) => {
+                resolve(results.data);
+            },
+            // On error, log and reject the promise
+            error: (parseError: Error, file: unknown) => {
+                console.log(
+                    "[loadMeshBlocks] error parsing file",
+                    parseError,
+                    file,
+                );
+                reject(parseError);
+            },
+        });
+    });
+};
+
+/**
+ * Loads address mesh block data from the ADDRESS_MESH_BLOCK_2021 PSV file.
+ *
+ * Each address detail is linked to the 2021 mesh block it falls within,
+ * together with a code describing how the match was made. The file has a row
+ * per address, so it is parsed in chunks and only the mesh block code and
+ * match code are kept, indexed by ADDRESS_DETAIL_PID.
+ *
+ * @param files - Array of all file paths in the G-NAF directory
+ * @param directory - The base directory path containing G-NAF files
+ * @param state - The state abbreviation (e.g., "NSW", "VIC", "QLD")
+ * @param filesCounts - Record of expected row counts for validation/progress
+ * @param meshBlockCodes - ABS mesh block codes indexed by MB_2021_PID
+ *
+ * @returns The address mesh blocks indexed by ADDRESS_DETAIL_PID
+ * @throws {Error} If the file cannot be parsed
+ */
+const loadAddressMeshBlock = async (
+    files: string[],
+    directory: string,
+    state: string,
+    filesCounts: Types.FileCountsRecord,
+    meshBlockCodes: Record<string, string>,
+): Promise<Record<string, Types.AddressMeshBlockRecord>> => {
+    if (VERBOSE) logger("Loading address mesh blocks");
+
+    // Find the address mesh block file matching the pattern
+    const meshBlockFile = files.find((f) =>
+        f.match(new RegExp(`${state}_ADDRESS_MESH_BLOCK_2021_psv`)),
+    );
+
+    // Log error and return if file not found
+    if (meshBlockFile === undefined) {
+        error(
+            `Could not find address mesh block file '${state}_ADDRESS_MESH_BLOCK_2021_psv.psv'`,
+        );
+        return {};
+    }
+
+    // Get expected count for progress logging
+    const expectedCount = filesCounts[meshBlockFile];
+    let count = 0;
+
+    const addressMeshBlocks: Record<string, Types.AddressMeshBlockRecord> = {};
+
+    // Parse the file in chunks for memory efficiency
+    return await new Promise<Record<string, Types.AddressMeshBlockRecord>>(
+        (resolve, reject) => {
+            Papa.parse(fs.createReadStream(`${directory}/${meshBlockFile}`), {
+                header: true,
+                delimiter: "|",
+                // Process each chunk of parsed data
+                chunk: (
+                    chunk: Papa.ParseResult<Types.AddressMeshBlockRow>,
+                    parser: Papa.Parser,
+                ) => {
+                    // Pause parser while processing chunk
+                    parser.pause();
+
+                    // Check for parsing errors
+                    if (chunk.errors.length > 0) {
+                        error(
+                            `Errors reading '${directory}/${meshBlockFile}': ${chunk.errors}`,
+                        );
+                        error({ errors: chunk.errors });
+                    } else {
+                        // Index each mesh block link by ADDRESS_DETAIL_PID
+                        for (const row of chunk.data) {
+                            // Log progress at 1% intervals
+                            if (expectedCount) {
+                                if (
+                                    count % Math.ceil(expectedCount / 100) ===
+                                    0
+                                ) {
+                                    if (VERBOSE)
+                                        logger(
+                                            `${Math.floor(
+                                                (count / expectedCount) * 100,
+                                            )}% (${count}/ ${expectedCount})`,
+                                        );
+                                }
+                            }
+                            count += 1;
+
+                            // Skip links to mesh blocks that are not in MB_2021
+                            const code = meshBlockCodes[row.MB_2021_PID];
+                            if (code === undefined) continue;
+
+                            addressMeshBlocks[row.ADDRESS_DETAIL_PID] = {
+                                MB_2021_CODE: code,
+                                MB_MATCH_CODE: row.MB_MATCH_CODE,
+                            };
+                        }
+                    }
+
+                    // Resume parser after processing chunk
+                    parser.resume();
+                },
+                // Resolve when parsing is complete
+                complete: () => {
+                    resolve(addressMeshBlocks);
+                },
+                // Reject on error
+                error: (parseError: Error, file: unknown) => {
+                    console.log(
+                        "[loadAddressMeshBlock] error parsing file",
+                        parseError,
+                        file,
+                    );
+                    reject(parseError);
+                },
+            });
+        },
+    );
+};
+
+/**
+ * Loads the ABS mesh block allocation file (`MB_2021_AUST.csv`).
+ *
+ * The allocation file places every mesh block in Australia within the SA1-SA4
+ * and GCCSA statistical areas. It is parsed in chunks and only the mesh
+ * blocks used by the current state are kept.
+ *
+ * @param file - Path of the ABS mesh block allocation CSV file
+ * @param meshBlockCodes - The mesh block codes to keep
+ *
+ * @returns The mesh block allocations indexed by mesh block code
+ * @throws {Error} If the file cannot be parsed
+ */
+const loadMeshBlockAllocation = async (
+    file: string,
+    meshBlockCodes: Set<string>,
+): Promise<Record<string, Types.MeshBlockAllocationRow>> => {
+    if (VERBOSE) logger("Loading ABS mesh block allocations", file);
+
+    // Log error and return empty allocations if file not found
+    if (!fs.existsSync(file)) {
+        error(`Could not find ABS mesh block allocation file '${file}'`);
+        return {};
+    }
+
+    const allocations: Record<string, Types.MeshBlockAllocationRow> = {};
+
+    // Parse the file in chunks, keeping only the requested mesh blocks
+    return await new Promise<Record<string, Types.MeshBlockAllocationRow>>(
+        (resolve, reject) => {
+            Papa.parse(fs.createReadStream(file), {
+                header: true,
+                delimiter: ",",
+                skipEmptyLines: true,
+                // Process each chunk of parsed data
+                chunk: (
+                    chunk: Papa.ParseResult<Types.MeshBlockAllocationRow>,
+                ) => {
+                    for (const row of chunk.data) {
+                        if (meshBlockCodes.has(row.MB_CODE_2021)) {
+                            allocations[row.MB_CODE_2021] = row;
+                        }
+                    }
+                },
+                // Resolve when parsing is complete
+                complete: () => {
+                    resolve(allocations);
+                },
+                // Reject on error
+                error: (parseError: Error) => {
+                    console.log(
+                        "[loadMeshBlockAllocation] error parsing file",
+                        parseError,
+                        file,
+                    );
+                    reject(parseError);
+                },
+            });
+        },
+    );
+};
+
+/**
+ * Extracts the authority code tables from the load context, keeping only the
+ * code and name of each entry.
+ *
+ * @param loadContext - The load context populated by `loadAuthFiles`
+ *
+ * @returns The authority code tables keyed by context key
+ */
+const getAuthorityCodeTables = (
+    loadContext: Types.LoadContext,
+): Record<string, AuthorityCodeEntry[]> => {
+    const tables: Record<string, AuthorityCodeEntry[]> = {};
+    for (const [key, value] of Object.entries(loadContext)) {
+        if (!key.startsWith("Authority_Code_") || !Array.isArray(value)) {
+            continue;
+        }
+        tables[key] = (value as AuthorityCodeEntry[]).map(({ CODE, NAME }) => ({
+            CODE,
+            NAME,
+        }));
+    }
+    return tables;
+};
+
 /**
  * Loads all authority code (lookup) files from the G-NAF data directory.
  *
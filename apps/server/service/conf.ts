@@ -17,6 +17,8 @@ export {
     MAX_PAGE_NUMBER,
     ES_INDEX_NAME,
     ES_LOCALITY_INDEX_NAME,
+    ES_STREET_INDEX_NAME,
+    ES_POSTCODE_INDEX_NAME,
     ES_CLEAR_INDEX,
     INDEX_BACKOFF_INITIAL,
     INDEX_BACKOFF_INCREMENT,
@@ -25,6 +27,9 @@ export {
     INDEX_TIMEOUT,
     LOADING_CHUNK_SIZE,
     ENABLE_GEO,
+    ENABLE_STATISTICAL,
+    ABS_MESH_BLOCK_FILE,
+    ENABLE_EDGE_NGRAM,
     GNAF_MIRROR_URL,
     GNAF_PACKAGE_URL,
     GNAF_USE_MIRROR,
@@ -44,6 +49,15 @@ export {
     CIRCUIT_FAILURE_THRESHOLD,
     CIRCUIT_RESET_TIMEOUT_MS,
     CIRCUIT_SUCCESS_THRESHOLD,
+    // Search configuration
+    SEARCH_MODE,
+    MAX_SEARCH_SUGGESTIONS,
+    // Address validation configuration
+    VALIDATION_CANDIDATES,
+    BATCH_MAX_ITEMS,
+    // Reverse geocoding configuration
+    REVERSE_GEOCODE_RADIUS,
+    REVERSE_GEOCODE_MAX_RADIUS,
     // Download configuration
     DOWNLOAD_MAX_RETRIES,
     DOWNLOAD_BACKOFF_INITIAL,
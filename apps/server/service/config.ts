@@ -62,6 +62,24 @@ export const ES_INDEX_NAME = process.env.ES_INDEX_NAME ?? "addresskit";
 export const ES_LOCALITY_INDEX_NAME =
     process.env.ES_LOCALITY_INDEX_NAME ?? "addresskit-localities";
 
+/**
+ * Name of the OpenSearch index for storing street documents.
+ *
+ * @default "addresskit-streets"
+ * @env ES_STREET_INDEX_NAME
+ */
+export const ES_STREET_INDEX_NAME =
+    process.env.ES_STREET_INDEX_NAME ?? "addresskit-streets";
+
+/**
+ * Name of the OpenSearch index for storing postcode documents.
+ *
+ * @default "addresskit-postcodes"
+ * @env ES_POSTCODE_INDEX_NAME
+ */
+export const ES_POSTCODE_INDEX_NAME =
+    process.env.ES_POSTCODE_INDEX_NAME ?? "addresskit-postcodes";
+
 /**
  * Whether to clear and recreate the index on startup.
  * Setting this to true will delete all existing address data!
@@ -158,6 +176,34 @@ export const LOADING_CHUNK_SIZE = Number.parseInt(
  */
 export const ENABLE_GEO = !!process.env.ADDRESSKIT_ENABLE_GEO;
 
+/**
+ * Whether to load ABS mesh block data and attach statistical areas to addresses.
+ * Adds the 2021 mesh block of each address but increases loading memory.
+ *
+ * @default false
+ * @env ADDRESSKIT_ENABLE_STATISTICAL
+ */
+export const ENABLE_STATISTICAL = !!process.env.ADDRESSKIT_ENABLE_STATISTICAL;
+
+/**
+ * Path of the ABS mesh block allocation file (`MB_2021_AUST.csv`).
+ * G-NAF only provides each address's mesh block code; this file adds the mesh
+ * block category and the SA1-SA4 and GCCSA areas it belongs to.
+ *
+ * @default undefined (mesh block code and match code only)
+ * @env ADDRESSKIT_ABS_MESH_BLOCK_FILE
+ */
+export const ABS_MESH_BLOCK_FILE = process.env.ADDRESSKIT_ABS_MESH_BLOCK_FILE;
+
+/**
+ * Whether to index edge n-gram subfields of the single-line addresses for the
+ * `edge-ngram` search mode. Increases index size and loading time.
+ *
+ * @default false
+ * @env ADDRESSKIT_ENABLE_EDGE_NGRAM
+ */
+export const ENABLE_EDGE_NGRAM = !!process.env.ADDRESSKIT_ENABLE_EDGE_NGRAM;
+
 // ---------------------------------------------------------------------------------
 // G-NAF Source Configuration
 // ---------------------------------------------------------------------------------
@@ -342,6 +388,96 @@ export const CIRCUIT_SUCCESS_THRESHOLD = Number.parseInt(
     10,
 );
 
+// ---------------------------------------------------------------------------------
+// Search Configuration
+// ---------------------------------------------------------------------------------
+
+/**
+ * Query used for address autocomplete. `standard` stacks prefix, phrase
+ * prefix and fuzzy matching; `edge-ngram` matches the edge n-gram subfields
+ * indexed with ADDRESSKIT_ENABLE_EDGE_NGRAM, which is faster but does not
+ * tolerate typos. Any other value falls back to `standard`.
+ *
+ * @default "standard"
+ * @env ADDRESSKIT_SEARCH_MODE
+ */
+export const SEARCH_MODE: "standard" | "edge-ngram" =
+    process.env.ADDRESSKIT_SEARCH_MODE === "edge-ngram"
+        ? "edge-ngram"
+        : "standard";
+
+/**
+ * Maximum number of corrected search strings ("did you mean") returned in
+ * `meta.suggestions` when an address or locality search matches nothing.
+ * Set to 0 to turn suggestions off. Values that are not a non-negative
+ * integer fall back to the default.
+ *
+ * @default 3
+ * @env ADDRESSKIT_MAX_SEARCH_SUGGESTIONS
+ */
+const maxSearchSuggestions = Number.parseInt(
+    process.env.ADDRESSKIT_MAX_SEARCH_SUGGESTIONS ?? "3",
+    10,
+);
+export const MAX_SEARCH_SUGGESTIONS =
+    Number.isSafeInteger(maxSearchSuggestions) && maxSearchSuggestions >= 0
+        ? maxSearchSuggestions
+        : 3;
+
+// ---------------------------------------------------------------------------------
+// Address Validation Configuration
+// ---------------------------------------------------------------------------------
+
+/**
+ * Number of top search candidates compared component-by-component when
+ * validating a free-text address. The candidate with the best verdicts wins.
+ *
+ * @default 5
+ * @env ADDRESSKIT_VALIDATION_CANDIDATES
+ */
+export const VALIDATION_CANDIDATES =
+    Number.parseInt(process.env.ADDRESSKIT_VALIDATION_CANDIDATES ?? "5", 10) ||
+    5;
+
+/**
+ * Maximum number of addresses accepted in a single batch validation request.
+ *
+ * @default 100
+ * @env ADDRESSKIT_BATCH_MAX_ITEMS
+ */
+export const BATCH_MAX_ITEMS =
+    Number.parseInt(process.env.ADDRESSKIT_BATCH_MAX_ITEMS ?? "100", 10) || 100;
+
+// ---------------------------------------------------------------------------------
+// Reverse Geocoding Configuration
+// ---------------------------------------------------------------------------------
+
+/**
+ * Search radius in metres used by reverse geocoding when the request does not
+ * specify one.
+ *
+ * @default 100
+ * @env ADDRESSKIT_REVERSE_GEOCODE_RADIUS
+ */
+export const REVERSE_GEOCODE_RADIUS =
+    Number.parseInt(
+        process.env.ADDRESSKIT_REVERSE_GEOCODE_RADIUS ?? "100",
+        10,
+    ) || 100;
+
+/**
+ * Largest search radius in metres accepted by reverse geocoding. Larger
+ * radii are rejected to keep distance sorts over dense areas cheap.
+ *
+ * @default 5000
+ * @env ADDRESSKIT_REVERSE_GEOCODE_MAX_RADIUS
+ */
+export const REVERSE_GEOCODE_MAX_RADIUS =
+    Number.parseInt(
+        process.env.ADDRESSKIT_REVERSE_GEOCODE_MAX_RADIUS ?? "5000",
+        10,
+    ) || 5000;
+
 // ---------------------------------------------------------------------------------
 // Download Configuration
 // ---------------------------------------------------------------------------------
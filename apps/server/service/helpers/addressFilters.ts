@@ -0,0 +1,450 @@
+/**
+ * Address search filters.
+ *
+ * Parses the `filter[...]` parameters accepted by address search into
+ * validated filters, and turns them into OpenSearch filter clauses that are
+ * applied alongside the `q` relevance scoring. Geo filters match the default
+ * geocode indexed in the `location` field, so they only find addresses that
+ * were loaded with geocoding enabled. Structured filters match the top-level
+ * `state`, `postcode`, `localityPid`, `confidence` and `legalParcelId` fields,
+ * because the `structured` object itself is not indexed.
+ *
+ * @module addressFilters
+ */
+
+import * as crypto from "node:crypto";
+import type { AddressFilterInput, AddressFilters } from "../types/shared-types";
+import { STATE_NAMES } from "./addressParser";
+
+// ---------------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------------
+
+/**
+ * Largest polygon accepted, in positions, to keep filter queries bounded.
+ */
+const MAX_POLYGON_POSITIONS = 1000;
+
+/**
+ * Range of G-NAF address confidence values.
+ */
+const MIN_CONFIDENCE = -1;
+const MAX_CONFIDENCE = 2;
+
+// ---------------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------------
+
+/**
+ * Error thrown when a search filter cannot be parsed.
+ */
+export class AddressFilterError extends Error {
+    /** The request parameter that holds the invalid filter */
+    readonly parameter: string;
+
+    /**
+     * Creates a new AddressFilterError.
+     *
+     * @param message - Description of the problem, suitable for API clients.
+     * @param parameter - The request parameter that holds the invalid filter.
+     */
+    constructor(message: string, parameter: string) {
+        super(message);
+        this.name = "AddressFilterError";
+        this.parameter = parameter;
+    }
+}
+
+// ---------------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------------
+
+/**
+ * Checks that a latitude/longitude pair is on the globe.
+ *
+ * @param lat - The latitude.
+ * @param lon - The longitude.
+ * @returns Whether both values are finite and in range.
+ */
+const isValidCoordinate = (lat: number, lon: number): boolean =>
+    Number.isFinite(lat) &&
+    Number.isFinite(lon) &&
+    Math.abs(lat) <= 90 &&
+    Math.abs(lon) <= 180;
+
+/**
+ * Splits a comma-separated list of numbers.
+ *
+ * @param value - The raw filter value.
+ * @param count - The number of values expected.
+ * @returns The numbers, or undefined when the value is not a list of `count` numbers.
+ */
+const parseNumberList = (
+    value: unknown,
+    count: number,
+): number[] | undefined => {
+    if (typeof value !== "string") return undefined;
+    const parts = value.split(",").map((part) => part.trim());
+    if (parts.length !== count || parts.some((part) => part === "")) {
+        return undefined;
+    }
+    return parts.map(Number);
+};
+
+/**
+ * Parses a radius filter ("lat,lon,radius", radius in metres).
+ *
+ * @param value - The raw filter value.
+ * @returns The radius filter.
+ * @throws {AddressFilterError} If the value is malformed or out of range.
+ */
+const parseNear = (value: unknown): AddressFilters["near"] => {
+    const numbers = parseNumberList(value, 3);
+    const [lat, lon, radius] = numbers ?? [];
+    if (
+        numbers === undefined ||
+        !isValidCoordinate(lat, lon) ||
+        !Number.isFinite(radius) ||
+        radius <= 0
+    ) {
+        throw new AddressFilterError(
+            "The 'filter[near]' parameter must be 'lat,lon,radius' with a valid latitude and longitude and a radius in metres greater than 0.",
+            "filter[near]",
+        );
+    }
+    return { lat, lon, radius };
+};
+
+/**
+ * Parses a bounding box filter ("minLon,minLat,maxLon,maxLat").
+ *
+ * @param value - The raw filter value.
+ * @returns The bounding box filter.
+ * @throws {AddressFilterError} If the value is malformed or out of range.
+ */
+const parseBbox = (value: unknown): AddressFilters["bbox"] => {
+    const numbers = parseNumberList(value, 4);
+    const [minLon, minLat, maxLon, maxLat] = numbers ?? [];
+    if (
+        numbers === undefined ||
+        !isValidCoordinate(minLat, minLon) ||
+        !isValidCoordinate(maxLat, maxLon) ||
+        minLat > maxLat
+    ) {
+        throw new AddressFilterError(
+            "The 'filter[bbox]' parameter must be 'minLon,minLat,maxLon,maxLat' with valid coordinates and minLat no greater than maxLat.",
+            "filter[bbox]",
+        );
+    }
+    return { minLon, minLat, maxLon, maxLat };
+};
+
+/**
+ * Parses a GeoJSON Polygon (or a Feature wrapping one) into its exterior ring.
+ *
+ * @param value - The GeoJSON object.
+ * @returns The exterior ring as [lon, lat] positions.
+ * @throws {AddressFilterError} If the value is not a valid, hole-free polygon.
+ */
+const parsePolygon = (value: unknown): AddressFilters["polygon"] => {
+    const invalid = (detail: string) =>
+        new AddressFilterError(
+            `The 'filter.polygon' field must be a GeoJSON Polygon: ${detail}`,
+            "filter.polygon",
+        );
+
+    const geoJson = value as {
+        type?: unknown;
+        geometry?: unknown;
+        coordinates?: unknown;
+    } | null;
+    const geometry = (
+        geoJson?.type === "Feature" ? geoJson.geometry : geoJson
+    ) as { type?: unknown; coordinates?: unknown } | null | undefined;
+    if (geometry?.type !== "Polygon" || !Array.isArray(geometry.coordinates)) {
+        throw invalid("expected a Polygon geometry or a Feature with one.");
+    }
+    if (geometry.coordinates.length !== 1) {
+        throw invalid(
+            "exactly one ring is required (holes are not supported).",
+        );
+    }
+
+    const [ring] = geometry.coordinates as unknown[];
+    if (
+        !Array.isArray(ring) ||
+        ring.length < 4 ||
+        ring.length > MAX_POLYGON_POSITIONS
+    ) {
+        throw invalid(
+            `the ring must have between 4 and ${MAX_POLYGON_POSITIONS} positions.`,
+        );
+    }
+
+    const positions = ring.map((position): [number, number] => {
+        if (
+            !Array.isArray(position) ||
+            position.length < 2 ||
+            !isValidCoordinate(position[1], position[0])
+        ) {
+            throw invalid("positions must be [longitude, latitude] pairs.");
+        }
+        return [position[0], position[1]];
+    });
+
+    const first = positions[0];
+    const last = positions[positions.length - 1];
+    if (first[0] !== last[0] || first[1] !== last[1]) {
+        throw invalid(
+            "the ring must be closed (first and last positions equal).",
+        );
+    }
+
+    return positions;
+};
+
+/**
+ * Parses a state filter (an abbreviation such as "NSW", case-insensitive).
+ *
+ * @param value - The raw filter value.
+ * @returns The uppercase state abbreviation.
+ * @throws {AddressFilterError} If the value is not a known state.
+ */
+const parseState = (value: unknown): string => {
+    const state = typeof value === "string" ? value.trim().toUpperCase() : "";
+    if (STATE_NAMES[state] === undefined) {
+        throw new AddressFilterError(
+            `The 'filter[state]' parameter must be one of ${Object.keys(STATE_NAMES).join(", ")}.`,
+            "filter[state]",
+        );
+    }
+    return state;
+};
+
+/**
+ * Parses a postcode filter (four digits).
+ *
+ * @param value - The raw filter value.
+ * @returns The postcode.
+ * @throws {AddressFilterError} If the value is not a four-digit postcode.
+ */
+const parsePostcode = (value: unknown): string => {
+    const postcode = typeof value === "string" ? value.trim() : "";
+    if (!/^\d{4}$/.test(postcode)) {
+        throw new AddressFilterError(
+            "The 'filter[postcode]' parameter must be a four-digit postcode.",
+            "filter[postcode]",
+        );
+    }
+    return postcode;
+};
+
+/**
+ * Parses a locality filter (a G-NAF locality PID such as "NSW3207").
+ *
+ * @param value - The raw filter value.
+ * @returns The uppercase locality PID.
+ * @throws {AddressFilterError} If the value is empty or not a PID.
+ */
+const parseLocalityPid = (value: unknown): string => {
+    const localityPid =
+        typeof value === "string" ? value.trim().toUpperCase() : "";
+    if (!/^[A-Z0-9_]+$/.test(localityPid)) {
+        throw new AddressFilterError(
+            "The 'filter[localityPid]' parameter must be a G-NAF locality PID.",
+            "filter[localityPid]",
+        );
+    }
+    return localityPid;
+};
+
+/**
+ * Parses a minimum confidence filter (an integer from -1 to 2).
+ *
+ * @param value - The raw filter value.
+ * @returns The minimum confidence.
+ * @throws {AddressFilterError} If the value is not a valid confidence.
+ */
+const parseMinConfidence = (value: unknown): number => {
+    const minConfidence =
+        typeof value === "number"
+            ? value
+            : typeof value === "string" && value.trim() !== ""
+              ? Number(value)
+              : Number.NaN;
+    if (
+        !Number.isInteger(minConfidence) ||
+        minConfidence < MIN_CONFIDENCE ||
+        minConfidence > MAX_CONFIDENCE
+    ) {
+        throw new AddressFilterError(
+            `The 'filter[minConfidence]' parameter must be an integer from ${MIN_CONFIDENCE} to ${MAX_CONFIDENCE}.`,
+            "filter[minConfidence]",
+        );
+    }
+    return minConfidence;
+};
+
+/**
+ * Parses a legal parcel filter (a lot/plan identifier such as "1/DP12345",
+ * case-insensitive). Formats differ between states, so any non-blank value
+ * is accepted.
+ *
+ * @param value - The raw filter value.
+ * @returns The uppercase legal parcel identifier.
+ * @throws {AddressFilterError} If the value is blank.
+ */
+const parseLegalParcelId = (value: unknown): string => {
+    const legalParcelId =
+        typeof value === "string" ? value.trim().toUpperCase() : "";
+    if (legalParcelId === "") {
+        throw new AddressFilterError(
+            "The 'filter[legalParcelId]' parameter must be a lot/plan identifier such as '1/DP12345'.",
+            "filter[legalParcelId]",
+        );
+    }
+    return legalParcelId;
+};
+
+/**
+ * Validates raw address search filters.
+ *
+ * @param input - The raw filters supplied by the caller.
+ * @returns The validated filters (empty when no filter was supplied).
+ * @throws {AddressFilterError} If any supplied filter is invalid.
+ *
+ * @example
+ * ```typescript
+ * parseAddressFilters({ near: "-33.8656,151.2017,500" });
+ * // { near: { lat: -33.8656, lon: 151.2017, radius: 500 } }
+ * ```
+ */
+export const parseAddressFilters = (
+    input: AddressFilterInput | undefined,
+): AddressFilters => {
+    if (input === undefined) return {};
+    return {
+        ...(input.near !== undefined && { near: parseNear(input.near) }),
+        ...(input.bbox !== undefined && { bbox: parseBbox(input.bbox) }),
+        ...(input.polygon !== undefined && {
+            polygon: parsePolygon(input.polygon),
+        }),
+        ...(input.state !== undefined && { state: parseState(input.state) }),
+        ...(input.postcode !== undefined && {
+            postcode: parsePostcode(input.postcode),
+        }),
+        ...(input.localityPid !== undefined && {
+            localityPid: parseLocalityPid(input.localityPid),
+        }),
+        ...(input.minConfidence !== undefined && {
+            minConfidence: parseMinConfidence(input.minConfidence),
+        }),
+        ...(input.legalParcelId !== undefined && {
+            legalParcelId: parseLegalParcelId(input.legalParcelId),
+        }),
+    };
+};
+
+// ---------------------------------------------------------------------------------
+// Query Building
+// ---------------------------------------------------------------------------------
+
+/**
+ * Builds the OpenSearch filter clauses for validated address filters.
+ * Multiple filters are combined with AND.
+ *
+ * @param filters - The validated filters.
+ * @returns Clauses for a `bool.filter` array (empty when there are no filters).
+ */
+export const buildAddressFilterClauses = (
+    filters: AddressFilters | undefined,
+): Record<string, unknown>[] => {
+    const clauses: Record<string, unknown>[] = [];
+    if (filters?.near !== undefined) {
+        const { lat, lon, radius } = filters.near;
+        clauses.push({
+            geo_distance: { distance: `${radius}m`, location: { lat, lon } },
+        });
+    }
+    if (filters?.bbox !== undefined) {
+        const { minLon, minLat, maxLon, maxLat } = filters.bbox;
+        clauses.push({
+            geo_bounding_box: {
+                location: {
+                    top_left: { lat: maxLat, lon: minLon },
+                    bottom_right: { lat: minLat, lon: maxLon },
+                },
+            },
+        });
+    }
+    if (filters?.polygon !== undefined) {
+        clauses.push({
+            geo_polygon: {
+                location: {
+                    points: filters.polygon.map(([lon, lat]) => ({ lat, lon })),
+                },
+            },
+        });
+    }
+    if (filters?.state !== undefined) {
+        clauses.push({ term: { state: filters.state } });
+    }
+    if (filters?.postcode !== undefined) {
+        clauses.push({ term: { postcode: filters.postcode } });
+    }
+    if (filters?.localityPid !== undefined) {
+        clauses.push({ term: { localityPid: filters.localityPid } });
+    }
+    if (filters?.minConfidence !== undefined) {
+        clauses.push({ range: { confidence: { gte: filters.minConfidence } } });
+    }
+    if (filters?.legalParcelId !== undefined) {
+        clauses.push({ term: { legalParcelId: filters.legalParcelId } });
+    }
+    return clauses;
+};
+
+/**
+ * Builds a compact, stable cache key fragment for validated filters.
+ *
+ * @param filters - The validated filters.
+ * @returns A hash of the filters, or an empty string when there are none.
+ */
+export const getAddressFiltersCacheKey = (
+    filters: AddressFilters | undefined,
+): string => {
+    if (filters === undefined || Object.keys(filters).length === 0) return "";
+    return crypto
+        .createHash("md5")
+        .update(JSON.stringify(filters))
+        .digest("hex");
+};
+
+/**
+ * Serialises the query-string filters back into `filter[...]` parameters for
+ * pagination links. Polygons are body-only and are not included.
+ *
+ * @param filters - The validated filters.
+ * @returns Filter values keyed by filter name (e.g. `{ near: "lat,lon,radius" }`).
+ */
+export const getAddressFilterParams = (
+    filters: AddressFilters | undefined,
+): Record<string, string> => ({
+    ...(filters?.near !== undefined && {
+        near: `${filters.near.lat},${filters.near.lon},${filters.near.radius}`,
+    }),
+    ...(filters?.bbox !== undefined && {
+        bbox: `${filters.bbox.minLon},${filters.bbox.minLat},${filters.bbox.maxLon},${filters.bbox.maxLat}`,
+    }),
+    ...(filters?.state !== undefined && { state: filters.state }),
+    ...(filters?.postcode !== undefined && { postcode: filters.postcode }),
+    ...(filters?.localityPid !== undefined && {
+        localityPid: filters.localityPid,
+    }),
+    ...(filters?.minConfidence !== undefined && {
+        minConfidence: `${filters.minConfidence}`,
+    }),
+    ...(filters?.legalParcelId !== undefined && {
+        legalParcelId: filters.legalParcelId,
+    }),
+});
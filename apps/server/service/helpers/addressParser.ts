@@ -0,0 +1,655 @@
+/**
+ * Free-text Australian address parser.
+ *
+ * Splits a single-line address into the same component shape the loader
+ * produces for G-NAF records (`StructuredAddress`). Flat types, level types,
+ * street types and street suffixes are recognised from the G-NAF authority
+ * code tables in either their coded ("APT", "L") or long ("APARTMENT",
+ * "LEVEL") form, plus a handful of informal spellings such as "U" and "LVL".
+ *
+ * Parsing is purely lexical: nothing is looked up in OpenSearch, so the result
+ * describes what the input says rather than whether the address exists.
+ *
+ * @module addressParser
+ */
+
+import type {
+    NumberRange,
+    ParsedAddress,
+    StateSummary,
+} from "../types/gnaf-properties";
+import type {
+    AuthorityCodeEntry,
+    PropertyCodeToNameContext,
+} from "./propertyCodeToName";
+
+// ---------------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------------
+
+/**
+ * Full names of the Australian states and territories keyed by abbreviation.
+ */
+export const STATE_NAMES: Record<string, string> = {
+    ACT: "AUSTRALIAN CAPITAL TERRITORY",
+    NSW: "NEW SOUTH WALES",
+    NT: "NORTHERN TERRITORY",
+    OT: "OTHER TERRITORIES",
+    QLD: "QUEENSLAND",
+    SA: "SOUTH AUSTRALIA",
+    TAS: "TASMANIA",
+    VIC: "VICTORIA",
+    WA: "WESTERN AUSTRALIA",
+};
+
+/**
+ * Informal flat type spellings keyed by the authority code they stand for.
+ * Only applied when the code is present in the loaded authority table.
+ */
+const INFORMAL_FLAT_TYPES: Record<string, string[]> = {
+    UNIT: ["U"],
+    APT: ["APPT"],
+};
+
+/**
+ * Informal level type spellings keyed by the authority code they stand for.
+ * Only applied when the code is present in the loaded authority table.
+ */
+const INFORMAL_LEVEL_TYPES: Record<string, string[]> = {
+    L: ["LVL", "LEV"],
+    FL: ["FLR"],
+};
+
+/**
+ * Trailing words that are dropped before parsing ("..., NSW 2000, AUSTRALIA").
+ */
+const COUNTRY_WORDS = new Set(["AUSTRALIA", "AU"]);
+
+/**
+ * Longest authority code name, in tokens, that the parser will try to match
+ * (e.g. "LOWER GROUND FLOOR").
+ */
+const MAX_PHRASE_TOKENS = 3;
+
+/**
+ * A house, flat or level number with optional alphabetic prefix and suffix.
+ */
+const NUMBER_PATTERN = /^([A-Z]{0,3})(\d+)([A-Z]{0,3})$/;
+
+/**
+ * A flat or level type glued to its number (e.g. "U5", "L12").
+ */
+const GLUED_PATTERN = /^([A-Z]+)(\d+[A-Z]{0,3})$/;
+
+// ---------------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------------
+
+/**
+ * An authority code as it appears in structured address output.
+ */
+type CodedValue = { code: string; name?: string };
+
+/**
+ * Phrase (space-joined tokens) to authority code lookup.
+ */
+type Vocabulary = Map<string, CodedValue>;
+
+/**
+ * The vocabularies used to recognise typed address components.
+ */
+type ParserVocabularies = {
+    flatTypes: Vocabulary;
+    levelTypes: Vocabulary;
+    streetTypes: Vocabulary;
+    streetSuffixes: Vocabulary;
+};
+
+/**
+ * A vocabulary match starting at a given token.
+ */
+type PhraseMatch = {
+    /** The matched authority code */
+    value: CodedValue;
+    /** The code or name that matched, as a phrase */
+    phrase: string;
+    /** Number of tokens the match spans */
+    length: number;
+};
+
+/**
+ * The input tokens and the position of the next unparsed token.
+ */
+type Cursor = {
+    tokens: string[];
+    position: number;
+};
+
+// ---------------------------------------------------------------------------------
+// Vocabularies
+// ---------------------------------------------------------------------------------
+
+/**
+ * Vocabularies built for each authority code context, so repeated parses
+ * against the same tables do not rebuild their lookups.
+ */
+const vocabularyCache = new WeakMap<
+    Partial<PropertyCodeToNameContext>,
+    ParserVocabularies
+>();
+
+/**
+ * Splits a free-text value into uppercase word tokens, keeping "/", "-" and ","
+ * as separate tokens so flat ("1/12"), range ("12-14") and segment notation
+ * survive tokenisation.
+ *
+ * @param value - The free-text value.
+ * @returns The value's tokens.
+ */
+const tokenise = (value: string): string[] =>
+    value.toUpperCase().match(/[A-Z0-9']+|[/,-]/g) ?? [];
+
+/**
+ * Joins tokens back into a display value, re-attaching hyphenated words.
+ *
+ * @param tokens - The tokens to join.
+ * @returns The joined value.
+ */
+const joinTokens = (tokens: string[]): string =>
+    tokens.join(" ").replace(/ - /g, "-");
+
+/**
+ * Builds a phrase lookup from an authority code table. Codes take precedence
+ * over names when the two collide, and informal spellings never replace an
+ * official code or name.
+ *
+ * @param table - The authority code table (may be absent).
+ * @param informal - Informal spellings keyed by authority code.
+ * @returns The phrase lookup.
+ */
+const buildVocabulary = (
+    table: AuthorityCodeEntry[] | undefined,
+    informal: Record<string, string[]> = {},
+): Vocabulary => {
+    const vocabulary: Vocabulary = new Map();
+    const entries = (table ?? []).filter((entry) => entry.CODE);
+
+    for (const entry of entries) {
+        vocabulary.set(tokenise(entry.CODE).join(" "), {
+            code: entry.CODE,
+            name: entry.NAME,
+        });
+    }
+    for (const entry of entries) {
+        const phrase = tokenise(entry.NAME ?? "").join(" ");
+        if (phrase && !vocabulary.has(phrase)) {
+            vocabulary.set(phrase, { code: entry.CODE, name: entry.NAME });
+        }
+    }
+    for (const [code, spellings] of Object.entries(informal)) {
+        const value = vocabulary.get(code);
+        if (value === undefined) continue;
+        for (const spelling of spellings) {
+            if (!vocabulary.has(spelling)) vocabulary.set(spelling, value);
+        }
+    }
+
+    return vocabulary;
+};
+
+/**
+ * Returns the (cached) parser vocabularies for an authority code context.
+ *
+ * @param context - The authority code tables.
+ * @returns The parser vocabularies.
+ */
+const getVocabularies = (
+    context: Partial<PropertyCodeToNameContext>,
+): ParserVocabularies => {
+    const cached = vocabularyCache.get(context);
+    if (cached !== undefined) return cached;
+
+    const vocabularies: ParserVocabularies = {
+        flatTypes: buildVocabulary(
+            context.Authority_Code_FLAT_TYPE_AUT_psv,
+            INFORMAL_FLAT_TYPES,
+        ),
+        levelTypes: buildVocabulary(
+            context.Authority_Code_LEVEL_TYPE_AUT_psv,
+            INFORMAL_LEVEL_TYPES,
+        ),
+        streetTypes: buildVocabulary(
+            context.Authority_Code_STREET_TYPE_AUT_psv,
+        ),
+        streetSuffixes: buildVocabulary(
+            context.Authority_Code_STREET_SUFFIX_AUT_psv,
+        ),
+    };
+    vocabularyCache.set(context, vocabularies);
+    return vocabularies;
+};
+
+/**
+ * State lookup by abbreviation and by full name.
+ */
+const STATE_VOCABULARY: Map<string, StateSummary> = new Map(
+    Object.entries(STATE_NAMES).flatMap(([abbreviation, name]) => [
+        [abbreviation, { name, abbreviation }],
+        [name, { name, abbreviation }],
+    ]),
+);
+
+// ---------------------------------------------------------------------------------
+// Token Matching
+// ---------------------------------------------------------------------------------
+
+/**
+ * Finds the longest vocabulary phrase starting at a token. Phrases never span
+ * a "," separator.
+ *
+ * @param tokens - The input tokens.
+ * @param start - Index of the first token of the phrase.
+ * @param vocabulary - The phrase lookup.
+ * @returns The longest match, or undefined when no phrase starts here.
+ */
+const matchPhrase = (
+    tokens: string[],
+    start: number,
+    vocabulary: Vocabulary,
+): PhraseMatch | undefined => {
+    for (let length = MAX_PHRASE_TOKENS; length > 0; length--) {
+        const candidate = tokens.slice(start, start + length);
+        if (candidate.length !== length || candidate.includes(",")) continue;
+        const phrase = candidate.join(" ");
+        const value = vocabulary.get(phrase);
+        if (value !== undefined) return { value, phrase, length };
+    }
+    return undefined;
+};
+
+/**
+ * Parses a number token such as "12", "12A" or "RMB12".
+ *
+ * @param token - The token to parse (may be undefined past the end).
+ * @returns The number parts, or undefined when the token is not a number.
+ */
+const parseNumberToken = (
+    token: string | undefined,
+): { prefix?: string; number: number; suffix?: string } | undefined => {
+    const match = token?.match(NUMBER_PATTERN);
+    if (!match) return undefined;
+    return {
+        ...(match[1] && { prefix: match[1] }),
+        number: Number.parseInt(match[2], 10),
+        ...(match[3] && { suffix: match[3] }),
+    };
+};
+
+/**
+ * Splits a flat or level type glued to its number ("U5" -> "U", "5") in place,
+ * when the leading letters are a known type.
+ *
+ * @param cursor - The token cursor.
+ * @param vocabulary - The flat or level type lookup.
+ */
+const splitGluedType = (cursor: Cursor, vocabulary: Vocabulary): void => {
+    const match = cursor.tokens[cursor.position]?.match(GLUED_PATTERN);
+    if (match && vocabulary.has(match[1])) {
+        cursor.tokens.splice(cursor.position, 1, match[1], match[2]);
+    }
+};
+
+/**
+ * Advances the cursor past any "," separators.
+ *
+ * @param cursor - The token cursor.
+ */
+const skipSeparators = (cursor: Cursor): void => {
+    while (cursor.tokens[cursor.position] === ",") cursor.position++;
+};
+
+// ---------------------------------------------------------------------------------
+// Component Parsers
+// ---------------------------------------------------------------------------------
+
+/**
+ * Removes the trailing postcode, state and country from the tokens, accepting
+ * either "NSW 2000" or "2000 NSW" ordering.
+ *
+ * @param tokens - The input tokens (modified in place).
+ * @param parsed - The parse result to populate.
+ */
+const takeTrailingComponents = (
+    tokens: string[],
+    parsed: ParsedAddress,
+): void => {
+    const trimSeparators = () => {
+        while (tokens.length > 0 && tokens[tokens.length - 1] === ",") {
+            tokens.pop();
+        }
+    };
+    const takePostcode = () => {
+        trimSeparators();
+        const last = tokens[tokens.length - 1];
+        if (tokens.length > 1 && /^\d{4}$/.test(last)) {
+            parsed.postcode = last;
+            tokens.pop();
+        }
+    };
+
+    trimSeparators();
+    if (COUNTRY_WORDS.has(tokens[tokens.length - 1])) tokens.pop();
+
+    takePostcode();
+
+    trimSeparators();
+    for (let length = MAX_PHRASE_TOKENS; length > 0; length--) {
+        if (tokens.length <= length) continue;
+        const state = STATE_VOCABULARY.get(tokens.slice(-length).join(" "));
+        if (state !== undefined) {
+            parsed.state = state;
+            tokens.splice(-length, length);
+            break;
+        }
+    }
+
+    if (parsed.postcode === undefined) takePostcode();
+    trimSeparators();
+};
+
+/**
+ * Parses a lot number ("LOT 12").
+ *
+ * @param cursor - The token cursor.
+ * @param parsed - The parse result to populate.
+ * @returns Whether a lot number was parsed.
+ */
+const takeLot = (cursor: Cursor, parsed: ParsedAddress): boolean => {
+    const { tokens, position } = cursor;
+    if (parsed.lotNumber !== undefined || tokens[position] !== "LOT") {
+        return false;
+    }
+
+    const match = tokens[position + 1]?.match(NUMBER_PATTERN);
+    if (!match) return false;
+
+    parsed.lotNumber = {
+        ...(match[1] && { prefix: match[1] }),
+        number: match[2],
+        ...(match[3] && { suffix: match[3] }),
+    };
+    cursor.position += 2;
+    return true;
+};
+
+/**
+ * Parses a flat from either typed ("UNIT 5", "U5") or slash ("5/12")
+ * notation. For slash notation only the flat is consumed; the street number
+ * after the "/" is left for the number parser.
+ *
+ * @param cursor - The token cursor.
+ * @param parsed - The parse result to populate.
+ * @param vocabulary - The flat type lookup.
+ * @returns Whether a flat was parsed.
+ */
+const takeFlat = (
+    cursor: Cursor,
+    parsed: ParsedAddress,
+    vocabulary: Vocabulary,
+): boolean => {
+    if (parsed.flat !== undefined) return false;
+
+    splitGluedType(cursor, vocabulary);
+    const { tokens, position } = cursor;
+
+    const match = matchPhrase(tokens, position, vocabulary);
+    const typedNumber =
+        match && parseNumberToken(tokens[position + match.length]);
+    if (match && typedNumber) {
+        parsed.flat = { type: match.value, ...typedNumber };
+        cursor.position += match.length + 1;
+        // "UNIT 5/12 SMITH ST": the slash still separates flat and number
+        if (tokens[cursor.position] === "/") cursor.position++;
+        return true;
+    }
+
+    const slashNumber = parseNumberToken(tokens[position]);
+    if (
+        slashNumber &&
+        tokens[position + 1] === "/" &&
+        parseNumberToken(tokens[position + 2])
+    ) {
+        parsed.flat = slashNumber;
+        cursor.position += 2;
+        return true;
+    }
+
+    return false;
+};
+
+/**
+ * Parses a level ("LEVEL 3", "L3", "GROUND FLOOR,"). A level without a number
+ * is only accepted when it is followed by a "," separator, since otherwise the
+ * next number is as likely to be the street number.
+ *
+ * @param cursor - The token cursor.
+ * @param parsed - The parse result to populate.
+ * @param vocabulary - The level type lookup.
+ * @returns Whether a level was parsed.
+ */
+const takeLevel = (
+    cursor: Cursor,
+    parsed: ParsedAddress,
+    vocabulary: Vocabulary,
+): boolean => {
+    if (parsed.level !== undefined) return false;
+
+    splitGluedType(cursor, vocabulary);
+    const { tokens, position } = cursor;
+
+    const match = matchPhrase(tokens, position, vocabulary);
+    if (!match) return false;
+
+    const levelNumber = parseNumberToken(tokens[position + match.length]);
+    if (levelNumber) {
+        parsed.level = { type: match.value, ...levelNumber };
+        cursor.position += match.length + 1;
+        return true;
+    }
+    if (tokens[position + match.length] === ",") {
+        parsed.level = { type: match.value };
+        cursor.position += match.length;
+        return true;
+    }
+
+    return false;
+};
+
+/**
+ * Parses a building name: a leading comma-separated segment that is not a
+ * flat, level, lot or number, when a later segment contains a number.
+ *
+ * @param cursor - The token cursor.
+ * @param parsed - The parse result to populate.
+ * @param vocabularies - The parser vocabularies.
+ * @returns Whether a building name was parsed.
+ */
+const takeBuildingName = (
+    cursor: Cursor,
+    parsed: ParsedAddress,
+    vocabularies: ParserVocabularies,
+): boolean => {
+    const { tokens, position } = cursor;
+    if (parsed.buildingName !== undefined) return false;
+    if (position > 0 && tokens[position - 1] !== ",") return false;
+
+    const end = tokens.indexOf(",", position);
+    if (end === -1) return false;
+
+    const first = tokens[position];
+    if (
+        first === "LOT" ||
+        parseNumberToken(first) ||
+        GLUED_PATTERN.test(first) ||
+        matchPhrase(tokens, position, vocabularies.flatTypes) ||
+        matchPhrase(tokens, position, vocabularies.levelTypes)
+    ) {
+        return false;
+    }
+    if (!tokens.slice(end).some((token) => parseNumberToken(token))) {
+        return false;
+    }
+
+    parsed.buildingName = joinTokens(tokens.slice(position, end));
+    cursor.position = end;
+    return true;
+};
+
+/**
+ * Parses a street number or number range ("12", "12A", "12-14").
+ *
+ * @param cursor - The token cursor.
+ * @returns The number range, or undefined when the next token is not a number.
+ */
+const takeNumber = (cursor: Cursor): NumberRange | undefined => {
+    const { tokens, position } = cursor;
+    const first = parseNumberToken(tokens[position]);
+    if (!first) return undefined;
+
+    const last =
+        tokens[position + 1] === "-"
+            ? parseNumberToken(tokens[position + 2])
+            : undefined;
+    cursor.position += last ? 3 : 1;
+
+    return last ? { ...first, last } : first;
+};
+
+/**
+ * Parses the street name, type and suffix, and the locality that follows.
+ *
+ * The street type is the first type word after at least one name word, within
+ * the current comma-separated segment. A coded suffix ("N") is accepted before
+ * further words; a long suffix ("NORTH") only at the end of a segment, so
+ * "SMITH ST NORTH SYDNEY" keeps "NORTH SYDNEY" as the locality.
+ *
+ * @param cursor - The token cursor.
+ * @param parsed - The parse result to populate.
+ * @param vocabularies - The parser vocabularies.
+ */
+const takeStreetAndLocality = (
+    cursor: Cursor,
+    parsed: ParsedAddress,
+    vocabularies: ParserVocabularies,
+): void => {
+    skipSeparators(cursor);
+    const { tokens, position } = cursor;
+    if (position >= tokens.length) return;
+
+    const segmentEnd = tokens.indexOf(",", position);
+    const end = segmentEnd === -1 ? tokens.length : segmentEnd;
+
+    let streetEnd = -1;
+    for (let index = position + 1; index < end; index++) {
+        const type = matchPhrase(tokens, index, vocabularies.streetTypes);
+        if (type === undefined) continue;
+
+        parsed.street = {
+            name: joinTokens(tokens.slice(position, index)),
+            type: type.value,
+        };
+        streetEnd = index + type.length;
+
+        const suffix = matchPhrase(
+            tokens,
+            streetEnd,
+            vocabularies.streetSuffixes,
+        );
+        if (suffix !== undefined) {
+            const next = tokens[streetEnd + suffix.length];
+            const atSegmentEnd = next === undefined || next === ",";
+            if (atSegmentEnd || suffix.phrase === suffix.value.code) {
+                parsed.street.suffix = suffix.value;
+                streetEnd += suffix.length;
+            }
+        }
+        break;
+    }
+
+    if (streetEnd === -1) {
+        // No street type: a separate segment is the street, or a bare house
+        // number is followed by its street; anything else is the locality.
+        const hasNumber =
+            parsed.number !== undefined || parsed.lotNumber !== undefined;
+        if (segmentEnd !== -1 || hasNumber) {
+            parsed.street = { name: joinTokens(tokens.slice(position, end)) };
+            streetEnd = end;
+        } else {
+            streetEnd = position;
+        }
+    }
+
+    cursor.position = streetEnd;
+    const locality = tokens.slice(streetEnd).filter((token) => token !== ",");
+    if (locality.length > 0) parsed.locality = { name: joinTokens(locality) };
+};
+
+// ---------------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------------
+
+/**
+ * Parses a free-text Australian address into structured components.
+ *
+ * Components are read in the order they appear in a single-line address:
+ * building name, flat, level and lot, then the street number or range, the
+ * street name, type and suffix, the locality, and finally the state and
+ * postcode. Components that cannot be identified are omitted.
+ *
+ * @param input - The free-text address (e.g. "U5 12-14 Smith Rd N, Sydney NSW 2000").
+ * @param context - The G-NAF authority code tables, as loaded by `loadAuthFiles`.
+ *   Missing tables simply disable recognition of that component type.
+ * @returns The parsed address components.
+ *
+ * @example
+ * ```typescript
+ * parseAddress("Unit 5, 12 Smith St, Sydney NSW 2000", loadContext);
+ * // {
+ * //   flat: { type: { code: "UNIT", name: "UNIT" }, number: 5 },
+ * //   number: { number: 12 },
+ * //   street: { name: "SMITH", type: { code: "STREET", name: "ST" } },
+ * //   locality: { name: "SYDNEY" },
+ * //   state: { name: "NEW SOUTH WALES", abbreviation: "NSW" },
+ * //   postcode: "2000",
+ * // }
+ * ```
+ */
+export const parseAddress = (
+    input: string,
+    context: Partial<PropertyCodeToNameContext>,
+): ParsedAddress => {
+    const vocabularies = getVocabularies(context);
+    const parsed: ParsedAddress = {};
+    const cursor: Cursor = { tokens: tokenise(input), position: 0 };
+
+    takeTrailingComponents(cursor.tokens, parsed);
+
+    // Sub-dwelling components may appear in any order before the number
+    let progressed = true;
+    while (progressed && cursor.position < cursor.tokens.length) {
+        skipSeparators(cursor);
+        progressed =
+            takeBuildingName(cursor, parsed, vocabularies) ||
+            takeLot(cursor, parsed) ||
+            takeFlat(cursor, parsed, vocabularies.flatTypes) ||
+            takeLevel(cursor, parsed, vocabularies.levelTypes);
+    }
+
+    skipSeparators(cursor);
+    const number = takeNumber(cursor);
+    if (number !== undefined) parsed.number = number;
+
+    takeStreetAndLocality(cursor, parsed, vocabularies);
+
+    return parsed;
+};
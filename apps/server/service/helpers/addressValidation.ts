@@ -0,0 +1,566 @@
+/**
+ * Component-level comparison between free-text input and a G-NAF address.
+ *
+ * The address validation endpoint uses these helpers to explain how a messy,
+ * user-entered address relates to its best match: which components were typed
+ * exactly, which were misspelt or abbreviated, which were left out, and which
+ * disagree with the matched record.
+ *
+ * @module addressValidation
+ */
+
+import type {
+    AddressDetailAttributes,
+    AddressValidationComponent,
+    AddressValidationVerdict,
+    AddressValidationVerdicts,
+} from "../types/jsonapi-types";
+import { STATE_NAMES } from "./addressParser";
+
+// ---------------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------------
+
+/**
+ * Relative importance of each component when computing the overall match score.
+ */
+const COMPONENT_WEIGHTS: Record<AddressValidationComponent, number> = {
+    street: 0.3,
+    number: 0.2,
+    locality: 0.2,
+    postcode: 0.1,
+    state: 0.1,
+    flat: 0.05,
+    level: 0.05,
+};
+
+/**
+ * Credit awarded to each verdict when computing the overall match score.
+ * Missing components are neutral-ish: the input was incomplete, not wrong.
+ */
+const VERDICT_CREDIT: Record<AddressValidationVerdict, number> = {
+    matched: 1,
+    corrected: 0.75,
+    missing: 0.5,
+    conflicting: 0,
+};
+
+/**
+ * Words that introduce a flat/unit number in free text.
+ */
+const FLAT_KEYWORDS = new Set([
+    "U",
+    "UNIT",
+    "APT",
+    "APARTMENT",
+    "FLAT",
+    "SHOP",
+    "SUITE",
+    "VILLA",
+    "OFFICE",
+]);
+
+/**
+ * Words that introduce a level/floor in free text.
+ */
+const LEVEL_KEYWORDS = new Set([
+    "L",
+    "LVL",
+    "LEVEL",
+    "FL",
+    "FLR",
+    "FLOOR",
+    "GROUND",
+    "BASEMENT",
+    "MEZZANINE",
+]);
+
+/**
+ * Words users commonly add that never form part of a G-NAF component.
+ */
+const NOISE_WORDS = new Set(["AUSTRALIA", "AU", "LOT"]);
+
+// ---------------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------------
+
+/**
+ * A tokenised input address with per-token consumption tracking.
+ */
+type TokenState = {
+    /** Uppercase alphanumeric tokens (and "/" separators) from the input */
+    tokens: string[];
+    /** Whether each token has been attributed to a component */
+    consumed: boolean[];
+};
+
+/**
+ * Component values extracted from the matched address, as token sequences.
+ */
+type ExpectedComponent = {
+    /** Token sequences that count as an exact match */
+    exact: string[][];
+    /** Token sequences that count as a corrected (partial) match */
+    partial: string[][];
+    /** Token sequences eligible for fuzzy (typo-tolerant) matching */
+    fuzzy: string[][];
+    /** Tokens to consume alongside a match (e.g. the flat type "UNIT") */
+    companions: string[];
+    /** Whether to prefer the last occurrence (components at the end of an address) */
+    fromEnd: boolean;
+};
+
+// ---------------------------------------------------------------------------------
+// Tokenisation and Matching
+// ---------------------------------------------------------------------------------
+
+/**
+ * Splits a free-text address into uppercase alphanumeric tokens, keeping "/"
+ * as a separate token so "1/12" style flat notation can still be recognised.
+ *
+ * @param input - The free-text address.
+ * @returns Token state with nothing consumed yet.
+ */
+const tokenise = (input: string): TokenState => {
+    const tokens =
+        input
+            .toUpperCase()
+            // Separate glued flat/level prefixes such as "U5" or "L12"
+            .replace(/\b(U|UNIT|APT|L|LVL|LEVEL)(?=\d)/g, "$1 ")
+            .match(/[A-Z0-9]+|\//g) ?? [];
+
+    // Separators are never attributed to a component
+    return { tokens, consumed: tokens.map((token) => token === "/") };
+};
+
+/**
+ * Splits a component value into tokens using the same rules as the input.
+ *
+ * @param value - The component value (e.g. "ST GEORGES").
+ * @returns The value's tokens.
+ */
+const toTokens = (value: string): string[] =>
+    value.toUpperCase().match(/[A-Z0-9]+/g) ?? [];
+
+/**
+ * Finds an unconsumed, contiguous occurrence of a token sequence.
+ *
+ * @param state - The input token state.
+ * @param sequence - The token sequence to find.
+ * @param fromEnd - Whether to return the last occurrence instead of the first.
+ * @param equals - Token comparison function.
+ * @returns The start index of the occurrence, or -1 when absent.
+ */
+const findSequence = (
+    state: TokenState,
+    sequence: string[],
+    fromEnd: boolean,
+    equals: (actual: string, expected: string) => boolean = (a, b) => a === b,
+): number => {
+    if (sequence.length === 0) return -1;
+
+    const starts: number[] = [];
+    for (let i = 0; i + sequence.length <= state.tokens.length; i++) {
+        starts.push(i);
+    }
+    if (fromEnd) starts.reverse();
+
+    for (const start of starts) {
+        const found = sequence.every(
+            (expected, offset) =>
+                !state.consumed[start + offset] &&
+                equals(state.tokens[start + offset], expected),
+        );
+        if (found) return start;
+    }
+    return -1;
+};
+
+/**
+ * Marks a run of tokens as consumed.
+ *
+ * @param state - The input token state.
+ * @param start - Index of the first token.
+ * @param length - Number of tokens to consume.
+ */
+const consume = (state: TokenState, start: number, length: number): void => {
+    for (let i = start; i < start + length; i++) {
+        state.consumed[i] = true;
+    }
+};
+
+/**
+ * Computes the Levenshtein edit distance between two strings.
+ *
+ * @param a - The first string.
+ * @param b - The second string.
+ * @returns The minimum number of single-character edits between the strings.
+ */
+const editDistance = (a: string, b: string): number => {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+/**
+ * Decides whether a typed token is a plausible misspelling or truncation of
+ * the expected token. Short tokens must match exactly to avoid false positives.
+ *
+ * @param actual - The typed token.
+ * @param expected - The expected token from the matched address.
+ * @returns True when the typed token is close enough to count as a correction.
+ */
+const isNearMatch = (actual: string, expected: string): boolean => {
+    if (actual === expected) return true;
+    if (expected.length <= 3) return false;
+
+    // Truncated input, e.g. "BARANG" for "BARANGAROO"
+    if (actual.length >= 4 && expected.startsWith(actual)) return true;
+
+    const allowance = expected.length <= 6 ? 1 : 2;
+    return editDistance(actual, expected) <= allowance;
+};
+
+/**
+ * Formats a prefix/number/suffix triple as a single token (e.g. "12A").
+ *
+ * @param part - The numbered component.
+ * @returns The formatted token, or undefined when there is no number.
+ */
+const formatNumber = (
+    part:
+        | { prefix?: string; number?: number | string; suffix?: string }
+        | undefined,
+): string | undefined => {
+    if (part?.number === undefined) return undefined;
+    return `${part.prefix ?? ""}${part.number}${part.suffix ?? ""}`.toUpperCase();
+};
+
+/**
+ * Collects the code and name of a coded component as token sequences.
+ *
+ * @param coded - An object with optional code and name (e.g. a street type).
+ * @returns The non-empty token sequences for the code and name.
+ */
+const codeAndName = (
+    coded: { code?: string; name?: string } | undefined,
+): string[][] =>
+    [coded?.code, coded?.name]
+        .filter((value): value is string => value !== undefined && value !== "")
+        .map(toTokens);
+
+// ---------------------------------------------------------------------------------
+// Expected Component Extraction
+// ---------------------------------------------------------------------------------
+
+/**
+ * Extracts the expected token sequences for each component of the matched
+ * address. Components the address does not have are left out.
+ *
+ * @param attributes - The matched address attributes.
+ * @returns Expected sequences keyed by component.
+ */
+const extractExpectedComponents = (
+    attributes: AddressDetailAttributes,
+): Partial<Record<AddressValidationComponent, ExpectedComponent>> => {
+    const { flat, level, number, lotNumber, street, locality, state } =
+        attributes.structured;
+    const expected: Partial<
+        Record<AddressValidationComponent, ExpectedComponent>
+    > = {};
+
+    const flatNumber = formatNumber(flat);
+    if (flatNumber !== undefined) {
+        expected.flat = {
+            exact: [[flatNumber]],
+            partial: [],
+            fuzzy: [],
+            companions: codeAndName(flat?.type).flat(),
+            fromEnd: false,
+        };
+    }
+
+    const levelNumber = formatNumber(level);
+    if (level !== undefined) {
+        const levelTypes = codeAndName(level.type);
+        expected.level = {
+            // Unnumbered levels such as "GROUND" are identified by their type alone
+            exact: levelNumber !== undefined ? [[levelNumber]] : levelTypes,
+            partial: [],
+            fuzzy: [],
+            companions: levelTypes.flat(),
+            fromEnd: false,
+        };
+    }
+
+    const first = formatNumber(number);
+    const last = formatNumber(number?.last);
+    if (first !== undefined) {
+        expected.number = {
+            exact: [last !== undefined ? [first, last] : [first]],
+            // Typing one end of a range, or dropping a suffix, is a correction
+            partial: [
+                ...(last !== undefined ? [[first], [last]] : []),
+                ...(number?.number !== undefined &&
+                first !== String(number.number)
+                    ? [[String(number.number)]]
+                    : []),
+            ],
+            fuzzy: [],
+            companions: [],
+            fromEnd: false,
+        };
+    } else if (lotNumber?.number !== undefined) {
+        const lot = formatNumber(lotNumber) as string;
+        expected.number = {
+            exact: [["LOT", lot], [lot]],
+            partial: [],
+            fuzzy: [],
+            companions: [],
+            fromEnd: false,
+        };
+    }
+
+    if (street?.name !== undefined) {
+        const name = toTokens(street.name);
+        const types = codeAndName(street.type);
+        const suffixes = codeAndName(street.suffix);
+        const withType = types.length > 0 ? types : [[]];
+        const withSuffix = suffixes.length > 0 ? suffixes : [[]];
+        expected.street = {
+            exact: withType.flatMap((type) =>
+                withSuffix.map((suffix) => [...name, ...type, ...suffix]),
+            ),
+            // The street name without its type or suffix was filled in for the user
+            partial: [name],
+            fuzzy: [name],
+            companions: [...types.flat(), ...suffixes.flat()],
+            fromEnd: false,
+        };
+    }
+
+    if (locality?.name !== undefined) {
+        const name = toTokens(locality.name);
+        expected.locality = {
+            exact: [name],
+            partial: [],
+            fuzzy: [name],
+            companions: [],
+            fromEnd: true,
+        };
+    }
+
+    if (state?.abbreviation !== undefined) {
+        const fullName =
+            state.name ?? STATE_NAMES[state.abbreviation.toUpperCase()];
+        expected.state = {
+            exact: [
+                [state.abbreviation.toUpperCase()],
+                ...(fullName !== undefined ? [toTokens(fullName)] : []),
+            ],
+            partial: [],
+            fuzzy: fullName !== undefined ? [toTokens(fullName)] : [],
+            companions: [],
+            fromEnd: true,
+        };
+    }
+
+    if (attributes.structured.postcode !== undefined) {
+        expected.postcode = {
+            exact: [[attributes.structured.postcode]],
+            partial: [],
+            fuzzy: [],
+            companions: [],
+            fromEnd: true,
+        };
+    }
+
+    return expected;
+};
+
+// ---------------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------------
+
+/**
+ * Compares a free-text address with a matched G-NAF address and returns a
+ * verdict for each component.
+ *
+ * Matching runs in three passes over the input tokens: exact matches first
+ * (so unambiguous components claim their tokens), then typo-tolerant and
+ * partial matches, and finally any tokens left over are attributed to the
+ * component they most likely describe, making that component conflicting.
+ *
+ * @param input - The free-text address supplied by the caller.
+ * @param attributes - The matched address attributes.
+ * @returns Verdicts keyed by component.
+ */
+export const compareAddressComponents = (
+    input: string,
+    attributes: AddressDetailAttributes,
+): AddressValidationVerdicts => {
+    const state = tokenise(input);
+    const expected = extractExpectedComponents(attributes);
+    const verdicts: AddressValidationVerdicts = {};
+
+    // Postcode and state go first so their tokens are not mistaken for numbers or
+    // names, and the street (name plus type) before the locality because it is
+    // the more specific of two names that are often identical
+    const order: AddressValidationComponent[] = [
+        "postcode",
+        "state",
+        "street",
+        "locality",
+        "number",
+        "flat",
+        "level",
+    ];
+
+    /**
+     * Consumes the first matching sequence and any companion tokens.
+     *
+     * @param component - The component being matched.
+     * @param sequences - Candidate token sequences.
+     * @param equals - Token comparison function.
+     * @returns True when one of the sequences was found.
+     */
+    const claim = (
+        component: AddressValidationComponent,
+        sequences: string[][],
+        equals?: (actual: string, expected: string) => boolean,
+    ): boolean => {
+        const spec = expected[component] as ExpectedComponent;
+        for (const sequence of sequences) {
+            const start = findSequence(state, sequence, spec.fromEnd, equals);
+            if (start === -1) continue;
+            consume(state, start, sequence.length);
+            for (const companion of spec.companions) {
+                const index = findSequence(state, [companion], false);
+                if (index !== -1) consume(state, index, 1);
+            }
+            return true;
+        }
+        return false;
+    };
+
+    // Pass 1: exact matches
+    for (const component of order) {
+        const spec = expected[component];
+        if (spec !== undefined && claim(component, spec.exact)) {
+            verdicts[component] = "matched";
+        }
+    }
+
+    // Pass 2: partial and typo-tolerant matches
+    for (const component of order) {
+        const spec = expected[component];
+        if (spec === undefined || verdicts[component] !== undefined) continue;
+        if (
+            claim(component, spec.partial) ||
+            claim(component, spec.fuzzy, isNearMatch)
+        ) {
+            verdicts[component] = "corrected";
+        }
+    }
+
+    // Pass 3: attribute leftover tokens to the component they most likely describe
+    const claimed = new Set<AddressValidationComponent>();
+    state.tokens.forEach((token, index) => {
+        if (state.consumed[index]) return;
+        const next = state.tokens[index + 1];
+
+        if (FLAT_KEYWORDS.has(token)) {
+            claimed.add("flat");
+            // The number after the keyword belongs to the flat, not the street
+            if (next !== undefined && /\d/.test(next)) {
+                consume(state, index + 1, 1);
+            }
+        } else if (LEVEL_KEYWORDS.has(token)) {
+            claimed.add("level");
+            if (next !== undefined && /\d/.test(next)) {
+                consume(state, index + 1, 1);
+            }
+        } else if (/\d/.test(token) && next === "/") {
+            claimed.add("flat");
+        } else if (/^\d{4}$/.test(token)) {
+            claimed.add("postcode");
+        } else if (/\d/.test(token)) {
+            claimed.add("number");
+        } else if (STATE_NAMES[token] !== undefined) {
+            claimed.add("state");
+        } else if (!NOISE_WORDS.has(token)) {
+            // Unexplained words are a different street or locality name
+            claimed.add("street");
+            claimed.add("locality");
+        }
+        state.consumed[index] = true;
+    });
+
+    // Resolve the remaining components
+    for (const component of order) {
+        if (verdicts[component] !== undefined) continue;
+        if (expected[component] !== undefined) {
+            verdicts[component] = claimed.has(component)
+                ? "conflicting"
+                : "missing";
+        } else if (
+            claimed.has(component) &&
+            component !== "street" &&
+            component !== "locality"
+        ) {
+            // The input describes a component the matched address does not have
+            verdicts[component] = "conflicting";
+        }
+    }
+
+    // Report components in the order they appear in an address
+    const reported: AddressValidationComponent[] = [
+        "flat",
+        "level",
+        "number",
+        "street",
+        "locality",
+        "state",
+        "postcode",
+    ];
+    return Object.fromEntries(
+        reported
+            .filter((component) => verdicts[component] !== undefined)
+            .map((component) => [component, verdicts[component]]),
+    ) as AddressValidationVerdicts;
+};
+
+/**
+ * Combines component verdicts into a single match score.
+ *
+ * @param verdicts - Verdicts keyed by component.
+ * @returns A score from 0 (nothing matched) to 1 (every component matched),
+ *   rounded to two decimal places.
+ */
+export const scoreAddressVerdicts = (
+    verdicts: AddressValidationVerdicts,
+): number => {
+    let weightTotal = 0;
+    let creditTotal = 0;
+
+    for (const [component, verdict] of Object.entries(verdicts) as [
+        AddressValidationComponent,
+        AddressValidationVerdict,
+    ][]) {
+        weightTotal += COMPONENT_WEIGHTS[component];
+        creditTotal += COMPONENT_WEIGHTS[component] * VERDICT_CREDIT[verdict];
+    }
+
+    if (weightTotal === 0) return 0;
+    return Math.round((creditTotal / weightTotal) * 100) / 100;
+};
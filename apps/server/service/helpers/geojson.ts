@@ -0,0 +1,187 @@
+/**
+ * GeoJSON representations.
+ *
+ * Clients that ask for `application/geo+json` get GeoJSON features built from
+ * the same resources as the JSON:API documents, so results load straight
+ * into GIS tools and mapping libraries. A resource's attributes become the
+ * feature's properties, and its position becomes a point geometry: the
+ * default geocode for an address and the centroid for a locality. Links and
+ * pagination metadata are kept as GeoJSON foreign members.
+ *
+ * @module geojson
+ */
+
+import type {
+    GeoJsonFeature,
+    GeoJsonFeatureCollection,
+    GeoJsonPoint,
+    ResponseFormat,
+} from "../types/geojson-types";
+import type {
+    AddressDetailAttributes,
+    JsonApiLinks,
+    JsonApiMeta,
+    JsonApiResource,
+    LocalityDetailAttributes,
+} from "../types/jsonapi-types";
+import { JSONAPI_CONTENT_TYPE } from "./jsonapi";
+
+// ---------------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------------
+
+/**
+ * The media type of GeoJSON documents (RFC 7946).
+ */
+export const GEOJSON_CONTENT_TYPE = "application/geo+json";
+
+// ---------------------------------------------------------------------------------
+// Content Negotiation
+// ---------------------------------------------------------------------------------
+
+/**
+ * Works out which representation a request asks for from its `Accept` header.
+ * JSON:API is kept when the request accepts both, or accepts any type.
+ *
+ * @param request - The request, with Express's `accepts` method.
+ * @returns `geojson` when GeoJSON is the preferred type, otherwise `jsonapi`.
+ */
+export const getResponseFormat = (request: {
+    accepts(types: string[]): string | false;
+}): ResponseFormat =>
+    request.accepts([
+        JSONAPI_CONTENT_TYPE,
+        "application/json",
+        GEOJSON_CONTENT_TYPE,
+    ]) === GEOJSON_CONTENT_TYPE
+        ? "geojson"
+        : "jsonapi";
+
+// ---------------------------------------------------------------------------------
+// Geometry
+// ---------------------------------------------------------------------------------
+
+/**
+ * Builds a point geometry. GeoJSON positions list longitude before latitude.
+ *
+ * @param latitude - Geographic latitude coordinate.
+ * @param longitude - Geographic longitude coordinate.
+ * @returns The point geometry.
+ */
+const buildPoint = (latitude: number, longitude: number): GeoJsonPoint => ({
+    type: "Point",
+    coordinates: [longitude, latitude],
+});
+
+/**
+ * Builds the geometry of an address from its `geo` attribute: the default
+ * geocode, or the first geocode when none is marked default.
+ *
+ * @param geo - The address's `geo` attribute, if any.
+ * @returns The point geometry, or null when the address has no geocode.
+ */
+export const getAddressGeometry = (
+    geo: AddressDetailAttributes["geo"],
+): GeoJsonPoint | null => {
+    const geocodes = geo?.geocodes ?? [];
+    const geocode =
+        geocodes.find((candidate) => candidate.isDefault) ?? geocodes[0];
+    return geocode === undefined
+        ? null
+        : buildPoint(geocode.latitude, geocode.longitude);
+};
+
+// ---------------------------------------------------------------------------------
+// Features
+// ---------------------------------------------------------------------------------
+
+/**
+ * Builds a feature from a JSON:API resource.
+ *
+ * @param resource - The resource.
+ * @param geometry - The position of the resource, or null when it has none.
+ * @returns The feature.
+ */
+const buildFeature = <TAttributes extends Record<string, unknown>>(
+    resource: Pick<JsonApiResource<TAttributes>, "id" | "attributes" | "links">,
+    geometry: GeoJsonPoint | null,
+): GeoJsonFeature<TAttributes> => ({
+    type: "Feature",
+    id: resource.id,
+    geometry,
+    properties: resource.attributes,
+    ...(resource.links !== undefined && { links: resource.links }),
+});
+
+/**
+ * Builds the feature for a detailed address, positioned at its default geocode.
+ *
+ * The position is passed separately so a sparse fieldset that leaves out
+ * `geo` still yields a positioned feature.
+ *
+ * @param resource - The address resource (possibly trimmed to a sparse fieldset).
+ * @param geo - The address's complete `geo` attribute.
+ * @returns The address feature.
+ */
+export const buildAddressFeature = (
+    resource: JsonApiResource<AddressDetailAttributes>,
+    geo: AddressDetailAttributes["geo"],
+): GeoJsonFeature<AddressDetailAttributes> =>
+    buildFeature(resource, getAddressGeometry(geo));
+
+/**
+ * Builds the feature for an address suggestion. Suggestions carry no
+ * geocodes, so the position indexed for the address is passed in.
+ *
+ * @param resource - The address suggestion resource.
+ * @param location - The default geocode indexed for the address, if any.
+ * @returns The address suggestion feature.
+ */
+export const buildAddressSuggestionFeature = <
+    TAttributes extends Record<string, unknown>,
+>(
+    resource: Pick<JsonApiResource<TAttributes>, "id" | "attributes" | "links">,
+    location: { lat: number; lon: number } | undefined,
+): GeoJsonFeature<TAttributes> =>
+    buildFeature(
+        resource,
+        location === undefined ? null : buildPoint(location.lat, location.lon),
+    );
+
+/**
+ * Builds the feature for a detailed locality, positioned at its centroid.
+ *
+ * @param resource - The locality resource (possibly trimmed to a sparse fieldset).
+ * @param centroid - The locality's centroid, if it has one.
+ * @returns The locality feature.
+ */
+export const buildLocalityFeature = (
+    resource: JsonApiResource<LocalityDetailAttributes>,
+    centroid: LocalityDetailAttributes["centroid"],
+): GeoJsonFeature<LocalityDetailAttributes> =>
+    buildFeature(
+        resource,
+        centroid === undefined
+            ? null
+            : buildPoint(centroid.latitude, centroid.longitude),
+    );
+
+/**
+ * Builds a feature collection, keeping a collection document's links and
+ * pagination metadata.
+ *
+ * @param features - The features of the collection.
+ * @param links - The collection's pagination and navigation links, if any.
+ * @param meta - The collection's pagination metadata, if any.
+ * @returns The feature collection.
+ */
+export const buildFeatureCollection = <TProperties>(
+    features: GeoJsonFeature<TProperties>[],
+    links?: JsonApiLinks,
+    meta?: JsonApiMeta,
+): GeoJsonFeatureCollection<TProperties> => ({
+    type: "FeatureCollection",
+    features,
+    ...(links !== undefined && { links }),
+    ...(meta !== undefined && { meta }),
+});
@@ -0,0 +1,126 @@
+/**
+ * Search result highlighting.
+ *
+ * Address searches ask OpenSearch to highlight the matched terms of the whole
+ * `sla` and `ssla` values. Because highlighting runs through the index
+ * analyzer, matches found through synonyms (e.g. "ST" for "STREET") and fuzzy
+ * or prefix matching are marked too. The markers are then turned into
+ * character ranges, so clients can emphasise the matched text without
+ * re-implementing the analyzer.
+ *
+ * @module highlights
+ */
+
+import type {
+    AddressSuggestionHighlights,
+    HighlightRange,
+} from "../types/jsonapi-types";
+import type { AddressSearchMode } from "../types/shared-types";
+
+// ---------------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------------
+
+/**
+ * Marks the start of a highlighted term. A control character is used so it
+ * can never be confused with address text.
+ */
+export const HIGHLIGHT_PRE_TAG = "\u0002";
+
+/**
+ * Marks the end of a highlighted term.
+ */
+export const HIGHLIGHT_POST_TAG = "\u0003";
+
+/**
+ * The address fields whose matches are highlighted.
+ */
+const HIGHLIGHTED_FIELDS = ["sla", "ssla"] as const;
+
+// ---------------------------------------------------------------------------------
+// Request
+// ---------------------------------------------------------------------------------
+
+/**
+ * Builds the `highlight` section of an address search request.
+ *
+ * `number_of_fragments: 0` returns each field's whole value rather than
+ * snippets, so offsets in the highlighted value are offsets in the field.
+ * In `edge-ngram` mode the search only queries the `edge` subfields, so those
+ * are highlighted instead; their terms cover whole words.
+ *
+ * @param mode - The query mode of the search.
+ * @returns The highlight request.
+ */
+export const buildAddressHighlightRequest = (
+    mode: AddressSearchMode = "standard",
+): Record<string, unknown> => ({
+    pre_tags: [HIGHLIGHT_PRE_TAG],
+    post_tags: [HIGHLIGHT_POST_TAG],
+    number_of_fragments: 0,
+    fields: Object.fromEntries(
+        HIGHLIGHTED_FIELDS.map((field) => [
+            mode === "edge-ngram" ? `${field}.edge` : field,
+            {},
+        ]),
+    ),
+});
+
+// ---------------------------------------------------------------------------------
+// Ranges
+// ---------------------------------------------------------------------------------
+
+/**
+ * Converts a highlighted value into the character ranges of its marked terms.
+ *
+ * Ranges are offsets into the unmarked value, with an exclusive end, so
+ * `value.slice(start, end)` is the matched text. Ranges that touch are merged.
+ *
+ * @param highlighted - The value with highlight markers.
+ * @returns The matched ranges, in order.
+ */
+export const getHighlightRanges = (highlighted: string): HighlightRange[] => {
+    const ranges: HighlightRange[] = [];
+    let offset = 0;
+    let start: number | undefined;
+
+    for (const character of highlighted) {
+        if (character === HIGHLIGHT_PRE_TAG) {
+            start = offset;
+        } else if (character === HIGHLIGHT_POST_TAG) {
+            if (start !== undefined && offset > start) {
+                const previous = ranges[ranges.length - 1];
+                if (previous !== undefined && previous.end === start) {
+                    previous.end = offset;
+                } else {
+                    ranges.push({ start, end: offset });
+                }
+            }
+            start = undefined;
+        } else {
+            offset += character.length;
+        }
+    }
+    return ranges;
+};
+
+/**
+ * Converts the highlights of an address search hit into matched ranges.
+ *
+ * @param highlight - The `highlight` returned for the hit, if any.
+ * @returns The matched ranges of each highlighted field, or undefined when nothing was highlighted.
+ */
+export const getAddressHighlights = (
+    highlight: Partial<Record<string, string[]>> | undefined,
+): AddressSuggestionHighlights | undefined => {
+    if (highlight === undefined) return undefined;
+
+    const highlights: AddressSuggestionHighlights = {};
+    for (const field of HIGHLIGHTED_FIELDS) {
+        const value = (highlight[field] ?? highlight[`${field}.edge`])?.[0];
+        if (value === undefined) continue;
+        const ranges = getHighlightRanges(value);
+        if (ranges.length > 0) highlights[field] = ranges;
+    }
+    return Object.keys(highlights).length > 0 ? highlights : undefined;
+};
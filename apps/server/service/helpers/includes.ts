@@ -0,0 +1,86 @@
+/**
+ * JSON:API compound documents.
+ *
+ * Parses the `include` parameter (a comma-separated list of relationship
+ * names) that asks for related resources to be returned in the document's
+ * top-level `included` array alongside the primary data.
+ *
+ * @module includes
+ */
+
+// ---------------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------------
+
+/**
+ * Relationships of address resources that can be included.
+ */
+export const ADDRESS_INCLUDES = ["locality"] as const;
+
+// ---------------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------------
+
+/**
+ * Error thrown when an `include` parameter cannot be parsed.
+ */
+export class IncludeError extends Error {
+    /** The request parameter that holds the invalid include */
+    readonly parameter: string;
+
+    /**
+     * Creates a new IncludeError.
+     *
+     * @param message - Description of the problem, suitable for API clients.
+     * @param parameter - The request parameter that holds the invalid include.
+     */
+    constructor(message: string, parameter = "include") {
+        super(message);
+        this.name = "IncludeError";
+        this.parameter = parameter;
+    }
+}
+
+// ---------------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------------
+
+/**
+ * Parses the value of an `include` parameter.
+ *
+ * JSON:API requires a server that cannot include a requested relationship to
+ * reject the request, so unknown names are an error rather than ignored.
+ *
+ * @param value - The raw parameter value.
+ * @param allowed - The relationships that can be included.
+ * @returns The requested relationship names, or undefined when none were requested.
+ * @throws {IncludeError} When the value is not a string or names an unsupported relationship.
+ */
+export const parseInclude = (
+    value: unknown,
+    allowed: readonly string[],
+): string[] | undefined => {
+    if (value === undefined) return undefined;
+
+    if (typeof value !== "string") {
+        throw new IncludeError(
+            "The 'include' parameter must be a comma-separated list of relationship names.",
+        );
+    }
+
+    const includes = [
+        ...new Set(
+            value
+                .split(",")
+                .map((name) => name.trim())
+                .filter((name) => name !== ""),
+        ),
+    ];
+    const unsupported = includes.find((name) => !allowed.includes(name));
+    if (unsupported !== undefined) {
+        throw new IncludeError(
+            `The 'include' parameter names an unsupported relationship '${unsupported}'. Supported relationships are: ${allowed.join(", ")}.`,
+        );
+    }
+    return includes.length > 0 ? includes : undefined;
+};
@@ -10,6 +10,16 @@ export * from "./searchCache";
 export * from "./circuitBreaker";
 export * from "./terminalUI";
 export * from "./jsonapi";
+export * from "./addressValidation";
+export * from "./addressParser";
+export * from "./addressFilters";
+export * from "./localityAliases";
+export * from "./sparseFieldsets";
+export * from "./includes";
+export * from "./highlights";
+export * from "./numberRanges";
+export * from "./searchSuggestions";
+export * from "./geojson";
 
 // Re-export clearAuthorityCodeMaps for use during data reload
 export { clearAuthorityCodeMaps } from "./propertyCodeToName";
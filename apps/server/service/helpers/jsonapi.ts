@@ -9,18 +9,44 @@
 import type {
     AddressAutocompleteAttributes,
     AddressAutocompleteDocument,
+    AddressBatchDocument,
+    AddressBatchMeta,
+    AddressBatchResultResource,
     AddressDetailAttributes,
     AddressDetailDocument,
+    AddressDetailResource,
+    AddressRedirectDocument,
+    AddressRelatedAddresses,
+    AddressRetiredMeta,
+    AddressReverseGeocodeDocument,
+    AddressReverseGeocodeMeta,
+    AddressSecondariesDocument,
+    AddressSiteSiblingsDocument,
+    AddressSuggestionHighlights,
+    AddressValidationDocument,
+    AddressValidationMeta,
     JsonApiError,
     JsonApiErrorDocument,
     JsonApiImplementation,
     JsonApiLinks,
     JsonApiMeta,
+    JsonApiRelationship,
+    JsonApiRelationships,
     JsonApiResource,
     LocalityAutocompleteAttributes,
     LocalityAutocompleteDocument,
     LocalityDetailAttributes,
     LocalityDetailDocument,
+    ParsedAddressAttributes,
+    ParsedAddressDocument,
+    PostcodeAutocompleteAttributes,
+    PostcodeAutocompleteDocument,
+    PostcodeDetailAttributes,
+    PostcodeDetailDocument,
+    StreetAutocompleteAttributes,
+    StreetAutocompleteDocument,
+    StreetDetailAttributes,
+    StreetDetailDocument,
 } from "../types/jsonapi-types";
 
 /**
@@ -42,6 +68,18 @@ export const RESOURCE_TYPES = {
     LOCALITY: "locality",
     /** Resource type for locality autocomplete suggestions */
     LOCALITY_SUGGESTION: "locality-suggestion",
+    /** Resource type for street entities */
+    STREET: "street",
+    /** Resource type for street autocomplete suggestions */
+    STREET_SUGGESTION: "street-suggestion",
+    /** Resource type for postcode entities */
+    POSTCODE: "postcode",
+    /** Resource type for postcode autocomplete suggestions */
+    POSTCODE_SUGGESTION: "postcode-suggestion",
+    /** Resource type for free-text addresses split into components */
+    PARSED_ADDRESS: "parsed-address",
+    /** Resource type for batch validation results */
+    ADDRESS_BATCH_RESULT: "address-batch-result",
 } as const;
 
 /**
@@ -66,6 +104,43 @@ export const extractLocalityId = (path: string): string => {
     return path.replace(/^\/localities\//, "");
 };
 
+/**
+ * Extracts the street ID from a full resource path.
+ * Converts "/streets/NSW2763154" to "NSW2763154".
+ *
+ * @param path - Full path including the resource prefix.
+ * @returns The extracted street ID.
+ */
+export const extractStreetId = (path: string): string => {
+    return path.replace(/^\/streets\//, "");
+};
+
+/**
+ * Extracts the postcode from a full resource path.
+ * Converts "/postcodes/2000" to "2000".
+ *
+ * @param path - Full path including the resource prefix.
+ * @returns The extracted postcode.
+ */
+export const extractPostcodeId = (path: string): string => {
+    return path.replace(/^\/postcodes\//, "");
+};
+
+/**
+ * Builds the `locality` relationship from an address to the locality it is in.
+ *
+ * @param localityPid - The G-NAF Locality PID of the address's locality.
+ * @returns The relationship, with the locality as resource linkage.
+ */
+export const buildLocalityRelationship = (
+    localityPid: string,
+): JsonApiRelationship => ({
+    data: { type: RESOURCE_TYPES.LOCALITY, id: localityPid },
+    links: {
+        related: `/localities/${localityPid}`,
+    },
+});
+
 /**
  * Builds a JSON:API resource object for an autocomplete suggestion.
  *
@@ -73,6 +148,11 @@ export const extractLocalityId = (path: string): string => {
  * @param sla - Single-line address string for display.
  * @param rank - Search relevance score (0-1 normalized).
  * @param ssla - Optional short single-line address.
+ * @param matchedAlias - The locality alias the search matched through, if any.
+ * @param secondaryCount - The number of units, when the suggestion is a building's primary address.
+ * @param localityPid - The G-NAF Locality PID of the address's locality, if known.
+ * @param highlights - The ranges of `sla` and `ssla` that matched the search, if any.
+ * @param matchedByRange - Whether the search's street number only matched inside the address's number range.
  * @returns A JSON:API resource object for the autocomplete result.
  */
 export const buildAutocompleteResource = (
@@ -80,18 +160,43 @@ export const buildAutocompleteResource = (
     sla: string,
     rank: number,
     ssla?: string,
+    matchedAlias?: string,
+    secondaryCount?: number,
+    localityPid?: string,
+    highlights?: AddressSuggestionHighlights,
+    matchedByRange?: boolean,
 ): JsonApiResource<AddressAutocompleteAttributes> => {
     // Construct the attributes object with only defined values
     const attributes: AddressAutocompleteAttributes = {
         sla,
         rank,
         ...(ssla !== undefined && { ssla }),
+        ...(matchedAlias !== undefined && { matchedAlias }),
+    };
+    const relationships: JsonApiRelationships = {
+        ...(secondaryCount !== undefined && {
+            secondaries: {
+                links: {
+                    related: `/addresses/${id}/secondaries`,
+                },
+                meta: { count: secondaryCount },
+            },
+        }),
+        ...(localityPid !== undefined && {
+            locality: buildLocalityRelationship(localityPid),
+        }),
+    };
+    const meta = {
+        ...(highlights !== undefined && { highlights }),
+        ...(matchedByRange && { matchedByRange }),
     };
 
     return {
         type: RESOURCE_TYPES.ADDRESS_SUGGESTION,
         id,
         attributes,
+        ...(Object.keys(relationships).length > 0 && { relationships }),
+        ...(Object.keys(meta).length > 0 && { meta }),
         links: {
             self: `/addresses/${id}`,
         },
@@ -101,18 +206,80 @@ export const buildAutocompleteResource = (
 /**
  * Builds a JSON:API resource object for a detailed address.
  *
+ * Alias addresses (G-NAF ADDRESS_ALIAS) get a `principal` relationship
+ * pointing at the principal address for the same property. Addresses in a
+ * building (G-NAF PRIMARY_SECONDARY) get a `primary` relationship from each
+ * unit to the building's primary address, and a `secondaries` relationship
+ * from the primary address to the collection of its units. Addresses with a
+ * known address site get a `siteSiblings` relationship to the other addresses
+ * on the same site, and every address gets a `locality` relationship to the
+ * locality it is in.
+ *
  * @param id - Unique identifier for the address (G-NAF PID).
  * @param attributes - Complete address attributes including structured data.
+ * @param related - The principal, primary and secondary addresses, address site and locality, when there are any.
  * @returns A JSON:API resource object for the address.
  */
 export const buildAddressResource = (
     id: string,
     attributes: AddressDetailAttributes,
+    related: AddressRelatedAddresses = {},
 ): JsonApiResource<AddressDetailAttributes> => {
+    const {
+        principal,
+        primaryPid,
+        secondaryCount,
+        addressSitePid,
+        localityPid,
+    } = related;
+    const relationships: JsonApiRelationships = {
+        ...(principal !== undefined && {
+            principal: {
+                data: {
+                    type: RESOURCE_TYPES.ADDRESS,
+                    id: principal.pid,
+                    ...(principal.aliasTypeCode && {
+                        meta: { aliasType: principal.aliasTypeCode },
+                    }),
+                },
+                links: {
+                    related: `/addresses/${principal.pid}`,
+                },
+            },
+        }),
+        ...(primaryPid !== undefined && {
+            primary: {
+                data: { type: RESOURCE_TYPES.ADDRESS, id: primaryPid },
+                links: {
+                    related: `/addresses/${id}/primary`,
+                },
+            },
+        }),
+        ...(secondaryCount !== undefined && {
+            secondaries: {
+                links: {
+                    related: `/addresses/${id}/secondaries`,
+                },
+                meta: { count: secondaryCount },
+            },
+        }),
+        ...(addressSitePid !== undefined && {
+            siteSiblings: {
+                links: {
+                    related: `/addresses/${id}/site-siblings`,
+                },
+            },
+        }),
+        ...(localityPid !== undefined && {
+            locality: buildLocalityRelationship(localityPid),
+        }),
+    };
+
     return {
         type: RESOURCE_TYPES.ADDRESS,
         id,
         attributes,
+        ...(Object.keys(relationships).length > 0 && { relationships }),
         links: {
             self: `/addresses/${id}`,
         },
@@ -125,17 +292,20 @@ export const buildAddressResource = (
  * @param id - Unique identifier for the locality (G-NAF Locality PID).
  * @param display - Display string for the locality (e.g., "SYDNEY NSW 2000").
  * @param rank - Search relevance score (0-1 normalized).
+ * @param matchedAlias - The alias the search matched through, if any.
  * @returns A JSON:API resource object for the locality autocomplete result.
  */
 export const buildLocalityAutocompleteResource = (
     id: string,
     display: string,
     rank: number,
+    matchedAlias?: string,
 ): JsonApiResource<LocalityAutocompleteAttributes> => {
     // Construct the attributes object
     const attributes: LocalityAutocompleteAttributes = {
         display,
         rank,
+        ...(matchedAlias !== undefined && { matchedAlias }),
     };
 
     return {
@@ -169,6 +339,106 @@ export const buildLocalityResource = (
     };
 };
 
+/**
+ * Builds a JSON:API resource object for a street autocomplete suggestion.
+ *
+ * @param id - Unique identifier for the street (G-NAF Street Locality PID).
+ * @param display - Display string for the street (e.g., "GEORGE STREET, SYDNEY NSW 2000").
+ * @param rank - Search relevance score (0-1 normalized).
+ * @returns A JSON:API resource object for the street autocomplete result.
+ */
+export const buildStreetAutocompleteResource = (
+    id: string,
+    display: string,
+    rank: number,
+): JsonApiResource<StreetAutocompleteAttributes> => {
+    // Construct the attributes object
+    const attributes: StreetAutocompleteAttributes = {
+        display,
+        rank,
+    };
+
+    return {
+        type: RESOURCE_TYPES.STREET_SUGGESTION,
+        id,
+        attributes,
+        links: {
+            self: `/streets/${id}`,
+        },
+    };
+};
+
+/**
+ * Builds a JSON:API resource object for a detailed street.
+ *
+ * @param id - Unique identifier for the street (G-NAF Street Locality PID).
+ * @param attributes - Complete street attributes including locality and postcodes.
+ * @returns A JSON:API resource object for the street.
+ */
+export const buildStreetResource = (
+    id: string,
+    attributes: StreetDetailAttributes,
+): JsonApiResource<StreetDetailAttributes> => {
+    return {
+        type: RESOURCE_TYPES.STREET,
+        id,
+        attributes,
+        links: {
+            self: `/streets/${id}`,
+        },
+    };
+};
+
+/**
+ * Builds a JSON:API resource object for a postcode autocomplete suggestion.
+ *
+ * @param id - The 4-digit postcode.
+ * @param display - Display string for the postcode (e.g., "2620 ACT, NSW").
+ * @param rank - Search relevance score (0-1 normalized).
+ * @returns A JSON:API resource object for the postcode autocomplete result.
+ */
+export const buildPostcodeAutocompleteResource = (
+    id: string,
+    display: string,
+    rank: number,
+): JsonApiResource<PostcodeAutocompleteAttributes> => {
+    // Construct the attributes object
+    const attributes: PostcodeAutocompleteAttributes = {
+        display,
+        rank,
+    };
+
+    return {
+        type: RESOURCE_TYPES.POSTCODE_SUGGESTION,
+        id,
+        attributes,
+        links: {
+            self: `/postcodes/${id}`,
+        },
+    };
+};
+
+/**
+ * Builds a JSON:API resource object for a detailed postcode.
+ *
+ * @param id - The 4-digit postcode.
+ * @param attributes - Complete postcode attributes including localities and states.
+ * @returns A JSON:API resource object for the postcode.
+ */
+export const buildPostcodeResource = (
+    id: string,
+    attributes: PostcodeDetailAttributes,
+): JsonApiResource<PostcodeDetailAttributes> => {
+    return {
+        type: RESOURCE_TYPES.POSTCODE,
+        id,
+        attributes,
+        links: {
+            self: `/postcodes/${id}`,
+        },
+    };
+};
+
 /**
  * Builds pagination links for a collection response.
  *
@@ -177,6 +447,8 @@ export const buildLocalityResource = (
  * @param currentPage - Current page number (1-indexed).
  * @param totalPages - Total number of pages available.
  * @param pageSize - Number of items per page.
+ * @param filters - Optional filter values, emitted as `filter[name]` parameters.
+ * @param options - Optional search options, emitted as-is (e.g. `group`).
  * @returns JSON:API links object with pagination links.
  */
 export const buildPaginationLinks = (
@@ -185,6 +457,8 @@ export const buildPaginationLinks = (
     currentPage: number,
     totalPages: number,
     pageSize?: number,
+    filters?: Record<string, string>,
+    options?: Record<string, string>,
 ): JsonApiLinks => {
     // Helper to build query string with optional parameters
     const buildQueryString = (page?: number): string => {
@@ -192,6 +466,12 @@ export const buildPaginationLinks = (
         if (query) {
             params.set("q", query);
         }
+        for (const [name, value] of Object.entries(filters ?? {})) {
+            params.set(`filter[${name}]`, value);
+        }
+        for (const [name, value] of Object.entries(options ?? {})) {
+            params.set(name, value);
+        }
         if (page !== undefined && page > 1) {
             params.set("page[number]", String(page));
         }
@@ -243,6 +523,22 @@ export const API_WARNINGS = {
         "No localities are currently loaded in the dataset. Please run the data loader to populate the locality index.",
     /** Warning when a locality search query returns no matching results */
     NO_LOCALITY_RESULTS: "No localities matched your search query.",
+    /** Warning when the street dataset is empty (no streets loaded) */
+    EMPTY_STREET_DATASET:
+        "No streets are currently loaded in the dataset. Please run the data loader to populate the street index.",
+    /** Warning when a street search query returns no matching results */
+    NO_STREET_RESULTS: "No streets matched your search query.",
+    /** Warning when the postcode dataset is empty (no postcodes loaded) */
+    EMPTY_POSTCODE_DATASET:
+        "No postcodes are currently loaded in the dataset. Please run the data loader to populate the postcode index.",
+    /** Warning when a postcode search query returns no matching results */
+    NO_POSTCODE_RESULTS: "No postcodes matched your search query.",
+    /** Warning when no geocoded address lies within the reverse geocoding radius */
+    NO_NEARBY_RESULTS:
+        "No geocoded addresses were found within the search radius. Geocodes are only indexed when the loader runs with ADDRESSKIT_ENABLE_GEO enabled.",
+    /** Warning when the authority code tables have not been stored by the loader */
+    AUTHORITY_CODES_UNAVAILABLE:
+        "Authority code tables are not loaded, so flat, level and street types were not recognised. Please run the data loader to store them in the address index.",
 } as const;
 
 /**
@@ -280,16 +576,19 @@ export const buildPaginationMeta = (
  * @param resources - Array of autocomplete resource objects.
  * @param links - Pagination and navigation links.
  * @param meta - Response metadata including pagination info.
+ * @param included - Related resources requested with `include`, if any.
  * @returns Complete JSON:API document for autocomplete results.
  */
 export const buildAutocompleteDocument = (
     resources: JsonApiResource<AddressAutocompleteAttributes>[],
     links: JsonApiLinks,
     meta: JsonApiMeta,
+    included?: JsonApiResource<Record<string, unknown>>[],
 ): AddressAutocompleteDocument => {
     return {
         jsonapi: JSONAPI_IMPLEMENTATION,
         data: resources,
+        ...(included !== undefined && { included }),
         links,
         meta,
     };
@@ -299,20 +598,183 @@ export const buildAutocompleteDocument = (
  * Builds a complete JSON:API document for a single address detail response.
  *
  * @param resource - The address resource object.
+ * @param included - Related resources requested with `include`, if any.
  * @returns Complete JSON:API document for the address.
  */
 export const buildAddressDetailDocument = (
     resource: JsonApiResource<AddressDetailAttributes>,
+    included?: JsonApiResource<Record<string, unknown>>[],
 ): AddressDetailDocument => {
     return {
         jsonapi: JSONAPI_IMPLEMENTATION,
         data: resource,
+        ...(included !== undefined && { included }),
         links: {
             self: resource.links?.self,
         },
     };
 };
 
+/**
+ * Builds a complete JSON:API document for an address validation response.
+ *
+ * @param resource - The best matching address resource, or null when there is no match.
+ * @param meta - The validation score and per-component verdicts.
+ * @returns Complete JSON:API document for the validation result.
+ */
+export const buildAddressValidationDocument = (
+    resource: AddressDetailResource | null,
+    meta: AddressValidationMeta,
+): AddressValidationDocument => {
+    return {
+        jsonapi: JSONAPI_IMPLEMENTATION,
+        data: resource,
+        links: {
+            self: "/addresses/validate",
+            ...(resource !== null && { related: resource.links?.self }),
+        },
+        meta,
+    };
+};
+
+/**
+ * Builds a complete JSON:API compound document for a batch validation response.
+ *
+ * @param results - One result resource per input item, in request order.
+ * @param included - The matched address resources.
+ * @param meta - The result counts.
+ * @returns Complete JSON:API document for the batch results.
+ */
+export const buildAddressBatchDocument = (
+    results: AddressBatchResultResource[],
+    included: AddressDetailResource[],
+    meta: AddressBatchMeta,
+): AddressBatchDocument => {
+    return {
+        jsonapi: JSONAPI_IMPLEMENTATION,
+        data: results,
+        included,
+        links: {
+            self: "/addresses/batch",
+        },
+        meta,
+    };
+};
+
+/**
+ * Builds a complete JSON:API document for a reverse geocoding response.
+ *
+ * @param resources - The nearest address resources, ordered by distance.
+ * @param links - Document-level links.
+ * @param meta - The search point, radius and result counts.
+ * @returns Complete JSON:API document for the nearest addresses.
+ */
+export const buildReverseGeocodeDocument = (
+    resources: AddressDetailResource[],
+    links: JsonApiLinks,
+    meta: AddressReverseGeocodeMeta,
+): AddressReverseGeocodeDocument => {
+    return {
+        jsonapi: JSONAPI_IMPLEMENTATION,
+        data: resources,
+        links,
+        meta,
+    };
+};
+
+/**
+ * Builds a complete JSON:API document for the secondary addresses of a
+ * building's primary address.
+ *
+ * @param resources - The secondary address resources for the current page.
+ * @param links - Pagination and navigation links.
+ * @param meta - Response metadata including pagination info.
+ * @returns Complete JSON:API document for the secondary addresses.
+ */
+export const buildAddressSecondariesDocument = (
+    resources: AddressDetailResource[],
+    links: JsonApiLinks,
+    meta: JsonApiMeta,
+): AddressSecondariesDocument => {
+    return {
+        jsonapi: JSONAPI_IMPLEMENTATION,
+        data: resources,
+        links,
+        meta,
+    };
+};
+
+/**
+ * Builds a complete JSON:API document for the other addresses on the same
+ * address site as an address.
+ *
+ * @param resources - The sibling address resources for the current page.
+ * @param links - Pagination and navigation links.
+ * @param meta - Response metadata including pagination info.
+ * @returns Complete JSON:API document for the sibling addresses.
+ */
+export const buildAddressSiteSiblingsDocument = (
+    resources: AddressDetailResource[],
+    links: JsonApiLinks,
+    meta: JsonApiMeta,
+): AddressSiteSiblingsDocument => {
+    return {
+        jsonapi: JSONAPI_IMPLEMENTATION,
+        data: resources,
+        links,
+        meta,
+    };
+};
+
+/**
+ * Builds the JSON:API document sent with a redirect from a retired address to
+ * its successor.
+ *
+ * @param id - The G-NAF PID of the retired address.
+ * @param meta - The retirement date and the successor's PID.
+ * @returns Complete JSON:API document for the redirect.
+ */
+export const buildAddressRedirectDocument = (
+    id: string,
+    meta: AddressRetiredMeta & { successorPid: string },
+): AddressRedirectDocument => {
+    return {
+        jsonapi: JSONAPI_IMPLEMENTATION,
+        links: {
+            self: `/addresses/${id}`,
+            related: `/addresses/${meta.successorPid}`,
+        },
+        meta,
+    };
+};
+
+/**
+ * Builds a complete JSON:API document for an address parse response.
+ *
+ * @param id - Stable identifier derived from the normalized input.
+ * @param attributes - The normalized input and its parsed components.
+ * @param warning - Optional warning message to include in meta.
+ * @returns Complete JSON:API document for the parsed address.
+ */
+export const buildParsedAddressDocument = (
+    id: string,
+    attributes: ParsedAddressAttributes,
+    warning?: string,
+): ParsedAddressDocument => {
+    return {
+        jsonapi: JSONAPI_IMPLEMENTATION,
+        data: {
+            type: RESOURCE_TYPES.PARSED_ADDRESS,
+            id,
+            attributes,
+        },
+        links: {
+            self: `/addresses/parse?q=${encodeURIComponent(attributes.input)}`,
+        },
+        ...(warning !== undefined && { meta: { warning } }),
+    };
+};
+
 /**
  * Builds a complete JSON:API document for locality autocomplete responses.
  *
@@ -352,6 +814,84 @@ export const buildLocalityDetailDocument = (
     };
 };
 
+/**
+ * Builds a complete JSON:API document for street autocomplete responses.
+ *
+ * @param resources - Array of street autocomplete resource objects.
+ * @param links - Pagination and navigation links.
+ * @param meta - Response metadata including pagination info.
+ * @returns Complete JSON:API document for street autocomplete results.
+ */
+export const buildStreetAutocompleteDocument = (
+    resources: JsonApiResource<StreetAutocompleteAttributes>[],
+    links: JsonApiLinks,
+    meta: JsonApiMeta,
+): StreetAutocompleteDocument => {
+    return {
+        jsonapi: JSONAPI_IMPLEMENTATION,
+        data: resources,
+        links,
+        meta,
+    };
+};
+
+/**
+ * Builds a complete JSON:API document for a single street detail response.
+ *
+ * @param resource - The street resource object.
+ * @returns Complete JSON:API document for the street.
+ */
+export const buildStreetDetailDocument = (
+    resource: JsonApiResource<StreetDetailAttributes>,
+): StreetDetailDocument => {
+    return {
+        jsonapi: JSONAPI_IMPLEMENTATION,
+        data: resource,
+        links: {
+            self: resource.links?.self,
+        },
+    };
+};
+
+/**
+ * Builds a complete JSON:API document for postcode autocomplete responses.
+ *
+ * @param resources - Array of postcode autocomplete resource objects.
+ * @param links - Pagination and navigation links.
+ * @param meta - Response metadata including pagination info.
+ * @returns Complete JSON:API document for postcode autocomplete results.
+ */
+export const buildPostcodeAutocompleteDocument = (
+    resources: JsonApiResource<PostcodeAutocompleteAttributes>[],
+    links: JsonApiLinks,
+    meta: JsonApiMeta,
+): PostcodeAutocompleteDocument => {
+    return {
+        jsonapi: JSONAPI_IMPLEMENTATION,
+        data: resources,
+        links,
+        meta,
+    };
+};
+
+/**
+ * Builds a complete JSON:API document for a single postcode detail response.
+ *
+ * @param resource - The postcode resource object.
+ * @returns Complete JSON:API document for the postcode.
+ */
+export const buildPostcodeDetailDocument = (
+    resource: JsonApiResource<PostcodeDetailAttributes>,
+): PostcodeDetailDocument => {
+    return {
+        jsonapi: JSONAPI_IMPLEMENTATION,
+        data: resource,
+        links: {
+            self: resource.links?.self,
+        },
+    };
+};
+
 /**
  * Builds a JSON:API error object.
  *
@@ -458,6 +998,32 @@ export const ErrorDocuments = {
         ]);
     },
 
+    /**
+     * Builds a 410 Gone error document for a resource that has been retired.
+     *
+     * @param resourceType - Type of resource that was retired.
+     * @param resourceId - ID of the resource that was retired.
+     * @param meta - Optional details of the retirement, such as its date.
+     * @returns JSON:API error document for gone.
+     */
+    gone: (
+        resourceType: string,
+        resourceId: string,
+        meta?: Record<string, unknown>,
+    ): JsonApiErrorDocument => {
+        return buildErrorDocument(
+            [
+                buildError(
+                    "410",
+                    "Gone",
+                    `The ${resourceType} with ID '${resourceId}' has been retired.`,
+                    "RESOURCE_RETIRED",
+                ),
+            ],
+            meta,
+        );
+    },
+
     /**
      * Builds a 500 Internal Server Error document.
      *
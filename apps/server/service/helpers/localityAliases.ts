@@ -0,0 +1,87 @@
+/**
+ * Locality alias matching.
+ *
+ * G-NAF lists alternative names for many localities (colloquial, historic or
+ * neighbouring suburb names) in its LOCALITY_ALIAS table. The loader indexes
+ * them on locality documents as `aliases`, and on address documents as
+ * `localityAliases` together with `aliasSla`, the single line address spelt
+ * with each alias. Search queries name the clauses that match official names
+ * and the clauses that match aliases, so a hit's `matched_queries` tell us
+ * whether it was only found through an alias.
+ *
+ * @module localityAliases
+ */
+
+// ---------------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------------
+
+/**
+ * Query name for search clauses that match official names.
+ */
+export const OFFICIAL_NAME_QUERY = "official";
+
+/**
+ * Query name for search clauses that match locality aliases.
+ */
+export const LOCALITY_ALIAS_QUERY = "alias";
+
+// ---------------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------------
+
+/**
+ * Splits a name or search string into upper-case tokens.
+ *
+ * @param value - The text to split.
+ * @returns The non-empty tokens.
+ */
+const tokenise = (value: string): string[] =>
+    value
+        .toUpperCase()
+        .split(/[\s,]+/)
+        .filter((token) => token !== "");
+
+/**
+ * Works out which locality alias a search hit was found through.
+ *
+ * A hit only counts as an alias match when an alias clause matched and no
+ * official name clause did; a search that matches the official name never
+ * reports an alias. When a locality has several aliases, the one sharing the
+ * most words with the search wins (the last word of the search may be a
+ * prefix, as it is still being typed), falling back to the first alias.
+ *
+ * @param search - The normalized search string.
+ * @param aliases - The aliases indexed for the hit's locality.
+ * @param matchedQueries - The `matched_queries` returned for the hit.
+ * @returns The alias the hit matched through, or undefined for an official match.
+ */
+export const getMatchedAlias = (
+    search: string,
+    aliases: string[] | undefined,
+    matchedQueries: string[] | undefined,
+): string | undefined => {
+    if (
+        aliases === undefined ||
+        aliases.length === 0 ||
+        matchedQueries === undefined ||
+        !matchedQueries.includes(LOCALITY_ALIAS_QUERY) ||
+        matchedQueries.includes(OFFICIAL_NAME_QUERY)
+    ) {
+        return undefined;
+    }
+
+    const searchTokens = tokenise(search);
+    let bestAlias = aliases[0];
+    let bestOverlap = 0;
+    for (const alias of aliases) {
+        const overlap = tokenise(alias).filter((token) =>
+            searchTokens.some((searchToken) => token.startsWith(searchToken)),
+        ).length;
+        if (overlap > bestOverlap) {
+            bestAlias = alias;
+            bestOverlap = overlap;
+        }
+    }
+    return bestAlias;
+};
@@ -4,6 +4,7 @@ import {
     AddressDetailRow,
     AddressDetails,
     AddressGeocode,
+    AddressMeshBlockRecord,
     FlatDetails,
     GeoDefaultRecord,
     GeoSiteRecord,
@@ -11,11 +12,15 @@ import {
     LocalityRecord,
     LotNumber,
     MapPropertyContext,
+    MeshBlockAllocationRecord,
     NumberRange,
+    StreetLocalityAliasRecord,
     StreetLocalityRecord,
     StructuredAddress,
     StructuredLocality,
+    StructuredStatistical,
     StructuredStreetLocality,
+    StructuredStreetLocalityAlias,
 } from "../types/gnaf-properties";
 import {
     type PropertyCodeToNameContext,
@@ -25,6 +30,7 @@ import {
     levelGeocodedCodeToName,
     levelTypeCodeToName,
     localityClassCodeToName,
+    meshBlockMatchCodeToName,
     streetClassCodeToName,
     streetSuffixCodeToName,
     streetTypeCodeToName,
@@ -92,6 +98,113 @@ export const mapStreetLocality = (
     };
 };
 
+/**
+ * Maps a street locality alias row into its structured representation.
+ *
+ * @param a - The street locality alias record to structure.
+ * @param context - The lookup context supplying authority code names.
+ * @returns The structured street alias with decoded codes.
+ */
+export const mapStreetLocalityAlias = (
+    a: StreetLocalityAliasRecord,
+    context: PropertyCodeToNameContext,
+): StructuredStreetLocalityAlias => {
+    return {
+        ...(a.STREET_NAME !== "" && {
+            name: a.STREET_NAME,
+        }),
+        ...(a.STREET_TYPE_CODE !== "" && {
+            type: {
+                code: a.STREET_TYPE_CODE,
+                name: streetTypeCodeToName(a.STREET_TYPE_CODE, context, a),
+            },
+        }),
+        ...(a.STREET_SUFFIX_CODE !== "" && {
+            suffix: {
+                code: a.STREET_SUFFIX_CODE,
+                name: streetSuffixCodeToName(a.STREET_SUFFIX_CODE, context),
+            },
+        }),
+    };
+};
+
+/**
+ * Maps an address's mesh block into its ABS statistical areas.
+ *
+ * @param meshBlock - The mesh block code and match code for the address.
+ * @param allocation - The ABS allocation for the mesh block, if loaded.
+ * @param context - The lookup context supplying authority code names.
+ * @returns The structured mesh block and statistical areas.
+ */
+export const mapStatistical = (
+    meshBlock: AddressMeshBlockRecord,
+    allocation: MeshBlockAllocationRecord | undefined,
+    context: PropertyCodeToNameContext,
+): StructuredStatistical => {
+    return {
+        meshBlock: {
+            code: meshBlock.MB_2021_CODE,
+            ...(allocation?.MB_CATEGORY_2021 && {
+                category: allocation.MB_CATEGORY_2021,
+            }),
+            ...(meshBlock.MB_MATCH_CODE !== "" && {
+                match: {
+                    code: meshBlock.MB_MATCH_CODE,
+                    name: meshBlockMatchCodeToName(
+                        meshBlock.MB_MATCH_CODE,
+                        context,
+                    ),
+                },
+            }),
+        },
+        ...(allocation?.SA1_CODE_2021 && {
+            sa1: { code: allocation.SA1_CODE_2021 },
+        }),
+        ...(allocation?.SA2_CODE_2021 && {
+            sa2: {
+                code: allocation.SA2_CODE_2021,
+                name: allocation.SA2_NAME_2021,
+            },
+        }),
+        ...(allocation?.SA3_CODE_2021 && {
+            sa3: {
+                code: allocation.SA3_CODE_2021,
+                name: allocation.SA3_NAME_2021,
+            },
+        }),
+        ...(allocation?.SA4_CODE_2021 && {
+            sa4: {
+                code: allocation.SA4_CODE_2021,
+                name: allocation.SA4_NAME_2021,
+            },
+        }),
+        ...(allocation?.GCCSA_CODE_2021 && {
+            gccsa: {
+                code: allocation.GCCSA_CODE_2021,
+                name: allocation.GCCSA_NAME_2021,
+            },
+        }),
+    };
+};
+
+/**
+ * Picks the geocode used to position an address on a map: the default
+ * geocode, or the first geocode with coordinates when none is marked default.
+ *
+ * @param geocodes - Structured geocodes produced by `mapGeo`.
+ * @returns The position as an OpenSearch geo point, or undefined when there is none.
+ */
+export const mapGeoPoint = (
+    geocodes: AddressGeocode[] | undefined,
+): { lat: number; lon: number } | undefined => {
+    const located = (geocodes ?? []).filter(
+        (geo) => geo.latitude !== undefined && geo.longitude !== undefined,
+    );
+    const geo = located.find((candidate) => candidate.default) ?? located[0];
+    if (geo === undefined) return undefined;
+    return { lat: geo.latitude as number, lon: geo.longitude as number };
+};
+
 /**
  * Maps geocode rows (site and default) into a structured list of geocodes.
  *
@@ -207,6 +320,41 @@ export const mapToSla = (fla: string[]): string => {
     return fla.join(", ");
 };
 
+/**
+ * Builds the single line address an address would have if its street were
+ * known by one of its aliases.
+ *
+ * @param s - The structured address.
+ * @param alias - The alternative street name.
+ * @returns The single line address with the alias in place of the street.
+ */
+export const mapToStreetAliasSla = (
+    s: StructuredAddress,
+    alias: StructuredStreetLocalityAlias,
+): string => {
+    return mapToSla(mapToMla({ ...s, street: alias }));
+};
+
+/**
+ * Builds the single line address an address would have if its locality were
+ * known by one of its aliases.
+ *
+ * @param s - The structured address.
+ * @param mla - The multi-line address from `mapToMla`.
+ * @param alias - The alternative locality name.
+ * @returns The single line address with the alias in place of the locality name.
+ */
+export const mapToAliasSla = (
+    s: StructuredAddress,
+    mla: string[],
+    alias: string,
+): string => {
+    return mapToSla([
+        ...mla.slice(0, -1),
+        `${alias} ${s.state.abbreviation} ${s.postcode ?? ""}`,
+    ]);
+};
+
 /**
  * Builds the multi-line address representation for an address.
  *
@@ -353,6 +501,9 @@ export const mapAddressDetails = (
 ): AddressDetails => {
     const streetLocality = context.streetLocalityIndexed[d.STREET_LOCALITY_PID];
     const locality = context.localityIndexed[d.LOCALITY_PID];
+    const streetAliases = (
+        context.streetLocalityAliasIndexed?.[d.STREET_LOCALITY_PID] ?? []
+    ).map((a) => mapStreetLocalityAlias(a, context));
 
     const geoSite = context.geoIndexed
         ? context.geoIndexed[d.ADDRESS_SITE_PID]
@@ -381,6 +532,15 @@ export const mapAddressDetails = (
                   }),
               }
             : undefined;
+    const meshBlock = context.addressMeshBlockIndexed?.[d.ADDRESS_DETAIL_PID];
+    const statistical =
+        meshBlock !== undefined
+            ? mapStatistical(
+                  meshBlock,
+                  context.meshBlockAllocationIndexed?.[meshBlock.MB_2021_CODE],
+                  context,
+              )
+            : undefined;
     const structured: StructuredAddress = {
         ...(d.BUILDING_NAME !== "" && {
             buildingName: d.BUILDING_NAME,
@@ -463,8 +623,10 @@ export const mapAddressDetails = (
                 }),
             } satisfies FlatDetails,
         }),
-        // May need to include street locality aliases here
-        street: mapStreetLocality(streetLocality, context),
+        street: {
+            ...mapStreetLocality(streetLocality, context),
+            ...(streetAliases.length > 0 && { aliases: streetAliases }),
+        },
         ...(d.CONFIDENCE !== "" && {
             confidence: Number.parseInt(d.CONFIDENCE),
         }),
@@ -506,6 +668,7 @@ export const mapAddressDetails = (
 
     const rval: AddressDetails = {
         ...(geocoding ? { geocoding } : {}),
+        ...(statistical ? { statistical } : {}),
         structured,
         ...(precedence ? { precedence } : {}),
         pid: d.ADDRESS_DETAIL_PID,
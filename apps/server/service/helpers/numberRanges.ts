@@ -0,0 +1,91 @@
+/**
+ * Street number range matching.
+ *
+ * G-NAF records ranged addresses (e.g. "12-14 SMITH ST") with a first and a
+ * last number, and their single line address only spells out the two ends of
+ * the range. The loader indexes both numbers as numeric fields, so a search
+ * for a number inside the range ("13 SMITH ST") can still find the address.
+ * The search clause that does so is named, so a hit's `matched_queries` tell
+ * us whether it was only found through its range.
+ *
+ * @module numberRanges
+ */
+
+// ---------------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------------
+
+/**
+ * Query name for the search clause that matches a number inside a range.
+ */
+export const NUMBER_RANGE_QUERY = "numberRange";
+
+/**
+ * Longest number treated as a street number. Longer numbers are not street
+ * numbers, and would overflow the numeric fields.
+ */
+const MAX_STREET_NUMBER_DIGITS = 6;
+
+// ---------------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------------
+
+/**
+ * A street number found in a search string.
+ */
+export type StreetNumberSearch = {
+    /** The street number */
+    number: number;
+    /** The rest of the search string, without the street number */
+    rest: string;
+};
+
+/**
+ * Finds the street number in a search string.
+ *
+ * The street number is taken to be the last number followed by a word, so
+ * flat and level numbers before it ("UNIT 4 13 SMITH ST") and a postcode
+ * after the locality ("13 SMITH ST 3000") are passed over.
+ *
+ * @param search - The normalized search string.
+ * @returns The street number and the rest of the search, or undefined when
+ *   the search has no street number or nothing besides it.
+ */
+export const getStreetNumberSearch = (
+    search: string,
+): StreetNumberSearch | undefined => {
+    const tokens = search
+        .split(/[^A-Za-z0-9]+/)
+        .filter((token) => token !== "");
+
+    for (let position = tokens.length - 2; position >= 0; position--) {
+        const token = tokens[position];
+        if (
+            token.length <= MAX_STREET_NUMBER_DIGITS &&
+            /^\d+$/.test(token) &&
+            /^[A-Za-z]/.test(tokens[position + 1])
+        ) {
+            return {
+                number: Number.parseInt(token, 10),
+                rest: tokens
+                    .filter((_token, index) => index !== position)
+                    .join(" "),
+            };
+        }
+    }
+    return undefined;
+};
+
+// ---------------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------------
+
+/**
+ * Works out whether a search hit was found through its street number range.
+ *
+ * @param matchedQueries - The `matched_queries` returned for the hit.
+ * @returns True when the number range clause matched the hit.
+ */
+export const isMatchedByRange = (
+    matchedQueries: string[] | undefined,
+): boolean => matchedQueries?.includes(NUMBER_RANGE_QUERY) ?? false;
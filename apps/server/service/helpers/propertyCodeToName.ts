@@ -26,6 +26,7 @@ export type PropertyCodeToNameContext = {
     Authority_Code_GEOCODE_RELIABILITY_AUT_psv: AuthorityCodeEntry[];
     Authority_Code_GEOCODE_TYPE_AUT_psv: AuthorityCodeEntry[];
     Authority_Code_GEOCODED_LEVEL_TYPE_AUT_psv: AuthorityCodeEntry[];
+    Authority_Code_MB_MATCH_CODE_AUT_psv: AuthorityCodeEntry[];
 };
 
 // ---------------------------------------------------------------------------------
@@ -86,6 +87,12 @@ let geocodeTypeMap: Map<string, string> | undefined;
  */
 let geocodedLevelTypeMap: Map<string, string> | undefined;
 
+/**
+ * Pre-indexed Map for O(1) lookup of mesh block match codes.
+ * Populated lazily on first access via `getMeshBlockMatchMap()`.
+ */
+let meshBlockMatchMap: Map<string, string> | undefined;
+
 /**
  * Builds a Map from an array of authority code entries for O(1) lookups.
  * This eliminates the O(n) Array.find() cost during address processing.
@@ -255,6 +262,23 @@ const getGeocodedLevelTypeMap = (
     return geocodedLevelTypeMap;
 };
 
+/**
+ * Retrieves or lazily initializes the mesh block match code lookup Map.
+ *
+ * @param context - The property code context containing raw authority tables.
+ * @returns The indexed Map for mesh block match code lookups.
+ */
+const getMeshBlockMatchMap = (
+    context: PropertyCodeToNameContext,
+): Map<string, string> => {
+    if (meshBlockMatchMap === undefined) {
+        meshBlockMatchMap = buildCodeMap(
+            context.Authority_Code_MB_MATCH_CODE_AUT_psv ?? [],
+        );
+    }
+    return meshBlockMatchMap;
+};
+
 /**
  * Clears all cached authority code Maps.
  * Call this when reloading G-NAF data to ensure fresh lookups.
@@ -269,6 +293,7 @@ export const clearAuthorityCodeMaps = (): void => {
     geocodeReliabilityMap = undefined;
     geocodeTypeMap = undefined;
     geocodedLevelTypeMap = undefined;
+    meshBlockMatchMap = undefined;
 };
 
 // ---------------------------------------------------------------------------------
@@ -474,3 +499,23 @@ export const levelGeocodedCodeToName = (
     );
     return undefined;
 };
+
+/**
+ * Converts a G-NAF Mesh Block Match code to its human-readable name.
+ * Uses O(1) Map lookup for optimal performance during bulk loading.
+ *
+ * @param code - The mesh block match code to convert (e.g., "1", "2").
+ * @param context - The context containing the authority code tables.
+ * @returns The human-readable name of the match code, or undefined if unknown.
+ */
+export const meshBlockMatchCodeToName = (
+    code: string,
+    context: PropertyCodeToNameContext,
+): string | undefined => {
+    const name = getMeshBlockMatchMap(context).get(code);
+
+    if (name !== undefined) return name;
+
+    error(`Unknown Mesh Block Match Code: '${code}'`);
+    return undefined;
+};
@@ -439,22 +439,24 @@ export const getSearchCache = (): LRUCache<CachedSearchResult> => {
 /**
  * Generates a cache key for a search query.
  *
- * The key includes the normalized query and pagination parameters
- * to ensure different pages are cached separately.
+ * The key includes the normalized query, pagination parameters and any
+ * search filters to ensure different pages and filters are cached separately.
  *
  * @param query - The normalized search query string.
  * @param page - The page number (1-indexed).
  * @param size - The page size.
+ * @param filtersKey - Optional cache key fragment identifying the search filters.
  * @returns A unique cache key for this search.
  */
 export const generateSearchCacheKey = (
     query: string,
     page: number,
     size: number,
+    filtersKey?: string,
 ): string => {
     // Normalize and lowercase for cache key consistency
     const normalizedQuery = query.toLowerCase().trim();
-    return `search:${normalizedQuery}:p${page}:s${size}`;
+    return `search:${normalizedQuery}:p${page}:s${size}${filtersKey ? `:f${filtersKey}` : ""}`;
 };
 
 /**
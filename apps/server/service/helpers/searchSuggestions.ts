@@ -0,0 +1,129 @@
+/**
+ * "Did you mean" search suggestions.
+ *
+ * When a search matches nothing, an OpenSearch phrase suggester corrects the
+ * misspelt words of the search from the words of the index: the street and
+ * locality names of the single line addresses, or the names of the
+ * localities. Each word is corrected by a term-level generator, and the
+ * suggester picks the likeliest combinations. A collate query then keeps only
+ * corrections that would find something, so every suggestion can be offered
+ * with a link that re-runs the search.
+ *
+ * @module searchSuggestions
+ */
+
+import type { SearchSuggestion } from "../types/jsonapi-types";
+
+// ---------------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------------
+
+/**
+ * Name of the phrase suggester in search requests.
+ */
+const SUGGESTER_NAME = "corrected";
+
+/**
+ * Most misspelt words corrected in a single suggestion.
+ */
+const MAX_CORRECTED_WORDS = 2;
+
+/**
+ * Shortest word that is corrected. Shorter words are usually numbers, street
+ * type abbreviations or state abbreviations, which have too many neighbours.
+ */
+const MIN_CORRECTED_WORD_LENGTH = 4;
+
+// ---------------------------------------------------------------------------------
+// Request
+// ---------------------------------------------------------------------------------
+
+/**
+ * Builds the `suggest` section of a search request.
+ *
+ * The index analyzers split words on punctuation and upper-case them, so the
+ * search is prepared the same way and analyzed by whitespace alone. This
+ * keeps synonyms out of the corrections (e.g. "ST" is not expanded).
+ *
+ * @param search - The search string.
+ * @param field - The text field whose words the corrections are drawn from.
+ * @param collateQuery - Query template a correction must match, with `{{suggestion}}` in place of the corrected search.
+ * @param size - The most suggestions to return.
+ * @returns The suggest request.
+ */
+export const buildSearchSuggestRequest = (
+    search: string,
+    field: string,
+    collateQuery: Record<string, unknown>,
+    size: number,
+): Record<string, unknown> => ({
+    text: search
+        .toUpperCase()
+        .replace(/[^\p{L}\p{N}]+/gu, " ")
+        .trim(),
+    [SUGGESTER_NAME]: {
+        phrase: {
+            field,
+            analyzer: "whitespace",
+            size,
+            max_errors: MAX_CORRECTED_WORDS,
+            direct_generator: [
+                {
+                    field,
+                    suggest_mode: "missing",
+                    min_word_length: MIN_CORRECTED_WORD_LENGTH,
+                },
+            ],
+            collate: {
+                query: { source: collateQuery },
+                prune: false,
+            },
+        },
+    },
+});
+
+// ---------------------------------------------------------------------------------
+// Response
+// ---------------------------------------------------------------------------------
+
+/**
+ * Reads the corrected search strings from a search response.
+ *
+ * @param suggest - The `suggest` section of the search response, if any.
+ * @returns The corrected search strings, best first.
+ */
+export const getSuggestedSearches = (suggest: unknown): string[] => {
+    const entries = (
+        suggest as
+            | Record<string, { options?: { text: string }[] }[]>
+            | undefined
+    )?.[SUGGESTER_NAME];
+    return [
+        ...new Set(
+            (entries ?? []).flatMap((entry) =>
+                (entry.options ?? []).map((option) => option.text),
+            ),
+        ),
+    ];
+};
+
+/**
+ * Builds the suggestions for a response's `meta.suggestions`, each with a
+ * link that re-runs the search with the corrected search string.
+ *
+ * @param searches - The corrected search strings.
+ * @param baseUrl - The URL of the collection that was searched.
+ * @param params - Other query parameters of the search (filters, grouping, etc.), kept in each link.
+ * @returns The suggestions.
+ */
+export const buildSearchSuggestions = (
+    searches: string[],
+    baseUrl: string,
+    params: Record<string, string> = {},
+): SearchSuggestion[] =>
+    searches.map((query) => ({
+        query,
+        links: {
+            related: `${baseUrl}?${new URLSearchParams({ q: query, ...params })}`,
+        },
+    }));
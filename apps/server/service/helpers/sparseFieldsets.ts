@@ -0,0 +1,259 @@
+/**
+ * JSON:API sparse fieldsets.
+ *
+ * Parses `fields[TYPE]` parameters (a comma-separated list of attribute and
+ * relationship names) and trims resources down to the requested fields. Each
+ * resource type lists its fields together with the `_source` paths they are
+ * built from, so lookups only fetch what the response will contain.
+ *
+ * @module sparseFieldsets
+ */
+
+import type { JsonApiResource } from "../types/jsonapi-types";
+
+// ---------------------------------------------------------------------------------
+// Field Sources
+// ---------------------------------------------------------------------------------
+
+/**
+ * The fields of a resource type, each with the `_source` paths it is built from.
+ */
+export type SparseFieldSources = Record<string, readonly string[]>;
+
+/**
+ * Address fields and the address document paths they are built from. Most
+ * structured components are stored both directly under `structured` and
+ * under `structured.structured`, so both are fetched.
+ */
+export const ADDRESS_FIELD_SOURCES: SparseFieldSources = {
+    pid: [],
+    sla: ["sla"],
+    ssla: ["ssla"],
+    precedence: ["precedence", "structured.precedence"],
+    mla: ["mla", "structured.mla"],
+    smla: ["smla", "structured.smla"],
+    structured: [
+        "structured.structured",
+        "structured.buildingName",
+        "structured.lotNumber",
+        "structured.flat",
+        "structured.level",
+        "structured.number",
+        "structured.street",
+        "structured.locality",
+        "structured.state",
+        "structured.postcode",
+        "structured.confidence",
+    ],
+    geo: [
+        "structured.structured.geo",
+        "structured.geo",
+        "structured.geocoding",
+    ],
+    statistical: ["structured.statistical"],
+    legalParcelId: ["legalParcelId"],
+    addressSitePid: ["addressSitePid"],
+    gnafPropertyPid: ["gnafPropertyPid"],
+    principal: ["principalPid", "aliasTypeCode"],
+    primary: ["primaryPid"],
+    secondaries: ["secondaryCount"],
+    siteSiblings: ["addressSitePid"],
+    locality: ["localityPid"],
+};
+
+/**
+ * Address suggestion fields and the address document paths they are built
+ * from. Address searches (`GET /addresses`) take these in `fields[address]`.
+ */
+export const ADDRESS_SUGGESTION_FIELD_SOURCES: SparseFieldSources = {
+    sla: ["sla"],
+    ssla: ["ssla"],
+    rank: [],
+    matchedAlias: ["localityAliases"],
+    secondaries: ["secondaryCount"],
+    locality: ["localityPid"],
+};
+
+/**
+ * Locality fields and the locality document paths they are built from.
+ */
+export const LOCALITY_FIELD_SOURCES: SparseFieldSources = {
+    localityPid: ["localityPid"],
+    name: ["name"],
+    display: ["display"],
+    class: ["classCode", "className"],
+    state: ["stateName", "stateAbbreviation"],
+    postcode: ["postcode"],
+    postcodes: ["postcodes"],
+    aliases: ["aliases"],
+    centroid: ["location"],
+};
+
+/**
+ * Locality suggestion fields and the locality document paths they are built
+ * from. Locality searches (`GET /localities`) take these in `fields[locality]`.
+ */
+export const LOCALITY_SUGGESTION_FIELD_SOURCES: SparseFieldSources = {
+    display: ["display"],
+    rank: [],
+    matchedAlias: ["aliases"],
+};
+
+// ---------------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------------
+
+/**
+ * Error thrown when a `fields[TYPE]` parameter cannot be parsed.
+ */
+export class SparseFieldsetError extends Error {
+    /** The request parameter that holds the invalid fieldset */
+    readonly parameter: string;
+
+    /**
+     * Creates a new SparseFieldsetError.
+     *
+     * @param message - Description of the problem, suitable for API clients.
+     * @param parameter - The request parameter that holds the invalid fieldset.
+     */
+    constructor(message: string, parameter: string) {
+        super(message);
+        this.name = "SparseFieldsetError";
+        this.parameter = parameter;
+    }
+}
+
+// ---------------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------------
+
+/**
+ * Parses the value of a `fields[TYPE]` parameter.
+ *
+ * An empty value is a valid request for no fields at all, leaving only each
+ * resource's type, id and links.
+ *
+ * @param value - The raw parameter value.
+ * @param type - The resource type the fieldset applies to.
+ * @param sources - The fields available for the resource type.
+ * @returns The requested field names, or undefined when the parameter is absent.
+ * @throws {SparseFieldsetError} When the value is not a string or names an unknown field.
+ */
+export const parseSparseFieldset = (
+    value: unknown,
+    type: string,
+    sources: SparseFieldSources,
+): string[] | undefined => {
+    if (value === undefined) return undefined;
+
+    const parameter = `fields[${type}]`;
+    if (typeof value !== "string") {
+        throw new SparseFieldsetError(
+            `The '${parameter}' parameter must be a comma-separated list of field names.`,
+            parameter,
+        );
+    }
+
+    const fields = [
+        ...new Set(
+            value
+                .split(",")
+                .map((field) => field.trim())
+                .filter((field) => field !== ""),
+        ),
+    ];
+    const unknown = fields.find((field) => !Object.hasOwn(sources, field));
+    if (unknown !== undefined) {
+        throw new SparseFieldsetError(
+            `The '${parameter}' parameter names an unknown field '${unknown}'. Valid fields are: ${Object.keys(sources).join(", ")}.`,
+            parameter,
+        );
+    }
+    return fields;
+};
+
+/**
+ * Lists the `_source` paths needed to build the requested fields.
+ *
+ * @param fields - The requested field names.
+ * @param sources - The fields available for the resource type.
+ * @param always - Paths that are always needed, whatever the fieldset.
+ * @returns The `_source` paths to fetch.
+ */
+export const getSparseSourceIncludes = (
+    fields: string[],
+    sources: SparseFieldSources,
+    always: readonly string[] = [],
+): string[] => [
+    ...new Set([...always, ...fields.flatMap((field) => sources[field] ?? [])]),
+];
+
+/**
+ * Builds the `_source` filter of a search request for a fieldset.
+ *
+ * @param fields - The requested field names, or undefined for every field.
+ * @param sources - The fields available for the resource type.
+ * @param always - Paths that are always needed, whatever the fieldset.
+ * @returns The `_source` paths to fetch, false when no paths are needed, or
+ *   undefined to fetch the whole document.
+ */
+export const getSparseSourceFilter = (
+    fields: string[] | undefined,
+    sources: SparseFieldSources,
+    always: readonly string[] = [],
+): string[] | false | undefined => {
+    if (fields === undefined) return undefined;
+    const includes = getSparseSourceIncludes(fields, sources, always);
+    return includes.length > 0 ? includes : false;
+};
+
+/**
+ * Formats a fieldset back into its `fields[TYPE]` parameter, for links.
+ *
+ * @param type - The resource type the fieldset applies to.
+ * @param fields - The requested field names, if any.
+ * @returns The parameter as a name/value record (empty when no fieldset was requested).
+ */
+export const getSparseFieldsetParams = (
+    type: string,
+    fields?: string[],
+): Record<string, string> =>
+    fields === undefined ? {} : { [`fields[${type}]`]: fields.join(",") };
+
+// ---------------------------------------------------------------------------------
+// Trimming
+// ---------------------------------------------------------------------------------
+
+/**
+ * Trims a resource's attributes and relationships to the requested fields.
+ *
+ * @param resource - The complete resource.
+ * @param fields - The requested field names, or undefined for every field.
+ * @returns The resource with only the requested fields.
+ */
+export const applySparseFieldset = <
+    TAttributes extends Record<string, unknown>,
+>(
+    resource: JsonApiResource<TAttributes>,
+    fields?: string[],
+): JsonApiResource<TAttributes> => {
+    if (fields === undefined) return resource;
+
+    const requested = new Set(fields);
+    const relationships = Object.fromEntries(
+        Object.entries(resource.relationships ?? {}).filter(([name]) =>
+            requested.has(name),
+        ),
+    );
+    const { relationships: _relationships, ...rest } = resource;
+
+    return {
+        ...rest,
+        attributes: Object.fromEntries(
+            Object.entries(resource.attributes).filter(([name]) =>
+                requested.has(name),
+            ),
+        ) as TAttributes,
+        ...(Object.keys(relationships).length > 0 && { relationships }),
+    };
+};
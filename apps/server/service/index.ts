@@ -8,34 +8,101 @@ import Keyv from "keyv";
 import { KeyvFile } from "keyv-file";
 import { loadCommandEntry, sendIndexRequest } from "./commands/load";
 import {
+    BATCH_MAX_ITEMS,
     ES_INDEX_NAME,
     ES_LOCALITY_INDEX_NAME,
+    ES_POSTCODE_INDEX_NAME,
+    ES_STREET_INDEX_NAME,
     MAX_PAGE_NUMBER,
     MAX_PAGE_SIZE,
     PAGE_SIZE,
+    REVERSE_GEOCODE_MAX_RADIUS,
+    REVERSE_GEOCODE_RADIUS,
+    VALIDATION_CANDIDATES,
 } from "./conf";
-import { CACHE_ENABLED, VERBOSE } from "./config";
 import {
+    CACHE_ENABLED,
+    MAX_SEARCH_SUGGESTIONS,
+    SEARCH_MODE,
+    VERBOSE,
+} from "./config";
+import {
+    ADDRESS_FIELD_SOURCES,
+    ADDRESS_INCLUDES,
+    ADDRESS_SUGGESTION_FIELD_SOURCES,
     API_WARNINGS,
+    AddressFilterError,
     type CachedSearchResult,
     CircuitOpenError,
     ErrorDocuments,
+    IncludeError,
+    LOCALITY_ALIAS_QUERY,
+    LOCALITY_FIELD_SOURCES,
+    LOCALITY_SUGGESTION_FIELD_SOURCES,
+    NUMBER_RANGE_QUERY,
+    OFFICIAL_NAME_QUERY,
+    type PropertyCodeToNameContext,
+    RESOURCE_TYPES,
+    SparseFieldsetError,
+    applySparseFieldset,
+    buildAddressBatchDocument,
     buildAddressDetailDocument,
+    buildAddressFeature,
+    buildAddressFilterClauses,
+    buildAddressHighlightRequest,
+    buildAddressRedirectDocument,
     buildAddressResource,
+    buildAddressSecondariesDocument,
+    buildAddressSiteSiblingsDocument,
+    buildAddressSuggestionFeature,
+    buildAddressValidationDocument,
     buildAutocompleteDocument,
     buildAutocompleteResource,
+    buildError,
+    buildFeatureCollection,
     buildLocalityAutocompleteDocument,
     buildLocalityAutocompleteResource,
     buildLocalityDetailDocument,
+    buildLocalityFeature,
     buildLocalityResource,
     buildPaginationLinks,
     buildPaginationMeta,
+    buildParsedAddressDocument,
+    buildPostcodeAutocompleteDocument,
+    buildPostcodeAutocompleteResource,
+    buildPostcodeDetailDocument,
+    buildPostcodeResource,
+    buildReverseGeocodeDocument,
+    buildSearchSuggestRequest,
+    buildSearchSuggestions,
+    buildStreetAutocompleteDocument,
+    buildStreetAutocompleteResource,
+    buildStreetDetailDocument,
+    buildStreetResource,
     clearAddresses,
+    compareAddressComponents,
     extractAddressId,
     extractLocalityId,
+    extractPostcodeId,
+    extractStreetId,
     generateSearchCacheKey,
+    getAddressFilterParams,
+    getAddressFiltersCacheKey,
+    getAddressHighlights,
+    getMatchedAlias,
     getOpenSearchCircuit,
     getSearchCache,
+    getSparseFieldsetParams,
+    getSparseSourceFilter,
+    getSparseSourceIncludes,
+    getStreetNumberSearch,
+    getSuggestedSearches,
+    isMatchedByRange,
+    parseAddress,
+    parseAddressFilters,
+    parseInclude,
+    parseSparseFieldset,
+    scoreAddressVerdicts,
 } from "./helpers";
 import { setLinkOptions } from "./setLinkOptions";
 import type * as Types from "./types/index";
@@ -188,6 +255,467 @@ const isIndexEmpty = async (): Promise<boolean> => {
     }
 };
 
+/**
+ * Suggests corrected address searches ("did you mean") for a search that
+ * matched nothing. Corrections are drawn from the words of the indexed
+ * addresses, and are only suggested when they find an address with the same
+ * filters. Suggestions are a courtesy, so failures are logged and give none.
+ *
+ * @param search - The search string.
+ * @param filters - Optional validated filters the search was restricted by.
+ * @returns The corrected search strings, best first.
+ */
+const suggestAddressSearches = async (
+    search: string,
+    filters?: Types.AddressFilters,
+): Promise<string[]> => {
+    if (search.trim() === "" || MAX_SEARCH_SUGGESTIONS <= 0) return [];
+
+    const filterClauses = buildAddressFilterClauses(filters);
+    try {
+        const circuit = getOpenSearchCircuit();
+        const suggestResp = await circuit.execute(async () => {
+            return await (global.esClient as Types.OpensearchClient).search({
+                index: ES_INDEX_NAME,
+                body: {
+                    size: 0,
+                    suggest: buildSearchSuggestRequest(
+                        search,
+                        "sla",
+                        {
+                            bool: {
+                                must: {
+                                    multi_match: {
+                                        fields: ["sla", "ssla"],
+                                        query: "{{suggestion}}",
+                                        type: "bool_prefix",
+                                        operator: "AND",
+                                    },
+                                },
+                                ...(filterClauses.length > 0 && {
+                                    filter: filterClauses,
+                                }),
+                            },
+                        },
+                        MAX_SEARCH_SUGGESTIONS,
+                    ),
+                },
+            });
+        });
+        return getSuggestedSearches(suggestResp.body.suggest);
+    } catch (err) {
+        error("error suggesting address searches", err);
+        return [];
+    }
+};
+
+/**
+ * Builds the standard search clauses, which stack an exact prefix match on the
+ * whole address, a phrase prefix match and a fuzzy `bool_prefix` match for
+ * typo tolerance, for the official address and its aliases.
+ *
+ * @param normalizedSearch - The normalized search string.
+ * @returns The `should` clauses of the search query.
+ */
+const buildStandardSearchClauses = (
+    normalizedSearch: string,
+): Record<string, unknown>[] => [
+    // Highest boost: Address starts with the search query (exact prefix match)
+    // This ensures "50 ST GEORGES TCE" ranks above "UNIT 1, 50 ST GEORGES TCE"
+    {
+        prefix: {
+            "sla.raw": {
+                value: normalizedSearch.toUpperCase(),
+                boost: 100,
+                _name: OFFICIAL_NAME_QUERY,
+            },
+        },
+    },
+    // High boost: Short single-line address starts with search query
+    {
+        prefix: {
+            "ssla.raw": {
+                value: normalizedSearch.toUpperCase(),
+                boost: 80,
+                _name: OFFICIAL_NAME_QUERY,
+            },
+        },
+    },
+    // Medium boost: Phrase prefix match (sequential term matching)
+    {
+        multi_match: {
+            fields: ["sla^2", "ssla"],
+            query: normalizedSearch,
+            type: "phrase_prefix",
+            lenient: true,
+            auto_generate_synonyms_phrase_query: false,
+            boost: 10,
+            _name: OFFICIAL_NAME_QUERY,
+        },
+    },
+    // Lower boost: Fuzzy bool_prefix for typo tolerance
+    {
+        multi_match: {
+            fields: ["sla", "ssla"],
+            query: normalizedSearch,
+            fuzziness: "AUTO",
+            type: "bool_prefix",
+            lenient: true,
+            auto_generate_synonyms_phrase_query: false,
+            operator: "AND",
+            _name: OFFICIAL_NAME_QUERY,
+        },
+    },
+    // Alias boost: Address starts with the search query using a locality alias
+    {
+        prefix: {
+            "aliasSla.raw": {
+                value: normalizedSearch.toUpperCase(),
+                boost: 50,
+                _name: LOCALITY_ALIAS_QUERY,
+            },
+        },
+    },
+    // Alias phrase prefix match
+    {
+        match_phrase_prefix: {
+            aliasSla: {
+                query: normalizedSearch,
+                boost: 5,
+                _name: LOCALITY_ALIAS_QUERY,
+            },
+        },
+    },
+    // Alias fuzzy bool_prefix, scored below the official fuzzy match
+    {
+        multi_match: {
+            fields: ["aliasSla"],
+            query: normalizedSearch,
+            fuzziness: "AUTO",
+            type: "bool_prefix",
+            lenient: true,
+            auto_generate_synonyms_phrase_query: false,
+            operator: "AND",
+            boost: 0.5,
+            _name: LOCALITY_ALIAS_QUERY,
+        },
+    },
+    // Street alias boost: Address starts with the search query using a former street name
+    {
+        prefix: {
+            "streetAliasSla.raw": {
+                value: normalizedSearch.toUpperCase(),
+                boost: 40,
+            },
+        },
+    },
+    // Street alias phrase prefix match
+    {
+        match_phrase_prefix: {
+            streetAliasSla: {
+                query: normalizedSearch,
+                boost: 4,
+            },
+        },
+    },
+    // Street alias fuzzy bool_prefix, scored below the official fuzzy match
+    {
+        multi_match: {
+            fields: ["streetAliasSla"],
+            query: normalizedSearch,
+            fuzziness: "AUTO",
+            type: "bool_prefix",
+            lenient: true,
+            auto_generate_synonyms_phrase_query: false,
+            operator: "AND",
+            boost: 0.4,
+        },
+    },
+];
+
+/**
+ * Builds the edge n-gram search clauses, which match every search word
+ * against the `edge` subfields indexed by the loader. A partly typed word is
+ * a plain term lookup there, so no prefix expansion or fuzzy matching is run.
+ * A phrase match ranks addresses with the words in the order typed first.
+ * Typos are not tolerated.
+ *
+ * @param normalizedSearch - The normalized search string.
+ * @returns The `should` clauses of the search query.
+ */
+const buildEdgeNgramSearchClauses = (
+    normalizedSearch: string,
+): Record<string, unknown>[] => [
+    // Highest boost: the search words appear in order
+    {
+        multi_match: {
+            fields: ["sla.edge^2", "ssla.edge"],
+            query: normalizedSearch,
+            type: "phrase",
+            boost: 10,
+            _name: OFFICIAL_NAME_QUERY,
+        },
+    },
+    // Every search word starts a word of the address
+    {
+        multi_match: {
+            fields: ["sla.edge", "ssla.edge"],
+            query: normalizedSearch,
+            operator: "AND",
+            _name: OFFICIAL_NAME_QUERY,
+        },
+    },
+    // Locality aliases, scored below the official locality name
+    {
+        match: {
+            "aliasSla.edge": {
+                query: normalizedSearch,
+                operator: "AND",
+                boost: 0.5,
+                _name: LOCALITY_ALIAS_QUERY,
+            },
+        },
+    },
+    // Former and alternate street names, scored below the official street name
+    {
+        match: {
+            "streetAliasSla.edge": {
+                query: normalizedSearch,
+                operator: "AND",
+                boost: 0.4,
+            },
+        },
+    },
+];
+
+/**
+ * Builds the clauses matching a street number inside a ranged address
+ * (e.g. "13 SMITH ST" for "12-14 SMITH ST"), whose single line address only
+ * spells out the ends of the range. The rest of the search must match the
+ * address as in the chosen mode, while the number is compared with the
+ * indexed first and last numbers. Numbers at either end already match the
+ * address text, so only numbers strictly inside the range are matched here.
+ * The clause is boosted below the phrase matches, so an address with the
+ * typed number ranks above ranges that contain it.
+ *
+ * @param normalizedSearch - The normalized search string.
+ * @param mode - The query used to match the search string.
+ * @returns The `should` clauses of the search query (none when the search has no street number).
+ */
+const buildNumberRangeSearchClauses = (
+    normalizedSearch: string,
+    mode: Types.AddressSearchMode,
+): Record<string, unknown>[] => {
+    const streetNumber = getStreetNumberSearch(normalizedSearch);
+    if (streetNumber === undefined) return [];
+
+    return [
+        {
+            bool: {
+                must:
+                    mode === "edge-ngram"
+                        ? {
+                              multi_match: {
+                                  fields: ["sla.edge", "ssla.edge"],
+                                  query: streetNumber.rest,
+                                  operator: "AND",
+                              },
+                          }
+                        : {
+                              multi_match: {
+                                  fields: ["sla", "ssla"],
+                                  query: streetNumber.rest,
+                                  fuzziness: "AUTO",
+                                  type: "bool_prefix",
+                                  lenient: true,
+                                  auto_generate_synonyms_phrase_query: false,
+                                  operator: "AND",
+                              },
+                          },
+                filter: [
+                    { range: { "number.number": { lt: streetNumber.number } } },
+                    {
+                        range: {
+                            "number.last.number": { gt: streetNumber.number },
+                        },
+                    },
+                ],
+                boost: 5,
+                _name: NUMBER_RANGE_QUERY,
+            },
+        },
+    ];
+};
+
+/**
+ * Builds the search request body shared by address autocomplete and batch
+ * validation. The search string is matched by the standard clauses, ranking
+ * prefix matches above phrase and fuzzy matches, or in `edge-ngram` mode by
+ * the cheaper edge n-gram clauses.
+ *
+ * Addresses are also matched through their locality's aliases (`aliasSla`),
+ * with lower boosts so the official locality name ranks first. The clauses
+ * are named so `getMatchedAlias` can tell when a hit only matched an alias.
+ * Former and alternate street names (`streetAliasSla`) are matched the same
+ * way, below the official street name. A street number inside a ranged
+ * address is matched by a separate named clause, so `isMatchedByRange` can
+ * flag the hits it found. Alias addresses (G-NAF ADDRESS_ALIAS) are demoted
+ * below principal addresses.
+ *
+ * Grouping by building collapses the hits on `buildingPid`, so each building
+ * returns only its best matching address, and counts the distinct buildings
+ * for pagination.
+ *
+ * @param normalizedSearch - The normalized search string (empty only for legal parcel lookups).
+ * @param from - The offset of the first hit to return.
+ * @param size - The number of hits to return.
+ * @param filterClauses - Filter clauses restricting the matching addresses.
+ * @param group - Optional grouping mode for the hits.
+ * @param mode - The query used to match the search string.
+ * @param source - Optional `_source` filter for a sparse fieldset, replacing the default fields.
+ * @returns The OpenSearch search request body.
+ */
+const buildAddressSearchBody = (
+    normalizedSearch: string,
+    from: number,
+    size: number,
+    filterClauses: Record<string, unknown>[],
+    group?: Types.AddressSearchGroup,
+    mode: Types.AddressSearchMode = "standard",
+    source?: string[] | false,
+): Record<string, unknown> => ({
+    from,
+    size,
+    // Limit payload to fields required by the response mapper
+    _source:
+        source ??
+        (group === "building"
+            ? [
+                  "sla",
+                  "ssla",
+                  "localityAliases",
+                  "localityPid",
+                  "primaryPid",
+                  "secondaryCount",
+                  "location",
+              ]
+            : ["sla", "ssla", "localityAliases", "localityPid", "location"]),
+    ...(group === "building" && {
+        collapse: { field: "buildingPid" },
+        aggs: { buildings: { cardinality: { field: "buildingPid" } } },
+    }),
+    query: {
+        // Demote alias addresses so the principal address for a property ranks
+        // first, while aliases can still be found by their own address
+        boosting: {
+            positive: {
+                bool: {
+                    // Without a search string (a legal parcel lookup), every filtered address matches equally
+                    ...(!normalizedSearch && { must: { match_all: {} } }),
+                    // If the search string is not empty, add the search string to the query using a multi match query to
+                    // search against the `sla` and `ssla` fields
+                    ...(normalizedSearch && {
+                        should: [
+                            ...(mode === "edge-ngram"
+                                ? buildEdgeNgramSearchClauses(normalizedSearch)
+                                : buildStandardSearchClauses(normalizedSearch)),
+                            ...buildNumberRangeSearchClauses(
+                                normalizedSearch,
+                                mode,
+                            ),
+                        ],
+                        // At least one clause must match, even when filters are present
+                        minimum_should_match: 1,
+                    }),
+                    ...(filterClauses.length > 0 && {
+                        filter: filterClauses,
+                    }),
+                },
+            },
+            negative: {
+                term: { aliasPrincipal: "A" },
+            },
+            negative_boost: 0.5,
+        },
+    },
+    sort: [
+        "_score",
+        { confidence: { order: "desc" } },
+        { "ssla.raw": { order: "asc" } },
+        { "sla.raw": { order: "asc" } },
+    ],
+});
+
+/**
+ * Replaces unit hits with their building's primary address.
+ *
+ * Hits grouped by building are the best matching address in each building,
+ * which is often one of its units. Each unit is swapped for the primary
+ * address it is linked to (keeping the unit's score and matched queries), so
+ * the suggestion names the building and carries its secondary count. The
+ * unit's highlights are dropped, as they mark the unit's address text.
+ *
+ * @param hits - The collapsed search hits.
+ * @returns The hits with units replaced by their primary address.
+ */
+const resolveBuildingHits = async (
+    hits: Types.AddressSearchHit[],
+): Promise<Types.AddressSearchHit[]> => {
+    const primaryIds = [
+        ...new Set(
+            hits.flatMap((hit) =>
+                hit._source.primaryPid !== undefined
+                    ? [`/addresses/${hit._source.primaryPid}`]
+                    : [],
+            ),
+        ),
+    ];
+    if (primaryIds.length === 0) return hits;
+
+    const circuit = getOpenSearchCircuit();
+    const mgetResp = await circuit.execute(async () => {
+        return await (global.esClient as Types.OpensearchClient).mget({
+            index: ES_INDEX_NAME,
+            body: { ids: primaryIds },
+            _source_includes: [
+                "sla",
+                "ssla",
+                "localityAliases",
+                "localityPid",
+                "secondaryCount",
+                "dateRetired",
+                "location",
+            ],
+        });
+    });
+
+    // Primary addresses missing from the index or retired leave the unit hit in place
+    const primaries = new Map<string, Types.AddressHitSource>();
+    for (const doc of mgetResp.body.docs as {
+        _id: string;
+        found?: boolean;
+        _source?: Types.AddressHitSource;
+    }[]) {
+        if (
+            doc.found &&
+            doc._source !== undefined &&
+            doc._source.dateRetired === undefined
+        ) {
+            primaries.set(doc._id, doc._source);
+        }
+    }
+
+    return hits.map((hit) => {
+        const primaryId = `/addresses/${hit._source.primaryPid}`;
+        const primary = primaries.get(primaryId);
+        if (hit._source.primaryPid === undefined || primary === undefined) {
+            return hit;
+        }
+        const { highlight: _highlight, ...unitHit } = hit;
+        return { ...unitHit, _id: primaryId, _source: primary };
+    });
+};
+
 /**
  * Searches for an address in the index with fuzzy matching.
  *
@@ -195,12 +723,19 @@ const isIndexEmpty = async (): Promise<boolean> => {
  * with both bool_prefix and phrase_prefix matching for optimal autocomplete behavior.
  * Results are cached using an LRU cache for frequently accessed queries, and
  * operations are protected by a circuit breaker to handle OpenSearch failures gracefully.
+ * With `group` set to `building`, units of the same building are collapsed
+ * into one hit for the building's primary address, and the total counts
+ * buildings rather than addresses.
  *
  * @augments autoCompleteAddress - This function is part of the autocomplete functionality
  *
  * @param searchString - The search string to match against addresses.
  * @param p - The page number (1-indexed, will be validated and clamped).
  * @param pageSize - The page size (will be validated and clamped to MAX_PAGE_SIZE).
+ * @param filters - Optional validated filters restricting the matching addresses.
+ * @param group - Optional grouping mode; `building` returns one hit per building.
+ * @param mode - The query used to match the search string, set by ADDRESSKIT_SEARCH_MODE by default.
+ * @param source - Optional `_source` filter for a sparse fieldset.
  * @returns A promise resolving to the OpenSearch search response with pagination metadata.
  * @throws {CircuitOpenError} If OpenSearch circuit is open due to repeated failures.
  */
@@ -208,12 +743,17 @@ const searchForAddress = async (
     searchString: string,
     p: number | undefined,
     pageSize: number | undefined = PAGE_SIZE,
+    filters?: Types.AddressFilters,
+    group?: Types.AddressSearchGroup,
+    mode: Types.AddressSearchMode = SEARCH_MODE,
+    source?: string[] | false,
 ): Promise<Types.SearchForAddressResult> => {
     // Normalize the inbound search string to reduce query permutations
     const normalizedSearch = normalizeSearchString(searchString);
 
-    // Reject empty searches to avoid expensive match-all queries
-    if (normalizedSearch === "") {
+    // Reject empty searches to avoid expensive match-all queries, unless a
+    // legal parcel filter narrows the search to a handful of addresses
+    if (normalizedSearch === "" && filters?.legalParcelId === undefined) {
         throw new Error("Search query must not be empty after normalization");
     }
 
@@ -225,6 +765,7 @@ const searchForAddress = async (
         normalizedSearch,
         validPage,
         validSize,
+        `${getAddressFiltersCacheKey(filters)}${group !== undefined ? `:g${group}` : ""}${mode !== "standard" ? `:m${mode}` : ""}${source !== undefined ? `:s${source || ""}` : ""}`,
     );
 
     // Check cache first if enabled
@@ -255,6 +796,9 @@ const searchForAddress = async (
     // Calculate the offset for OpenSearch (0-indexed)
     const from = (validPage - 1) * validSize;
 
+    // Filters restrict the matches without affecting relevance scoring
+    const filterClauses = buildAddressFilterClauses(filters);
+
     // Execute search with circuit breaker protection
     const circuit = getOpenSearchCircuit();
 
@@ -263,68 +807,19 @@ const searchForAddress = async (
         return (await (global.esClient as Types.OpensearchClient).search({
             index: ES_INDEX_NAME,
             body: {
-                from,
-                size: validSize,
-                // Limit payload to fields required by the response mapper
-                _source: ["sla"],
-                query: {
-                    bool: {
-                        // If the search string is not empty, add the search string to the query using a multi match query to
-                        // search against the `sla` and `ssla` fields
-                        ...(normalizedSearch && {
-                            should: [
-                                // Highest boost: Address starts with the search query (exact prefix match)
-                                // This ensures "50 ST GEORGES TCE" ranks above "UNIT 1, 50 ST GEORGES TCE"
-                                {
-                                    prefix: {
-                                        "sla.raw": {
-                                            value: normalizedSearch.toUpperCase(),
-                                            boost: 100,
-                                        },
-                                    },
-                                },
-                                // High boost: Short single-line address starts with search query
-                                {
-                                    prefix: {
-                                        "ssla.raw": {
-                                            value: normalizedSearch.toUpperCase(),
-                                            boost: 80,
-                                        },
-                                    },
-                                },
-                                // Medium boost: Phrase prefix match (sequential term matching)
-                                {
-                                    multi_match: {
-                                        fields: ["sla^2", "ssla"],
-                                        query: normalizedSearch,
-                                        type: "phrase_prefix",
-                                        lenient: true,
-                                        auto_generate_synonyms_phrase_query: false,
-                                        boost: 10,
-                                    },
-                                },
-                                // Lower boost: Fuzzy bool_prefix for typo tolerance
-                                {
-                                    multi_match: {
-                                        fields: ["sla", "ssla"],
-                                        query: normalizedSearch,
-                                        fuzziness: "AUTO",
-                                        type: "bool_prefix",
-                                        lenient: true,
-                                        auto_generate_synonyms_phrase_query: false,
-                                        operator: "AND",
-                                    },
-                                },
-                            ],
-                        }),
-                    },
-                },
-                sort: [
-                    "_score",
-                    { confidence: { order: "desc" } },
-                    { "ssla.raw": { order: "asc" } },
-                    { "sla.raw": { order: "asc" } },
-                ],
+                ...buildAddressSearchBody(
+                    normalizedSearch,
+                    from,
+                    validSize,
+                    filterClauses,
+                    group,
+                    mode,
+                    source,
+                ),
+                // Mark the matched terms for the suggestions' highlight ranges
+                ...(normalizedSearch !== "" && {
+                    highlight: buildAddressHighlightRequest(mode),
+                }),
             },
         })) as Types.OpensearchApiResponse<
             Types.OpensearchSearchResponse<unknown>,
@@ -334,7 +829,18 @@ const searchForAddress = async (
 
     // Extract the total hit count for pagination calculations
     const rawTotal = searchResp.body.hits.total;
-    const totalHits = typeof rawTotal === "number" ? rawTotal : rawTotal.value;
+    let totalHits = typeof rawTotal === "number" ? rawTotal : rawTotal.value;
+
+    // Grouped hits are counted and named by building
+    if (group === "building") {
+        const buildings = searchResp.body.aggregations?.buildings as
+            | { value: number }
+            | undefined;
+        totalHits = buildings?.value ?? totalHits;
+        searchResp.body.hits.hits = (await resolveBuildingHits(
+            searchResp.body.hits.hits as Types.AddressSearchHit[],
+        )) as typeof searchResp.body.hits.hits;
+    }
 
     // Cache the result if caching is enabled
     if (CACHE_ENABLED) {
@@ -359,6 +865,345 @@ const searchForAddress = async (
     };
 };
 
+/**
+ * Maps the geocoding indexed by the loader into the JSON:API `geo` attribute.
+ * Geocodes without coordinates are omitted.
+ *
+ * @param geocoding - The `geocoding` of the indexed address.
+ * @returns The geocoding level and geocodes in the JSON:API response format.
+ */
+const mapGeocodingToGeo = (
+    geocoding: NonNullable<Types.AddressDetails["geocoding"]>,
+): NonNullable<Types.AddressDetailAttributes["geo"]> => ({
+    ...(geocoding.level !== undefined && {
+        level: {
+            code: Number(geocoding.level.code),
+            ...(geocoding.level.name !== undefined && {
+                name: geocoding.level.name,
+            }),
+        },
+    }),
+    geocodes: (geocoding.geocodes ?? []).flatMap((geocode) =>
+        geocode.latitude === undefined || geocode.longitude === undefined
+            ? []
+            : [
+                  {
+                      latitude: geocode.latitude,
+                      longitude: geocode.longitude,
+                      isDefault: geocode.default,
+                      ...(geocode.reliability !== undefined && {
+                          reliability: {
+                              code: Number(geocode.reliability.code),
+                              name: geocode.reliability.name ?? "",
+                          },
+                      }),
+                      ...(geocode.type !== undefined && {
+                          type: {
+                              code: Number(geocode.type.code),
+                              name: geocode.type.name ?? "",
+                          },
+                      }),
+                      ...(geocode.description !== undefined && {
+                          description: geocode.description,
+                      }),
+                  },
+              ],
+    ),
+});
+
+/**
+ * Maps an address document from the index into JSON:API address detail attributes.
+ *
+ * @param addressId - The G-NAF PID of the address.
+ * @param source - The `_source` of the address document.
+ * @returns The address detail attributes.
+ */
+const mapSourceToAddressAttributes = (
+    addressId: string,
+    // biome-ignore lint/suspicious/noExplicitAny: indexed documents are untyped
+    source: Record<string, any>,
+): Types.AddressDetailAttributes => {
+    // Handle the nested data structure from OpenSearch
+    // Some fields are in source.structured.structured (double nesting from indexing)
+    // Some fields are directly in source.structured
+    // Some fields are at the root level of source
+    const struct = source.structured ?? {};
+    const innerStruct = struct.structured ?? {};
+
+    // Build the JSON:API address detail attributes
+    return {
+        pid: addressId,
+        sla: source.sla,
+        ...(source.ssla !== undefined && { ssla: source.ssla }),
+        ...((source.precedence ?? struct.precedence) !== undefined && {
+            precedence: source.precedence ?? struct.precedence,
+        }),
+        // mla can be at root level or in structured
+        ...((source.mla ?? struct.mla) !== undefined && {
+            mla: source.mla ?? struct.mla,
+        }),
+        ...((source.smla ?? struct.smla) !== undefined && {
+            smla: source.smla ?? struct.smla,
+        }),
+        structured: {
+            // Check both inner structured and outer structured for each field
+            ...((innerStruct.buildingName ?? struct.buildingName) !==
+                undefined && {
+                buildingName: innerStruct.buildingName ?? struct.buildingName,
+            }),
+            ...((innerStruct.lotNumber ?? struct.lotNumber) !== undefined && {
+                lotNumber: innerStruct.lotNumber ?? struct.lotNumber,
+            }),
+            ...((innerStruct.flat ?? struct.flat) !== undefined && {
+                flat: innerStruct.flat ?? struct.flat,
+            }),
+            ...((innerStruct.level ?? struct.level) !== undefined && {
+                level: innerStruct.level ?? struct.level,
+            }),
+            ...((innerStruct.number ?? struct.number) !== undefined && {
+                number: innerStruct.number ?? struct.number,
+            }),
+            ...((innerStruct.street ?? struct.street) !== undefined && {
+                street: innerStruct.street ?? struct.street,
+            }),
+            ...((innerStruct.locality ?? struct.locality) !== undefined && {
+                locality: innerStruct.locality ?? struct.locality,
+            }),
+            ...((innerStruct.state ?? struct.state) !== undefined && {
+                state: innerStruct.state ?? struct.state,
+            }),
+            ...((innerStruct.postcode ?? struct.postcode) !== undefined && {
+                postcode: innerStruct.postcode ?? struct.postcode,
+            }),
+            ...((innerStruct.confidence ?? struct.confidence) !== undefined && {
+                confidence: innerStruct.confidence ?? struct.confidence,
+            }),
+        },
+        ...((innerStruct.geo ?? struct.geo) !== undefined
+            ? { geo: innerStruct.geo ?? struct.geo }
+            : struct.geocoding !== undefined && {
+                  geo: mapGeocodingToGeo(struct.geocoding),
+              }),
+        ...(struct.statistical !== undefined && {
+            statistical: struct.statistical,
+        }),
+        ...(source.legalParcelId !== undefined && {
+            legalParcelId: source.legalParcelId,
+        }),
+        ...(source.addressSitePid !== undefined && {
+            addressSitePid: source.addressSitePid,
+        }),
+        ...(source.gnafPropertyPid !== undefined && {
+            gnafPropertyPid: source.gnafPropertyPid,
+        }),
+    };
+};
+
+/**
+ * Maps an address document from the index to the addresses it is related to:
+ * its principal address when it is an alias, its building's primary address
+ * or its count of secondary addresses, its address site and its locality.
+ *
+ * @param source - The `_source` of the address document.
+ * @returns The related addresses, rendered as resource relationships.
+ */
+const mapSourceToRelatedAddresses = (
+    // biome-ignore lint/suspicious/noExplicitAny: indexed documents are untyped
+    source: Record<string, any>,
+): Types.AddressRelatedAddresses => ({
+    ...(source.principalPid !== undefined && {
+        principal: {
+            pid: source.principalPid,
+            aliasTypeCode: source.aliasTypeCode,
+        },
+    }),
+    ...(source.primaryPid !== undefined && { primaryPid: source.primaryPid }),
+    ...(source.secondaryCount !== undefined && {
+        secondaryCount: source.secondaryCount,
+    }),
+    ...(source.addressSitePid !== undefined && {
+        addressSitePid: source.addressSitePid,
+    }),
+    ...(source.localityPid !== undefined && {
+        localityPid: source.localityPid,
+    }),
+});
+
+/**
+ * Maps a locality document from the index into JSON:API locality detail attributes.
+ *
+ * @param source - The `_source` of the locality document.
+ * @returns The locality detail attributes.
+ */
+const mapSourceToLocalityAttributes = (
+    source: LocalitySearchHit["_source"],
+): Types.LocalityDetailAttributes => ({
+    localityPid: source.localityPid,
+    name: source.name,
+    display: source.display,
+    ...(source.classCode !== undefined && {
+        class: {
+            code: source.classCode,
+            name: source.className,
+        },
+    }),
+    ...(source.stateAbbreviation !== undefined && {
+        state: {
+            name: source.stateName,
+            abbreviation: source.stateAbbreviation,
+        },
+    }),
+    ...(source.postcode !== undefined && { postcode: source.postcode }),
+    ...(source.postcodes !== undefined && {
+        postcodes: source.postcodes,
+    }),
+    ...(source.aliases !== undefined &&
+        source.aliases.length > 0 && { aliases: source.aliases }),
+    ...(source.location !== undefined && {
+        centroid: {
+            latitude: source.location.lat,
+            longitude: source.location.lon,
+        },
+    }),
+});
+
+/**
+ * Fetches the localities of a set of addresses for a compound document's
+ * `included` array.
+ *
+ * Each locality appears once however many addresses are in it. Localities
+ * missing from the locality index are left out, so an address's `locality`
+ * relationship may point at a locality that is not included.
+ *
+ * @param localityPids - The G-NAF Locality PIDs of the addresses' localities.
+ * @param fields - The `fields[locality]` sparse fieldset, if any.
+ * @returns The locality resources, in order of first appearance.
+ */
+const getIncludedLocalities = async (
+    localityPids: (string | undefined)[],
+    fields?: string[],
+): Promise<Types.LocalityDetailResource[]> => {
+    const ids = [
+        ...new Set(
+            localityPids.filter((pid): pid is string => pid !== undefined),
+        ),
+    ];
+    if (ids.length === 0) return [];
+
+    const sourceIncludes =
+        fields === undefined
+            ? undefined
+            : getSparseSourceIncludes(fields, LOCALITY_FIELD_SOURCES);
+
+    const circuit = getOpenSearchCircuit();
+    const mgetResp = await circuit.execute(async () => {
+        return await (global.esClient as Types.OpensearchClient).mget({
+            index: ES_LOCALITY_INDEX_NAME,
+            body: { ids: ids.map((pid) => `/localities/${pid}`) },
+            ...(sourceIncludes !== undefined &&
+                sourceIncludes.length > 0 && {
+                    _source_includes: sourceIncludes,
+                }),
+        });
+    });
+
+    const localities: Types.LocalityDetailResource[] = [];
+    for (const doc of mgetResp.body.docs as {
+        _id: string;
+        found?: boolean;
+        _source?: LocalitySearchHit["_source"];
+    }[]) {
+        if (doc.found !== true || doc._source === undefined) continue;
+        const localityId = extractLocalityId(doc._id);
+        localities.push(
+            applySparseFieldset(
+                buildLocalityResource(
+                    localityId,
+                    mapSourceToLocalityAttributes(doc._source),
+                ),
+                fields,
+            ),
+        );
+    }
+    return localities;
+};
+
+/**
+ * The most successors followed from a retired address before it is treated as
+ * having no current successor.
+ */
+const MAX_SUCCESSOR_HOPS = 5;
+
+/**
+ * Builds the response for a retired address.
+ *
+ * The loader indexes retired addresses as tombstones holding the retirement
+ * date and, when G-NAF links the address to one, a successor: the principal
+ * address for an alias, or the building's primary address for a unit. A
+ * successor may itself have been retired since, so the chain is followed until
+ * a current address is found. A current successor gets a 301 redirect to it;
+ * otherwise the address is 410 Gone. Both carry the retirement date in `meta`.
+ *
+ * @param addressId - The G-NAF PID of the retired address.
+ * @param source - The `_source` of the retired address's tombstone.
+ * @returns The redirect or gone response.
+ */
+const resolveRetiredAddress = async (
+    addressId: string,
+    // biome-ignore lint/suspicious/noExplicitAny: indexed documents are untyped
+    source: Record<string, any>,
+): Promise<
+    Types.GetAddressRedirectResponse | Types.GetAddressErrorResponse
+> => {
+    const circuit = getOpenSearchCircuit();
+    const dateRetired: string = source.dateRetired;
+    const visited = new Set([addressId]);
+    let successorPid: string | undefined = source.successorPid;
+
+    while (
+        successorPid !== undefined &&
+        !visited.has(successorPid) &&
+        visited.size <= MAX_SUCCESSOR_HOPS
+    ) {
+        const pid = successorPid;
+        visited.add(pid);
+
+        const mgetResp = await circuit.execute(async () => {
+            return await (global.esClient as Types.OpensearchClient).mget({
+                index: ES_INDEX_NAME,
+                body: { ids: [`/addresses/${pid}`] },
+                _source_includes: ["dateRetired", "successorPid"],
+            });
+        });
+        const [doc] = mgetResp.body.docs as {
+            found?: boolean;
+            _source?: { dateRetired?: string; successorPid?: string };
+        }[];
+
+        // A successor missing from the index cannot be redirected to
+        if (doc?.found !== true) break;
+
+        if (doc._source?.dateRetired === undefined) {
+            return {
+                statusCode: 301,
+                json: buildAddressRedirectDocument(addressId, {
+                    dateRetired,
+                    successorPid: pid,
+                }) as Record<string, unknown>,
+                location: `/addresses/${pid}`,
+            };
+        }
+        successorPid = doc._source.successorPid;
+    }
+
+    return {
+        statusCode: 410,
+        json: ErrorDocuments.gone("address", addressId, {
+            dateRetired,
+        }) as Record<string, unknown>,
+    };
+};
+
 /**
  * Retrieves detailed information about a specific address by its ID.
  *
@@ -368,14 +1213,41 @@ const searchForAddress = async (
  * failures gracefully.
  *
  * @param {string} addressId - The unique identifier for the address (G-NAF PID).
+ * @param {unknown} [fields] - Optional `fields[address]` sparse fieldset.
+ * @param {unknown} [include] - Optional `include` parameter; `locality` adds the address's locality to `included`.
+ * @param {unknown} [localityFields] - Optional `fields[locality]` sparse fieldset for the included locality.
+ * @param {Types.ResponseFormat} [format] - Representation to return; `geojson` returns a GeoJSON Feature and ignores `include`.
  * @returns {Promise<Types.GetAddressResponse>} A promise resolving to either:
- *   - Success: `{ link, json, hash }` containing the JSON:API document and navigation links
+ *   - Success: `{ link, json, hash }` containing the JSON:API document (or GeoJSON Feature) and navigation links
+ *   - Redirect: `{ statusCode, json, location }` pointing a retired address at its successor
  *   - Error: `{ statusCode, json }` with appropriate HTTP status and JSON:API error document
  */
 const getAddress = async (
     addressId: string,
+    fields?: unknown,
+    include?: unknown,
+    localityFields?: unknown,
+    format: Types.ResponseFormat = "jsonapi",
 ): Promise<Types.GetAddressResponse> => {
     try {
+        // Validate the optional sparse fieldsets (throws SparseFieldsetError when invalid)
+        const sparseFields = parseSparseFieldset(
+            fields,
+            RESOURCE_TYPES.ADDRESS,
+            ADDRESS_FIELD_SOURCES,
+        );
+        const sparseLocalityFields = parseSparseFieldset(
+            localityFields,
+            RESOURCE_TYPES.LOCALITY,
+            LOCALITY_FIELD_SOURCES,
+        );
+
+        // Validate the optional include (throws IncludeError when invalid)
+        const includes = parseInclude(include, ADDRESS_INCLUDES);
+        const geojson = format === "geojson";
+        const includeLocality =
+            !geojson && includes?.includes("locality") === true;
+
         // Get the circuit breaker for OpenSearch operations
         const circuit = getOpenSearchCircuit();
 
@@ -385,6 +1257,20 @@ const getAddress = async (
             return await (global.esClient as Types.OpensearchClient).get({
                 index: ES_INDEX_NAME,
                 id: `/addresses/${addressId}`,
+                // Fetch only the requested fields, plus what a retired address,
+                // any included locality and a GeoJSON geometry need
+                ...(sparseFields !== undefined && {
+                    _source_includes: getSparseSourceIncludes(
+                        sparseFields,
+                        ADDRESS_FIELD_SOURCES,
+                        [
+                            "dateRetired",
+                            "successorPid",
+                            ...(includeLocality ? ["localityPid"] : []),
+                            ...(geojson ? ADDRESS_FIELD_SOURCES.geo : []),
+                        ],
+                    ),
+                }),
             });
         });
 
@@ -393,70 +1279,33 @@ const getAddress = async (
         // Extract the source data from OpenSearch response
         const source = jsonX.body._source;
 
-        // Handle the nested data structure from OpenSearch
-        // Some fields are in source.structured.structured (double nesting from indexing)
-        // Some fields are directly in source.structured
-        // Some fields are at the root level of source
-        const struct = source.structured ?? {};
-        const innerStruct = struct.structured ?? {};
+        // Retired addresses redirect to their current successor, or are gone
+        if (source.dateRetired !== undefined) {
+            return await resolveRetiredAddress(addressId, source);
+        }
 
         // Build the JSON:API address detail attributes
-        const attributes: Types.AddressDetailAttributes = {
-            pid: addressId,
-            sla: source.sla,
-            ...(source.ssla !== undefined && { ssla: source.ssla }),
-            // mla can be at root level or in structured
-            ...((source.mla ?? struct.mla) !== undefined && {
-                mla: source.mla ?? struct.mla,
-            }),
-            ...((source.smla ?? struct.smla) !== undefined && {
-                smla: source.smla ?? struct.smla,
-            }),
-            structured: {
-                // Check both inner structured and outer structured for each field
-                ...((innerStruct.buildingName ?? struct.buildingName) !==
-                    undefined && {
-                    buildingName:
-                        innerStruct.buildingName ?? struct.buildingName,
-                }),
-                ...((innerStruct.lotNumber ?? struct.lotNumber) !==
-                    undefined && {
-                    lotNumber: innerStruct.lotNumber ?? struct.lotNumber,
-                }),
-                ...((innerStruct.flat ?? struct.flat) !== undefined && {
-                    flat: innerStruct.flat ?? struct.flat,
-                }),
-                ...((innerStruct.level ?? struct.level) !== undefined && {
-                    level: innerStruct.level ?? struct.level,
-                }),
-                ...((innerStruct.number ?? struct.number) !== undefined && {
-                    number: innerStruct.number ?? struct.number,
-                }),
-                ...((innerStruct.street ?? struct.street) !== undefined && {
-                    street: innerStruct.street ?? struct.street,
-                }),
-                ...((innerStruct.locality ?? struct.locality) !== undefined && {
-                    locality: innerStruct.locality ?? struct.locality,
-                }),
-                ...((innerStruct.state ?? struct.state) !== undefined && {
-                    state: innerStruct.state ?? struct.state,
-                }),
-                ...((innerStruct.postcode ?? struct.postcode) !== undefined && {
-                    postcode: innerStruct.postcode ?? struct.postcode,
-                }),
-                ...((innerStruct.confidence ?? struct.confidence) !==
-                    undefined && {
-                    confidence: innerStruct.confidence ?? struct.confidence,
-                }),
-            },
-            ...((innerStruct.geo ?? struct.geo) !== undefined && {
-                geo: innerStruct.geo ?? struct.geo,
-            }),
-        };
-
-        // Build the JSON:API resource and document
-        const resource = buildAddressResource(addressId, attributes);
-        const jsonApiDocument = buildAddressDetailDocument(resource);
+        const attributes = mapSourceToAddressAttributes(addressId, source);
+
+        // Build the JSON:API resource and document, linking aliases to their
+        // principal and units to their building's primary address
+        const resource = applySparseFieldset(
+            buildAddressResource(
+                addressId,
+                attributes,
+                mapSourceToRelatedAddresses(source),
+            ),
+            sparseFields,
+        );
+        const included = includeLocality
+            ? await getIncludedLocalities(
+                  [source.localityPid],
+                  sparseLocalityFields,
+              )
+            : undefined;
+        const jsonApiDocument = geojson
+            ? buildAddressFeature(resource, attributes.geo)
+            : buildAddressDetailDocument(resource, included);
 
         if (VERBOSE) logger("jsonApiDocument", jsonApiDocument);
 
@@ -468,8 +1317,12 @@ const getAddress = async (
         });
 
         // Use pre-computed hash from document if available, otherwise compute on-the-fly
-        // Pre-computed hashes are stored during indexing for better performance
-        const precomputedHash = source.documentHash;
+        // Pre-computed hashes are stored during indexing for better performance,
+        // but only describe the complete JSON:API document without included resources
+        const precomputedHash =
+            !geojson && sparseFields === undefined && included === undefined
+                ? source.documentHash
+                : undefined;
         const hash =
             precomputedHash ??
             crypto
@@ -479,6 +1332,20 @@ const getAddress = async (
 
         return { link, json: jsonApiDocument as Record<string, unknown>, hash };
     } catch (error_: unknown) {
+        // Handle an invalid sparse fieldset or include (400)
+        if (
+            error_ instanceof SparseFieldsetError ||
+            error_ instanceof IncludeError
+        ) {
+            return {
+                statusCode: 400,
+                json: ErrorDocuments.badRequest(
+                    error_.message,
+                    error_.parameter,
+                ) as Record<string, unknown>,
+            };
+        }
+
         // Handle circuit breaker open state (503 - service temporarily unavailable)
         if (error_ instanceof CircuitOpenError) {
             error("Circuit breaker open for OpenSearch", error_);
@@ -526,29 +1393,2938 @@ const getAddress = async (
 };
 
 /**
- * Searches for addresses matching a query string with pagination support.
+ * Lists the secondary addresses (units, shops, etc.) of a building's primary address.
  *
- * This function performs a fuzzy search against the address index, returning
- * minimal autocomplete suggestions in JSON:API format with proper pagination.
- * The response is optimized for fast rendering of autocomplete dropdowns.
+ * Secondaries are linked to their primary address by the loader from the
+ * G-NAF PRIMARY_SECONDARY table. They are returned as address resources
+ * identical to `GET /addresses/{id}`, ordered naturally by level number then
+ * flat number (addresses without a level or flat number first), and paginated
+ * with the standard `page[number]` and `page[size]` parameters. A retired
+ * primary address redirects or is gone, as for `GET /addresses/{id}`.
  *
- * @param {string} url - The base URL for the addresses endpoint (used for link construction).
- * @param {Types.SwaggerContext} swagger - Swagger/OpenAPI context for API documentation linkage.
- * @param {string} [q] - The search query string for address matching.
+ * @param {string} addressId - The G-NAF PID of the primary address.
  * @param {number} [p=1] - The page number for pagination (1-indexed).
- * @returns {Promise<Types.GetAddressesResponse>} A promise resolving to either:
- *   - Success: `{ link, json, linkTemplate }` containing JSON:API autocomplete results
+ * @param {number} [pageSize] - Number of secondary addresses per page.
+ * @param {unknown} [fields] - Optional `fields[address]` sparse fieldset.
+ * @returns {Promise<Types.GetAddressSecondariesResponse>} A promise resolving to either:
+ *   - Success: `{ json }` containing the JSON:API collection of secondary addresses
+ *   - Redirect: `{ statusCode, json, location }` pointing a retired address at its successor
  *   - Error: `{ statusCode, json }` with appropriate HTTP status and JSON:API error document
  */
-const getAddresses = async (
+const getAddressSecondaries = async (
+    addressId: string,
+    p = 1,
+    pageSize?: number,
+    fields?: unknown,
+): Promise<Types.GetAddressSecondariesResponse> => {
+    try {
+        const { validPage, validSize } = validatePaginationParams(p, pageSize);
+
+        // Validate the optional sparse fieldset (throws SparseFieldsetError when invalid)
+        const sparseFields = parseSparseFieldset(
+            fields,
+            RESOURCE_TYPES.ADDRESS,
+            ADDRESS_FIELD_SOURCES,
+        );
+        const sourceFilter = getSparseSourceFilter(
+            sparseFields,
+            ADDRESS_FIELD_SOURCES,
+        );
+        const circuit = getOpenSearchCircuit();
+
+        // Confirm the primary address exists (throws a 404 error when it does not)
+        const jsonX = await circuit.execute(async () => {
+            return await (global.esClient as Types.OpensearchClient).get({
+                index: ES_INDEX_NAME,
+                id: `/addresses/${addressId}`,
+                _source_includes: [
+                    "secondaryCount",
+                    "dateRetired",
+                    "successorPid",
+                ],
+            });
+        });
+
+        // Retired addresses redirect to their current successor, or are gone
+        const source = jsonX.body._source;
+        if (source?.dateRetired !== undefined) {
+            return await resolveRetiredAddress(addressId, source);
+        }
+
+        // Find the addresses linked to this primary address, in natural order
+        const searchResp = await circuit.execute(async () => {
+            return (await (global.esClient as Types.OpensearchClient).search({
+                index: ES_INDEX_NAME,
+                body: {
+                    from: (validPage - 1) * validSize,
+                    size: validSize,
+                    ...(sourceFilter !== undefined && {
+                        _source: sourceFilter,
+                    }),
+                    query: {
+                        bool: {
+                            filter: { term: { primaryPid: addressId } },
+                        },
+                    },
+                    sort: [
+                        { levelNumber: { order: "asc", missing: "_first" } },
+                        { flatNumber: { order: "asc", missing: "_first" } },
+                        { "sla.raw": { order: "asc" } },
+                    ],
+                },
+            })) as Types.OpensearchApiResponse<
+                Types.OpensearchSearchResponse<unknown>,
+                unknown
+            >;
+        });
+
+        const rawTotal = searchResp.body.hits.total;
+        const totalHits =
+            (typeof rawTotal === "number" ? rawTotal : rawTotal.value) ?? 0;
+        const totalPages = Math.ceil(totalHits / validSize);
+
+        // Build address resources, each linking back to the primary address
+        const resources = searchResp.body.hits.hits.map((h) => {
+            const hit = h as Types.AddressSearchHit;
+            const id = extractAddressId(hit._id);
+            return applySparseFieldset(
+                buildAddressResource(
+                    id,
+                    mapSourceToAddressAttributes(id, hit._source ?? {}),
+                    mapSourceToRelatedAddresses(hit._source ?? {}),
+                ),
+                sparseFields,
+            );
+        });
+
+        const jsonApiDocument = buildAddressSecondariesDocument(
+            resources,
+            buildPaginationLinks(
+                `/addresses/${addressId}/secondaries`,
+                "",
+                validPage,
+                totalPages,
+                pageSize !== undefined ? validSize : undefined,
+                undefined,
+                getSparseFieldsetParams(RESOURCE_TYPES.ADDRESS, sparseFields),
+            ),
+            buildPaginationMeta(totalHits, validPage, validSize),
+        );
+
+        return { json: jsonApiDocument as Record<string, unknown> };
+    } catch (error_: unknown) {
+        // Handle an invalid sparse fieldset (400)
+        if (error_ instanceof SparseFieldsetError) {
+            return {
+                statusCode: 400,
+                json: ErrorDocuments.badRequest(
+                    error_.message,
+                    error_.parameter,
+                ) as Record<string, unknown>,
+            };
+        }
+
+        // Handle circuit breaker open state (503 - service temporarily unavailable)
+        if (error_ instanceof CircuitOpenError) {
+            error("Circuit breaker open for OpenSearch", error_);
+            const retryAfterSeconds = Math.ceil(error_.retryAfterMs / 1000);
+            return {
+                statusCode: 503,
+                json: ErrorDocuments.serviceUnavailable(
+                    retryAfterSeconds,
+                ) as Record<string, unknown>,
+            };
+        }
+
+        // Cast to OpenSearch error type for proper error handling
+        const osError = error_ as Types.OpensearchError;
+        error("error getting secondary addresses from elastic search", osError);
+
+        // Handle primary address not found (404)
+        if (osError.body?.found === false) {
+            return {
+                statusCode: 404,
+                json: ErrorDocuments.notFound("address", addressId) as Record<
+                    string,
+                    unknown
+                >,
+            };
+        }
+
+        // Handle index not ready/available (503)
+        if (osError.body?.error?.type === "index_not_found_exception") {
+            return {
+                statusCode: 503,
+                json: ErrorDocuments.serviceUnavailable() as Record<
+                    string,
+                    unknown
+                >,
+            };
+        }
+
+        // Fallback for unexpected errors (500)
+        return {
+            statusCode: 500,
+            json: ErrorDocuments.internalError() as Record<string, unknown>,
+        };
+    }
+};
+
+/**
+ * Retrieves the primary address of the building a secondary address belongs to.
+ *
+ * The response is the primary address exactly as returned by
+ * `GET /addresses/{id}`. Addresses that are not linked to a primary address
+ * (primary addresses themselves, and standalone addresses) get a 404. A
+ * retired secondary address redirects or is gone, as for `GET /addresses/{id}`.
+ *
+ * @param {string} addressId - The G-NAF PID of the secondary address.
+ * @param {unknown} [fields] - Optional `fields[address]` sparse fieldset.
+ * @returns {Promise<Types.GetAddressResponse>} A promise resolving to either:
+ *   - Success: `{ link, json, hash }` containing the primary address document
+ *   - Redirect: `{ statusCode, json, location }` pointing a retired address at its successor
+ *   - Error: `{ statusCode, json }` with appropriate HTTP status and JSON:API error document
+ */
+const getAddressPrimary = async (
+    addressId: string,
+    fields?: unknown,
+): Promise<Types.GetAddressResponse> => {
+    try {
+        // Validate the optional sparse fieldset (throws SparseFieldsetError when invalid)
+        parseSparseFieldset(
+            fields,
+            RESOURCE_TYPES.ADDRESS,
+            ADDRESS_FIELD_SOURCES,
+        );
+
+        // Look up the secondary address's link to its primary address
+        const circuit = getOpenSearchCircuit();
+        const jsonX = await circuit.execute(async () => {
+            return await (global.esClient as Types.OpensearchClient).get({
+                index: ES_INDEX_NAME,
+                id: `/addresses/${addressId}`,
+                _source_includes: ["primaryPid", "dateRetired", "successorPid"],
+            });
+        });
+
+        // Retired addresses redirect to their current successor, or are gone
+        const source = jsonX.body._source;
+        if (source?.dateRetired !== undefined) {
+            return await resolveRetiredAddress(addressId, source);
+        }
+
+        const primaryPid = source?.primaryPid;
+        if (primaryPid === undefined) {
+            return {
+                statusCode: 404,
+                json: ErrorDocuments.notFound(
+                    "primary address for address",
+                    addressId,
+                ) as Record<string, unknown>,
+            };
+        }
+
+        return await getAddress(primaryPid, fields);
+    } catch (error_: unknown) {
+        // Handle an invalid sparse fieldset (400)
+        if (error_ instanceof SparseFieldsetError) {
+            return {
+                statusCode: 400,
+                json: ErrorDocuments.badRequest(
+                    error_.message,
+                    error_.parameter,
+                ) as Record<string, unknown>,
+            };
+        }
+
+        // Handle circuit breaker open state (503 - service temporarily unavailable)
+        if (error_ instanceof CircuitOpenError) {
+            error("Circuit breaker open for OpenSearch", error_);
+            const retryAfterSeconds = Math.ceil(error_.retryAfterMs / 1000);
+            return {
+                statusCode: 503,
+                json: ErrorDocuments.serviceUnavailable(
+                    retryAfterSeconds,
+                ) as Record<string, unknown>,
+            };
+        }
+
+        // Cast to OpenSearch error type for proper error handling
+        const osError = error_ as Types.OpensearchError;
+        error("error getting primary address from elastic search", osError);
+
+        // Handle secondary address not found (404)
+        if (osError.body?.found === false) {
+            return {
+                statusCode: 404,
+                json: ErrorDocuments.notFound("address", addressId) as Record<
+                    string,
+                    unknown
+                >,
+            };
+        }
+
+        // Handle index not ready/available (503)
+        if (osError.body?.error?.type === "index_not_found_exception") {
+            return {
+                statusCode: 503,
+                json: ErrorDocuments.serviceUnavailable() as Record<
+                    string,
+                    unknown
+                >,
+            };
+        }
+
+        // Fallback for unexpected errors (500)
+        return {
+            statusCode: 500,
+            json: ErrorDocuments.internalError() as Record<string, unknown>,
+        };
+    }
+};
+
+/**
+ * Lists the other addresses on the same address site as an address.
+ *
+ * G-NAF gives each physical site (a door or entrance) an ADDRESS_SITE_PID.
+ * Several address details can share a site, for example an address and its
+ * aliases, so siblings are "the same property, a different way of writing
+ * it" rather than genuinely different properties. The address itself is left
+ * out. Siblings are returned as address resources identical to
+ * `GET /addresses/{id}`, ordered naturally by level number then flat number,
+ * and paginated with the standard `page[number]` and `page[size]` parameters.
+ * A retired address redirects or is gone, as for `GET /addresses/{id}`.
+ *
+ * @param {string} addressId - The G-NAF PID of the address.
+ * @param {number} [p=1] - The page number for pagination (1-indexed).
+ * @param {number} [pageSize] - Number of sibling addresses per page.
+ * @param {unknown} [fields] - Optional `fields[address]` sparse fieldset.
+ * @returns {Promise<Types.GetAddressSiteSiblingsResponse>} A promise resolving to either:
+ *   - Success: `{ json }` containing the JSON:API collection of sibling addresses
+ *   - Redirect: `{ statusCode, json, location }` pointing a retired address at its successor
+ *   - Error: `{ statusCode, json }` with appropriate HTTP status and JSON:API error document
+ */
+const getAddressSiteSiblings = async (
+    addressId: string,
+    p = 1,
+    pageSize?: number,
+    fields?: unknown,
+): Promise<Types.GetAddressSiteSiblingsResponse> => {
+    try {
+        const { validPage, validSize } = validatePaginationParams(p, pageSize);
+
+        // Validate the optional sparse fieldset (throws SparseFieldsetError when invalid)
+        const sparseFields = parseSparseFieldset(
+            fields,
+            RESOURCE_TYPES.ADDRESS,
+            ADDRESS_FIELD_SOURCES,
+        );
+        const sourceFilter = getSparseSourceFilter(
+            sparseFields,
+            ADDRESS_FIELD_SOURCES,
+        );
+        const circuit = getOpenSearchCircuit();
+
+        // Look up the address's site (throws a 404 error when the address does not exist)
+        const jsonX = await circuit.execute(async () => {
+            return await (global.esClient as Types.OpensearchClient).get({
+                index: ES_INDEX_NAME,
+                id: `/addresses/${addressId}`,
+                _source_includes: [
+                    "addressSitePid",
+                    "dateRetired",
+                    "successorPid",
+                ],
+            });
+        });
+
+        // Retired addresses redirect to their current successor, or are gone
+        const source = jsonX.body._source;
+        if (source?.dateRetired !== undefined) {
+            return await resolveRetiredAddress(addressId, source);
+        }
+
+        const addressSitePid = source?.addressSitePid;
+        if (addressSitePid === undefined) {
+            return {
+                statusCode: 404,
+                json: ErrorDocuments.notFound(
+                    "address site for address",
+                    addressId,
+                ) as Record<string, unknown>,
+            };
+        }
+
+        // Find the other addresses on the same site, in natural order
+        const searchResp = await circuit.execute(async () => {
+            return (await (global.esClient as Types.OpensearchClient).search({
+                index: ES_INDEX_NAME,
+                body: {
+                    from: (validPage - 1) * validSize,
+                    size: validSize,
+                    ...(sourceFilter !== undefined && {
+                        _source: sourceFilter,
+                    }),
+                    query: {
+                        bool: {
+                            filter: { term: { addressSitePid } },
+                            must_not: {
+                                ids: { values: [`/addresses/${addressId}`] },
+                            },
+                        },
+                    },
+                    sort: [
+                        { levelNumber: { order: "asc", missing: "_first" } },
+                        { flatNumber: { order: "asc", missing: "_first" } },
+                        { "sla.raw": { order: "asc" } },
+                    ],
+                },
+            })) as Types.OpensearchApiResponse<
+                Types.OpensearchSearchResponse<unknown>,
+                unknown
+            >;
+        });
+
+        const rawTotal = searchResp.body.hits.total;
+        const totalHits =
+            (typeof rawTotal === "number" ? rawTotal : rawTotal.value) ?? 0;
+        const totalPages = Math.ceil(totalHits / validSize);
+
+        const resources = searchResp.body.hits.hits.map((h) => {
+            const hit = h as Types.AddressSearchHit;
+            const id = extractAddressId(hit._id);
+            return applySparseFieldset(
+                buildAddressResource(
+                    id,
+                    mapSourceToAddressAttributes(id, hit._source ?? {}),
+                    mapSourceToRelatedAddresses(hit._source ?? {}),
+                ),
+                sparseFields,
+            );
+        });
+
+        const jsonApiDocument = buildAddressSiteSiblingsDocument(
+            resources,
+            buildPaginationLinks(
+                `/addresses/${addressId}/site-siblings`,
+                "",
+                validPage,
+                totalPages,
+                pageSize !== undefined ? validSize : undefined,
+                undefined,
+                getSparseFieldsetParams(RESOURCE_TYPES.ADDRESS, sparseFields),
+            ),
+            buildPaginationMeta(totalHits, validPage, validSize),
+        );
+
+        return { json: jsonApiDocument as Record<string, unknown> };
+    } catch (error_: unknown) {
+        // Handle an invalid sparse fieldset (400)
+        if (error_ instanceof SparseFieldsetError) {
+            return {
+                statusCode: 400,
+                json: ErrorDocuments.badRequest(
+                    error_.message,
+                    error_.parameter,
+                ) as Record<string, unknown>,
+            };
+        }
+
+        // Handle circuit breaker open state (503 - service temporarily unavailable)
+        if (error_ instanceof CircuitOpenError) {
+            error("Circuit breaker open for OpenSearch", error_);
+            const retryAfterSeconds = Math.ceil(error_.retryAfterMs / 1000);
+            return {
+                statusCode: 503,
+                json: ErrorDocuments.serviceUnavailable(
+                    retryAfterSeconds,
+                ) as Record<string, unknown>,
+            };
+        }
+
+        // Cast to OpenSearch error type for proper error handling
+        const osError = error_ as Types.OpensearchError;
+        error(
+            "error getting site sibling addresses from elastic search",
+            osError,
+        );
+
+        // Handle address not found (404)
+        if (osError.body?.found === false) {
+            return {
+                statusCode: 404,
+                json: ErrorDocuments.notFound("address", addressId) as Record<
+                    string,
+                    unknown
+                >,
+            };
+        }
+
+        // Handle index not ready/available (503)
+        if (osError.body?.error?.type === "index_not_found_exception") {
+            return {
+                statusCode: 503,
+                json: ErrorDocuments.serviceUnavailable() as Record<
+                    string,
+                    unknown
+                >,
+            };
+        }
+
+        // Fallback for unexpected errors (500)
+        return {
+            statusCode: 500,
+            json: ErrorDocuments.internalError() as Record<string, unknown>,
+        };
+    }
+};
+
+/**
+ * Searches for addresses matching a query string with pagination support.
+ *
+ * This function performs a fuzzy search against the address index, returning
+ * minimal autocomplete suggestions in JSON:API format with proper pagination.
+ * The response is optimized for fast rendering of autocomplete dropdowns.
+ *
+ * @param {string} url - The base URL for the addresses endpoint (used for link construction).
+ * @param {Types.SwaggerContext} swagger - Swagger/OpenAPI context for API documentation linkage.
+ * @param {string} [q] - The search query string for address matching.
+ * @param {number} [p=1] - The page number for pagination (1-indexed).
+ * @param {Types.AddressFilterInput} [filter] - Optional `filter[near]` / `filter[bbox]` values.
+ * @param {string} [group] - Optional grouping mode; `building` returns one suggestion per building.
+ * @param {unknown} [fields] - Optional `fields[address]` sparse fieldset for the suggestions.
+ * @param {unknown} [include] - Optional `include` parameter; `locality` adds the suggestions' localities to `included`.
+ * @param {unknown} [localityFields] - Optional `fields[locality]` sparse fieldset for included localities.
+ * @param {Types.ResponseFormat} [format] - Representation to return; `geojson` returns a GeoJSON FeatureCollection and ignores `include`.
+ * @returns {Promise<Types.GetAddressesResponse>} A promise resolving to either:
+ *   - Success: `{ link, json, linkTemplate }` containing JSON:API autocomplete results (or a GeoJSON FeatureCollection)
+ *   - Error: `{ statusCode, json }` with appropriate HTTP status and JSON:API error document
+ */
+const getAddresses = async (
+    url: string,
+    swagger: Types.SwaggerContext,
+    q?: string,
+    p = 1,
+    filter?: Types.AddressFilterInput,
+    group?: string,
+    fields?: unknown,
+    include?: unknown,
+    localityFields?: unknown,
+    format: Types.ResponseFormat = "jsonapi",
+): Promise<Types.GetAddressesResponse> => {
+    try {
+        // Validate the optional filters (throws AddressFilterError when invalid)
+        const filters = parseAddressFilters(filter);
+
+        // Validate the optional sparse fieldset, include and included fieldset
+        // (throws SparseFieldsetError or IncludeError when invalid)
+        const sparseFields = parseSparseFieldset(
+            fields,
+            RESOURCE_TYPES.ADDRESS,
+            ADDRESS_SUGGESTION_FIELD_SOURCES,
+        );
+        const includes = parseInclude(include, ADDRESS_INCLUDES);
+        const sparseLocalityFields = parseSparseFieldset(
+            localityFields,
+            RESOURCE_TYPES.LOCALITY,
+            LOCALITY_FIELD_SOURCES,
+        );
+        const filterParams = getAddressFilterParams(filters);
+        const filterQuery = Object.fromEntries(
+            Object.entries(filterParams).map(([name, value]) => [
+                `filter[${name}]`,
+                value,
+            ]),
+        );
+
+        // Normalize inbound search to prevent match-all scans on empty input;
+        // a legal parcel lookup needs no search string
+        const normalizedQuery = normalizeSearchString(q);
+        if (normalizedQuery === "" && filters.legalParcelId === undefined) {
+            return {
+                statusCode: 400,
+                json: ErrorDocuments.badRequest(
+                    "The 'q' query parameter is required and must not be empty.",
+                    "q",
+                ) as Record<string, unknown>,
+            };
+        }
+
+        // Only grouping by building is supported
+        if (group !== undefined && group !== "building") {
+            return {
+                statusCode: 400,
+                json: ErrorDocuments.badRequest(
+                    "The 'group' query parameter must be 'building'.",
+                    "group",
+                ) as Record<string, unknown>,
+            };
+        }
+        // Grouping, fieldsets and includes are carried into every pagination link
+        const optionQuery: Record<string, string> = {
+            ...(group !== undefined && { group }),
+            ...getSparseFieldsetParams(RESOURCE_TYPES.ADDRESS, sparseFields),
+            ...(includes !== undefined && { include: includes.join(",") }),
+            ...getSparseFieldsetParams(
+                RESOURCE_TYPES.LOCALITY,
+                sparseLocalityFields,
+            ),
+        };
+
+        // Fetch only the fields the suggestions need, plus those used to
+        // group them, include their localities and position GeoJSON features
+        const geojson = format === "geojson";
+        const sourceFilter = getSparseSourceFilter(
+            sparseFields,
+            ADDRESS_SUGGESTION_FIELD_SOURCES,
+            [
+                ...(group === "building" ? ["primaryPid"] : []),
+                ...(includes?.includes("locality") ? ["localityPid"] : []),
+                ...(geojson ? ["location"] : []),
+            ],
+        );
+
+        // Execute the address search query against the index
+        const {
+            searchResponse: foundAddresses,
+            page,
+            size,
+            totalHits,
+        } = await searchForAddress(
+            normalizedQuery,
+            p,
+            undefined,
+            filters,
+            group,
+            undefined,
+            sourceFilter,
+        );
+        if (VERBOSE) logger("foundAddresses", foundAddresses);
+
+        // Calculate pagination values
+        const totalPages = Math.ceil(totalHits / size);
+
+        // Build JSON:API autocomplete resources from search hits, trimmed to the fieldset
+        const resources = mapToJsonApiAutocompleteResponse(
+            foundAddresses,
+            normalizedQuery,
+        ).map((resource) => applySparseFieldset(resource, sparseFields));
+
+        // Fetch the suggestions' localities when they are included
+        const included =
+            !geojson && includes?.includes("locality")
+                ? await getIncludedLocalities(
+                      (
+                          foundAddresses.body.hits
+                              .hits as Types.AddressSearchHit[]
+                      ).map((hit) => hit._source.localityPid),
+                      sparseLocalityFields,
+                  )
+                : undefined;
+
+        // Build JSON:API pagination links
+        const jsonApiLinks = buildPaginationLinks(
+            url,
+            normalizedQuery,
+            page,
+            totalPages,
+            undefined,
+            filterParams,
+            optionQuery,
+        );
+
+        // Add API documentation link
+        jsonApiLinks.describedby = {
+            href: `/docs/#operations-${swagger.path.get[
+                "x-swagger-router-controller"
+            ].toLowerCase()}-${swagger.path.get.operationId}`,
+            title: `${swagger.path.get.operationId} API Docs`,
+            type: "text/html",
+        };
+
+        // Determine if a warning should be included in the response
+        let warning: string | undefined;
+        let suggestions: Types.SearchSuggestion[] = [];
+        if (totalHits === 0) {
+            // Check if the entire dataset is empty vs. just no results for this query
+            const datasetEmpty = await isIndexEmpty();
+            warning = datasetEmpty
+                ? API_WARNINGS.EMPTY_DATASET
+                : API_WARNINGS.NO_RESULTS;
+
+            // Offer corrected searches when the search may be misspelt
+            if (!datasetEmpty) {
+                suggestions = buildSearchSuggestions(
+                    await suggestAddressSearches(normalizedQuery, filters),
+                    url,
+                    { ...filterQuery, ...optionQuery },
+                );
+            }
+        }
+
+        // Build JSON:API pagination metadata (with optional warning and suggestions)
+        const meta = {
+            ...buildPaginationMeta(totalHits, page, size, undefined, warning),
+            ...(suggestions.length > 0 && { suggestions }),
+        };
+
+        // Build the complete JSON:API document, or a GeoJSON feature
+        // collection positioned at each address's indexed geocode
+        const hits = foundAddresses.body.hits.hits as Types.AddressSearchHit[];
+        const jsonApiDocument = geojson
+            ? buildFeatureCollection(
+                  resources.map((resource, index) =>
+                      buildAddressSuggestionFeature(
+                          resource,
+                          hits[index]._source.location,
+                      ),
+                  ),
+                  jsonApiLinks,
+                  meta,
+              )
+            : buildAutocompleteDocument(
+                  resources,
+                  jsonApiLinks,
+                  meta,
+                  included,
+              );
+
+        if (VERBOSE)
+            logger(
+                "jsonApiDocument",
+                JSON.stringify(jsonApiDocument, undefined, 2),
+            );
+
+        // Initialize the Link header for HATEOAS navigation (kept for backwards compatibility)
+        const link = new LinkHeader();
+
+        // Add link to API documentation for this operation
+        link.set({
+            rel: "describedby",
+            uri: `/docs/#operations-${swagger.path.get[
+                "x-swagger-router-controller"
+            ].toLowerCase()}-${swagger.path.get.operationId}`,
+            title: `${swagger.path.get.operationId} API Docs`,
+            type: "text/html",
+        });
+
+        // Build query string for the current request (self link)
+        const sp = new URLSearchParams({
+            ...(normalizedQuery !== "" && { q: normalizedQuery }),
+            ...filterQuery,
+            ...optionQuery,
+            ...(page !== 1 && { "page[number]": String(page) }),
+        });
+        const spString = sp.toString();
+
+        // Add self-referential link for the current page
+        link.set({
+            rel: "self",
+            uri: `${url}${spString === "" ? "" : "?"}${spString}`,
+        });
+
+        // Add link to the first page of results
+        const firstString = new URLSearchParams({
+            ...(normalizedQuery !== "" && { q: normalizedQuery }),
+            ...filterQuery,
+            ...optionQuery,
+        }).toString();
+        link.set({
+            rel: "first",
+            uri: `${url}${firstString === "" ? "" : "?"}${firstString}`,
+        });
+
+        // Add previous page link if not on the first page
+        if (page > 1) {
+            const prevString = new URLSearchParams({
+                ...(normalizedQuery !== "" && { q: normalizedQuery }),
+                ...filterQuery,
+                ...optionQuery,
+                ...(page > 2 && { "page[number]": String(page - 1) }),
+            }).toString();
+            link.set({
+                rel: "prev",
+                uri: `${url}${prevString === "" ? "" : "?"}${prevString}`,
+            });
+        }
+
+        if (VERBOSE) logger("TOTAL", totalHits);
+        if (VERBOSE) logger("PAGE_SIZE * p", size * page);
+
+        // Determine if there are more pages available
+        const hasNextPage = totalHits > size * page;
+        if (VERBOSE) logger("next?", hasNextPage);
+
+        // Add next page link if more results exist
+        if (hasNextPage) {
+            link.set({
+                rel: "next",
+                uri: `${url}?${new URLSearchParams({
+                    ...(normalizedQuery !== "" && { q: normalizedQuery }),
+                    ...filterQuery,
+                    ...optionQuery,
+                    "page[number]": String(page + 1),
+                }).toString()}`,
+            });
+        }
+
+        // Add last page link
+        if (totalPages > 0) {
+            link.set({
+                rel: "last",
+                uri: `${url}?${new URLSearchParams({
+                    ...(normalizedQuery !== "" && { q: normalizedQuery }),
+                    ...filterQuery,
+                    ...optionQuery,
+                    ...(totalPages > 1 && {
+                        "page[number]": String(totalPages),
+                    }),
+                }).toString()}`,
+            });
+        }
+
+        // Construct Link-Template header for API discoverability (RFC 6570)
+        const linkTemplate = new LinkHeader();
+        const op = swagger.path.get;
+        setLinkOptions(op, url, linkTemplate);
+
+        // Return JSON:API document instead of legacy format
+        return {
+            link,
+            json: jsonApiDocument as Record<string, unknown>,
+            linkTemplate,
+        };
+    } catch (error_: unknown) {
+        // Handle invalid search filters, includes or fieldsets (400)
+        if (
+            error_ instanceof AddressFilterError ||
+            error_ instanceof IncludeError ||
+            error_ instanceof SparseFieldsetError
+        ) {
+            return {
+                statusCode: 400,
+                json: ErrorDocuments.badRequest(
+                    error_.message,
+                    error_.parameter,
+                ) as Record<string, unknown>,
+            };
+        }
+
+        // Handle circuit breaker open state (503 - service temporarily unavailable)
+        if (error_ instanceof CircuitOpenError) {
+            error("Circuit breaker open for OpenSearch", error_);
+            const retryAfterSeconds = Math.ceil(error_.retryAfterMs / 1000);
+            return {
+                statusCode: 503,
+                json: ErrorDocuments.serviceUnavailable(
+                    retryAfterSeconds,
+                ) as Record<string, unknown>,
+            };
+        }
+
+        // Cast to OpenSearch error type for proper error handling
+        const osError = error_ as Types.OpensearchError;
+        error("error querying elastic search", osError);
+
+        // Handle index not ready/available (503)
+        if (osError.body?.error?.type === "index_not_found_exception") {
+            return {
+                statusCode: 503,
+                json: ErrorDocuments.serviceUnavailable() as Record<
+                    string,
+                    unknown
+                >,
+            };
+        }
+
+        // Handle OpenSearch request timeout (504)
+        if (osError.displayName === "RequestTimeout") {
+            return {
+                statusCode: 504,
+                json: ErrorDocuments.gatewayTimeout() as Record<
+                    string,
+                    unknown
+                >,
+            };
+        }
+
+        // Fallback for unexpected errors (500)
+        return {
+            statusCode: 500,
+            json: ErrorDocuments.internalError() as Record<string, unknown>,
+        };
+    }
+};
+
+/**
+ * Searches for addresses matching a query string within POSTed filters.
+ *
+ * This is the request-body counterpart of `getAddresses` for filters that do
+ * not fit in a query string, such as a GeoJSON polygon describing a service
+ * area. Results are the same autocomplete suggestions, scored by `q` and
+ * restricted to addresses matching every filter.
+ *
+ * @param {string} [q] - The search query string for address matching.
+ * @param {number} [p=1] - The page number for pagination (1-indexed).
+ * @param {Types.AddressFilterInput} [filter] - Optional `near`, `bbox` and `polygon` filters.
+ * @returns {Promise<Types.SearchAddressesResponse>} A promise resolving to either:
+ *   - Success: `{ json }` containing JSON:API autocomplete results
+ *   - Error: `{ statusCode, json }` with appropriate HTTP status and JSON:API error document
+ */
+const searchAddresses = async (
+    q?: string,
+    p = 1,
+    filter?: Types.AddressFilterInput,
+): Promise<Types.SearchAddressesResponse> => {
+    try {
+        // Validate the optional filters (throws AddressFilterError when invalid)
+        const filters = parseAddressFilters(filter);
+
+        // Normalize inbound search to prevent match-all scans on empty input;
+        // a legal parcel lookup needs no search string
+        const normalizedQuery = normalizeSearchString(q);
+        if (normalizedQuery === "" && filters.legalParcelId === undefined) {
+            return {
+                statusCode: 400,
+                json: ErrorDocuments.badRequest(
+                    "The 'q' field is required and must not be empty.",
+                    "q",
+                ) as Record<string, unknown>,
+            };
+        }
+
+        const {
+            searchResponse: foundAddresses,
+            page,
+            size,
+            totalHits,
+        } = await searchForAddress(normalizedQuery, p, undefined, filters);
+
+        // Determine if a warning should be included in the response
+        let warning: string | undefined;
+        if (totalHits === 0) {
+            const datasetEmpty = await isIndexEmpty();
+            warning = datasetEmpty
+                ? API_WARNINGS.EMPTY_DATASET
+                : API_WARNINGS.NO_RESULTS;
+        }
+
+        // The filters live in the request body, so only a self link is meaningful
+        const jsonApiDocument = buildAutocompleteDocument(
+            mapToJsonApiAutocompleteResponse(foundAddresses, normalizedQuery),
+            { self: "/addresses/search" },
+            buildPaginationMeta(totalHits, page, size, undefined, warning),
+        );
+
+        return { json: jsonApiDocument as Record<string, unknown> };
+    } catch (error_: unknown) {
+        // Handle invalid search filters (400)
+        if (error_ instanceof AddressFilterError) {
+            return {
+                statusCode: 400,
+                json: ErrorDocuments.badRequest(
+                    error_.message,
+                    error_.parameter,
+                ) as Record<string, unknown>,
+            };
+        }
+
+        // Handle circuit breaker open state (503 - service temporarily unavailable)
+        if (error_ instanceof CircuitOpenError) {
+            error("Circuit breaker open for OpenSearch", error_);
+            const retryAfterSeconds = Math.ceil(error_.retryAfterMs / 1000);
+            return {
+                statusCode: 503,
+                json: ErrorDocuments.serviceUnavailable(
+                    retryAfterSeconds,
+                ) as Record<string, unknown>,
+            };
+        }
+
+        // Cast to OpenSearch error type for proper error handling
+        const osError = error_ as Types.OpensearchError;
+        error("error querying elastic search", osError);
+
+        // Handle index not ready/available (503)
+        if (osError.body?.error?.type === "index_not_found_exception") {
+            return {
+                statusCode: 503,
+                json: ErrorDocuments.serviceUnavailable() as Record<
+                    string,
+                    unknown
+                >,
+            };
+        }
+
+        // Handle OpenSearch request timeout (504)
+        if (osError.displayName === "RequestTimeout") {
+            return {
+                statusCode: 504,
+                json: ErrorDocuments.gatewayTimeout() as Record<
+                    string,
+                    unknown
+                >,
+            };
+        }
+
+        // Fallback for unexpected errors (500)
+        return {
+            statusCode: 500,
+            json: ErrorDocuments.internalError() as Record<string, unknown>,
+        };
+    }
+};
+
+/**
+ * An address document returned by `mget`.
+ */
+type CandidateDocument = {
+    _id: string;
+    found: boolean;
+    _source?: Record<string, unknown>;
+};
+
+/**
+ * The best matching candidate for a free-text address.
+ */
+type BestCandidate = {
+    addressId: string;
+    attributes: Types.AddressDetailAttributes;
+    components: Types.AddressValidationVerdicts;
+    score: number;
+};
+
+/**
+ * Compares candidate addresses with a free-text address and picks the one
+ * whose components best agree with it.
+ *
+ * @param normalizedQuery - The normalized free-text address.
+ * @param docs - The candidate documents, in relevance order.
+ * @returns The best candidate, or undefined when none of the documents were found.
+ */
+const pickBestCandidate = (
+    normalizedQuery: string,
+    docs: CandidateDocument[],
+): BestCandidate | undefined => {
+    let best: BestCandidate | undefined;
+    for (const doc of docs) {
+        if (!doc.found || doc._source === undefined) continue;
+        const addressId = extractAddressId(doc._id);
+        const attributes = mapSourceToAddressAttributes(addressId, doc._source);
+        const components = compareAddressComponents(
+            normalizedQuery,
+            attributes,
+        );
+        const score = scoreAddressVerdicts(components);
+
+        // Candidates arrive in relevance order, so ties keep the higher-ranked hit
+        if (best === undefined || score > best.score) {
+            best = { addressId, attributes, components, score };
+        }
+    }
+    return best;
+};
+
+/**
+ * Validates a free-text address against the index.
+ *
+ * The top search candidates for the input are fetched in full and compared
+ * component-by-component (flat, level, number, street, locality, state and
+ * postcode). The candidate with the best verdicts is returned as an address
+ * resource identical to `GET /addresses/{id}`, with the match score and the
+ * per-component verdicts in the document `meta`.
+ *
+ * @param {string} [q] - The free-text address to validate.
+ * @returns {Promise<Types.ValidateAddressResponse>} A promise resolving to either:
+ *   - Success: `{ json }` containing the JSON:API validation document
+ *   - Error: `{ statusCode, json }` with appropriate HTTP status and JSON:API error document
+ */
+const validateAddress = async (
+    q?: string,
+): Promise<Types.ValidateAddressResponse> => {
+    try {
+        // Normalize inbound input to prevent match-all scans on empty input
+        const normalizedQuery = normalizeSearchString(q);
+        if (normalizedQuery === "") {
+            return {
+                statusCode: 400,
+                json: ErrorDocuments.badRequest(
+                    "The 'q' field is required and must not be empty.",
+                    "q",
+                ) as Record<string, unknown>,
+            };
+        }
+
+        // Find the most relevant candidates using the autocomplete query
+        // Validation always uses the standard query, which tolerates typos
+        const { searchResponse } = await searchForAddress(
+            normalizedQuery,
+            1,
+            VALIDATION_CANDIDATES,
+            undefined,
+            undefined,
+            "standard",
+        );
+        const candidateIds = searchResponse.body.hits.hits.map(
+            (h) => (h as Types.AddressSearchHit)._id,
+        );
+
+        // Nothing resembles the input, so there is nothing to compare against
+        if (candidateIds.length === 0) {
+            const datasetEmpty = await isIndexEmpty();
+            return {
+                json: buildAddressValidationDocument(null, {
+                    query: normalizedQuery,
+                    score: 0,
+                    components: {},
+                    warning: datasetEmpty
+                        ? API_WARNINGS.EMPTY_DATASET
+                        : API_WARNINGS.NO_RESULTS,
+                }) as Record<string, unknown>,
+            };
+        }
+
+        // Fetch the full candidate documents in a single round trip
+        const circuit = getOpenSearchCircuit();
+        const candidates = await circuit.execute(async () => {
+            return await (global.esClient as Types.OpensearchClient).mget({
+                index: ES_INDEX_NAME,
+                body: { ids: candidateIds },
+            });
+        });
+
+        // Pick the candidate whose components best agree with the input
+        const best = pickBestCandidate(
+            normalizedQuery,
+            candidates.body.docs as CandidateDocument[],
+        );
+
+        if (VERBOSE) logger("validateAddress best match", best);
+
+        const jsonApiDocument =
+            best === undefined
+                ? buildAddressValidationDocument(null, {
+                      query: normalizedQuery,
+                      score: 0,
+                      components: {},
+                      warning: API_WARNINGS.NO_RESULTS,
+                  })
+                : buildAddressValidationDocument(
+                      buildAddressResource(best.addressId, best.attributes),
+                      {
+                          query: normalizedQuery,
+                          score: best.score,
+                          components: best.components,
+                      },
+                  );
+
+        return { json: jsonApiDocument as Record<string, unknown> };
+    } catch (error_: unknown) {
+        // Handle circuit breaker open state (503 - service temporarily unavailable)
+        if (error_ instanceof CircuitOpenError) {
+            error("Circuit breaker open for OpenSearch", error_);
+            const retryAfterSeconds = Math.ceil(error_.retryAfterMs / 1000);
+            return {
+                statusCode: 503,
+                json: ErrorDocuments.serviceUnavailable(
+                    retryAfterSeconds,
+                ) as Record<string, unknown>,
+            };
+        }
+
+        // Cast to OpenSearch error type for proper error handling
+        const osError = error_ as Types.OpensearchError;
+        error("error validating address in elastic search", osError);
+
+        // Handle index not ready/available (503)
+        if (osError.body?.error?.type === "index_not_found_exception") {
+            return {
+                statusCode: 503,
+                json: ErrorDocuments.serviceUnavailable() as Record<
+                    string,
+                    unknown
+                >,
+            };
+        }
+
+        // Handle OpenSearch request timeout (504)
+        if (osError.displayName === "RequestTimeout") {
+            return {
+                statusCode: 504,
+                json: ErrorDocuments.gatewayTimeout() as Record<
+                    string,
+                    unknown
+                >,
+            };
+        }
+
+        // Fallback for unexpected errors (500)
+        return {
+            statusCode: 500,
+            json: ErrorDocuments.internalError() as Record<string, unknown>,
+        };
+    }
+};
+
+/**
+ * Validates a batch of free-text addresses and address PIDs.
+ *
+ * Free-text items are validated exactly like `validateAddress`, but every
+ * item's candidate search is sent in a single `msearch`, and the candidates
+ * and PID lookups for the whole batch are fetched with a single `mget`. Each
+ * item gets its own result, in request order, and an item that cannot be
+ * resolved carries a JSON:API error instead of failing the whole batch.
+ *
+ * @param items - The batch items, each `{ q }` or `{ pid }`.
+ * @returns Promise resolving to the JSON:API batch document or an error response.
+ */
+const validateAddressBatch = async (
+    items?: unknown,
+): Promise<Types.ValidateAddressBatchResponse> => {
+    try {
+        if (!Array.isArray(items) || items.length === 0) {
+            return {
+                statusCode: 400,
+                json: ErrorDocuments.badRequest(
+                    "The 'items' field is required and must be a non-empty array.",
+                    "items",
+                ) as Record<string, unknown>,
+            };
+        }
+        if (items.length > BATCH_MAX_ITEMS) {
+            return {
+                statusCode: 400,
+                json: ErrorDocuments.badRequest(
+                    `The 'items' field must not contain more than ${BATCH_MAX_ITEMS} addresses.`,
+                    "items",
+                ) as Record<string, unknown>,
+            };
+        }
+
+        // Classify each item as a free-text address, a PID, or invalid
+        const inputs = items.map((item, index) => {
+            const { q, pid } = (
+                typeof item === "object" && item !== null ? item : {}
+            ) as { q?: unknown; pid?: unknown };
+            if (
+                typeof pid === "string" &&
+                pid.trim() !== "" &&
+                q === undefined
+            ) {
+                return { index, input: { pid }, pid: pid.trim().toUpperCase() };
+            }
+            const query = typeof q === "string" ? normalizeSearchString(q) : "";
+            if (query !== "" && pid === undefined) {
+                return { index, input: { q: q as string }, query };
+            }
+            return {
+                index,
+                input: (typeof item === "object" && item !== null
+                    ? item
+                    : {}) as Types.AddressBatchInput,
+                error: buildError(
+                    "400",
+                    "Bad Request",
+                    "Each item must have either a non-empty 'q' or a non-empty 'pid'.",
+                    "INVALID_REQUEST",
+                    { pointer: `/items/${index}` },
+                ),
+            };
+        });
+
+        // Search for every free-text item's candidates in one round trip
+        const circuit = getOpenSearchCircuit();
+        const searches = inputs.filter((input) => input.query !== undefined);
+        let searchResponses: {
+            hits: { hits: Types.AddressSearchHit[] };
+            error?: { type?: string };
+        }[] = [];
+        if (searches.length > 0) {
+            const searchResult = await circuit.execute(async () => {
+                return await (
+                    global.esClient as Types.OpensearchClient
+                ).msearch({
+                    body: searches.flatMap((input) => [
+                        { index: ES_INDEX_NAME },
+                        buildAddressSearchBody(
+                            input.query as string,
+                            0,
+                            VALIDATION_CANDIDATES,
+                            [],
+                        ),
+                    ]),
+                });
+            });
+            searchResponses = searchResult.body.responses;
+        }
+
+        // Map each searched item to its candidate IDs, or to its search error
+        const candidateIds = new Map<number, string[]>();
+        const searchErrors = new Map<number, Types.JsonApiError>();
+        searches.forEach((input, position) => {
+            const response = searchResponses[position];
+            if (response?.error !== undefined) {
+                error("error searching batch item", response.error);
+                searchErrors.set(
+                    input.index,
+                    response.error.type === "index_not_found_exception"
+                        ? ErrorDocuments.serviceUnavailable().errors[0]
+                        : ErrorDocuments.internalError().errors[0],
+                );
+                return;
+            }
+            candidateIds.set(
+                input.index,
+                response.hits.hits.map((hit) => hit._id),
+            );
+        });
+
+        // Fetch every candidate and PID in the batch in one round trip
+        const ids = [
+            ...new Set([
+                ...[...candidateIds.values()].flat(),
+                ...inputs.flatMap((input) =>
+                    input.pid === undefined ? [] : [`/addresses/${input.pid}`],
+                ),
+            ]),
+        ];
+        const documents = new Map<string, CandidateDocument>();
+        if (ids.length > 0) {
+            const fetched = await circuit.execute(async () => {
+                return await (global.esClient as Types.OpensearchClient).mget({
+                    index: ES_INDEX_NAME,
+                    body: { ids },
+                });
+            });
+            for (const doc of fetched.body.docs as CandidateDocument[]) {
+                documents.set(doc._id, doc);
+            }
+        }
+
+        // Build one result per item, including each matched address once
+        const included = new Map<string, Types.AddressDetailResource>();
+        const meta = {
+            total: inputs.length,
+            matched: 0,
+            unmatched: 0,
+            failed: 0,
+        };
+        const results = inputs.map(
+            (input): Types.AddressBatchResultResource => {
+                const result = (
+                    attributes: Omit<
+                        Types.AddressBatchResultAttributes,
+                        "input"
+                    >,
+                    addressId?: string,
+                ): Types.AddressBatchResultResource => ({
+                    type: RESOURCE_TYPES.ADDRESS_BATCH_RESULT,
+                    id: `${input.index}`,
+                    attributes: { input: input.input, ...attributes },
+                    ...(addressId !== undefined && {
+                        relationships: {
+                            address: {
+                                data: {
+                                    type: RESOURCE_TYPES.ADDRESS,
+                                    id: addressId,
+                                },
+                            },
+                        },
+                    }),
+                });
+
+                const itemError = input.error ?? searchErrors.get(input.index);
+                if (itemError !== undefined) {
+                    meta.failed += 1;
+                    return result({ error: itemError });
+                }
+
+                if (input.pid !== undefined) {
+                    const doc = documents.get(`/addresses/${input.pid}`);
+                    if (doc?.found !== true || doc._source === undefined) {
+                        meta.failed += 1;
+                        return result({
+                            error: ErrorDocuments.notFound("address", input.pid)
+                                .errors[0],
+                        });
+                    }
+                    if (doc._source.dateRetired !== undefined) {
+                        meta.failed += 1;
+                        return result({
+                            error: {
+                                ...ErrorDocuments.gone("address", input.pid)
+                                    .errors[0],
+                                meta: { dateRetired: doc._source.dateRetired },
+                            },
+                        });
+                    }
+                    const attributes = mapSourceToAddressAttributes(
+                        input.pid,
+                        doc._source,
+                    );
+                    included.set(
+                        input.pid,
+                        buildAddressResource(input.pid, attributes),
+                    );
+                    meta.matched += 1;
+                    return result({ score: 1 }, input.pid);
+                }
+
+                const best = pickBestCandidate(
+                    input.query as string,
+                    (candidateIds.get(input.index) ?? []).flatMap((id) => {
+                        const doc = documents.get(id);
+                        return doc === undefined ? [] : [doc];
+                    }),
+                );
+                if (best === undefined) {
+                    meta.unmatched += 1;
+                    return result({ score: 0, components: {} });
+                }
+                included.set(
+                    best.addressId,
+                    buildAddressResource(best.addressId, best.attributes),
+                );
+                meta.matched += 1;
+                return result(
+                    { score: best.score, components: best.components },
+                    best.addressId,
+                );
+            },
+        );
+
+        if (VERBOSE) logger("validateAddressBatch", meta);
+
+        return {
+            json: buildAddressBatchDocument(
+                results,
+                [...included.values()],
+                meta,
+            ) as Record<string, unknown>,
+        };
+    } catch (error_: unknown) {
+        // Handle circuit breaker open state (503 - service temporarily unavailable)
+        if (error_ instanceof CircuitOpenError) {
+            error("Circuit breaker open for OpenSearch", error_);
+            const retryAfterSeconds = Math.ceil(error_.retryAfterMs / 1000);
+            return {
+                statusCode: 503,
+                json: ErrorDocuments.serviceUnavailable(
+                    retryAfterSeconds,
+                ) as Record<string, unknown>,
+            };
+        }
+
+        // Cast to OpenSearch error type for proper error handling
+        const osError = error_ as Types.OpensearchError;
+        error("error validating address batch in elastic search", osError);
+
+        // Handle index not ready/available (503)
+        if (osError.body?.error?.type === "index_not_found_exception") {
+            return {
+                statusCode: 503,
+                json: ErrorDocuments.serviceUnavailable() as Record<
+                    string,
+                    unknown
+                >,
+            };
+        }
+
+        // Handle OpenSearch request timeout (504)
+        if (osError.displayName === "RequestTimeout") {
+            return {
+                statusCode: 504,
+                json: ErrorDocuments.gatewayTimeout() as Record<
+                    string,
+                    unknown
+                >,
+            };
+        }
+
+        // Fallback for unexpected errors (500)
+        return {
+            statusCode: 500,
+            json: ErrorDocuments.internalError() as Record<string, unknown>,
+        };
+    }
+};
+
+/**
+ * Finds the addresses nearest to a point.
+ *
+ * Addresses are matched on their default geocode (indexed as a geo point by
+ * the loader when geocoding is enabled) within the given radius, and returned
+ * as address resources identical to `GET /addresses/{id}`, nearest first. Each
+ * resource carries its distance from the point in metres in `meta.distance`.
+ *
+ * @param {number} [lat] - Latitude of the point (-90 to 90).
+ * @param {number} [lon] - Longitude of the point (-180 to 180).
+ * @param {number} [radius] - Search radius in metres (defaults to REVERSE_GEOCODE_RADIUS).
+ * @param {number} [pageSize] - Maximum number of addresses to return.
+ * @param {unknown} [fields] - Optional `fields[address]` sparse fieldset.
+ * @returns {Promise<Types.ReverseGeocodeResponse>} A promise resolving to either:
+ *   - Success: `{ json }` containing the JSON:API reverse geocoding document
+ *   - Error: `{ statusCode, json }` with appropriate HTTP status and JSON:API error document
+ */
+const reverseGeocode = async (
+    lat?: number,
+    lon?: number,
+    radius?: number,
+    pageSize?: number,
+    fields?: unknown,
+): Promise<Types.ReverseGeocodeResponse> => {
+    try {
+        // Reject missing or out-of-range coordinates before querying
+        if (lat === undefined || !Number.isFinite(lat) || Math.abs(lat) > 90) {
+            return {
+                statusCode: 400,
+                json: ErrorDocuments.badRequest(
+                    "The 'lat' query parameter is required and must be a latitude between -90 and 90.",
+                    "lat",
+                ) as Record<string, unknown>,
+            };
+        }
+        if (lon === undefined || !Number.isFinite(lon) || Math.abs(lon) > 180) {
+            return {
+                statusCode: 400,
+                json: ErrorDocuments.badRequest(
+                    "The 'lon' query parameter is required and must be a longitude between -180 and 180.",
+                    "lon",
+                ) as Record<string, unknown>,
+            };
+        }
+        const searchRadius = radius ?? REVERSE_GEOCODE_RADIUS;
+        if (
+            !Number.isFinite(searchRadius) ||
+            searchRadius <= 0 ||
+            searchRadius > REVERSE_GEOCODE_MAX_RADIUS
+        ) {
+            return {
+                statusCode: 400,
+                json: ErrorDocuments.badRequest(
+                    `The 'radius' query parameter must be a distance in metres greater than 0 and at most ${REVERSE_GEOCODE_MAX_RADIUS}.`,
+                    "radius",
+                ) as Record<string, unknown>,
+            };
+        }
+
+        // Validate the optional sparse fieldset (throws SparseFieldsetError when invalid)
+        const sparseFields = parseSparseFieldset(
+            fields,
+            RESOURCE_TYPES.ADDRESS,
+            ADDRESS_FIELD_SOURCES,
+        );
+        const sourceFilter = getSparseSourceFilter(
+            sparseFields,
+            ADDRESS_FIELD_SOURCES,
+        );
+
+        // Only the first page is meaningful: results are the nearest N addresses
+        const { validSize } = validatePaginationParams(1, pageSize);
+        const point = { lat, lon };
+
+        const circuit = getOpenSearchCircuit();
+        const searchResp = await circuit.execute(async () => {
+            return (await (global.esClient as Types.OpensearchClient).search({
+                index: ES_INDEX_NAME,
+                body: {
+                    size: validSize,
+                    ...(sourceFilter !== undefined && {
+                        _source: sourceFilter,
+                    }),
+                    query: {
+                        bool: {
+                            filter: {
+                                geo_distance: {
+                                    distance: `${searchRadius}m`,
+                                    location: point,
+                                },
+                            },
+                        },
+                    },
+                    sort: [
+                        {
+                            _geo_distance: {
+                                location: point,
+                                order: "asc",
+                                unit: "m",
+                                distance_type: "arc",
+                            },
+                        },
+                    ],
+                },
+            })) as Types.OpensearchApiResponse<
+                Types.OpensearchSearchResponse<unknown>,
+                unknown
+            >;
+        });
+
+        const rawTotal = searchResp.body.hits.total;
+        const totalHits =
+            (typeof rawTotal === "number" ? rawTotal : rawTotal.value) ?? 0;
+
+        // Build address resources with the distance from the point
+        const resources = searchResp.body.hits.hits.map((h) => {
+            const hit = h as Types.AddressSearchHit;
+            const addressId = extractAddressId(hit._id);
+            const resource = applySparseFieldset(
+                buildAddressResource(
+                    addressId,
+                    mapSourceToAddressAttributes(addressId, hit._source ?? {}),
+                ),
+                sparseFields,
+            );
+            const distance = hit.sort?.[0];
+            return {
+                ...resource,
+                ...(distance !== undefined && {
+                    meta: { distance: Math.round(distance * 10) / 10 },
+                }),
+            };
+        });
+
+        // Explain empty results: no data at all, or nothing geocoded nearby
+        let warning: string | undefined;
+        if (totalHits === 0) {
+            const datasetEmpty = await isIndexEmpty();
+            warning = datasetEmpty
+                ? API_WARNINGS.EMPTY_DATASET
+                : API_WARNINGS.NO_NEARBY_RESULTS;
+        }
+
+        const sp = new URLSearchParams({
+            lat: String(lat),
+            lon: String(lon),
+            radius: String(searchRadius),
+            ...(pageSize !== undefined && { "page[size]": String(validSize) }),
+            ...getSparseFieldsetParams(RESOURCE_TYPES.ADDRESS, sparseFields),
+        });
+
+        const jsonApiDocument = buildReverseGeocodeDocument(
+            resources,
+            { self: `/addresses/reverse?${sp.toString()}` },
+            {
+                total: totalHits,
+                pageSize: validSize,
+                latitude: lat,
+                longitude: lon,
+                radius: searchRadius,
+                ...(warning !== undefined && { warning }),
+            },
+        );
+
+        return { json: jsonApiDocument as Record<string, unknown> };
+    } catch (error_: unknown) {
+        // Handle an invalid sparse fieldset (400)
+        if (error_ instanceof SparseFieldsetError) {
+            return {
+                statusCode: 400,
+                json: ErrorDocuments.badRequest(
+                    error_.message,
+                    error_.parameter,
+                ) as Record<string, unknown>,
+            };
+        }
+
+        // Handle circuit breaker open state (503 - service temporarily unavailable)
+        if (error_ instanceof CircuitOpenError) {
+            error("Circuit breaker open for OpenSearch", error_);
+            const retryAfterSeconds = Math.ceil(error_.retryAfterMs / 1000);
+            return {
+                statusCode: 503,
+                json: ErrorDocuments.serviceUnavailable(
+                    retryAfterSeconds,
+                ) as Record<string, unknown>,
+            };
+        }
+
+        // Cast to OpenSearch error type for proper error handling
+        const osError = error_ as Types.OpensearchError;
+        error("error reverse geocoding in elastic search", osError);
+
+        // Handle index not ready/available (503)
+        if (osError.body?.error?.type === "index_not_found_exception") {
+            return {
+                statusCode: 503,
+                json: ErrorDocuments.serviceUnavailable() as Record<
+                    string,
+                    unknown
+                >,
+            };
+        }
+
+        // Handle OpenSearch request timeout (504)
+        if (osError.displayName === "RequestTimeout") {
+            return {
+                statusCode: 504,
+                json: ErrorDocuments.gatewayTimeout() as Record<
+                    string,
+                    unknown
+                >,
+            };
+        }
+
+        // Fallback for unexpected errors (500)
+        return {
+            statusCode: 500,
+            json: ErrorDocuments.internalError() as Record<string, unknown>,
+        };
+    }
+};
+
+/**
+ * Authority code tables read from the address index mapping metadata.
+ * Populated on first use by `getAuthorityCodes()`.
+ */
+let authorityCodes: Partial<PropertyCodeToNameContext> | undefined;
+
+/**
+ * Retrieves the G-NAF authority code tables the loader stored in the address
+ * index mapping (`_meta.authorityCodes`). The tables are cached once found;
+ * when the index predates them, the lookup is retried on the next call.
+ *
+ * @returns A promise resolving to the authority code tables, or undefined when absent.
+ * @throws {CircuitOpenError} If OpenSearch circuit is open due to repeated failures.
+ */
+const getAuthorityCodes = async (): Promise<
+    Partial<PropertyCodeToNameContext> | undefined
+> => {
+    if (authorityCodes !== undefined) return authorityCodes;
+
+    const circuit = getOpenSearchCircuit();
+    const mappingResponse = await circuit.execute(async () => {
+        return await (
+            global.esClient as Types.OpensearchClient
+        ).indices.getMapping({
+            index: ES_INDEX_NAME,
+        });
+    });
+
+    // The response is keyed by the concrete index name
+    const [indexMapping] = Object.values(
+        mappingResponse.body as Record<
+            string,
+            {
+                mappings?: {
+                    _meta?: {
+                        authorityCodes?: Partial<PropertyCodeToNameContext>;
+                    };
+                };
+            }
+        >,
+    );
+    authorityCodes = indexMapping?.mappings?._meta?.authorityCodes;
+    return authorityCodes;
+};
+
+/**
+ * Parses a free-text address into its components.
+ *
+ * The input is split into flat, level, lot, number, street, locality, state
+ * and postcode using the G-NAF authority code tables stored by the loader.
+ * No address search is performed: the result describes the input, not a
+ * matching G-NAF record. When the tables are unavailable, the address is
+ * still parsed (without flat, level and street type recognition) and a
+ * warning is included in the document `meta`.
+ *
+ * @param {string} [q] - The free-text address to parse.
+ * @returns {Promise<Types.GetParsedAddressResponse>} A promise resolving to either:
+ *   - Success: `{ json }` containing the JSON:API parsed address document
+ *   - Error: `{ statusCode, json }` with appropriate HTTP status and JSON:API error document
+ */
+const getParsedAddress = async (
+    q?: string,
+): Promise<Types.GetParsedAddressResponse> => {
+    try {
+        const normalizedQuery = normalizeSearchString(q);
+        if (normalizedQuery === "") {
+            return {
+                statusCode: 400,
+                json: ErrorDocuments.badRequest(
+                    "The 'q' parameter is required and must not be empty.",
+                    "q",
+                ) as Record<string, unknown>,
+            };
+        }
+
+        const tables = await getAuthorityCodes();
+        const structured = parseAddress(normalizedQuery, tables ?? {});
+        if (VERBOSE) logger("getParsedAddress", normalizedQuery, structured);
+
+        // Derive a stable identifier so identical inputs share a resource id
+        const id = crypto
+            .createHash("sha1")
+            .update(normalizedQuery.toUpperCase())
+            .digest("hex");
+
+        const jsonApiDocument = buildParsedAddressDocument(
+            id,
+            { input: normalizedQuery, structured },
+            tables === undefined
+                ? API_WARNINGS.AUTHORITY_CODES_UNAVAILABLE
+                : undefined,
+        );
+
+        return { json: jsonApiDocument as Record<string, unknown> };
+    } catch (error_: unknown) {
+        // Handle circuit breaker open state (503 - service temporarily unavailable)
+        if (error_ instanceof CircuitOpenError) {
+            error("Circuit breaker open for OpenSearch", error_);
+            const retryAfterSeconds = Math.ceil(error_.retryAfterMs / 1000);
+            return {
+                statusCode: 503,
+                json: ErrorDocuments.serviceUnavailable(
+                    retryAfterSeconds,
+                ) as Record<string, unknown>,
+            };
+        }
+
+        // Cast to OpenSearch error type for proper error handling
+        const osError = error_ as Types.OpensearchError;
+        error("error reading authority codes from elastic search", osError);
+
+        // Handle index not ready/available (503)
+        if (osError.body?.error?.type === "index_not_found_exception") {
+            return {
+                statusCode: 503,
+                json: ErrorDocuments.serviceUnavailable() as Record<
+                    string,
+                    unknown
+                >,
+            };
+        }
+
+        // Handle OpenSearch request timeout (504)
+        if (osError.displayName === "RequestTimeout") {
+            return {
+                statusCode: 504,
+                json: ErrorDocuments.gatewayTimeout() as Record<
+                    string,
+                    unknown
+                >,
+            };
+        }
+
+        // Fallback for unexpected errors (500)
+        return {
+            statusCode: 500,
+            json: ErrorDocuments.internalError() as Record<string, unknown>,
+        };
+    }
+};
+
+/**
+ * Transforms raw OpenSearch search hits into JSON:API autocomplete resources.
+ *
+ * This function maps the internal OpenSearch document structure to JSON:API
+ * resource objects optimized for autocomplete, containing only the essential
+ * display text (SLA), relevance rank, and self-link, plus the locality alias
+ * the search matched through when it did not match the official name, and a
+ * link to the units of buildings when results are grouped by building.
+ *
+ * @param {Types.OpensearchApiResponse<Types.OpensearchSearchResponse<unknown>, unknown>} foundAddresses -
+ *   The raw OpenSearch search response containing hits.
+ * @param {string} search - The normalized search string the hits were found for.
+ * @returns {Types.JsonApiResource<Types.AddressAutocompleteAttributes>[]} Array of JSON:API resources.
+ */
+const mapToJsonApiAutocompleteResponse = (
+    foundAddresses: Types.OpensearchApiResponse<
+        Types.OpensearchSearchResponse<unknown>,
+        unknown
+    >,
+    search: string,
+): Types.JsonApiResource<Types.AddressAutocompleteAttributes>[] => {
+    // Get the maximum score for normalization (first result typically has highest score)
+    const maxScore = foundAddresses.body.hits.hits[0]
+        ? (foundAddresses.body.hits.hits[0] as Types.AddressSearchHit)._score
+        : 1;
+
+    // Map each hit to a JSON:API resource, normalizing scores to 0-1 range
+    return foundAddresses.body.hits.hits.map((h) => {
+        // Cast hit to the expected structure for type-safe access
+        const hit = h as Types.AddressSearchHit;
+
+        // Extract the address ID from the document path (remove /addresses/ prefix)
+        const addressId = extractAddressId(hit._id);
+
+        // Normalize score to 0-1 range relative to the best match
+        const normalizedRank = maxScore > 0 ? hit._score / maxScore : 0;
+
+        // Build and return the JSON:API autocomplete resource
+        return buildAutocompleteResource(
+            addressId,
+            hit._source.sla,
+            normalizedRank,
+            hit._source.ssla,
+            getMatchedAlias(
+                search,
+                hit._source.localityAliases,
+                hit.matched_queries,
+            ),
+            hit._source.secondaryCount,
+            hit._source.localityPid,
+            getAddressHighlights(hit.highlight),
+            isMatchedByRange(hit.matched_queries),
+        );
+    });
+};
+
+/**
+ * Transforms raw OpenSearch search hits into the legacy API response format.
+ *
+ * @deprecated Use mapToJsonApiAutocompleteResponse for JSON:API compliant responses.
+ * This function is retained for backwards compatibility during the transition period.
+ *
+ * @param {Types.OpensearchApiResponse<Types.OpensearchSearchResponse<unknown>, unknown>} foundAddresses -
+ *   The raw OpenSearch search response containing hits.
+ * @returns {Types.AddressSearchResult[]} An array of address results formatted for the legacy API.
+ */
+const mapToSearchAddressResponse = (
+    foundAddresses: Types.OpensearchApiResponse<
+        Types.OpensearchSearchResponse<unknown>,
+        unknown
+    >,
+): Types.AddressSearchResult[] => {
+    // Map each hit to the API response format, extracting relevant fields
+    return foundAddresses.body.hits.hits.map((h) => {
+        // Cast hit to the expected structure for type-safe access
+        const hit = h as Types.AddressSearchHit;
+        return {
+            sla: hit._source.sla,
+            score: hit._score,
+            links: {
+                self: {
+                    href: hit._id,
+                },
+            },
+        };
+    });
+};
+
+// ============================================================================
+// Locality Service Functions
+// ============================================================================
+
+/**
+ * Locality search hit structure from OpenSearch.
+ */
+type LocalitySearchHit = {
+    _id: string;
+    _score: number;
+    _source: {
+        display: string;
+        name: string;
+        localityPid: string;
+        stateAbbreviation?: string;
+        stateName?: string;
+        postcode?: string;
+        postcodes?: string[];
+        classCode?: string;
+        className?: string;
+        aliases?: string[];
+        location?: { lat: number; lon: number };
+    };
+    matched_queries?: string[];
+};
+
+/**
+ * Checks if the locality index is empty (contains no documents).
+ *
+ * @returns A promise resolving to true if the index is empty or doesn't exist, false otherwise.
+ */
+const isLocalityIndexEmpty = async (): Promise<boolean> => {
+    try {
+        const circuit = getOpenSearchCircuit();
+        const countResponse = await circuit.execute(async () => {
+            return await (global.esClient as Types.OpensearchClient).count({
+                index: ES_LOCALITY_INDEX_NAME,
+            });
+        });
+        return countResponse.body.count === 0;
+    } catch {
+        // If we can't determine the count (index not found, etc.), assume empty
+        return true;
+    }
+};
+
+/**
+ * Suggests corrected locality searches ("did you mean") for a search that
+ * matched nothing. Corrections are drawn from the words of the locality
+ * display names (name, state and postcode), and are only suggested when they
+ * find a locality. Failures are logged and give no suggestions.
+ *
+ * @param search - The search string.
+ * @returns The corrected search strings, best first.
+ */
+const suggestLocalitySearches = async (search: string): Promise<string[]> => {
+    if (search.trim() === "" || MAX_SEARCH_SUGGESTIONS <= 0) return [];
+
+    try {
+        const circuit = getOpenSearchCircuit();
+        const suggestResp = await circuit.execute(async () => {
+            return await (global.esClient as Types.OpensearchClient).search({
+                index: ES_LOCALITY_INDEX_NAME,
+                body: {
+                    size: 0,
+                    suggest: buildSearchSuggestRequest(
+                        search,
+                        "display",
+                        {
+                            multi_match: {
+                                fields: ["display", "name"],
+                                query: "{{suggestion}}",
+                                type: "bool_prefix",
+                                operator: "AND",
+                            },
+                        },
+                        MAX_SEARCH_SUGGESTIONS,
+                    ),
+                },
+            });
+        });
+        return getSuggestedSearches(suggestResp.body.suggest);
+    } catch (err) {
+        error("error suggesting locality searches", err);
+        return [];
+    }
+};
+
+/**
+ * Searches for localities matching a query string.
+ *
+ * Localities are also matched through their aliases, with lower boosts so an
+ * official name ranks first.
+ *
+ * @param searchString - The search string to match against localities.
+ * @param p - The page number (1-indexed).
+ * @param pageSize - The page size.
+ * @param source - Optional `_source` filter for a sparse fieldset, replacing the default fields.
+ * @returns A promise resolving to the OpenSearch search response with pagination metadata.
+ */
+const searchForLocality = async (
+    searchString: string,
+    p: number | undefined,
+    pageSize: number | undefined = PAGE_SIZE,
+    source?: string[] | false,
+): Promise<Types.SearchForAddressResult> => {
+    // Normalize the inbound search string
+    const normalizedSearch = (searchString ?? "").trim().replace(/\s+/g, " ");
+
+    // Reject empty searches
+    if (normalizedSearch === "") {
+        throw new Error("Search query must not be empty after normalization");
+    }
+
+    // Validate pagination parameters
+    const safePage = Number.isFinite(p) ? (p as number) : 1;
+    const safeSize = Number.isFinite(pageSize)
+        ? (pageSize as number)
+        : PAGE_SIZE;
+    const validPage = Math.max(1, Math.min(safePage, MAX_PAGE_NUMBER));
+    const validSize = Math.max(1, Math.min(safeSize, MAX_PAGE_SIZE));
+
+    // Calculate the offset for OpenSearch
+    const from = (validPage - 1) * validSize;
+
+    // Execute search with circuit breaker protection
+    const circuit = getOpenSearchCircuit();
+
+    const searchResp = await circuit.execute(async () => {
+        return (await (global.esClient as Types.OpensearchClient).search({
+            index: ES_LOCALITY_INDEX_NAME,
+            body: {
+                from,
+                size: validSize,
+                _source: source ?? [
+                    "display",
+                    "name",
+                    "localityPid",
+                    "stateAbbreviation",
+                    "stateName",
+                    "postcode",
+                    "postcodes",
+                    "classCode",
+                    "className",
+                    "aliases",
+                ],
+                query: {
+                    bool: {
+                        should: [
+                            // Highest boost: Display starts with the search query (exact prefix match)
+                            {
+                                prefix: {
+                                    "display.raw": {
+                                        value: normalizedSearch.toUpperCase(),
+                                        boost: 100,
+                                        _name: OFFICIAL_NAME_QUERY,
+                                    },
+                                },
+                            },
+                            // High boost: Locality name starts with search query
+                            {
+                                prefix: {
+                                    "name.raw": {
+                                        value: normalizedSearch.toUpperCase(),
+                                        boost: 80,
+                                        _name: OFFICIAL_NAME_QUERY,
+                                    },
+                                },
+                            },
+                            // Medium boost: Postcode match
+                            {
+                                term: {
+                                    postcode: {
+                                        value: normalizedSearch,
+                                        boost: 60,
+                                        _name: OFFICIAL_NAME_QUERY,
+                                    },
+                                },
+                            },
+                            // Medium boost: Match on any of the postcodes
+                            {
+                                term: {
+                                    postcodes: {
+                                        value: normalizedSearch,
+                                        boost: 50,
+                                        _name: OFFICIAL_NAME_QUERY,
+                                    },
+                                },
+                            },
+                            // Phrase prefix match on display
+                            {
+                                match_phrase_prefix: {
+                                    display: {
+                                        query: normalizedSearch,
+                                        boost: 40,
+                                        _name: OFFICIAL_NAME_QUERY,
+                                    },
+                                },
+                            },
+                            // Phrase prefix match on name
+                            {
+                                match_phrase_prefix: {
+                                    name: {
+                                        query: normalizedSearch,
+                                        boost: 30,
+                                        _name: OFFICIAL_NAME_QUERY,
+                                    },
+                                },
+                            },
+                            // Fuzzy match for typo tolerance
+                            {
+                                multi_match: {
+                                    fields: ["display", "name"],
+                                    query: normalizedSearch,
+                                    fuzziness: "AUTO",
+                                    type: "bool_prefix",
+                                    lenient: true,
+                                    operator: "AND",
+                                    _name: OFFICIAL_NAME_QUERY,
+                                },
+                            },
+                            // Alias boost: An alternative name starts with the search query
+                            {
+                                prefix: {
+                                    "aliases.raw": {
+                                        value: normalizedSearch.toUpperCase(),
+                                        boost: 70,
+                                        _name: LOCALITY_ALIAS_QUERY,
+                                    },
+                                },
+                            },
+                            // Phrase prefix match on aliases
+                            {
+                                match_phrase_prefix: {
+                                    aliases: {
+                                        query: normalizedSearch,
+                                        boost: 20,
+                                        _name: LOCALITY_ALIAS_QUERY,
+                                    },
+                                },
+                            },
+                            // Fuzzy match on aliases, scored below the official fuzzy match
+                            {
+                                match: {
+                                    aliases: {
+                                        query: normalizedSearch,
+                                        fuzziness: "AUTO",
+                                        operator: "AND",
+                                        boost: 0.5,
+                                        _name: LOCALITY_ALIAS_QUERY,
+                                    },
+                                },
+                            },
+                        ],
+                    },
+                },
+                sort: ["_score", { "name.raw": { order: "asc" } }],
+            },
+        })) as Types.OpensearchApiResponse<
+            Types.OpensearchSearchResponse<unknown>,
+            unknown
+        >;
+    });
+
+    // Extract the total hit count
+    const rawTotal = searchResp.body.hits.total;
+    const totalHits = typeof rawTotal === "number" ? rawTotal : rawTotal.value;
+
+    return {
+        searchResponse: searchResp,
+        page: validPage,
+        size: validSize,
+        totalHits: totalHits ?? 0,
+    };
+};
+
+/**
+ * Retrieves detailed information about a specific locality by its ID.
+ *
+ * @param localityId - The unique identifier for the locality (G-NAF Locality PID).
+ * @param fields - Optional `fields[locality]` sparse fieldset.
+ * @param format - Representation to return; `geojson` returns a GeoJSON Feature.
+ * @returns A promise resolving to the locality response.
+ */
+const getLocality = async (
+    localityId: string,
+    fields?: unknown,
+    format: Types.ResponseFormat = "jsonapi",
+): Promise<Types.GetAddressResponse> => {
+    try {
+        // Validate the optional sparse fieldset (throws SparseFieldsetError when invalid)
+        const sparseFields = parseSparseFieldset(
+            fields,
+            RESOURCE_TYPES.LOCALITY,
+            LOCALITY_FIELD_SOURCES,
+        );
+        // A GeoJSON geometry needs the centroid whatever fields are requested
+        const geojson = format === "geojson";
+        const sourceIncludes =
+            sparseFields === undefined
+                ? undefined
+                : getSparseSourceIncludes(
+                      sparseFields,
+                      LOCALITY_FIELD_SOURCES,
+                      geojson ? LOCALITY_FIELD_SOURCES.centroid : [],
+                  );
+
+        // Get the circuit breaker for OpenSearch operations
+        const circuit = getOpenSearchCircuit();
+
+        // Query OpenSearch for the locality document
+        const jsonX = await circuit.execute(async () => {
+            return await (global.esClient as Types.OpensearchClient).get({
+                index: ES_LOCALITY_INDEX_NAME,
+                id: `/localities/${localityId}`,
+                ...(sourceIncludes !== undefined &&
+                    sourceIncludes.length > 0 && {
+                        _source_includes: sourceIncludes,
+                    }),
+            });
+        });
+
+        if (VERBOSE) logger("locality jsonX", jsonX);
+
+        // Extract the source data from OpenSearch response
+        const source = jsonX.body._source as LocalitySearchHit["_source"];
+
+        // Build the JSON:API locality detail attributes
+        const attributes = mapSourceToLocalityAttributes(source);
+
+        // Build the JSON:API resource and document
+        const resource = applySparseFieldset(
+            buildLocalityResource(localityId, attributes),
+            sparseFields,
+        );
+        const jsonApiDocument = geojson
+            ? buildLocalityFeature(resource, attributes.centroid)
+            : buildLocalityDetailDocument(resource);
+
+        // Construct HATEOAS self-link for the locality resource
+        const link = new LinkHeader();
+        link.set({
+            rel: "self",
+            uri: `/localities/${localityId}`,
+        });
+
+        // Compute hash for ETag
+        const hash = crypto
+            .createHash("md5")
+            .update(JSON.stringify(jsonApiDocument))
+            .digest("hex");
+
+        return { link, json: jsonApiDocument as Record<string, unknown>, hash };
+    } catch (error_: unknown) {
+        // Handle an invalid sparse fieldset (400)
+        if (error_ instanceof SparseFieldsetError) {
+            return {
+                statusCode: 400,
+                json: ErrorDocuments.badRequest(
+                    error_.message,
+                    error_.parameter,
+                ) as Record<string, unknown>,
+            };
+        }
+
+        // Handle circuit breaker open state
+        if (error_ instanceof CircuitOpenError) {
+            error("Circuit breaker open for OpenSearch", error_);
+            const retryAfterSeconds = Math.ceil(error_.retryAfterMs / 1000);
+            return {
+                statusCode: 503,
+                json: ErrorDocuments.serviceUnavailable(
+                    retryAfterSeconds,
+                ) as Record<string, unknown>,
+            };
+        }
+
+        // Cast to OpenSearch error type
+        const osError = error_ as Types.OpensearchError;
+        error("error getting locality from elastic search", osError);
+
+        // Handle document not found
+        if (osError.body?.found === false) {
+            return {
+                statusCode: 404,
+                json: ErrorDocuments.notFound("locality", localityId) as Record<
+                    string,
+                    unknown
+                >,
+            };
+        }
+
+        // Handle index not ready/available
+        if (osError.body?.error?.type === "index_not_found_exception") {
+            return {
+                statusCode: 503,
+                json: ErrorDocuments.serviceUnavailable() as Record<
+                    string,
+                    unknown
+                >,
+            };
+        }
+
+        // Fallback for unexpected errors
+        return {
+            statusCode: 500,
+            json: ErrorDocuments.internalError() as Record<string, unknown>,
+        };
+    }
+};
+
+/**
+ * Searches for localities matching a query string with pagination support.
+ *
+ * @param url - The base URL for the localities endpoint.
+ * @param swagger - Swagger/OpenAPI context for API documentation linkage.
+ * @param q - The search query string for locality matching.
+ * @param p - The page number for pagination (1-indexed).
+ * @param fields - Optional `fields[locality]` sparse fieldset for the suggestions.
+ * @returns A promise resolving to the localities response.
+ */
+const getLocalities = async (
+    url: string,
+    swagger: Types.SwaggerContext,
+    q?: string,
+    p = 1,
+    fields?: unknown,
+): Promise<Types.GetAddressesResponse> => {
+    try {
+        // Validate the optional sparse fieldset (throws SparseFieldsetError when invalid)
+        const sparseFields = parseSparseFieldset(
+            fields,
+            RESOURCE_TYPES.LOCALITY,
+            LOCALITY_SUGGESTION_FIELD_SOURCES,
+        );
+        const sourceFilter = getSparseSourceFilter(
+            sparseFields,
+            LOCALITY_SUGGESTION_FIELD_SOURCES,
+        );
+
+        // The fieldset is carried into every pagination link
+        const optionQuery = getSparseFieldsetParams(
+            RESOURCE_TYPES.LOCALITY,
+            sparseFields,
+        );
+
+        // Normalize inbound search
+        const normalizedQuery = (q ?? "").trim().replace(/\s+/g, " ");
+        if (normalizedQuery === "") {
+            return {
+                statusCode: 400,
+                json: ErrorDocuments.badRequest(
+                    "The 'q' query parameter is required and must not be empty.",
+                    "q",
+                ) as Record<string, unknown>,
+            };
+        }
+
+        // Execute the locality search query
+        const {
+            searchResponse: foundLocalities,
+            page,
+            size,
+            totalHits,
+        } = await searchForLocality(
+            normalizedQuery,
+            p,
+            undefined,
+            sourceFilter,
+        );
+
+        if (VERBOSE) logger("foundLocalities", foundLocalities);
+
+        // Calculate pagination values
+        const totalPages = Math.ceil(totalHits / size);
+
+        // Build JSON:API autocomplete resources from search hits
+        const maxScore = foundLocalities.body.hits.hits[0]
+            ? (foundLocalities.body.hits.hits[0] as LocalitySearchHit)._score
+            : 1;
+
+        const resources = foundLocalities.body.hits.hits.map((h) => {
+            const hit = h as LocalitySearchHit;
+            const localityId = extractLocalityId(hit._id);
+            const normalizedRank = maxScore > 0 ? hit._score / maxScore : 0;
+            return applySparseFieldset(
+                buildLocalityAutocompleteResource(
+                    localityId,
+                    hit._source.display,
+                    normalizedRank,
+                    getMatchedAlias(
+                        normalizedQuery,
+                        hit._source.aliases,
+                        hit.matched_queries,
+                    ),
+                ),
+                sparseFields,
+            );
+        });
+
+        // Build JSON:API pagination links
+        const jsonApiLinks = buildPaginationLinks(
+            url,
+            normalizedQuery,
+            page,
+            totalPages,
+            undefined,
+            undefined,
+            optionQuery,
+        );
+
+        // Add API documentation link
+        jsonApiLinks.describedby = {
+            href: `/docs/#operations-${swagger.path.get[
+                "x-swagger-router-controller"
+            ].toLowerCase()}-${swagger.path.get.operationId}`,
+            title: `${swagger.path.get.operationId} API Docs`,
+            type: "text/html",
+        };
+
+        // Determine if a warning should be included
+        let warning: string | undefined;
+        let suggestions: Types.SearchSuggestion[] = [];
+        if (totalHits === 0) {
+            const datasetEmpty = await isLocalityIndexEmpty();
+            warning = datasetEmpty
+                ? API_WARNINGS.EMPTY_LOCALITY_DATASET
+                : API_WARNINGS.NO_LOCALITY_RESULTS;
+
+            // Offer corrected searches when the search may be misspelt
+            if (!datasetEmpty) {
+                suggestions = buildSearchSuggestions(
+                    await suggestLocalitySearches(normalizedQuery),
+                    url,
+                    optionQuery,
+                );
+            }
+        }
+
+        // Build JSON:API pagination metadata (with optional warning and suggestions)
+        const meta = {
+            ...buildPaginationMeta(totalHits, page, size, undefined, warning),
+            ...(suggestions.length > 0 && { suggestions }),
+        };
+
+        // Build the complete JSON:API document
+        const jsonApiDocument = buildLocalityAutocompleteDocument(
+            resources,
+            jsonApiLinks,
+            meta,
+        );
+
+        // Initialize the Link header for HATEOAS navigation
+        const link = new LinkHeader();
+
+        // Add link to API documentation
+        link.set({
+            rel: "describedby",
+            uri: `/docs/#operations-${swagger.path.get[
+                "x-swagger-router-controller"
+            ].toLowerCase()}-${swagger.path.get.operationId}`,
+            title: `${swagger.path.get.operationId} API Docs`,
+            type: "text/html",
+        });
+
+        // Build query string for the current request
+        const sp = new URLSearchParams({
+            ...(normalizedQuery !== "" && { q: normalizedQuery }),
+            ...optionQuery,
+            ...(page !== 1 && { "page[number]": String(page) }),
+        });
+        const spString = sp.toString();
+
+        // Add self-referential link
+        link.set({
+            rel: "self",
+            uri: `${url}${spString === "" ? "" : "?"}${spString}`,
+        });
+
+        // Add link to the first page
+        link.set({
+            rel: "first",
+            uri: `${url}${normalizedQuery === "" ? "" : "?"}${new URLSearchParams(
+                {
+                    ...(normalizedQuery !== "" && { q: normalizedQuery }),
+                    ...optionQuery,
+                },
+            ).toString()}`,
+        });
+
+        // Add previous page link if not on first page
+        if (page > 1) {
+            link.set({
+                rel: "prev",
+                uri: `${url}${
+                    normalizedQuery === "" && page === 2 ? "" : "?"
+                }${new URLSearchParams({
+                    ...(normalizedQuery !== "" && { q: normalizedQuery }),
+                    ...optionQuery,
+                    ...(page > 2 && { "page[number]": String(page - 1) }),
+                }).toString()}`,
+            });
+        }
+
+        // Determine if there are more pages available
+        const hasNextPage = totalHits > size * page;
+
+        // Add next page link if more results exist
+        if (hasNextPage) {
+            link.set({
+                rel: "next",
+                uri: `${url}?${new URLSearchParams({
+                    ...(normalizedQuery !== "" && { q: normalizedQuery }),
+                    ...optionQuery,
+                    "page[number]": String(page + 1),
+                }).toString()}`,
+            });
+        }
+
+        // Add last page link
+        if (totalPages > 0) {
+            link.set({
+                rel: "last",
+                uri: `${url}?${new URLSearchParams({
+                    ...(normalizedQuery !== "" && { q: normalizedQuery }),
+                    ...optionQuery,
+                    ...(totalPages > 1 && {
+                        "page[number]": String(totalPages),
+                    }),
+                }).toString()}`,
+            });
+        }
+
+        // Construct Link-Template header
+        const linkTemplate = new LinkHeader();
+        const op = swagger.path.get;
+        setLinkOptions(op, url, linkTemplate);
+
+        return {
+            link,
+            json: jsonApiDocument as Record<string, unknown>,
+            linkTemplate,
+        };
+    } catch (error_: unknown) {
+        // Handle an invalid sparse fieldset (400)
+        if (error_ instanceof SparseFieldsetError) {
+            return {
+                statusCode: 400,
+                json: ErrorDocuments.badRequest(
+                    error_.message,
+                    error_.parameter,
+                ) as Record<string, unknown>,
+            };
+        }
+
+        // Handle circuit breaker open state
+        if (error_ instanceof CircuitOpenError) {
+            error("Circuit breaker open for OpenSearch", error_);
+            const retryAfterSeconds = Math.ceil(error_.retryAfterMs / 1000);
+            return {
+                statusCode: 503,
+                json: ErrorDocuments.serviceUnavailable(
+                    retryAfterSeconds,
+                ) as Record<string, unknown>,
+            };
+        }
+
+        // Cast to OpenSearch error type
+        const osError = error_ as Types.OpensearchError;
+        error("error querying localities in elastic search", osError);
+
+        // Handle index not ready/available
+        if (osError.body?.error?.type === "index_not_found_exception") {
+            return {
+                statusCode: 503,
+                json: ErrorDocuments.serviceUnavailable() as Record<
+                    string,
+                    unknown
+                >,
+            };
+        }
+
+        // Handle OpenSearch request timeout
+        if (osError.displayName === "RequestTimeout") {
+            return {
+                statusCode: 504,
+                json: ErrorDocuments.gatewayTimeout() as Record<
+                    string,
+                    unknown
+                >,
+            };
+        }
+
+        // Fallback for unexpected errors
+        return {
+            statusCode: 500,
+            json: ErrorDocuments.internalError() as Record<string, unknown>,
+        };
+    }
+};
+
+// ============================================================================
+// Street Service Functions
+// ============================================================================
+
+/**
+ * Street search hit structure from OpenSearch.
+ */
+type StreetSearchHit = {
+    _id: string;
+    _score: number;
+    _source: {
+        display: string;
+        name: string;
+        streetLocalityPid: string;
+        streetName?: string;
+        typeCode?: string;
+        typeName?: string;
+        suffixCode?: string;
+        suffixName?: string;
+        classCode?: string;
+        className?: string;
+        localityPid?: string;
+        localityName?: string;
+        stateAbbreviation?: string;
+        stateName?: string;
+        postcode?: string;
+        postcodes?: string[];
+        addressCount?: number;
+    };
+};
+
+/**
+ * Checks if the street index is empty (contains no documents).
+ *
+ * @returns A promise resolving to true if the index is empty or doesn't exist, false otherwise.
+ */
+const isStreetIndexEmpty = async (): Promise<boolean> => {
+    try {
+        const circuit = getOpenSearchCircuit();
+        const countResponse = await circuit.execute(async () => {
+            return await (global.esClient as Types.OpensearchClient).count({
+                index: ES_STREET_INDEX_NAME,
+            });
+        });
+        return countResponse.body.count === 0;
+    } catch {
+        // If we can't determine the count (index not found, etc.), assume empty
+        return true;
+    }
+};
+
+/**
+ * Searches for streets matching a query string.
+ *
+ * @param searchString - The search string to match against streets.
+ * @param p - The page number (1-indexed).
+ * @param pageSize - The page size.
+ * @returns A promise resolving to the OpenSearch search response with pagination metadata.
+ */
+const searchForStreet = async (
+    searchString: string,
+    p: number | undefined,
+    pageSize: number | undefined = PAGE_SIZE,
+): Promise<Types.SearchForAddressResult> => {
+    // Normalize the inbound search string
+    const normalizedSearch = (searchString ?? "").trim().replace(/\s+/g, " ");
+
+    // Reject empty searches
+    if (normalizedSearch === "") {
+        throw new Error("Search query must not be empty after normalization");
+    }
+
+    // Validate pagination parameters
+    const safePage = Number.isFinite(p) ? (p as number) : 1;
+    const safeSize = Number.isFinite(pageSize)
+        ? (pageSize as number)
+        : PAGE_SIZE;
+    const validPage = Math.max(1, Math.min(safePage, MAX_PAGE_NUMBER));
+    const validSize = Math.max(1, Math.min(safeSize, MAX_PAGE_SIZE));
+
+    // Calculate the offset for OpenSearch
+    const from = (validPage - 1) * validSize;
+
+    // Execute search with circuit breaker protection
+    const circuit = getOpenSearchCircuit();
+
+    const searchResp = await circuit.execute(async () => {
+        return (await (global.esClient as Types.OpensearchClient).search({
+            index: ES_STREET_INDEX_NAME,
+            body: {
+                from,
+                size: validSize,
+                _source: ["display", "name", "streetLocalityPid"],
+                query: {
+                    bool: {
+                        should: [
+                            // Highest boost: Display starts with the search query (exact prefix match)
+                            {
+                                prefix: {
+                                    "display.raw": {
+                                        value: normalizedSearch.toUpperCase(),
+                                        boost: 100,
+                                    },
+                                },
+                            },
+                            // High boost: Street name starts with search query
+                            {
+                                prefix: {
+                                    "name.raw": {
+                                        value: normalizedSearch.toUpperCase(),
+                                        boost: 80,
+                                    },
+                                },
+                            },
+                            // Phrase prefix match on display
+                            {
+                                match_phrase_prefix: {
+                                    display: {
+                                        query: normalizedSearch,
+                                        boost: 40,
+                                    },
+                                },
+                            },
+                            // Phrase prefix match on name
+                            {
+                                match_phrase_prefix: {
+                                    name: {
+                                        query: normalizedSearch,
+                                        boost: 30,
+                                    },
+                                },
+                            },
+                            // Fuzzy match for typo tolerance
+                            {
+                                multi_match: {
+                                    fields: ["display", "name"],
+                                    query: normalizedSearch,
+                                    fuzziness: "AUTO",
+                                    type: "bool_prefix",
+                                    lenient: true,
+                                    operator: "AND",
+                                },
+                            },
+                        ],
+                    },
+                },
+                // Busier streets first among equally relevant matches
+                sort: [
+                    "_score",
+                    { addressCount: { order: "desc" } },
+                    { "name.raw": { order: "asc" } },
+                ],
+            },
+        })) as Types.OpensearchApiResponse<
+            Types.OpensearchSearchResponse<unknown>,
+            unknown
+        >;
+    });
+
+    // Extract the total hit count
+    const rawTotal = searchResp.body.hits.total;
+    const totalHits = typeof rawTotal === "number" ? rawTotal : rawTotal.value;
+
+    return {
+        searchResponse: searchResp,
+        page: validPage,
+        size: validSize,
+        totalHits: totalHits ?? 0,
+    };
+};
+
+/**
+ * Retrieves detailed information about a specific street by its ID.
+ *
+ * @param streetId - The unique identifier for the street (G-NAF Street Locality PID).
+ * @returns A promise resolving to the street response.
+ */
+const getStreet = async (
+    streetId: string,
+): Promise<Types.GetAddressResponse> => {
+    try {
+        // Get the circuit breaker for OpenSearch operations
+        const circuit = getOpenSearchCircuit();
+
+        // Query OpenSearch for the street document
+        const jsonX = await circuit.execute(async () => {
+            return await (global.esClient as Types.OpensearchClient).get({
+                index: ES_STREET_INDEX_NAME,
+                id: `/streets/${streetId}`,
+            });
+        });
+
+        if (VERBOSE) logger("street jsonX", jsonX);
+
+        // Extract the source data from OpenSearch response
+        const source = jsonX.body._source as StreetSearchHit["_source"];
+
+        // Build the JSON:API street detail attributes
+        const attributes: Types.StreetDetailAttributes = {
+            streetLocalityPid: source.streetLocalityPid,
+            name: source.streetName ?? source.name,
+            display: source.display,
+            ...(source.typeCode !== undefined && {
+                type: {
+                    code: source.typeCode,
+                    name: source.typeName,
+                },
+            }),
+            ...(source.suffixCode !== undefined && {
+                suffix: {
+                    code: source.suffixCode,
+                    name: source.suffixName,
+                },
+            }),
+            ...(source.classCode !== undefined && {
+                class: {
+                    code: source.classCode,
+                    name: source.className,
+                },
+            }),
+            ...(source.localityPid !== undefined && {
+                locality: {
+                    localityPid: source.localityPid,
+                    name: source.localityName,
+                },
+            }),
+            ...(source.stateAbbreviation !== undefined && {
+                state: {
+                    name: source.stateName,
+                    abbreviation: source.stateAbbreviation,
+                },
+            }),
+            ...(source.postcode !== undefined &&
+                source.postcode !== "" && { postcode: source.postcode }),
+            ...(source.postcodes !== undefined && {
+                postcodes: source.postcodes,
+            }),
+            addressCount: source.addressCount ?? 0,
+        };
+
+        // Build the JSON:API resource and document
+        const resource = buildStreetResource(streetId, attributes);
+        const jsonApiDocument = buildStreetDetailDocument(resource);
+
+        // Construct HATEOAS self-link for the street resource
+        const link = new LinkHeader();
+        link.set({
+            rel: "self",
+            uri: `/streets/${streetId}`,
+        });
+
+        // Compute hash for ETag
+        const hash = crypto
+            .createHash("md5")
+            .update(JSON.stringify(jsonApiDocument))
+            .digest("hex");
+
+        return { link, json: jsonApiDocument as Record<string, unknown>, hash };
+    } catch (error_: unknown) {
+        // Handle circuit breaker open state
+        if (error_ instanceof CircuitOpenError) {
+            error("Circuit breaker open for OpenSearch", error_);
+            const retryAfterSeconds = Math.ceil(error_.retryAfterMs / 1000);
+            return {
+                statusCode: 503,
+                json: ErrorDocuments.serviceUnavailable(
+                    retryAfterSeconds,
+                ) as Record<string, unknown>,
+            };
+        }
+
+        // Cast to OpenSearch error type
+        const osError = error_ as Types.OpensearchError;
+        error("error getting street from elastic search", osError);
+
+        // Handle document not found
+        if (osError.body?.found === false) {
+            return {
+                statusCode: 404,
+                json: ErrorDocuments.notFound("street", streetId) as Record<
+                    string,
+                    unknown
+                >,
+            };
+        }
+
+        // Handle index not ready/available
+        if (osError.body?.error?.type === "index_not_found_exception") {
+            return {
+                statusCode: 503,
+                json: ErrorDocuments.serviceUnavailable() as Record<
+                    string,
+                    unknown
+                >,
+            };
+        }
+
+        // Fallback for unexpected errors
+        return {
+            statusCode: 500,
+            json: ErrorDocuments.internalError() as Record<string, unknown>,
+        };
+    }
+};
+
+/**
+ * Searches for streets matching a query string with pagination support.
+ *
+ * @param url - The base URL for the streets endpoint.
+ * @param swagger - Swagger/OpenAPI context for API documentation linkage.
+ * @param q - The search query string for street matching.
+ * @param p - The page number for pagination (1-indexed).
+ * @returns A promise resolving to the streets response.
+ */
+const getStreets = async (
     url: string,
     swagger: Types.SwaggerContext,
     q?: string,
     p = 1,
 ): Promise<Types.GetAddressesResponse> => {
     try {
-        // Normalize inbound search to prevent match-all scans on empty input
-        const normalizedQuery = normalizeSearchString(q);
+        // Normalize inbound search
+        const normalizedQuery = (q ?? "").trim().replace(/\s+/g, " ");
         if (normalizedQuery === "") {
             return {
                 statusCode: 400,
@@ -559,20 +4335,34 @@ const getAddresses = async (
             };
         }
 
-        // Execute the address search query against the index
+        // Execute the street search query
         const {
-            searchResponse: foundAddresses,
+            searchResponse: foundStreets,
             page,
             size,
             totalHits,
-        } = await searchForAddress(normalizedQuery, p);
-        if (VERBOSE) logger("foundAddresses", foundAddresses);
+        } = await searchForStreet(normalizedQuery, p);
+
+        if (VERBOSE) logger("foundStreets", foundStreets);
 
         // Calculate pagination values
         const totalPages = Math.ceil(totalHits / size);
 
         // Build JSON:API autocomplete resources from search hits
-        const resources = mapToJsonApiAutocompleteResponse(foundAddresses);
+        const maxScore = foundStreets.body.hits.hits[0]
+            ? (foundStreets.body.hits.hits[0] as StreetSearchHit)._score
+            : 1;
+
+        const resources = foundStreets.body.hits.hits.map((h) => {
+            const hit = h as StreetSearchHit;
+            const streetId = extractStreetId(hit._id);
+            const normalizedRank = maxScore > 0 ? hit._score / maxScore : 0;
+            return buildStreetAutocompleteResource(
+                streetId,
+                hit._source.display,
+                normalizedRank,
+            );
+        });
 
         // Build JSON:API pagination links
         const jsonApiLinks = buildPaginationLinks(
@@ -591,17 +4381,16 @@ const getAddresses = async (
             type: "text/html",
         };
 
-        // Determine if a warning should be included in the response
+        // Determine if a warning should be included
         let warning: string | undefined;
         if (totalHits === 0) {
-            // Check if the entire dataset is empty vs. just no results for this query
-            const datasetEmpty = await isIndexEmpty();
+            const datasetEmpty = await isStreetIndexEmpty();
             warning = datasetEmpty
-                ? API_WARNINGS.EMPTY_DATASET
-                : API_WARNINGS.NO_RESULTS;
+                ? API_WARNINGS.EMPTY_STREET_DATASET
+                : API_WARNINGS.NO_STREET_RESULTS;
         }
 
-        // Build JSON:API pagination metadata (with optional warning)
+        // Build JSON:API pagination metadata
         const meta = buildPaginationMeta(
             totalHits,
             page,
@@ -611,22 +4400,16 @@ const getAddresses = async (
         );
 
         // Build the complete JSON:API document
-        const jsonApiDocument = buildAutocompleteDocument(
+        const jsonApiDocument = buildStreetAutocompleteDocument(
             resources,
             jsonApiLinks,
             meta,
         );
 
-        if (VERBOSE)
-            logger(
-                "jsonApiDocument",
-                JSON.stringify(jsonApiDocument, undefined, 2),
-            );
-
-        // Initialize the Link header for HATEOAS navigation (kept for backwards compatibility)
+        // Initialize the Link header for HATEOAS navigation
         const link = new LinkHeader();
 
-        // Add link to API documentation for this operation
+        // Add link to API documentation
         link.set({
             rel: "describedby",
             uri: `/docs/#operations-${swagger.path.get[
@@ -636,20 +4419,20 @@ const getAddresses = async (
             type: "text/html",
         });
 
-        // Build query string for the current request (self link)
+        // Build query string for the current request
         const sp = new URLSearchParams({
             ...(normalizedQuery !== "" && { q: normalizedQuery }),
             ...(page !== 1 && { "page[number]": String(page) }),
         });
         const spString = sp.toString();
 
-        // Add self-referential link for the current page
+        // Add self-referential link
         link.set({
             rel: "self",
             uri: `${url}${spString === "" ? "" : "?"}${spString}`,
         });
 
-        // Add link to the first page of results
+        // Add link to the first page
         link.set({
             rel: "first",
             uri: `${url}${normalizedQuery === "" ? "" : "?"}${new URLSearchParams(
@@ -659,7 +4442,7 @@ const getAddresses = async (
             ).toString()}`,
         });
 
-        // Add previous page link if not on the first page
+        // Add previous page link if not on first page
         if (page > 1) {
             link.set({
                 rel: "prev",
@@ -672,12 +4455,8 @@ const getAddresses = async (
             });
         }
 
-        if (VERBOSE) logger("TOTAL", totalHits);
-        if (VERBOSE) logger("PAGE_SIZE * p", size * page);
-
         // Determine if there are more pages available
         const hasNextPage = totalHits > size * page;
-        if (VERBOSE) logger("next?", hasNextPage);
 
         // Add next page link if more results exist
         if (hasNextPage) {
@@ -703,19 +4482,18 @@ const getAddresses = async (
             });
         }
 
-        // Construct Link-Template header for API discoverability (RFC 6570)
+        // Construct Link-Template header
         const linkTemplate = new LinkHeader();
         const op = swagger.path.get;
         setLinkOptions(op, url, linkTemplate);
 
-        // Return JSON:API document instead of legacy format
         return {
             link,
             json: jsonApiDocument as Record<string, unknown>,
             linkTemplate,
         };
     } catch (error_: unknown) {
-        // Handle circuit breaker open state (503 - service temporarily unavailable)
+        // Handle circuit breaker open state
         if (error_ instanceof CircuitOpenError) {
             error("Circuit breaker open for OpenSearch", error_);
             const retryAfterSeconds = Math.ceil(error_.retryAfterMs / 1000);
@@ -727,11 +4505,11 @@ const getAddresses = async (
             };
         }
 
-        // Cast to OpenSearch error type for proper error handling
+        // Cast to OpenSearch error type
         const osError = error_ as Types.OpensearchError;
-        error("error querying elastic search", osError);
+        error("error querying streets in elastic search", osError);
 
-        // Handle index not ready/available (503)
+        // Handle index not ready/available
         if (osError.body?.error?.type === "index_not_found_exception") {
             return {
                 statusCode: 503,
@@ -742,7 +4520,7 @@ const getAddresses = async (
             };
         }
 
-        // Handle OpenSearch request timeout (504)
+        // Handle OpenSearch request timeout
         if (osError.displayName === "RequestTimeout") {
             return {
                 statusCode: 504,
@@ -753,7 +4531,7 @@ const getAddresses = async (
             };
         }
 
-        // Fallback for unexpected errors (500)
+        // Fallback for unexpected errors
         return {
             statusCode: 500,
             json: ErrorDocuments.internalError() as Record<string, unknown>,
@@ -761,115 +4539,36 @@ const getAddresses = async (
     }
 };
 
-/**
- * Transforms raw OpenSearch search hits into JSON:API autocomplete resources.
- *
- * This function maps the internal OpenSearch document structure to JSON:API
- * resource objects optimized for autocomplete, containing only the essential
- * display text (SLA), relevance rank, and self-link.
- *
- * @param {Types.OpensearchApiResponse<Types.OpensearchSearchResponse<unknown>, unknown>} foundAddresses -
- *   The raw OpenSearch search response containing hits.
- * @returns {Types.JsonApiResource<Types.AddressAutocompleteAttributes>[]} Array of JSON:API resources.
- */
-const mapToJsonApiAutocompleteResponse = (
-    foundAddresses: Types.OpensearchApiResponse<
-        Types.OpensearchSearchResponse<unknown>,
-        unknown
-    >,
-): Types.JsonApiResource<Types.AddressAutocompleteAttributes>[] => {
-    // Get the maximum score for normalization (first result typically has highest score)
-    const maxScore = foundAddresses.body.hits.hits[0]
-        ? (foundAddresses.body.hits.hits[0] as Types.AddressSearchHit)._score
-        : 1;
-
-    // Map each hit to a JSON:API resource, normalizing scores to 0-1 range
-    return foundAddresses.body.hits.hits.map((h) => {
-        // Cast hit to the expected structure for type-safe access
-        const hit = h as Types.AddressSearchHit;
-
-        // Extract the address ID from the document path (remove /addresses/ prefix)
-        const addressId = extractAddressId(hit._id);
-
-        // Normalize score to 0-1 range relative to the best match
-        const normalizedRank = maxScore > 0 ? hit._score / maxScore : 0;
-
-        // Build and return the JSON:API autocomplete resource
-        return buildAutocompleteResource(
-            addressId,
-            hit._source.sla,
-            normalizedRank,
-            hit._source.ssla,
-        );
-    });
-};
-
-/**
- * Transforms raw OpenSearch search hits into the legacy API response format.
- *
- * @deprecated Use mapToJsonApiAutocompleteResponse for JSON:API compliant responses.
- * This function is retained for backwards compatibility during the transition period.
- *
- * @param {Types.OpensearchApiResponse<Types.OpensearchSearchResponse<unknown>, unknown>} foundAddresses -
- *   The raw OpenSearch search response containing hits.
- * @returns {Types.AddressSearchResult[]} An array of address results formatted for the legacy API.
- */
-const mapToSearchAddressResponse = (
-    foundAddresses: Types.OpensearchApiResponse<
-        Types.OpensearchSearchResponse<unknown>,
-        unknown
-    >,
-): Types.AddressSearchResult[] => {
-    // Map each hit to the API response format, extracting relevant fields
-    return foundAddresses.body.hits.hits.map((h) => {
-        // Cast hit to the expected structure for type-safe access
-        const hit = h as Types.AddressSearchHit;
-        return {
-            sla: hit._source.sla,
-            score: hit._score,
-            links: {
-                self: {
-                    href: hit._id,
-                },
-            },
-        };
-    });
-};
-
 // ============================================================================
-// Locality Service Functions
+// Postcode Service Functions
 // ============================================================================
 
 /**
- * Locality search hit structure from OpenSearch.
+ * Postcode search hit structure from OpenSearch.
  */
-type LocalitySearchHit = {
+type PostcodeSearchHit = {
     _id: string;
     _score: number;
     _source: {
         display: string;
-        name: string;
-        localityPid: string;
-        stateAbbreviation?: string;
-        stateName?: string;
-        postcode?: string;
-        postcodes?: string[];
-        classCode?: string;
-        className?: string;
+        postcode: string;
+        states?: Types.AddressState[];
+        localities?: Types.PostcodeLocality[];
+        addressCount?: number;
     };
 };
 
 /**
- * Checks if the locality index is empty (contains no documents).
+ * Checks if the postcode index is empty (contains no documents).
  *
  * @returns A promise resolving to true if the index is empty or doesn't exist, false otherwise.
  */
-const isLocalityIndexEmpty = async (): Promise<boolean> => {
+const isPostcodeIndexEmpty = async (): Promise<boolean> => {
     try {
         const circuit = getOpenSearchCircuit();
         const countResponse = await circuit.execute(async () => {
             return await (global.esClient as Types.OpensearchClient).count({
-                index: ES_LOCALITY_INDEX_NAME,
+                index: ES_POSTCODE_INDEX_NAME,
             });
         });
         return countResponse.body.count === 0;
@@ -880,14 +4579,14 @@ const isLocalityIndexEmpty = async (): Promise<boolean> => {
 };
 
 /**
- * Searches for localities matching a query string.
+ * Searches for postcodes matching a query string.
  *
- * @param searchString - The search string to match against localities.
+ * @param searchString - The search string to match against postcodes.
  * @param p - The page number (1-indexed).
  * @param pageSize - The page size.
  * @returns A promise resolving to the OpenSearch search response with pagination metadata.
  */
-const searchForLocality = async (
+const searchForPostcode = async (
     searchString: string,
     p: number | undefined,
     pageSize: number | undefined = PAGE_SIZE,
@@ -916,82 +4615,45 @@ const searchForLocality = async (
 
     const searchResp = await circuit.execute(async () => {
         return (await (global.esClient as Types.OpensearchClient).search({
-            index: ES_LOCALITY_INDEX_NAME,
+            index: ES_POSTCODE_INDEX_NAME,
             body: {
                 from,
                 size: validSize,
-                _source: [
-                    "display",
-                    "name",
-                    "localityPid",
-                    "stateAbbreviation",
-                    "stateName",
-                    "postcode",
-                    "postcodes",
-                    "classCode",
-                    "className",
-                ],
+                _source: ["display", "postcode"],
                 query: {
                     bool: {
                         should: [
-                            // Highest boost: Display starts with the search query (exact prefix match)
-                            {
-                                prefix: {
-                                    "display.raw": {
-                                        value: normalizedSearch.toUpperCase(),
-                                        boost: 100,
-                                    },
-                                },
-                            },
-                            // High boost: Locality name starts with search query
-                            {
-                                prefix: {
-                                    "name.raw": {
-                                        value: normalizedSearch.toUpperCase(),
-                                        boost: 80,
-                                    },
-                                },
-                            },
-                            // Medium boost: Postcode match
+                            // Highest boost: Exact postcode match
                             {
                                 term: {
                                     postcode: {
                                         value: normalizedSearch,
-                                        boost: 60,
+                                        boost: 100,
                                     },
                                 },
                             },
-                            // Medium boost: Match on any of the postcodes
+                            // High boost: Postcode starts with the search query
                             {
-                                term: {
-                                    postcodes: {
+                                prefix: {
+                                    postcode: {
                                         value: normalizedSearch,
-                                        boost: 50,
+                                        boost: 80,
                                     },
                                 },
                             },
-                            // Phrase prefix match on display
+                            // Phrase prefix match on the names of localities using the postcode
                             {
                                 match_phrase_prefix: {
-                                    display: {
+                                    localityNames: {
                                         query: normalizedSearch,
                                         boost: 40,
                                     },
                                 },
                             },
-                            // Phrase prefix match on name
-                            {
-                                match_phrase_prefix: {
-                                    name: {
-                                        query: normalizedSearch,
-                                        boost: 30,
-                                    },
-                                },
-                            },
                             // Fuzzy match for typo tolerance
                             {
                                 multi_match: {
-                                    fields: ["display", "name"],
+                                    fields: ["localityNames"],
                                     query: normalizedSearch,
                                     fuzziness: "AUTO",
                                     type: "bool_prefix",
@@ -1002,7 +4664,7 @@ const searchForLocality = async (
                         ],
                     },
                 },
-                sort: ["_score", { "name.raw": { order: "asc" } }],
+                sort: ["_score", { postcode: { order: "asc" } }],
             },
         })) as Types.OpensearchApiResponse<
             Types.OpensearchSearchResponse<unknown>,
@@ -1023,63 +4685,49 @@ const searchForLocality = async (
 };
 
 /**
- * Retrieves detailed information about a specific locality by its ID.
+ * Retrieves detailed information about a specific postcode.
  *
- * @param localityId - The unique identifier for the locality (G-NAF Locality PID).
- * @returns A promise resolving to the locality response.
+ * @param postcode - The 4-digit postcode.
+ * @returns A promise resolving to the postcode response.
  */
-const getLocality = async (
-    localityId: string,
+const getPostcode = async (
+    postcode: string,
 ): Promise<Types.GetAddressResponse> => {
     try {
         // Get the circuit breaker for OpenSearch operations
         const circuit = getOpenSearchCircuit();
 
-        // Query OpenSearch for the locality document
+        // Query OpenSearch for the postcode document
         const jsonX = await circuit.execute(async () => {
             return await (global.esClient as Types.OpensearchClient).get({
-                index: ES_LOCALITY_INDEX_NAME,
-                id: `/localities/${localityId}`,
+                index: ES_POSTCODE_INDEX_NAME,
+                id: `/postcodes/${postcode}`,
             });
         });
 
-        if (VERBOSE) logger("locality jsonX", jsonX);
+        if (VERBOSE) logger("postcode jsonX", jsonX);
 
         // Extract the source data from OpenSearch response
-        const source = jsonX.body._source as LocalitySearchHit["_source"];
+        const source = jsonX.body._source as PostcodeSearchHit["_source"];
 
-        // Build the JSON:API locality detail attributes
-        const attributes: Types.LocalityDetailAttributes = {
-            localityPid: source.localityPid,
-            name: source.name,
+        // Build the JSON:API postcode detail attributes
+        const attributes: Types.PostcodeDetailAttributes = {
+            postcode: source.postcode,
             display: source.display,
-            ...(source.classCode !== undefined && {
-                class: {
-                    code: source.classCode,
-                    name: source.className,
-                },
-            }),
-            ...(source.stateAbbreviation !== undefined && {
-                state: {
-                    name: source.stateName,
-                    abbreviation: source.stateAbbreviation,
-                },
-            }),
-            ...(source.postcode !== undefined && { postcode: source.postcode }),
-            ...(source.postcodes !== undefined && {
-                postcodes: source.postcodes,
-            }),
+            states: source.states ?? [],
+            localities: source.localities ?? [],
+            addressCount: source.addressCount ?? 0,
         };
 
         // Build the JSON:API resource and document
-        const resource = buildLocalityResource(localityId, attributes);
-        const jsonApiDocument = buildLocalityDetailDocument(resource);
+        const resource = buildPostcodeResource(postcode, attributes);
+        const jsonApiDocument = buildPostcodeDetailDocument(resource);
 
-        // Construct HATEOAS self-link for the locality resource
+        // Construct HATEOAS self-link for the postcode resource
         const link = new LinkHeader();
         link.set({
             rel: "self",
-            uri: `/localities/${localityId}`,
+            uri: `/postcodes/${postcode}`,
         });
 
         // Compute hash for ETag
@@ -1104,13 +4752,13 @@ const getLocality = async (
 
         // Cast to OpenSearch error type
         const osError = error_ as Types.OpensearchError;
-        error("error getting locality from elastic search", osError);
+        error("error getting postcode from elastic search", osError);
 
         // Handle document not found
         if (osError.body?.found === false) {
             return {
                 statusCode: 404,
-                json: ErrorDocuments.notFound("locality", localityId) as Record<
+                json: ErrorDocuments.notFound("postcode", postcode) as Record<
                     string,
                     unknown
                 >,
@@ -1137,15 +4785,15 @@ const getLocality = async (
 };
 
 /**
- * Searches for localities matching a query string with pagination support.
+ * Searches for postcodes matching a query string with pagination support.
  *
- * @param url - The base URL for the localities endpoint.
+ * @param url - The base URL for the postcodes endpoint.
  * @param swagger - Swagger/OpenAPI context for API documentation linkage.
- * @param q - The search query string for locality matching.
+ * @param q - The search query string for postcode matching.
  * @param p - The page number for pagination (1-indexed).
- * @returns A promise resolving to the localities response.
+ * @returns A promise resolving to the postcodes response.
  */
-const getLocalities = async (
+const getPostcodes = async (
     url: string,
     swagger: Types.SwaggerContext,
     q?: string,
@@ -1164,30 +4812,30 @@ const getLocalities = async (
             };
         }
 
-        // Execute the locality search query
+        // Execute the postcode search query
         const {
-            searchResponse: foundLocalities,
+            searchResponse: foundPostcodes,
             page,
             size,
             totalHits,
-        } = await searchForLocality(normalizedQuery, p);
+        } = await searchForPostcode(normalizedQuery, p);
 
-        if (VERBOSE) logger("foundLocalities", foundLocalities);
+        if (VERBOSE) logger("foundPostcodes", foundPostcodes);
 
         // Calculate pagination values
         const totalPages = Math.ceil(totalHits / size);
 
         // Build JSON:API autocomplete resources from search hits
-        const maxScore = foundLocalities.body.hits.hits[0]
-            ? (foundLocalities.body.hits.hits[0] as LocalitySearchHit)._score
+        const maxScore = foundPostcodes.body.hits.hits[0]
+            ? (foundPostcodes.body.hits.hits[0] as PostcodeSearchHit)._score
             : 1;
 
-        const resources = foundLocalities.body.hits.hits.map((h) => {
-            const hit = h as LocalitySearchHit;
-            const localityId = extractLocalityId(hit._id);
+        const resources = foundPostcodes.body.hits.hits.map((h) => {
+            const hit = h as PostcodeSearchHit;
+            const postcode = extractPostcodeId(hit._id);
             const normalizedRank = maxScore > 0 ? hit._score / maxScore : 0;
-            return buildLocalityAutocompleteResource(
-                localityId,
+            return buildPostcodeAutocompleteResource(
+                postcode,
                 hit._source.display,
                 normalizedRank,
             );
@@ -1213,10 +4861,10 @@ const getLocalities = async (
         // Determine if a warning should be included
         let warning: string | undefined;
         if (totalHits === 0) {
-            const datasetEmpty = await isLocalityIndexEmpty();
+            const datasetEmpty = await isPostcodeIndexEmpty();
             warning = datasetEmpty
-                ? API_WARNINGS.EMPTY_LOCALITY_DATASET
-                : API_WARNINGS.NO_LOCALITY_RESULTS;
+                ? API_WARNINGS.EMPTY_POSTCODE_DATASET
+                : API_WARNINGS.NO_POSTCODE_RESULTS;
         }
 
         // Build JSON:API pagination metadata
@@ -1229,7 +4877,7 @@ const getLocalities = async (
         );
 
         // Build the complete JSON:API document
-        const jsonApiDocument = buildLocalityAutocompleteDocument(
+        const jsonApiDocument = buildPostcodeAutocompleteDocument(
             resources,
             jsonApiLinks,
             meta,
@@ -1336,7 +4984,7 @@ const getLocalities = async (
 
         // Cast to OpenSearch error type
         const osError = error_ as Types.OpensearchError;
-        error("error querying localities in elastic search", osError);
+        error("error querying postcodes in elastic search", osError);
 
         // Handle index not ready/available
         if (osError.body?.error?.type === "index_not_found_exception") {
@@ -1375,8 +5023,20 @@ export default {
     load: loadCommandEntry,
     autocomplete: getAddresses,
     lookup: getAddress,
+    secondaries: getAddressSecondaries,
+    primary: getAddressPrimary,
+    siteSiblings: getAddressSiteSiblings,
     localityAutocomplete: getLocalities,
     localityLookup: getLocality,
+    streetAutocomplete: getStreets,
+    streetLookup: getStreet,
+    postcodeAutocomplete: getPostcodes,
+    postcodeLookup: getPostcode,
+    validate: validateAddress,
+    validateBatch: validateAddressBatch,
+    parse: getParsedAddress,
+    reverse: reverseGeocode,
+    search: searchAddresses,
 };
 
 /**
@@ -1384,12 +5044,29 @@ export default {
  */
 export {
     getAddress,
+    getAddressPrimary,
+    getAddressSecondaries,
+    getAddressSiteSiblings,
     getAddresses,
+    getIncludedLocalities,
     getLocality,
     getLocalities,
+    getParsedAddress,
+    getPostcode,
+    getPostcodes,
+    getStreet,
+    getStreets,
     mapToSearchAddressResponse,
     mapToJsonApiAutocompleteResponse,
+    reverseGeocode,
+    searchAddresses,
     setAddresses,
     searchForAddress,
     searchForLocality,
+    searchForPostcode,
+    searchForStreet,
+    suggestAddressSearches,
+    suggestLocalitySearches,
+    validateAddress,
+    validateAddressBatch,
 };
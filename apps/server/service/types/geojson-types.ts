@@ -0,0 +1,53 @@
+/**
+ * GeoJSON Type Definitions
+ *
+ * These types describe the GeoJSON representations served when a request
+ * asks for `application/geo+json`. See: https://www.rfc-editor.org/rfc/rfc7946
+ */
+
+import type { JsonApiLinks, JsonApiMeta } from "./jsonapi-types";
+
+/**
+ * Response formats that resources can be represented in.
+ */
+export type ResponseFormat = "jsonapi" | "geojson";
+
+/**
+ * A GeoJSON point. Coordinates are longitude then latitude, in WGS 84.
+ */
+export type GeoJsonPoint = {
+    /** The geometry type */
+    type: "Point";
+    /** Longitude and latitude of the point */
+    coordinates: [number, number];
+};
+
+/**
+ * A GeoJSON feature built from a JSON:API resource.
+ */
+export type GeoJsonFeature<TProperties = Record<string, unknown>> = {
+    /** The object type */
+    type: "Feature";
+    /** The resource's identifier */
+    id: string;
+    /** The position of the resource, or null when it has none */
+    geometry: GeoJsonPoint | null;
+    /** The resource's attributes */
+    properties: TProperties;
+    /** The resource's links (a GeoJSON foreign member) */
+    links?: JsonApiLinks;
+};
+
+/**
+ * A GeoJSON feature collection built from a JSON:API collection document.
+ */
+export type GeoJsonFeatureCollection<TProperties = Record<string, unknown>> = {
+    /** The object type */
+    type: "FeatureCollection";
+    /** The features of the collection */
+    features: GeoJsonFeature<TProperties>[];
+    /** Pagination and navigation links (a GeoJSON foreign member) */
+    links?: JsonApiLinks;
+    /** Pagination metadata (a GeoJSON foreign member) */
+    meta?: JsonApiMeta;
+};
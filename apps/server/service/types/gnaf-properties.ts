@@ -11,19 +11,30 @@ export type StructuredLocality = {
 };
 
 export type StreetLocalityRecord = {
+    LOCALITY_PID?: string;
     STREET_NAME: string;
     STREET_TYPE_CODE: string;
     STREET_CLASS_CODE: string;
     STREET_SUFFIX_CODE: string;
 };
 
-export type StructuredStreetLocality = {
+export type StreetLocalityAliasRecord = {
+    STREET_NAME: string;
+    STREET_TYPE_CODE: string;
+    STREET_SUFFIX_CODE: string;
+};
+
+export type StructuredStreetLocalityAlias = {
     name?: string;
     type?: { code: string; name?: string };
-    class?: { code: string; name?: string };
     suffix?: { code: string; name?: string };
 };
 
+export type StructuredStreetLocality = StructuredStreetLocalityAlias & {
+    class?: { code: string; name?: string };
+    aliases?: StructuredStreetLocalityAlias[];
+};
+
 export type GeoSiteRecord = {
     GEOCODE_TYPE_CODE: string;
     RELIABILITY_CODE: string;
@@ -37,6 +48,11 @@ export type GeoSiteRecord = {
     default?: boolean;
 };
 
+export type AddressAliasRecord = {
+    PRINCIPAL_PID: string;
+    ALIAS_TYPE_CODE: string;
+};
+
 export type GeoDefaultRecord = {
     GEOCODE_TYPE_CODE: string;
     LATITUDE: string;
@@ -101,11 +117,57 @@ export type StructuredAddress = {
     state: StateSummary;
 };
 
+export type ParsedAddress = Omit<
+    StructuredAddress,
+    "street" | "locality" | "state" | "confidence"
+> & {
+    street?: StructuredStreetLocality;
+    locality?: StructuredLocality;
+    state?: StateSummary;
+};
+
+export type AddressMeshBlockRecord = {
+    MB_2021_CODE: string;
+    MB_MATCH_CODE: string;
+};
+
+export type MeshBlockAllocationRecord = {
+    MB_CATEGORY_2021: string;
+    SA1_CODE_2021: string;
+    SA2_CODE_2021: string;
+    SA2_NAME_2021: string;
+    SA3_CODE_2021: string;
+    SA3_NAME_2021: string;
+    SA4_CODE_2021: string;
+    SA4_NAME_2021: string;
+    GCCSA_CODE_2021: string;
+    GCCSA_NAME_2021: string;
+};
+
+export type StatisticalArea = {
+    code: string;
+    name?: string;
+};
+
+export type StructuredStatistical = {
+    meshBlock: {
+        code: string;
+        category?: string;
+        match?: { code: string; name?: string };
+    };
+    sa1?: StatisticalArea;
+    sa2?: StatisticalArea;
+    sa3?: StatisticalArea;
+    sa4?: StatisticalArea;
+    gccsa?: StatisticalArea;
+};
+
 export type AddressDetails = {
     geocoding?: {
         level?: { code: string; name?: string };
         geocodes: AddressGeocode[];
     };
+    statistical?: StructuredStatistical;
     structured: StructuredAddress;
     precedence?: "primary" | "secondary";
     pid: string;
@@ -117,6 +179,8 @@ export type AddressDetails = {
 
 export type AddressDetailRow = {
     ADDRESS_DETAIL_PID: string;
+    /** The date the address was retired, blank for a current address */
+    DATE_RETIRED: string;
     ADDRESS_SITE_PID: string;
     STREET_LOCALITY_PID: string;
     LOCALITY_PID: string;
@@ -141,14 +205,28 @@ export type AddressDetailRow = {
     LOT_NUMBER_PREFIX: string;
     LOT_NUMBER: string;
     LOT_NUMBER_SUFFIX: string;
+    /** Lot/plan identifier of the land parcel, as used by the state's land titles office */
+    LEGAL_PARCEL_ID: string;
     PRIMARY_SECONDARY: string;
+    /** Property identifier assigned by G-NAF, shared by the addresses of one property */
+    GNAF_PROPERTY_PID: string;
+    /** "P" for a principal address, "A" for an alias of another address */
+    ALIAS_PRINCIPAL: string;
 };
 
 export type MapPropertyContext = PropertyCodeToNameContext & {
     streetLocalityIndexed: Record<string, StreetLocalityRecord>;
+    streetLocalityAliasIndexed?: Record<string, StreetLocalityAliasRecord[]>;
     localityIndexed: Record<string, LocalityRecord>;
+    localityAliasIndexed?: Record<string, string[]>;
+    localityPointIndexed?: Record<string, { lat: number; lon: number }>;
+    addressAliasIndexed?: Record<string, AddressAliasRecord>;
+    primaryIndexed?: Record<string, string>;
+    secondaryCountIndexed?: Record<string, number>;
     geoIndexed?: Record<string, GeoSiteRecord[]>;
     geoDefaultIndexed?: Record<string, GeoDefaultRecord[]>;
+    addressMeshBlockIndexed?: Record<string, AddressMeshBlockRecord>;
+    meshBlockAllocationIndexed?: Record<string, MeshBlockAllocationRecord>;
     stateName: string;
     state: string;
 };
@@ -3,6 +3,7 @@ export * from "./loader-types";
 export * from "./shared-types";
 export * from "./lookup-types";
 export * from "./jsonapi-types";
+export * from "./geojson-types";
 export type {
     ApiResponse as OpensearchApiResponse,
     Client as OpensearchClient,
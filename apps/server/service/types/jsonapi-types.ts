@@ -216,6 +216,41 @@ export type AddressAutocompleteAttributes = {
     ssla?: string;
     /** Relevance score from the search query (0-1 normalized) */
     rank: number;
+    /** Locality alias the search matched, when it did not match the official locality name */
+    matchedAlias?: string;
+};
+
+/**
+ * A range of matched characters in a string, as offsets with an exclusive end.
+ */
+export type HighlightRange = {
+    /** Offset of the first matched character */
+    start: number;
+    /** Offset just past the last matched character */
+    end: number;
+};
+
+/**
+ * The characters of an autocomplete suggestion that matched the search.
+ */
+export type AddressSuggestionHighlights = {
+    /** Matched ranges of the single-line address */
+    sla?: HighlightRange[];
+    /** Matched ranges of the short single-line address */
+    ssla?: HighlightRange[];
+};
+
+/**
+ * A corrected search string offered when a search matched nothing.
+ */
+export type SearchSuggestion = {
+    /** The corrected search string */
+    query: string;
+    /** Links for the suggestion */
+    links: {
+        /** Link that re-runs the search with the corrected search string */
+        related: string;
+    };
 };
 
 /**
@@ -258,6 +293,8 @@ export type AddressStreet = {
         name?: string;
         code?: string;
     };
+    /** Former or alternative names for the street (from G-NAF STREET_LOCALITY_ALIAS) */
+    aliases?: Omit<AddressStreet, "aliases">[];
 };
 
 /**
@@ -359,6 +396,44 @@ export type AddressGeoLevel = {
     name?: string;
 };
 
+/**
+ * An ABS statistical area (ASGS 2021 edition).
+ */
+export type AddressStatisticalArea = {
+    /** ABS area code */
+    code: string;
+    /** ABS area name (not published for SA1) */
+    name?: string;
+};
+
+/**
+ * ABS mesh block and statistical areas an address falls within.
+ */
+export type AddressStatistical = {
+    /** 2021 mesh block */
+    meshBlock: {
+        /** ABS mesh block code */
+        code: string;
+        /** Mesh block category (e.g., "Residential") */
+        category?: string;
+        /** How G-NAF matched the address to the mesh block */
+        match?: {
+            code: string;
+            name?: string;
+        };
+    };
+    /** Statistical Area Level 1 */
+    sa1?: AddressStatisticalArea;
+    /** Statistical Area Level 2 */
+    sa2?: AddressStatisticalArea;
+    /** Statistical Area Level 3 */
+    sa3?: AddressStatisticalArea;
+    /** Statistical Area Level 4 */
+    sa4?: AddressStatisticalArea;
+    /** Greater Capital City Statistical Area */
+    gccsa?: AddressStatisticalArea;
+};
+
 /**
  * Comprehensive structured address attributes for detailed lookups.
  * Contains all G-NAF address components in a parsed format.
@@ -370,6 +445,8 @@ export type AddressDetailAttributes = {
     sla: string;
     /** Short single-line address (for unit addresses: "12/34 Smith St") */
     ssla?: string;
+    /** Whether the address is a building's primary address or one of its secondaries */
+    precedence?: "primary" | "secondary";
     /** Multi-line address (array of 2-4 lines for labels) */
     mla?: string[];
     /** Short multi-line address */
@@ -404,6 +481,30 @@ export type AddressDetailAttributes = {
         /** Array of geocode points for this address */
         geocodes?: JsonApiAddressGeocode[];
     };
+    /** ABS mesh block and statistical areas */
+    statistical?: AddressStatistical;
+    /** Lot/plan identifier of the land parcel the address is on */
+    legalParcelId?: string;
+    /** G-NAF PID of the address site (the physical door or entrance) */
+    addressSitePid?: string;
+    /** G-NAF PID of the property, shared by every address on it */
+    gnafPropertyPid?: string;
+};
+
+/**
+ * Addresses related to a detailed address, rendered as resource relationships.
+ */
+export type AddressRelatedAddresses = {
+    /** The principal address, when this address is an alias */
+    principal?: { pid: string; aliasTypeCode?: string };
+    /** The building's primary address, when this address is a secondary */
+    primaryPid?: string;
+    /** The number of secondary addresses, when this address is a primary */
+    secondaryCount?: number;
+    /** The address site, shared with any other addresses on the same site */
+    addressSitePid?: string;
+    /** The locality the address is in */
+    localityPid?: string;
 };
 
 /**
@@ -428,6 +529,236 @@ export type AddressAutocompleteDocument =
  */
 export type AddressDetailDocument = JsonApiDocument<AddressDetailAttributes>;
 
+// ============================================================================
+// Address Validation JSON:API Types
+// ============================================================================
+
+/**
+ * Address components that receive an individual validation verdict.
+ */
+export type AddressValidationComponent =
+    | "flat"
+    | "level"
+    | "number"
+    | "street"
+    | "locality"
+    | "state"
+    | "postcode";
+
+/**
+ * Outcome of comparing one component of the user input to the matched address.
+ * - `matched`: the input contained the component exactly as recorded in G-NAF
+ * - `corrected`: the input contained a misspelt or partial form of the component
+ * - `missing`: the input did not mention the component at all
+ * - `conflicting`: the input supplied a different value for the component
+ */
+export type AddressValidationVerdict =
+    | "matched"
+    | "corrected"
+    | "missing"
+    | "conflicting";
+
+/**
+ * Per-component verdicts for a validated address. Components that neither the
+ * input nor the matched address contain are omitted.
+ */
+export type AddressValidationVerdicts = Partial<
+    Record<AddressValidationComponent, AddressValidationVerdict>
+>;
+
+/**
+ * Document-level metadata returned by the address validation endpoint.
+ */
+export type AddressValidationMeta = JsonApiMeta & {
+    /** The free-text address that was validated (normalized) */
+    query: string;
+    /** Match score from 0 (no match) to 1 (every component matched) */
+    score: number;
+    /** Verdict for each address component */
+    components: AddressValidationVerdicts;
+};
+
+/**
+ * JSON:API document for address validation responses. `data` holds the best
+ * matching address, or null when nothing in the index resembles the input.
+ */
+export type AddressValidationDocument = Omit<
+    JsonApiDocument<AddressDetailAttributes>,
+    "data" | "meta"
+> & {
+    /** The best matching address resource */
+    data: AddressDetailResource | null;
+    /** Validation score and component verdicts */
+    meta: AddressValidationMeta;
+};
+
+// ============================================================================
+// Batch Address Validation JSON:API Types
+// ============================================================================
+
+/**
+ * A single batch item: either a free-text address or an address PID.
+ */
+export type AddressBatchInput = {
+    /** Free-text address to validate */
+    q?: string;
+    /** G-NAF PID of an address to look up */
+    pid?: string;
+};
+
+/**
+ * Attributes of one batch validation result.
+ */
+export type AddressBatchResultAttributes = {
+    /** The input item, as supplied */
+    input: AddressBatchInput;
+    /** Match score from 0 (no match) to 1; always 1 for a PID that was found */
+    score?: number;
+    /** Verdict for each address component (free-text inputs only) */
+    components?: AddressValidationVerdicts;
+    /** Why this item could not be resolved, when it failed */
+    error?: JsonApiError;
+};
+
+/**
+ * JSON:API resource for one batch validation result. The `id` is the
+ * position of the input in the request, and the best match is linked through
+ * the `address` relationship and included in the document.
+ */
+export type AddressBatchResultResource =
+    JsonApiResource<AddressBatchResultAttributes>;
+
+/**
+ * Metadata for batch validation responses.
+ */
+export type AddressBatchMeta = JsonApiMeta & {
+    /** Number of input items */
+    total: number;
+    /** Items resolved to an address */
+    matched: number;
+    /** Items that nothing in the index resembled */
+    unmatched: number;
+    /** Items that returned an error */
+    failed: number;
+};
+
+/**
+ * JSON:API compound document for batch validation responses, with one result
+ * per input item in request order.
+ */
+export type AddressBatchDocument = Omit<
+    JsonApiDocument<AddressBatchResultAttributes>,
+    "data" | "included" | "meta"
+> & {
+    /** One result per input item, in request order */
+    data: AddressBatchResultResource[];
+    /** The matched address resources */
+    included: AddressDetailResource[];
+    /** Result counts */
+    meta: AddressBatchMeta;
+};
+
+// ============================================================================
+// Address Parse JSON:API Types
+// ============================================================================
+
+/**
+ * Attributes of a free-text address split into its components.
+ */
+export type ParsedAddressAttributes = {
+    /** The free-text address that was parsed (normalized) */
+    input: string;
+    /** Components identified in the input; unidentified components are omitted */
+    structured: Omit<AddressDetailAttributes["structured"], "confidence">;
+};
+
+/**
+ * JSON:API resource for a parsed address.
+ */
+export type ParsedAddressResource = JsonApiResource<ParsedAddressAttributes>;
+
+/**
+ * JSON:API document for address parse responses.
+ */
+export type ParsedAddressDocument = JsonApiDocument<ParsedAddressAttributes>;
+
+// ============================================================================
+// Reverse Geocoding JSON:API Types
+// ============================================================================
+
+/**
+ * Document-level metadata returned by the reverse geocoding endpoint.
+ */
+export type AddressReverseGeocodeMeta = JsonApiMeta & {
+    /** Latitude of the search point */
+    latitude: number;
+    /** Longitude of the search point */
+    longitude: number;
+    /** Search radius in metres */
+    radius: number;
+};
+
+/**
+ * JSON:API document for reverse geocoding responses. `data` holds the nearest
+ * addresses ordered by distance, each with `meta.distance` in metres.
+ */
+export type AddressReverseGeocodeDocument = Omit<
+    JsonApiDocument<AddressDetailAttributes>,
+    "data" | "meta"
+> & {
+    /** The nearest address resources */
+    data: AddressDetailResource[];
+    /** Search point, radius and result counts */
+    meta: AddressReverseGeocodeMeta;
+};
+
+/**
+ * JSON:API document for the secondary addresses of a building's primary
+ * address, ordered by level then flat number.
+ */
+export type AddressSecondariesDocument = Omit<
+    JsonApiDocument<AddressDetailAttributes>,
+    "data"
+> & {
+    /** The secondary address resources */
+    data: AddressDetailResource[];
+};
+
+/**
+ * Metadata describing a retired address.
+ */
+export type AddressRetiredMeta = {
+    /** The date G-NAF retired the address (YYYY-MM-DD) */
+    dateRetired: string;
+    /** The current address that replaced it, when there is one */
+    successorPid?: string;
+};
+
+/**
+ * JSON:API document returned with a redirect from a retired address to its
+ * successor. It has no primary data, only the retirement details in `meta`.
+ */
+export type AddressRedirectDocument = {
+    /** JSON:API implementation information */
+    jsonapi?: JsonApiImplementation;
+    /** Links to the retired address and its successor */
+    links: JsonApiLinks;
+    /** The retirement date and successor */
+    meta: AddressRetiredMeta;
+};
+
+/**
+ * JSON:API document for the other addresses on the same address site as an
+ * address, ordered by level then flat number.
+ */
+export type AddressSiteSiblingsDocument = Omit<
+    JsonApiDocument<AddressDetailAttributes>,
+    "data"
+> & {
+    /** The sibling address resources */
+    data: AddressDetailResource[];
+};
+
 // ============================================================================
 // Locality-Specific JSON:API Types
 // ============================================================================
@@ -441,6 +772,8 @@ export type LocalityAutocompleteAttributes = {
     display: string;
     /** Relevance score from the search query (0-1 normalized) */
     rank: number;
+    /** Alias the search matched, when it did not match the official name */
+    matchedAlias?: string;
 };
 
 /**
@@ -468,6 +801,15 @@ export type LocalityDetailAttributes = {
     postcode?: string;
     /** All postcodes associated with this locality */
     postcodes?: string[];
+    /** Alternative names for this locality (from G-NAF LOCALITY_ALIAS) */
+    aliases?: string[];
+    /** Centre point of the locality (from G-NAF LOCALITY_POINT) */
+    centroid?: {
+        /** Geographic latitude coordinate */
+        latitude: number;
+        /** Geographic longitude coordinate */
+        longitude: number;
+    };
 };
 
 /**
@@ -491,3 +833,150 @@ export type LocalityAutocompleteDocument =
  * JSON:API document for single locality detail responses.
  */
 export type LocalityDetailDocument = JsonApiDocument<LocalityDetailAttributes>;
+
+// ============================================================================
+// Street-Specific JSON:API Types
+// ============================================================================
+
+/**
+ * Minimal street attributes returned by autocomplete endpoint.
+ * Optimized for fast rendering of street suggestions.
+ */
+export type StreetAutocompleteAttributes = {
+    /** Display name for the street (e.g., "GEORGE STREET, SYDNEY NSW 2000") */
+    display: string;
+    /** Relevance score from the search query (0-1 normalized) */
+    rank: number;
+};
+
+/**
+ * Comprehensive street attributes for detailed lookups.
+ * Contains full street locality information from G-NAF.
+ */
+export type StreetDetailAttributes = {
+    /** G-NAF Street Locality Persistent Identifier */
+    streetLocalityPid: string;
+    /** Street name without type or suffix (e.g., "GEORGE") */
+    name: string;
+    /** Display name including locality, state and postcode */
+    display: string;
+    /** Street type (e.g., "STREET", "ROAD") */
+    type?: {
+        code?: string;
+        name?: string;
+    };
+    /** Street suffix (e.g., "NORTH") */
+    suffix?: {
+        code?: string;
+        name?: string;
+    };
+    /** Street classification (e.g., "CONFIRMED") */
+    class?: {
+        code?: string;
+        name?: string;
+    };
+    /** Locality (suburb/town) the street is in */
+    locality?: {
+        localityPid?: string;
+        name?: string;
+    };
+    /** State/territory information */
+    state?: {
+        name?: string;
+        abbreviation?: string;
+    };
+    /** Primary postcode for this street (if available) */
+    postcode?: string;
+    /** All postcodes used by addresses on this street */
+    postcodes?: string[];
+    /** Number of addresses on this street */
+    addressCount: number;
+};
+
+/**
+ * JSON:API resource for street autocomplete results.
+ */
+export type StreetAutocompleteResource =
+    JsonApiResource<StreetAutocompleteAttributes>;
+
+/**
+ * JSON:API resource for detailed street information.
+ */
+export type StreetDetailResource = JsonApiResource<StreetDetailAttributes>;
+
+/**
+ * JSON:API document for street autocomplete responses (array of minimal resources).
+ */
+export type StreetAutocompleteDocument =
+    JsonApiDocument<StreetAutocompleteAttributes>;
+
+/**
+ * JSON:API document for single street detail responses.
+ */
+export type StreetDetailDocument = JsonApiDocument<StreetDetailAttributes>;
+
+// ============================================================================
+// Postcode-Specific JSON:API Types
+// ============================================================================
+
+/**
+ * Minimal postcode attributes returned by autocomplete endpoint.
+ */
+export type PostcodeAutocompleteAttributes = {
+    /** Display name for the postcode with its states (e.g., "2620 ACT, NSW") */
+    display: string;
+    /** Relevance score from the search query (0-1 normalized) */
+    rank: number;
+};
+
+/**
+ * A locality using a postcode.
+ */
+export type PostcodeLocality = {
+    /** G-NAF Locality Persistent Identifier */
+    localityPid: string;
+    /** Locality name (suburb or town name) */
+    name: string;
+    /** State abbreviation of the locality */
+    state: string;
+    /** Number of addresses in the locality with this postcode */
+    addressCount: number;
+};
+
+/**
+ * Comprehensive postcode attributes for detailed lookups.
+ */
+export type PostcodeDetailAttributes = {
+    /** The 4-digit postcode */
+    postcode: string;
+    /** Display name for the postcode with its states (e.g., "2620 ACT, NSW") */
+    display: string;
+    /** States/territories the postcode spans */
+    states: AddressState[];
+    /** Localities using the postcode, busiest first */
+    localities: PostcodeLocality[];
+    /** Number of addresses with this postcode */
+    addressCount: number;
+};
+
+/**
+ * JSON:API resource for postcode autocomplete results.
+ */
+export type PostcodeAutocompleteResource =
+    JsonApiResource<PostcodeAutocompleteAttributes>;
+
+/**
+ * JSON:API resource for detailed postcode information.
+ */
+export type PostcodeDetailResource = JsonApiResource<PostcodeDetailAttributes>;
+
+/**
+ * JSON:API document for postcode autocomplete responses (array of minimal resources).
+ */
+export type PostcodeAutocompleteDocument =
+    JsonApiDocument<PostcodeAutocompleteAttributes>;
+
+/**
+ * JSON:API document for single postcode detail responses.
+ */
+export type PostcodeDetailDocument = JsonApiDocument<PostcodeDetailAttributes>;
@@ -1,3 +1,5 @@
+import type { AddressMeshBlockRecord } from "./gnaf-properties";
+
 /**
  * A mapping of file paths to their expected row counts. This is used to verify
  * that all rows were loaded correctly from the G-NAF data files.
@@ -59,6 +61,78 @@ export type LocalityRow = {
     LOCALITY_CLASS_CODE: string;
 };
 
+/**
+ * Raw locality point record from the LOCALITY_POINT PSV file.
+ * Contains the centre point of a locality.
+ */
+export type LocalityPointRow = {
+    /** Unique identifier for the locality point */
+    LOCALITY_POINT_PID: string;
+    /** Date the point was created */
+    DATE_CREATED: string;
+    /** Date the point was retired (if applicable) */
+    DATE_RETIRED: string;
+    /** The locality the point belongs to */
+    LOCALITY_PID: string;
+    /** Planimetric accuracy of the point */
+    PLANIMETRIC_ACCURACY: string;
+    /** Longitude coordinate */
+    LONGITUDE: string;
+    /** Latitude coordinate */
+    LATITUDE: string;
+};
+
+/**
+ * Raw locality alias record from the LOCALITY_ALIAS PSV file.
+ * Contains alternative (colloquial or historic) names for a locality.
+ */
+export type LocalityAliasRow = {
+    /** Unique identifier for the locality alias */
+    LOCALITY_ALIAS_PID: string;
+    /** The locality the alias refers to */
+    LOCALITY_PID: string;
+    /** The alternative locality name */
+    NAME: string;
+    /** Postcode of the alias (if any) */
+    POSTCODE: string;
+    /** Type code for the alias (e.g., SYN for synonym) */
+    ALIAS_TYPE_CODE: string;
+};
+
+/**
+ * Raw address alias record from the ADDRESS_ALIAS PSV file.
+ * Links an alias address to the principal address for the same property.
+ */
+export type AddressAliasRow = {
+    /** Unique identifier for the address alias */
+    ADDRESS_ALIAS_PID: string;
+    /** The principal address (ADDRESS_DETAIL_PID) */
+    PRINCIPAL_PID: string;
+    /** The alias address (ADDRESS_DETAIL_PID) */
+    ALIAS_PID: string;
+    /** Type code for the alias (e.g., SYN for synonym, RAN for ranged address) */
+    ALIAS_TYPE_CODE: string;
+    /** Optional comment describing the alias */
+    ALIAS_COMMENT: string;
+};
+
+/**
+ * Raw primary/secondary record from the PRIMARY_SECONDARY PSV file.
+ * Links a building's primary address to one of its secondary addresses (units).
+ */
+export type PrimarySecondaryRow = {
+    /** Unique identifier for the primary/secondary link */
+    PRIMARY_SECONDARY_PID: string;
+    /** The primary address (ADDRESS_DETAIL_PID) */
+    PRIMARY_PID: string;
+    /** The secondary address (ADDRESS_DETAIL_PID) */
+    SECONDARY_PID: string;
+    /** Join type code (1 for auto-generated, 2 for manually validated) */
+    PS_JOIN_TYPE_CODE: string;
+    /** Optional comment describing the link */
+    PS_JOIN_COMMENT: string;
+};
+
 /**
  * Raw street locality record from the STREET_LOCALITY PSV file.
  * Contains street information within a locality.
@@ -66,6 +140,8 @@ export type LocalityRow = {
 export type StreetLocalityRow = {
     /** Unique identifier for the street locality */
     STREET_LOCALITY_PID: string;
+    /** Locality (suburb) the street is in */
+    LOCALITY_PID: string;
     /** Name of the street */
     STREET_NAME: string;
     /** Type code for the street (e.g., ROAD, STREET, AVENUE) */
@@ -76,6 +152,79 @@ export type StreetLocalityRow = {
     STREET_SUFFIX_CODE: string;
 };
 
+/**
+ * Raw street locality alias record from the STREET_LOCALITY_ALIAS PSV file.
+ * Contains alternative (former or alternate) names for a street.
+ */
+export type StreetLocalityAliasRow = {
+    /** Unique identifier for the street locality alias */
+    STREET_LOCALITY_ALIAS_PID: string;
+    /** The street locality the alias refers to */
+    STREET_LOCALITY_PID: string;
+    /** The alternative street name */
+    STREET_NAME: string;
+    /** Type code for the alternative street name (e.g., ROAD, STREET) */
+    STREET_TYPE_CODE: string;
+    /** Suffix code for the alternative street name (e.g., N, S) */
+    STREET_SUFFIX_CODE: string;
+    /** Type code for the alias (e.g., SYN for synonym, ALT for alternative) */
+    ALIAS_TYPE_CODE: string;
+};
+
+/**
+ * Raw mesh block record from the MB_2021 PSV file.
+ */
+export type MeshBlockRow = {
+    /** Unique identifier for the mesh block */
+    MB_2021_PID: string;
+    /** ABS 2021 mesh block code */
+    MB_2021_CODE: string;
+};
+
+/**
+ * Raw address mesh block record from the ADDRESS_MESH_BLOCK_2021 PSV file.
+ * Links an address detail to the 2021 mesh block it falls within.
+ */
+export type AddressMeshBlockRow = {
+    /** Unique identifier for the address mesh block link */
+    ADDRESS_MESH_BLOCK_2021_PID: string;
+    /** The address detail */
+    ADDRESS_DETAIL_PID: string;
+    /** How the address was matched to the mesh block (see MB_MATCH_CODE_AUT) */
+    MB_MATCH_CODE: string;
+    /** The mesh block (MB_2021_PID) */
+    MB_2021_PID: string;
+};
+
+/**
+ * Row from the ABS mesh block allocation file (`MB_2021_AUST.csv`).
+ * Places a mesh block within the ASGS statistical area hierarchy.
+ */
+export type MeshBlockAllocationRow = {
+    /** ABS 2021 mesh block code */
+    MB_CODE_2021: string;
+    /** Mesh block category (e.g., Residential, Commercial, Parkland) */
+    MB_CATEGORY_2021: string;
+    /** Statistical Area Level 1 code */
+    SA1_CODE_2021: string;
+    /** Statistical Area Level 2 code */
+    SA2_CODE_2021: string;
+    /** Statistical Area Level 2 name */
+    SA2_NAME_2021: string;
+    /** Statistical Area Level 3 code */
+    SA3_CODE_2021: string;
+    /** Statistical Area Level 3 name */
+    SA3_NAME_2021: string;
+    /** Statistical Area Level 4 code */
+    SA4_CODE_2021: string;
+    /** Statistical Area Level 4 name */
+    SA4_NAME_2021: string;
+    /** Greater Capital City Statistical Area code */
+    GCCSA_CODE_2021: string;
+    /** Greater Capital City Statistical Area name */
+    GCCSA_NAME_2021: string;
+};
+
 /**
  * Context object that accumulates data during the GNAF loading process.
  * This is progressively populated as files are parsed and eventually used
@@ -88,12 +237,28 @@ export type LoadContext = {
     stateName?: string;
     /** Street localities indexed by their PID for fast lookup */
     streetLocalityIndexed?: Record<string, StreetLocalityRow>;
+    /** Street locality aliases indexed by STREET_LOCALITY_PID */
+    streetLocalityAliasIndexed?: Record<string, StreetLocalityAliasRow[]>;
     /** Localities indexed by their PID for fast lookup */
     localityIndexed?: Record<string, LocalityRow>;
+    /** Locality alias names indexed by LOCALITY_PID */
+    localityAliasIndexed?: Record<string, string[]>;
+    /** Locality centre points indexed by LOCALITY_PID */
+    localityPointIndexed?: Record<string, { lat: number; lon: number }>;
+    /** Address aliases indexed by the alias ADDRESS_DETAIL_PID */
+    addressAliasIndexed?: Record<string, AddressAliasRow>;
+    /** Primary ADDRESS_DETAIL_PID indexed by secondary ADDRESS_DETAIL_PID */
+    primaryIndexed?: Record<string, string>;
+    /** Number of secondary addresses indexed by primary ADDRESS_DETAIL_PID */
+    secondaryCountIndexed?: Record<string, number>;
     /** Site geocodes indexed by ADDRESS_SITE_PID for fast lookup */
     geoIndexed?: Record<string, SiteGeocodeRow[]>;
     /** Default geocodes indexed by ADDRESS_DETAIL_PID for fast lookup */
     geoDefaultIndexed?: Record<string, DefaultGeocodeRow[]>;
+    /** Mesh block code and match code indexed by ADDRESS_DETAIL_PID */
+    addressMeshBlockIndexed?: Record<string, AddressMeshBlockRecord>;
+    /** ABS mesh block allocations indexed by mesh block code */
+    meshBlockAllocationIndexed?: Record<string, MeshBlockAllocationRow>;
     /** Dynamic authority code tables loaded from Authority Code files */
     [key: string]: unknown;
 };
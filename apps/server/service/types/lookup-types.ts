@@ -13,6 +13,18 @@ export type AddressHitSource = {
     structured: Record<string, unknown>;
     /** Address confidence score from G-NAF */
     confidence?: number;
+    /** Alternative names of the address's locality */
+    localityAliases?: string[];
+    /** The G-NAF Locality PID of the address's locality */
+    localityPid?: string;
+    /** The building's primary address, for a secondary address */
+    primaryPid?: string;
+    /** Number of secondary addresses, for a building's primary address */
+    secondaryCount?: number;
+    /** The date the address was retired, for a retired address */
+    dateRetired?: string;
+    /** The address's default geocode */
+    location?: { lat: number; lon: number };
 };
 
 /**
@@ -23,8 +35,12 @@ export type AddressSearchHit = {
     _id: string;
     /** Relevance score from the search query */
     _score: number;
+    /** Sort values (e.g. the distance in metres for distance-sorted queries) */
+    sort?: number[];
     /** The source document data */
     _source: AddressHitSource;
+    /** Names of the search clauses the hit matched */
+    matched_queries?: string[];
     /** Highlighted match fragments */
     highlight?: {
         sla?: string[];
@@ -72,11 +88,25 @@ export type GetAddressErrorResponse = {
     json: Record<string, unknown>;
 };
 
+/**
+ * Redirect response from the getAddress function for a retired address that
+ * has a current successor.
+ */
+export type GetAddressRedirectResponse = {
+    /** HTTP status code for the redirect (301) */
+    statusCode: number;
+    /** JSON:API document with the retirement details */
+    json: Record<string, unknown>;
+    /** Path of the successor address, for the Location header */
+    location: string;
+};
+
 /**
  * Union type for all possible getAddress responses.
  */
 export type GetAddressResponse =
     | GetAddressSuccessResponse
+    | GetAddressRedirectResponse
     | GetAddressErrorResponse;
 
 /**
@@ -110,6 +140,120 @@ export type GetAddressesResponse =
     | GetAddressesSuccessResponse
     | GetAddressesErrorResponse;
 
+/**
+ * Successful response from the searchAddresses function containing the
+ * matching autocomplete suggestions as a JSON:API document.
+ */
+export type SearchAddressesSuccessResponse = {
+    /** JSON:API document containing the search results */
+    json: Record<string, unknown>;
+};
+
+/**
+ * Union type for all possible searchAddresses responses.
+ */
+export type SearchAddressesResponse =
+    | SearchAddressesSuccessResponse
+    | GetAddressErrorResponse;
+
+/**
+ * Successful response from the validateAddress function containing the best
+ * match and per-component verdicts as a JSON:API document.
+ */
+export type ValidateAddressSuccessResponse = {
+    /** JSON:API document containing the validation result */
+    json: Record<string, unknown>;
+};
+
+/**
+ * Union type for all possible validateAddress responses.
+ */
+export type ValidateAddressResponse =
+    | ValidateAddressSuccessResponse
+    | GetAddressErrorResponse;
+
+/**
+ * Successful response from the validateAddressBatch function containing one
+ * result per input as a JSON:API document.
+ */
+export type ValidateAddressBatchSuccessResponse = {
+    /** JSON:API document containing the batch results */
+    json: Record<string, unknown>;
+};
+
+/**
+ * Union type for all possible validateAddressBatch responses.
+ */
+export type ValidateAddressBatchResponse =
+    | ValidateAddressBatchSuccessResponse
+    | GetAddressErrorResponse;
+
+/**
+ * Successful response from the getParsedAddress function containing the
+ * parsed address components as a JSON:API document.
+ */
+export type GetParsedAddressSuccessResponse = {
+    /** JSON:API document containing the parsed address */
+    json: Record<string, unknown>;
+};
+
+/**
+ * Union type for all possible getParsedAddress responses.
+ */
+export type GetParsedAddressResponse =
+    | GetParsedAddressSuccessResponse
+    | GetAddressErrorResponse;
+
+/**
+ * Successful response from the reverseGeocode function containing the nearest
+ * addresses as a JSON:API document.
+ */
+export type ReverseGeocodeSuccessResponse = {
+    /** JSON:API document containing the nearest addresses */
+    json: Record<string, unknown>;
+};
+
+/**
+ * Union type for all possible reverseGeocode responses.
+ */
+export type ReverseGeocodeResponse =
+    | ReverseGeocodeSuccessResponse
+    | GetAddressErrorResponse;
+
+/**
+ * Successful response from the getAddressSecondaries function containing a
+ * page of secondary addresses as a JSON:API document.
+ */
+export type GetAddressSecondariesSuccessResponse = {
+    /** JSON:API document containing the secondary addresses */
+    json: Record<string, unknown>;
+};
+
+/**
+ * Union type for all possible getAddressSecondaries responses.
+ */
+export type GetAddressSecondariesResponse =
+    | GetAddressSecondariesSuccessResponse
+    | GetAddressRedirectResponse
+    | GetAddressErrorResponse;
+
+/**
+ * Successful response from the getAddressSiteSiblings function containing a
+ * page of the addresses sharing an address site as a JSON:API document.
+ */
+export type GetAddressSiteSiblingsSuccessResponse = {
+    /** JSON:API document containing the sibling addresses */
+    json: Record<string, unknown>;
+};
+
+/**
+ * Union type for all possible getAddressSiteSiblings responses.
+ */
+export type GetAddressSiteSiblingsResponse =
+    | GetAddressSiteSiblingsSuccessResponse
+    | GetAddressRedirectResponse
+    | GetAddressErrorResponse;
+
 /**
  * Swagger/OpenAPI operation object for API documentation linkage.
  */
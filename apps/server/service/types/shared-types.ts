@@ -38,3 +38,60 @@ export type SearchForAddressResult = {
     size: number;
     totalHits: number;
 };
+
+/**
+ * Address search grouping modes. `building` collapses the units of a building
+ * into a single suggestion for the building's primary address.
+ */
+export type AddressSearchGroup = "building";
+
+/**
+ * Address search query modes. `standard` stacks prefix, phrase prefix and
+ * fuzzy matching; `edge-ngram` matches the indexed edge n-gram subfields.
+ */
+export type AddressSearchMode = "standard" | "edge-ngram";
+
+/**
+ * Raw address search filters as supplied by the caller (query string
+ * `filter[...]` parameters or a POSTed `filter` object), before validation.
+ */
+export type AddressFilterInput = {
+    /** Radius filter as "lat,lon,radius" (radius in metres) */
+    near?: unknown;
+    /** Bounding box filter as "minLon,minLat,maxLon,maxLat" */
+    bbox?: unknown;
+    /** GeoJSON Polygon geometry (or a Feature wrapping one) */
+    polygon?: unknown;
+    /** State or territory abbreviation, e.g. "NSW" */
+    state?: unknown;
+    /** Four-digit postcode */
+    postcode?: unknown;
+    /** G-NAF locality PID */
+    localityPid?: unknown;
+    /** Lowest G-NAF address confidence to include (-1 to 2) */
+    minConfidence?: unknown;
+    /** Lot/plan identifier of the land parcel, e.g. "1/DP12345" */
+    legalParcelId?: unknown;
+};
+
+/**
+ * Validated address search filters, applied alongside the `q` scoring.
+ */
+export type AddressFilters = {
+    /** Only addresses within `radius` metres of the point */
+    near?: { lat: number; lon: number; radius: number };
+    /** Only addresses inside the bounding box */
+    bbox?: { minLon: number; minLat: number; maxLon: number; maxLat: number };
+    /** Only addresses inside the polygon's exterior ring, as [lon, lat] positions */
+    polygon?: [number, number][];
+    /** Only addresses in the state, as an uppercase abbreviation */
+    state?: string;
+    /** Only addresses with the postcode */
+    postcode?: string;
+    /** Only addresses in the locality */
+    localityPid?: string;
+    /** Only addresses with at least this G-NAF confidence */
+    minConfidence?: number;
+    /** Only addresses on the land parcel, as an uppercase lot/plan identifier */
+    legalParcelId?: string;
+};
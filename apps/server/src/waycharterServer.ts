@@ -11,11 +11,70 @@ import { load as loadYaml } from "js-yaml";
 import * as swaggerUi from "swagger-ui-express";
 import {
     getAddress,
+    getAddressPrimary,
+    getAddressSecondaries,
+    getAddressSiteSiblings,
+    getIncludedLocalities,
     getLocality,
+    getParsedAddress,
+    getPostcode,
+    getStreet,
+    reverseGeocode,
+    searchAddresses,
     searchForAddress,
     searchForLocality,
+    searchForPostcode,
+    searchForStreet,
+    suggestAddressSearches,
+    suggestLocalitySearches,
+    validateAddress,
+    validateAddressBatch,
 } from "../service";
 import { VERBOSE } from "../service/config";
+import {
+    AddressFilterError,
+    getAddressFilterParams,
+    parseAddressFilters,
+} from "../service/helpers/addressFilters";
+import {
+    GEOJSON_CONTENT_TYPE,
+    buildAddressSuggestionFeature,
+    buildFeatureCollection,
+    getResponseFormat,
+} from "../service/helpers/geojson";
+import { getAddressHighlights } from "../service/helpers/highlights";
+import {
+    ADDRESS_INCLUDES,
+    IncludeError,
+    parseInclude,
+} from "../service/helpers/includes";
+import {
+    ErrorDocuments,
+    JSONAPI_CONTENT_TYPE,
+} from "../service/helpers/jsonapi";
+import { getMatchedAlias } from "../service/helpers/localityAliases";
+import { isMatchedByRange } from "../service/helpers/numberRanges";
+import { buildSearchSuggestions } from "../service/helpers/searchSuggestions";
+import {
+    ADDRESS_SUGGESTION_FIELD_SOURCES,
+    LOCALITY_FIELD_SOURCES,
+    LOCALITY_SUGGESTION_FIELD_SOURCES,
+    SparseFieldsetError,
+    applySparseFieldset,
+    getSparseFieldsetParams,
+    getSparseSourceFilter,
+    parseSparseFieldset,
+} from "../service/helpers/sparseFieldsets";
+import type {
+    AddressFilterInput,
+    AddressFilters,
+    AddressSuggestionHighlights,
+    GeoJsonFeatureCollection,
+    JsonApiErrorDocument,
+    LocalityDetailResource,
+    ResponseFormat,
+    SearchSuggestion,
+} from "../service/types";
 
 /**
  * The result of a get address request.
@@ -24,6 +83,7 @@ type GetAddressResult = {
     json: unknown;
     hash: string;
     statusCode?: number;
+    location?: string;
 };
 
 /**
@@ -35,7 +95,12 @@ type AddressSearchHit = {
     _source: {
         sla: string;
         ssla?: string;
+        localityAliases?: string[];
+        localityPid?: string;
+        secondaryCount?: number;
+        location?: { lat: number; lon: number };
     };
+    matched_queries?: string[];
     highlight?: {
         sla?: string[];
         ssla?: string[];
@@ -71,6 +136,21 @@ type AddressSuggestionResource = {
         sla: string;
         ssla?: string;
         rank: number;
+        matchedAlias?: string;
+    };
+    relationships?: {
+        secondaries?: {
+            links: { related: string };
+            meta: { count: number };
+        };
+        locality?: {
+            data: { type: "locality"; id: string };
+            links: { related: string };
+        };
+    };
+    meta?: {
+        highlights?: AddressSuggestionHighlights;
+        matchedByRange?: boolean;
     };
     links: {
         self: string;
@@ -83,6 +163,7 @@ type AddressSuggestionResource = {
 type AddressAutocompleteDocument = {
     jsonapi: { version: string };
     data: AddressSuggestionResource[];
+    included?: LocalityDetailResource[];
     links: {
         self: string;
         first?: string;
@@ -95,9 +176,17 @@ type AddressAutocompleteDocument = {
         page: number;
         pageSize: number;
         totalPages: number;
+        suggestions?: SearchSuggestion[];
     };
 };
 
+/**
+ * The GeoJSON representation of the address collection.
+ */
+type AddressFeatureCollection = GeoJsonFeatureCollection<
+    AddressSuggestionResource["attributes"]
+>;
+
 /**
  * The address loader parameters.
  */
@@ -129,7 +218,9 @@ type LocalitySearchHit = {
         postcodes?: string[];
         classCode?: string;
         className?: string;
+        aliases?: string[];
     };
+    matched_queries?: string[];
 };
 
 /**
@@ -141,6 +232,7 @@ type LocalitySuggestionResource = {
     attributes: {
         display: string;
         rank: number;
+        matchedAlias?: string;
     };
     links: {
         self: string;
@@ -165,6 +257,7 @@ type LocalityAutocompleteDocument = {
         page: number;
         pageSize: number;
         totalPages: number;
+        suggestions?: SearchSuggestion[];
     };
 };
 
@@ -183,6 +276,191 @@ type LocalityCollectionParams = Record<string, string | number | undefined> & {
     q?: string;
 };
 
+/**
+ * The street search hit.
+ */
+type StreetSearchHit = {
+    _id: string;
+    _score: number;
+    _source: {
+        display: string;
+        name: string;
+        streetLocalityPid: string;
+    };
+};
+
+/**
+ * JSON:API resource for a street autocomplete suggestion.
+ */
+type StreetSuggestionResource = {
+    type: "street-suggestion";
+    id: string;
+    attributes: {
+        display: string;
+        rank: number;
+    };
+    links: {
+        self: string;
+    };
+};
+
+/**
+ * JSON:API document for street autocomplete results.
+ */
+type StreetAutocompleteDocument = {
+    jsonapi: { version: string };
+    data: StreetSuggestionResource[];
+    links: {
+        self: string;
+        first?: string;
+        prev?: string | null;
+        next?: string | null;
+        last?: string;
+    };
+    meta: {
+        total: number;
+        page: number;
+        pageSize: number;
+        totalPages: number;
+    };
+};
+
+/**
+ * The street loader parameters.
+ */
+type StreetLoaderParams = Record<string, string | number | undefined> & {
+    streetLocalityPid?: string;
+};
+
+/**
+ * The street collection parameters.
+ */
+type StreetCollectionParams = Record<string, string | number | undefined> & {
+    page?: number | string;
+    q?: string;
+};
+
+/**
+ * The postcode search hit.
+ */
+type PostcodeSearchHit = {
+    _id: string;
+    _score: number;
+    _source: {
+        display: string;
+        postcode: string;
+    };
+};
+
+/**
+ * JSON:API resource for a postcode autocomplete suggestion.
+ */
+type PostcodeSuggestionResource = {
+    type: "postcode-suggestion";
+    id: string;
+    attributes: {
+        display: string;
+        rank: number;
+    };
+    links: {
+        self: string;
+    };
+};
+
+/**
+ * JSON:API document for postcode autocomplete results.
+ */
+type PostcodeAutocompleteDocument = {
+    jsonapi: { version: string };
+    data: PostcodeSuggestionResource[];
+    links: {
+        self: string;
+        first?: string;
+        prev?: string | null;
+        next?: string | null;
+        last?: string;
+    };
+    meta: {
+        total: number;
+        page: number;
+        pageSize: number;
+        totalPages: number;
+    };
+};
+
+/**
+ * The postcode loader parameters.
+ */
+type PostcodeLoaderParams = Record<string, string | number | undefined> & {
+    postcode?: string;
+};
+
+/**
+ * The postcode collection parameters.
+ */
+type PostcodeCollectionParams = Record<string, string | number | undefined> & {
+    page?: number | string;
+    q?: string;
+};
+
+/**
+ * The result of a validate address request.
+ */
+type ValidateAddressResult = {
+    json: unknown;
+    statusCode?: number;
+};
+
+/**
+ * The result of a parse address request.
+ */
+type ParseAddressResult = {
+    json: unknown;
+    statusCode?: number;
+};
+
+/**
+ * The result of a search addresses request.
+ */
+type SearchAddressesResult = {
+    json: unknown;
+    statusCode?: number;
+};
+
+/**
+ * The result of a batch address validation request.
+ */
+type ValidateAddressBatchResult = {
+    json: unknown;
+    statusCode?: number;
+};
+
+/**
+ * The result of a reverse geocode request.
+ */
+type ReverseGeocodeResult = {
+    json: unknown;
+    statusCode?: number;
+};
+
+/**
+ * The result of a get address secondaries request.
+ */
+type GetAddressSecondariesResult = {
+    json: unknown;
+    statusCode?: number;
+    location?: string;
+};
+
+/**
+ * The result of a get address site siblings request.
+ */
+type GetAddressSiteSiblingsResult = {
+    json: unknown;
+    statusCode?: number;
+    location?: string;
+};
+
 /**
  * The result of a get locality request.
  */
@@ -192,6 +470,24 @@ type GetLocalityResult = {
     statusCode?: number;
 };
 
+/**
+ * The result of a get street request.
+ */
+type GetStreetResult = {
+    json: unknown;
+    hash: string;
+    statusCode?: number;
+};
+
+/**
+ * The result of a get postcode request.
+ */
+type GetPostcodeResult = {
+    json: unknown;
+    hash: string;
+    statusCode?: number;
+};
+
 const app = express();
 
 const ONE_DAY = 60 * 60 * 24;
@@ -209,6 +505,17 @@ let server: Server | undefined;
 // PAGE_SIZE is set once at boot so pagination remains stable for the process lifetime.
 const pageSize = Number(process.env.PAGE_SIZE ?? 8);
 
+// JSON bodies are accepted with either the plain or the JSON:API media type.
+const parseJsonBody = express.json({
+    type: ["application/json", JSONAPI_CONTENT_TYPE],
+});
+
+// Batch bodies carry many addresses, so they may exceed the default 100kb limit.
+const parseBatchJsonBody = express.json({
+    type: ["application/json", JSONAPI_CONTENT_TYPE],
+    limit: "1mb",
+});
+
 /**
  * Appends configured CORS headers so the API can be consumed by trusted origins.
  *
@@ -255,15 +562,25 @@ function appendCorsHeaders(
  *
  * @param {AddressSearchHit} hit - Search hit returned by the backing index.
  * @param {number} maxScore - The maximum score for normalization.
+ * @param {string} search - The search string the hit was found for.
  * @returns {AddressSuggestionResource} JSON:API resource for autocomplete.
  */
 function mapSearchHitToResource(
     hit: AddressSearchHit,
     maxScore: number,
+    search: string,
 ): AddressSuggestionResource {
     const addressId = hit._id.replace("/addresses/", "");
     // Normalize score to 0-1 range relative to the best match
     const normalizedRank = maxScore > 0 ? hit._score / maxScore : 0;
+    const matchedAlias = getMatchedAlias(
+        search,
+        hit._source.localityAliases,
+        hit.matched_queries,
+    );
+    const highlights = getAddressHighlights(hit.highlight);
+    const matchedByRange = isMatchedByRange(hit.matched_queries);
+    const { secondaryCount, localityPid } = hit._source;
 
     return {
         type: "address-suggestion",
@@ -272,7 +589,32 @@ function mapSearchHitToResource(
             sla: hit._source.sla,
             ...(hit._source.ssla && { ssla: hit._source.ssla }),
             rank: Math.round(normalizedRank * 100) / 100,
+            ...(matchedAlias !== undefined && { matchedAlias }),
         },
+        ...((secondaryCount !== undefined || localityPid !== undefined) && {
+            relationships: {
+                ...(secondaryCount !== undefined && {
+                    secondaries: {
+                        links: {
+                            related: `/addresses/${addressId}/secondaries`,
+                        },
+                        meta: { count: secondaryCount },
+                    },
+                }),
+                ...(localityPid !== undefined && {
+                    locality: {
+                        data: { type: "locality" as const, id: localityPid },
+                        links: { related: `/localities/${localityPid}` },
+                    },
+                }),
+            },
+        }),
+        ...((highlights !== undefined || matchedByRange) && {
+            meta: {
+                ...(highlights !== undefined && { highlights }),
+                ...(matchedByRange && { matchedByRange }),
+            },
+        }),
         links: {
             self: `/addresses/${addressId}`,
         },
@@ -283,10 +625,18 @@ function mapSearchHitToResource(
  * Loads a single address resource by its persistent identifier.
  *
  * @param {AddressLoaderParams} params - Parameters supplied by WayCharter containing the PID.
+ * @param {Record<string, string>} _headers - Filtered request headers (unused).
+ * @param {string} _selfUri - The request URI (unused).
+ * @param {Request} request - The Express request, used to read the `fields[...]` and `include` parameters.
  * @returns {Promise<{ body: unknown; headers: Record<string, string>; status: number; }>} Payload ready for WayCharter response handling.
  * @throws {Error} When a PID is not provided.
  */
-async function loadAddressItem({ pid }: AddressLoaderParams): Promise<{
+async function loadAddressItem(
+    { pid }: AddressLoaderParams,
+    _headers: Record<string, string>,
+    _selfUri: string,
+    request: Request,
+): Promise<{
     body: unknown;
     headers: Record<string, string>;
     status: number;
@@ -296,17 +646,35 @@ async function loadAddressItem({ pid }: AddressLoaderParams): Promise<{
         throw new Error("Address PID is required to load a record.");
     }
 
-    // Get the address from the Elasticsearch index.
-    const { json, hash, statusCode } = (await getAddress(
+    // Get the address from the Elasticsearch index, as GeoJSON when asked for.
+    const format = getResponseFormat(request);
+    const { json, hash, statusCode, location } = (await getAddress(
         pid,
+        readFieldsParam(request, "address"),
+        request.query.include,
+        readFieldsParam(request, "locality"),
+        format,
     )) as GetAddressResult;
 
+    // Retired addresses with a current successor redirect to it.
+    if (location !== undefined) {
+        return {
+            body: json,
+            headers: {
+                location,
+                "cache-control": `public, max-age=${ONE_WEEK}`,
+            },
+            status: statusCode ?? 301,
+        };
+    }
+
     // Return the address body, headers, and status code.
     return {
         body: json,
         headers: {
             etag: `"${version}-${hash}"`,
             "cache-control": `public, max-age=${ONE_WEEK}`,
+            ...getRepresentationHeaders(format, statusCode),
         },
         status: statusCode ?? 200,
     };
@@ -317,15 +685,28 @@ async function loadAddressItem({ pid }: AddressLoaderParams): Promise<{
  * Returns a JSON:API formatted document.
  *
  * @param {AddressCollectionParams} params - Pagination and query parameters from WayCharter.
- * @returns {Promise<{ body: AddressAutocompleteDocument; hasMore: boolean; headers: Record<string, string>; }>} JSON:API collection response.
+ * @param {Record<string, string>} _headers - Filtered request headers (unused).
+ * @param {string} _selfUri - The request URI (unused).
+ * @param {Request} request - The Express request, used to read `filter[...]` parameters and the `Accept` header.
+ * @returns {Promise<{ body: AddressAutocompleteDocument | AddressFeatureCollection | JsonApiErrorDocument; hasMore: boolean; headers: Record<string, string>; status?: number; }>} JSON:API (or GeoJSON) collection response.
  * @throws {Error} When the provided page value cannot be parsed as a number.
  */
-async function loadAddressCollection(params: AddressCollectionParams): Promise<{
-    body: AddressAutocompleteDocument;
+async function loadAddressCollection(
+    params: AddressCollectionParams,
+    _headers: Record<string, string>,
+    _selfUri: string,
+    request: Request,
+): Promise<{
+    body:
+        | AddressAutocompleteDocument
+        | AddressFeatureCollection
+        | JsonApiErrorDocument;
     hasMore: boolean;
     headers: Record<string, string>;
+    status?: number;
 }> {
     const { page, q } = params;
+    const format = getResponseFormat(request);
 
     // Accept numeric strings from query params while rejecting non-numeric input.
     const resolvedPage = Number(page ?? 0);
@@ -333,17 +714,112 @@ async function loadAddressCollection(params: AddressCollectionParams): Promise<{
         throw new Error("Search page value must be numeric.");
     }
 
+    // Validate the `filter[...]` parameters, which WayCharter does not pass through.
+    let filters: AddressFilters;
+    try {
+        filters = parseAddressFilters(pickQueryFilters(request.query.filter));
+    } catch (filterError: unknown) {
+        if (!(filterError instanceof AddressFilterError)) throw filterError;
+        return {
+            body: ErrorDocuments.badRequest(
+                filterError.message,
+                filterError.parameter,
+            ),
+            hasMore: false,
+            headers: {},
+            status: 400,
+        };
+    }
+
+    // Validate the suggestions' fieldset, the `include` parameter and the
+    // fieldset of included localities.
+    let addressFields: string[] | undefined;
+    let includes: string[] | undefined;
+    let localityFields: string[] | undefined;
+    try {
+        addressFields = parseSparseFieldset(
+            readFieldsParam(request, "address"),
+            "address",
+            ADDRESS_SUGGESTION_FIELD_SOURCES,
+        );
+        includes = parseInclude(request.query.include, ADDRESS_INCLUDES);
+        localityFields = parseSparseFieldset(
+            readFieldsParam(request, "locality"),
+            "locality",
+            LOCALITY_FIELD_SOURCES,
+        );
+    } catch (includeError: unknown) {
+        if (
+            !(includeError instanceof IncludeError) &&
+            !(includeError instanceof SparseFieldsetError)
+        ) {
+            throw includeError;
+        }
+        return {
+            body: ErrorDocuments.badRequest(
+                includeError.message,
+                includeError.parameter,
+            ),
+            hasMore: false,
+            headers: {},
+            status: 400,
+        };
+    }
+
+    // Only grouping by building is supported.
+    const { group } = request.query;
+    if (group !== undefined && group !== "building") {
+        return {
+            body: ErrorDocuments.badRequest(
+                "The 'group' query parameter must be 'building'.",
+                "group",
+            ),
+            hasMore: false,
+            headers: {},
+            status: 400,
+        };
+    }
+
     // Build base URL for pagination links
-    const baseUrl = `/addresses${q ? `?q=${encodeURIComponent(q)}` : ""}`;
+    const searchQuery = [
+        ...(q ? [`q=${encodeURIComponent(q)}`] : []),
+        ...Object.entries(getAddressFilterParams(filters)).map(
+            ([name, value]) => `filter[${name}]=${encodeURIComponent(value)}`,
+        ),
+        ...(group !== undefined ? [`group=${group}`] : []),
+        ...Object.entries(
+            getSparseFieldsetParams("address", addressFields),
+        ).map(([name, value]) => `${name}=${encodeURIComponent(value)}`),
+        ...(includes !== undefined ? [`include=${includes.join(",")}`] : []),
+        ...Object.entries(
+            getSparseFieldsetParams("locality", localityFields),
+        ).map(([name, value]) => `${name}=${encodeURIComponent(value)}`),
+    ].join("&");
+    const baseUrl = `/addresses${q || filters.legalParcelId !== undefined ? `?${searchQuery}` : ""}`;
 
     // If the query is defined and longer than 2 characters, search for addresses.
-    if (q && q.length > 2) {
+    // A legal parcel lookup needs no query, as the parcel alone is selective.
+    if ((q && q.length > 2) || filters.legalParcelId !== undefined) {
         logger("Searching for addresses with query:", q);
         // Query length guard prevents expensive searches on very short strings.
+        // A fieldset fetches only the fields the suggestions need, plus those
+        // used to group them, include their localities and position features.
         const searchResult = (await searchForAddress(
-            q,
+            q ?? "",
             resolvedPage + 1,
             pageSize,
+            filters,
+            group,
+            undefined,
+            getSparseSourceFilter(
+                addressFields,
+                ADDRESS_SUGGESTION_FIELD_SOURCES,
+                [
+                    ...(group === "building" ? ["primaryPid"] : []),
+                    ...(includes?.includes("locality") ? ["localityPid"] : []),
+                    ...(format === "geojson" ? ["location"] : []),
+                ],
+            ),
         )) as unknown as SearchForAddressResult;
 
         // Extract hits from the nested searchResponse structure
@@ -355,13 +831,57 @@ async function loadAddressCollection(params: AddressCollectionParams): Promise<{
         // Get max score for normalization (first hit typically has highest score)
         const maxScore = hits.length > 0 ? hits[0]._score : 1;
 
-        // Map the search hits to JSON:API resources
-        const data = hits.map((hit) => mapSearchHitToResource(hit, maxScore));
+        // Map the search hits to JSON:API resources, trimmed to the fieldset
+        const data = hits.map(
+            (hit) =>
+                applySparseFieldset(
+                    mapSearchHitToResource(hit, maxScore, q ?? ""),
+                    addressFields,
+                ) as AddressSuggestionResource,
+        );
+
+        // Fetch the suggestions' localities when they are included
+        const included =
+            format === "jsonapi" && includes?.includes("locality")
+                ? await getIncludedLocalities(
+                      hits.map((hit) => hit._source.localityPid),
+                      localityFields,
+                  )
+                : undefined;
+
+        // Offer corrected searches when nothing matched
+        const suggestions =
+            totalHits === 0 && q
+                ? buildSearchSuggestions(
+                      await suggestAddressSearches(q, filters),
+                      "/addresses",
+                      {
+                          ...Object.fromEntries(
+                              Object.entries(
+                                  getAddressFilterParams(filters),
+                              ).map(([name, value]) => [
+                                  `filter[${name}]`,
+                                  value,
+                              ]),
+                          ),
+                          ...(group !== undefined && { group }),
+                          ...getSparseFieldsetParams("address", addressFields),
+                          ...(includes !== undefined && {
+                              include: includes.join(","),
+                          }),
+                          ...getSparseFieldsetParams(
+                              "locality",
+                              localityFields,
+                          ),
+                      },
+                  )
+                : [];
 
         // Build JSON:API document
         const jsonApiDocument: AddressAutocompleteDocument = {
             jsonapi: { version: "1.1" },
             data,
+            ...(included !== undefined && { included }),
             links: {
                 self: `${baseUrl}${currentPage > 1 ? `&page[number]=${currentPage}` : ""}`,
                 first: baseUrl,
@@ -386,21 +906,38 @@ async function loadAddressCollection(params: AddressCollectionParams): Promise<{
                 page: currentPage,
                 pageSize,
                 totalPages,
+                ...(suggestions.length > 0 && { suggestions }),
             },
         };
 
+        // GeoJSON clients get the suggestions as features at their geocodes.
+        const body =
+            format === "geojson"
+                ? buildFeatureCollection(
+                      data.map((resource, index) =>
+                          buildAddressSuggestionFeature(
+                              resource,
+                              hits[index]._source.location,
+                          ),
+                      ),
+                      jsonApiDocument.links,
+                      jsonApiDocument.meta,
+                  )
+                : jsonApiDocument;
+
         // Create a hash of the body to use as the ETag.
         const responseHash = createHash("md5")
-            .update(JSON.stringify(jsonApiDocument))
+            .update(JSON.stringify(body))
             .digest("hex");
 
-        // Return the JSON:API document, hasMore, and headers.
+        // Return the document, hasMore, and headers.
         return {
-            body: jsonApiDocument,
+            body,
             hasMore: currentPage < totalPages,
             headers: {
                 etag: `"${version}-${responseHash}"`,
                 "cache-control": `public, max-age=${ONE_WEEK}`,
+                ...getRepresentationHeaders(format),
             },
         };
     }
@@ -421,73 +958,483 @@ async function loadAddressCollection(params: AddressCollectionParams): Promise<{
     };
 
     return {
-        body: emptyDocument,
+        body:
+            format === "geojson"
+                ? buildFeatureCollection(
+                      [],
+                      emptyDocument.links,
+                      emptyDocument.meta,
+                  )
+                : emptyDocument,
         hasMore: false,
         headers: {
-            etag: `"${version}"`,
+            etag:
+                format === "geojson" ? `"${version}-geojson"` : `"${version}"`,
             "cache-control": `public, max-age=${ONE_WEEK}`,
+            ...getRepresentationHeaders(format),
         },
     };
 }
 
 /**
- * Maps a raw locality search hit into a JSON:API autocomplete resource.
+ * Picks the query-string filters from a parsed `filter[...]` query parameter.
+ * Polygons are only accepted in a request body.
  *
- * @param {LocalitySearchHit} hit - Search hit returned by the backing index.
- * @param {number} maxScore - The maximum score for normalization.
- * @returns {LocalitySuggestionResource} JSON:API resource for autocomplete.
+ * @param {unknown} filter - The parsed `filter` query parameter.
+ * @returns {AddressFilterInput | undefined} The raw filters, if any were supplied.
  */
-function mapLocalitySearchHitToResource(
-    hit: LocalitySearchHit,
-    maxScore: number,
-): LocalitySuggestionResource {
-    const localityId = hit._id.replace("/localities/", "");
-    // Normalize score to 0-1 range relative to the best match
-    const normalizedRank = maxScore > 0 ? hit._score / maxScore : 0;
-
+function pickQueryFilters(filter: unknown): AddressFilterInput | undefined {
+    if (typeof filter !== "object" || filter === null) return undefined;
+    const {
+        near,
+        bbox,
+        state,
+        postcode,
+        localityPid,
+        minConfidence,
+        legalParcelId,
+    } = filter as AddressFilterInput;
     return {
-        type: "locality-suggestion",
-        id: localityId,
-        attributes: {
-            display: hit._source.display,
-            rank: Math.round(normalizedRank * 100) / 100,
-        },
-        links: {
-            self: `/localities/${localityId}`,
-        },
+        near,
+        bbox,
+        state,
+        postcode,
+        localityPid,
+        minConfidence,
+        legalParcelId,
     };
 }
 
 /**
- * Loads a single locality resource by its persistent identifier.
+ * Searches for addresses with filters supplied in the request body as
+ * `{ "q": "...", "filter": { "near", "bbox", "polygon" } }`. Results depend on
+ * the request body, so they are never cached.
  *
- * @param {LocalityLoaderParams} params - Parameters supplied by WayCharter containing the locality PID.
- * @returns {Promise<{ body: unknown; headers: Record<string, string>; status: number; }>} Payload ready for WayCharter response handling.
- * @throws {Error} When a locality PID is not provided.
+ * @param {Request} request - The incoming Express request with a parsed JSON body.
+ * @param {Response} response - The Express response used to send the JSON:API document.
+ * @returns {Promise<void>} Resolves once the response has been written.
  */
-async function loadLocalityItem({
-    localityPid,
-}: LocalityLoaderParams): Promise<{
-    body: unknown;
-    headers: Record<string, string>;
-    status: number;
-}> {
-    // Fail fast when a locality PID is missing to avoid an opaque 500 from downstream services.
-    if (typeof localityPid !== "string" || localityPid.length === 0) {
-        throw new Error("Locality PID is required to load a record.");
-    }
+async function handleSearchAddresses(
+    request: Request,
+    response: Response,
+): Promise<void> {
+    const body = request.body as { q?: unknown; filter?: unknown } | undefined;
+    const q = typeof body?.q === "string" ? body.q : undefined;
+    const filter =
+        typeof body?.filter === "object" && body.filter !== null
+            ? (body.filter as AddressFilterInput)
+            : undefined;
+
+    // Pagination params were converted to WayCharter's 0-indexed form.
+    const page = Number(request.query.page ?? 0);
+
+    // Search the Elasticsearch index within the filters.
+    const { json, statusCode } = (await searchAddresses(
+        q,
+        Number.isFinite(page) ? page + 1 : 1,
+        filter,
+    )) as SearchAddressesResult;
+
+    response
+        .status(statusCode ?? 200)
+        .set("cache-control", "no-store")
+        .type(JSONAPI_CONTENT_TYPE)
+        .json(json);
+}
 
-    // Get the locality from the Elasticsearch index.
-    const { json, hash, statusCode } = (await getLocality(
-        localityPid,
-    )) as GetLocalityResult;
+/**
+ * Validates a free-text address supplied in the request body as `{ "q": "..." }`.
+ * Validation results depend on the request body, so they are never cached.
+ *
+ * @param {Request} request - The incoming Express request with a parsed JSON body.
+ * @param {Response} response - The Express response used to send the JSON:API document.
+ * @returns {Promise<void>} Resolves once the response has been written.
+ */
+async function handleValidateAddress(
+    request: Request,
+    response: Response,
+): Promise<void> {
+    const body = request.body as { q?: unknown } | undefined;
+    const q = typeof body?.q === "string" ? body.q : undefined;
+
+    // Validate the address against the Elasticsearch index.
+    const { json, statusCode } = (await validateAddress(
+        q,
+    )) as ValidateAddressResult;
+
+    response
+        .status(statusCode ?? 200)
+        .set("cache-control", "no-store")
+        .type(JSONAPI_CONTENT_TYPE)
+        .json(json);
+}
 
-    // Return the locality body, headers, and status code.
-    return {
+/**
+ * Validates a batch of addresses supplied in the request body as
+ * `{ "items": [{ "q": "..." }, { "pid": "..." }] }`. Results depend on the
+ * request body, so they are never cached.
+ *
+ * @param {Request} request - The incoming Express request with a parsed JSON body.
+ * @param {Response} response - The Express response used to send the JSON:API document.
+ * @returns {Promise<void>} Resolves once the response has been written.
+ */
+async function handleValidateAddressBatch(
+    request: Request,
+    response: Response,
+): Promise<void> {
+    const body = request.body as { items?: unknown } | undefined;
+
+    // Validate every item against the Elasticsearch index in bulk.
+    const { json, statusCode } = (await validateAddressBatch(
+        body?.items,
+    )) as ValidateAddressBatchResult;
+
+    response
+        .status(statusCode ?? 200)
+        .set("cache-control", "no-store")
+        .type(JSONAPI_CONTENT_TYPE)
+        .json(json);
+}
+
+/**
+ * Parses a free-text address supplied as the `q` query parameter into its
+ * components. Successful parses are cacheable, keyed on the response body.
+ *
+ * @param {Request} request - The incoming Express request.
+ * @param {Response} response - The Express response used to send the JSON:API document.
+ * @returns {Promise<void>} Resolves once the response has been written.
+ */
+async function handleParseAddress(
+    request: Request,
+    response: Response,
+): Promise<void> {
+    const q = typeof request.query.q === "string" ? request.query.q : undefined;
+
+    // Parse the address using the authority codes stored in the index.
+    const { json, statusCode } = (await getParsedAddress(
+        q,
+    )) as ParseAddressResult;
+
+    if (statusCode === undefined) {
+        // Create a hash of the body to use as the ETag.
+        const responseHash = createHash("md5")
+            .update(JSON.stringify(json))
+            .digest("hex");
+        response
+            .set("etag", `"${version}-${responseHash}"`)
+            .set("cache-control", `public, max-age=${ONE_DAY}`);
+    }
+
+    response
+        .status(statusCode ?? 200)
+        .type(JSONAPI_CONTENT_TYPE)
+        .json(json);
+}
+
+/**
+ * Reads an optional numeric query parameter, leaving invalid values as NaN so
+ * the service can reject them.
+ *
+ * @param {unknown} value - The raw query parameter value.
+ * @returns {number | undefined} The number, or undefined when the parameter is absent.
+ */
+function readNumberParam(value: unknown): number | undefined {
+    if (value === undefined || value === "") return undefined;
+    return typeof value === "string" ? Number(value) : Number.NaN;
+}
+
+/**
+ * Builds the headers that describe a negotiated representation. Caches are
+ * told the representation varies by `Accept`, and GeoJSON is labelled with its
+ * own media type. Error documents stay JSON:API, so keep the default type.
+ *
+ * @param {ResponseFormat} format - The negotiated representation.
+ * @param {number} [statusCode] - The status of an error response, if any.
+ * @returns {Record<string, string>} The representation headers.
+ */
+function getRepresentationHeaders(
+    format: ResponseFormat,
+    statusCode?: number,
+): Record<string, string> {
+    return {
+        vary: "accept",
+        ...(format === "geojson" &&
+            statusCode === undefined && {
+                "content-type": GEOJSON_CONTENT_TYPE,
+            }),
+    };
+}
+
+/**
+ * Reads the `fields[type]` sparse fieldset query parameter for a resource type.
+ *
+ * @param {Request} request - The incoming Express request.
+ * @param {string} type - The resource type the fieldset applies to.
+ * @returns {unknown} The raw fieldset, or undefined when it was not given.
+ */
+function readFieldsParam(request: Request, type: string): unknown {
+    const fields = request.query.fields;
+    return typeof fields === "object" && !Array.isArray(fields)
+        ? (fields as Record<string, unknown>)[type]
+        : undefined;
+}
+
+/**
+ * Finds the addresses nearest to the `lat`/`lon` query parameters within an
+ * optional `radius` (metres), nearest first.
+ *
+ * @param {Request} request - The incoming Express request.
+ * @param {Response} response - The Express response used to send the JSON:API document.
+ * @returns {Promise<void>} Resolves once the response has been written.
+ */
+async function handleReverseGeocode(
+    request: Request,
+    response: Response,
+): Promise<void> {
+    const page = request.query.page as { size?: unknown } | undefined;
+
+    // Find the nearest addresses in the Elasticsearch index.
+    const { json, statusCode } = (await reverseGeocode(
+        readNumberParam(request.query.lat),
+        readNumberParam(request.query.lon),
+        readNumberParam(request.query.radius),
+        readNumberParam(typeof page === "object" ? page.size : undefined),
+        readFieldsParam(request, "address"),
+    )) as ReverseGeocodeResult;
+
+    if (statusCode === undefined) {
+        // Create a hash of the body to use as the ETag.
+        const responseHash = createHash("md5")
+            .update(JSON.stringify(json))
+            .digest("hex");
+        response
+            .set("etag", `"${version}-${responseHash}"`)
+            .set("cache-control", `public, max-age=${ONE_DAY}`);
+    }
+
+    response
+        .status(statusCode ?? 200)
+        .type(JSONAPI_CONTENT_TYPE)
+        .json(json);
+}
+
+/**
+ * Lists the secondary addresses (units) of the building whose primary address
+ * is `:pid`, ordered by level then flat number.
+ *
+ * @param {Request} request - The incoming Express request.
+ * @param {Response} response - The Express response used to send the JSON:API document.
+ * @returns {Promise<void>} Resolves once the response has been written.
+ */
+async function handleAddressSecondaries(
+    request: Request,
+    response: Response,
+): Promise<void> {
+    // `page[number]` has already been rewritten to a 0-indexed `page` string.
+    const page = request.query.page as
+        | string
+        | { number?: unknown; size?: unknown }
+        | undefined;
+    const pageNumber =
+        typeof page === "string"
+            ? Number(page) + 1
+            : readNumberParam(
+                  typeof page === "object" ? page.number : undefined,
+              );
+
+    // Find the secondary addresses in the Elasticsearch index.
+    const { json, statusCode, location } = (await getAddressSecondaries(
+        request.params.pid,
+        pageNumber,
+        readNumberParam(typeof page === "object" ? page.size : undefined),
+        readFieldsParam(request, "address"),
+    )) as GetAddressSecondariesResult;
+
+    if (statusCode === undefined) {
+        // Create a hash of the body to use as the ETag.
+        const responseHash = createHash("md5")
+            .update(JSON.stringify(json))
+            .digest("hex");
+        response
+            .set("etag", `"${version}-${responseHash}"`)
+            .set("cache-control", `public, max-age=${ONE_WEEK}`);
+    }
+
+    // A retired primary address redirects to its current successor.
+    if (location !== undefined) {
+        response.set("location", location);
+    }
+
+    response
+        .status(statusCode ?? 200)
+        .type(JSONAPI_CONTENT_TYPE)
+        .json(json);
+}
+
+/**
+ * Lists the other addresses on the same address site as the address `:pid`,
+ * ordered by level then flat number.
+ *
+ * @param {Request} request - The incoming Express request.
+ * @param {Response} response - The Express response used to send the JSON:API document.
+ * @returns {Promise<void>} Resolves once the response has been written.
+ */
+async function handleAddressSiteSiblings(
+    request: Request,
+    response: Response,
+): Promise<void> {
+    // `page[number]` has already been rewritten to a 0-indexed `page` string.
+    const page = request.query.page as
+        | string
+        | { number?: unknown; size?: unknown }
+        | undefined;
+    const pageNumber =
+        typeof page === "string"
+            ? Number(page) + 1
+            : readNumberParam(
+                  typeof page === "object" ? page.number : undefined,
+              );
+
+    // Find the sibling addresses in the Elasticsearch index.
+    const { json, statusCode, location } = (await getAddressSiteSiblings(
+        request.params.pid,
+        pageNumber,
+        readNumberParam(typeof page === "object" ? page.size : undefined),
+        readFieldsParam(request, "address"),
+    )) as GetAddressSiteSiblingsResult;
+
+    if (statusCode === undefined) {
+        // Create a hash of the body to use as the ETag.
+        const responseHash = createHash("md5")
+            .update(JSON.stringify(json))
+            .digest("hex");
+        response
+            .set("etag", `"${version}-${responseHash}"`)
+            .set("cache-control", `public, max-age=${ONE_WEEK}`);
+    }
+
+    // A retired address redirects to its current successor.
+    if (location !== undefined) {
+        response.set("location", location);
+    }
+
+    response
+        .status(statusCode ?? 200)
+        .type(JSONAPI_CONTENT_TYPE)
+        .json(json);
+}
+
+/**
+ * Returns the primary address of the building the secondary address `:pid`
+ * belongs to, exactly as `/addresses/{pid}` would.
+ *
+ * @param {Request} request - The incoming Express request.
+ * @param {Response} response - The Express response used to send the JSON:API document.
+ * @returns {Promise<void>} Resolves once the response has been written.
+ */
+async function handleAddressPrimary(
+    request: Request,
+    response: Response,
+): Promise<void> {
+    // Get the primary address from the Elasticsearch index.
+    const { json, hash, statusCode, location } = (await getAddressPrimary(
+        request.params.pid,
+        readFieldsParam(request, "address"),
+    )) as GetAddressResult;
+
+    if (statusCode === undefined) {
+        response
+            .set("etag", `"${version}-${hash}"`)
+            .set("cache-control", `public, max-age=${ONE_WEEK}`);
+    }
+
+    // A retired primary address redirects to its current successor.
+    if (location !== undefined) {
+        response.set("location", location);
+    }
+
+    response
+        .status(statusCode ?? 200)
+        .type(JSONAPI_CONTENT_TYPE)
+        .json(json);
+}
+
+/**
+ * Maps a raw locality search hit into a JSON:API autocomplete resource.
+ *
+ * @param {LocalitySearchHit} hit - Search hit returned by the backing index.
+ * @param {number} maxScore - The maximum score for normalization.
+ * @param {string} search - The search string the hit was found for.
+ * @returns {LocalitySuggestionResource} JSON:API resource for autocomplete.
+ */
+function mapLocalitySearchHitToResource(
+    hit: LocalitySearchHit,
+    maxScore: number,
+    search: string,
+): LocalitySuggestionResource {
+    const localityId = hit._id.replace("/localities/", "");
+    // Normalize score to 0-1 range relative to the best match
+    const normalizedRank = maxScore > 0 ? hit._score / maxScore : 0;
+    const matchedAlias = getMatchedAlias(
+        search,
+        hit._source.aliases,
+        hit.matched_queries,
+    );
+
+    return {
+        type: "locality-suggestion",
+        id: localityId,
+        attributes: {
+            display: hit._source.display,
+            rank: Math.round(normalizedRank * 100) / 100,
+            ...(matchedAlias !== undefined && { matchedAlias }),
+        },
+        links: {
+            self: `/localities/${localityId}`,
+        },
+    };
+}
+
+/**
+ * Loads a single locality resource by its persistent identifier.
+ *
+ * @param {LocalityLoaderParams} params - Parameters supplied by WayCharter containing the locality PID.
+ * @param {Record<string, string>} _headers - Filtered request headers (unused).
+ * @param {string} _selfUri - The request URI (unused).
+ * @param {Request} request - The Express request, used to read the `fields[locality]` parameter.
+ * @returns {Promise<{ body: unknown; headers: Record<string, string>; status: number; }>} Payload ready for WayCharter response handling.
+ * @throws {Error} When a locality PID is not provided.
+ */
+async function loadLocalityItem(
+    { localityPid }: LocalityLoaderParams,
+    _headers: Record<string, string>,
+    _selfUri: string,
+    request: Request,
+): Promise<{
+    body: unknown;
+    headers: Record<string, string>;
+    status: number;
+}> {
+    // Fail fast when a locality PID is missing to avoid an opaque 500 from downstream services.
+    if (typeof localityPid !== "string" || localityPid.length === 0) {
+        throw new Error("Locality PID is required to load a record.");
+    }
+
+    // Get the locality from the Elasticsearch index, as GeoJSON when asked for.
+    const format = getResponseFormat(request);
+    const { json, hash, statusCode } = (await getLocality(
+        localityPid,
+        readFieldsParam(request, "locality"),
+        format,
+    )) as GetLocalityResult;
+
+    // Return the locality body, headers, and status code.
+    return {
         body: json,
         headers: {
             etag: `"${version}-${hash}"`,
             "cache-control": `public, max-age=${ONE_WEEK}`,
+            ...getRepresentationHeaders(format, statusCode),
         },
         status: statusCode ?? 200,
     };
@@ -498,15 +1445,22 @@ async function loadLocalityItem({
  * Returns a JSON:API formatted document.
  *
  * @param {LocalityCollectionParams} params - Pagination and query parameters from WayCharter.
- * @returns {Promise<{ body: LocalityAutocompleteDocument; hasMore: boolean; headers: Record<string, string>; }>} JSON:API collection response.
+ * @param {Record<string, string>} _headers - Filtered request headers (unused).
+ * @param {string} _selfUri - The request URI (unused).
+ * @param {Request} request - The Express request, used to read the `fields[locality]` parameter.
+ * @returns {Promise<{ body: LocalityAutocompleteDocument | JsonApiErrorDocument; hasMore: boolean; headers: Record<string, string>; status?: number; }>} JSON:API collection response.
  * @throws {Error} When the provided page value cannot be parsed as a number.
  */
 async function loadLocalityCollection(
     params: LocalityCollectionParams,
+    _headers: Record<string, string>,
+    _selfUri: string,
+    request: Request,
 ): Promise<{
-    body: LocalityAutocompleteDocument;
+    body: LocalityAutocompleteDocument | JsonApiErrorDocument;
     hasMore: boolean;
     headers: Record<string, string>;
+    status?: number;
 }> {
     const { page, q } = params;
 
@@ -516,8 +1470,36 @@ async function loadLocalityCollection(
         throw new Error("Search page value must be numeric.");
     }
 
+    // Validate the suggestions' fieldset.
+    let localityFields: string[] | undefined;
+    try {
+        localityFields = parseSparseFieldset(
+            readFieldsParam(request, "locality"),
+            "locality",
+            LOCALITY_SUGGESTION_FIELD_SOURCES,
+        );
+    } catch (fieldsError: unknown) {
+        if (!(fieldsError instanceof SparseFieldsetError)) throw fieldsError;
+        return {
+            body: ErrorDocuments.badRequest(
+                fieldsError.message,
+                fieldsError.parameter,
+            ),
+            hasMore: false,
+            headers: {},
+            status: 400,
+        };
+    }
+
     // Build base URL for pagination links
-    const baseUrl = `/localities${q ? `?q=${encodeURIComponent(q)}` : ""}`;
+    const fieldsQuery = Object.entries(
+        getSparseFieldsetParams("locality", localityFields),
+    ).map(([name, value]) => `${name}=${encodeURIComponent(value)}`);
+    const searchQuery = [
+        ...(q ? [`q=${encodeURIComponent(q)}`] : []),
+        ...fieldsQuery,
+    ].join("&");
+    const baseUrl = `/localities${q ? `?${searchQuery}` : ""}`;
 
     // If the query is defined and longer than 1 character, search for localities.
     if (q && q.length > 1) {
@@ -527,6 +1509,10 @@ async function loadLocalityCollection(
             q,
             resolvedPage + 1,
             pageSize,
+            getSparseSourceFilter(
+                localityFields,
+                LOCALITY_SUGGESTION_FIELD_SOURCES,
+            ),
         )) as unknown as {
             searchResponse: {
                 body: {
@@ -550,11 +1536,25 @@ async function loadLocalityCollection(
         // Get max score for normalization (first hit typically has highest score)
         const maxScore = hits.length > 0 ? hits[0]._score : 1;
 
-        // Map the search hits to JSON:API resources
-        const data = hits.map((hit) =>
-            mapLocalitySearchHitToResource(hit, maxScore),
+        // Map the search hits to JSON:API resources, trimmed to the fieldset
+        const data = hits.map(
+            (hit) =>
+                applySparseFieldset(
+                    mapLocalitySearchHitToResource(hit, maxScore, q),
+                    localityFields,
+                ) as LocalitySuggestionResource,
         );
 
+        // Offer corrected searches when nothing matched
+        const suggestions =
+            totalHits === 0
+                ? buildSearchSuggestions(
+                      await suggestLocalitySearches(q),
+                      "/localities",
+                      getSparseFieldsetParams("locality", localityFields),
+                  )
+                : [];
+
         // Build JSON:API document
         const jsonApiDocument: LocalityAutocompleteDocument = {
             jsonapi: { version: "1.1" },
@@ -583,6 +1583,7 @@ async function loadLocalityCollection(
                 page: currentPage,
                 pageSize,
                 totalPages,
+                ...(suggestions.length > 0 && { suggestions }),
             },
         };
 
@@ -627,6 +1628,399 @@ async function loadLocalityCollection(
     };
 }
 
+/**
+ * Maps a raw street search hit into a JSON:API autocomplete resource.
+ *
+ * @param {StreetSearchHit} hit - Search hit returned by the backing index.
+ * @param {number} maxScore - The maximum score for normalization.
+ * @returns {StreetSuggestionResource} JSON:API resource for autocomplete.
+ */
+function mapStreetSearchHitToResource(
+    hit: StreetSearchHit,
+    maxScore: number,
+): StreetSuggestionResource {
+    const streetId = hit._id.replace("/streets/", "");
+    // Normalize score to 0-1 range relative to the best match
+    const normalizedRank = maxScore > 0 ? hit._score / maxScore : 0;
+
+    return {
+        type: "street-suggestion",
+        id: streetId,
+        attributes: {
+            display: hit._source.display,
+            rank: Math.round(normalizedRank * 100) / 100,
+        },
+        links: {
+            self: `/streets/${streetId}`,
+        },
+    };
+}
+
+/**
+ * Loads a single street resource by its persistent identifier.
+ *
+ * @param {StreetLoaderParams} params - Parameters supplied by WayCharter containing the street locality PID.
+ * @returns {Promise<{ body: unknown; headers: Record<string, string>; status: number; }>} Payload ready for WayCharter response handling.
+ * @throws {Error} When a street locality PID is not provided.
+ */
+async function loadStreetItem({
+    streetLocalityPid,
+}: StreetLoaderParams): Promise<{
+    body: unknown;
+    headers: Record<string, string>;
+    status: number;
+}> {
+    // Fail fast when a street locality PID is missing to avoid an opaque 500 from downstream services.
+    if (
+        typeof streetLocalityPid !== "string" ||
+        streetLocalityPid.length === 0
+    ) {
+        throw new Error("Street locality PID is required to load a record.");
+    }
+
+    // Get the street from the Elasticsearch index.
+    const { json, hash, statusCode } = (await getStreet(
+        streetLocalityPid,
+    )) as GetStreetResult;
+
+    // Return the street body, headers, and status code.
+    return {
+        body: json,
+        headers: {
+            etag: `"${version}-${hash}"`,
+            "cache-control": `public, max-age=${ONE_WEEK}`,
+        },
+        status: statusCode ?? 200,
+    };
+}
+
+/**
+ * Retrieves a paginated collection of streets matching the supplied query.
+ * Returns a JSON:API formatted document.
+ *
+ * @param {StreetCollectionParams} params - Pagination and query parameters from WayCharter.
+ * @returns {Promise<{ body: StreetAutocompleteDocument; hasMore: boolean; headers: Record<string, string>; }>} JSON:API collection response.
+ * @throws {Error} When the provided page value cannot be parsed as a number.
+ */
+async function loadStreetCollection(params: StreetCollectionParams): Promise<{
+    body: StreetAutocompleteDocument;
+    hasMore: boolean;
+    headers: Record<string, string>;
+}> {
+    const { page, q } = params;
+
+    // Accept numeric strings from query params while rejecting non-numeric input.
+    const resolvedPage = Number(page ?? 0);
+    if (!Number.isFinite(resolvedPage)) {
+        throw new Error("Search page value must be numeric.");
+    }
+
+    // Build base URL for pagination links
+    const baseUrl = `/streets${q ? `?q=${encodeURIComponent(q)}` : ""}`;
+
+    // If the query is defined and longer than 1 character, search for streets.
+    if (q && q.length > 1) {
+        logger("Searching for streets with query:", q);
+        // Query length guard prevents expensive searches on very short strings.
+        const searchResult = (await searchForStreet(
+            q,
+            resolvedPage + 1,
+            pageSize,
+        )) as unknown as {
+            searchResponse: {
+                body: {
+                    hits: {
+                        hits: StreetSearchHit[];
+                        total: { value: number };
+                    };
+                };
+            };
+            page: number;
+            size: number;
+            totalHits: number;
+        };
+
+        // Extract hits from the nested searchResponse structure
+        const hits = searchResult.searchResponse.body.hits.hits;
+        const totalHits = searchResult.totalHits;
+        const totalPages = Math.ceil(totalHits / pageSize);
+        const currentPage = resolvedPage + 1;
+
+        // Get max score for normalization (first hit typically has highest score)
+        const maxScore = hits.length > 0 ? hits[0]._score : 1;
+
+        // Map the search hits to JSON:API resources
+        const data = hits.map((hit) =>
+            mapStreetSearchHitToResource(hit, maxScore),
+        );
+
+        // Build JSON:API document
+        const jsonApiDocument: StreetAutocompleteDocument = {
+            jsonapi: { version: "1.1" },
+            data,
+            links: {
+                self: `${baseUrl}${currentPage > 1 ? `&page[number]=${currentPage}` : ""}`,
+                first: baseUrl,
+                ...(currentPage > 1 && {
+                    prev:
+                        currentPage === 2
+                            ? baseUrl
+                            : `${baseUrl}&page[number]=${currentPage - 1}`,
+                }),
+                ...(currentPage < totalPages && {
+                    next: `${baseUrl}&page[number]=${currentPage + 1}`,
+                }),
+                ...(totalPages > 0 && {
+                    last:
+                        totalPages === 1
+                            ? baseUrl
+                            : `${baseUrl}&page[number]=${totalPages}`,
+                }),
+            },
+            meta: {
+                total: totalHits,
+                page: currentPage,
+                pageSize,
+                totalPages,
+            },
+        };
+
+        // Create a hash of the body to use as the ETag.
+        const responseHash = createHash("md5")
+            .update(JSON.stringify(jsonApiDocument))
+            .digest("hex");
+
+        // Return the JSON:API document, hasMore, and headers.
+        return {
+            body: jsonApiDocument,
+            hasMore: currentPage < totalPages,
+            headers: {
+                etag: `"${version}-${responseHash}"`,
+                "cache-control": `public, max-age=${ONE_WEEK}`,
+            },
+        };
+    }
+
+    // Empty query responses still carry cache headers for intermediary caches.
+    const emptyDocument: StreetAutocompleteDocument = {
+        jsonapi: { version: "1.1" },
+        data: [],
+        links: {
+            self: baseUrl,
+        },
+        meta: {
+            total: 0,
+            page: 1,
+            pageSize,
+            totalPages: 0,
+        },
+    };
+
+    return {
+        body: emptyDocument,
+        hasMore: false,
+        headers: {
+            etag: `"${version}"`,
+            "cache-control": `public, max-age=${ONE_WEEK}`,
+        },
+    };
+}
+
+/**
+ * Maps a raw postcode search hit into a JSON:API autocomplete resource.
+ *
+ * @param {PostcodeSearchHit} hit - Search hit returned by the backing index.
+ * @param {number} maxScore - The maximum score for normalization.
+ * @returns {PostcodeSuggestionResource} JSON:API resource for autocomplete.
+ */
+function mapPostcodeSearchHitToResource(
+    hit: PostcodeSearchHit,
+    maxScore: number,
+): PostcodeSuggestionResource {
+    const postcode = hit._id.replace("/postcodes/", "");
+    // Normalize score to 0-1 range relative to the best match
+    const normalizedRank = maxScore > 0 ? hit._score / maxScore : 0;
+
+    return {
+        type: "postcode-suggestion",
+        id: postcode,
+        attributes: {
+            display: hit._source.display,
+            rank: Math.round(normalizedRank * 100) / 100,
+        },
+        links: {
+            self: `/postcodes/${postcode}`,
+        },
+    };
+}
+
+/**
+ * Loads a single postcode resource.
+ *
+ * @param {PostcodeLoaderParams} params - Parameters supplied by WayCharter containing the postcode.
+ * @returns {Promise<{ body: unknown; headers: Record<string, string>; status: number; }>} Payload ready for WayCharter response handling.
+ * @throws {Error} When a postcode is not provided.
+ */
+async function loadPostcodeItem({ postcode }: PostcodeLoaderParams): Promise<{
+    body: unknown;
+    headers: Record<string, string>;
+    status: number;
+}> {
+    // Fail fast when a postcode is missing to avoid an opaque 500 from downstream services.
+    if (typeof postcode !== "string" || postcode.length === 0) {
+        throw new Error("Postcode is required to load a record.");
+    }
+
+    // Get the postcode from the Elasticsearch index.
+    const { json, hash, statusCode } = (await getPostcode(
+        postcode,
+    )) as GetPostcodeResult;
+
+    // Return the postcode body, headers, and status code.
+    return {
+        body: json,
+        headers: {
+            etag: `"${version}-${hash}"`,
+            "cache-control": `public, max-age=${ONE_WEEK}`,
+        },
+        status: statusCode ?? 200,
+    };
+}
+
+/**
+ * Retrieves a paginated collection of postcodes matching the supplied query.
+ * Returns a JSON:API formatted document.
+ *
+ * @param {PostcodeCollectionParams} params - Pagination and query parameters from WayCharter.
+ * @returns {Promise<{ body: PostcodeAutocompleteDocument; hasMore: boolean; headers: Record<string, string>; }>} JSON:API collection response.
+ * @throws {Error} When the provided page value cannot be parsed as a number.
+ */
+async function loadPostcodeCollection(
+    params: PostcodeCollectionParams,
+): Promise<{
+    body: PostcodeAutocompleteDocument;
+    hasMore: boolean;
+    headers: Record<string, string>;
+}> {
+    const { page, q } = params;
+
+    // Accept numeric strings from query params while rejecting non-numeric input.
+    const resolvedPage = Number(page ?? 0);
+    if (!Number.isFinite(resolvedPage)) {
+        throw new Error("Search page value must be numeric.");
+    }
+
+    // Build base URL for pagination links
+    const baseUrl = `/postcodes${q ? `?q=${encodeURIComponent(q)}` : ""}`;
+
+    // If the query is defined and longer than 1 character, search for postcodes.
+    if (q && q.length > 1) {
+        logger("Searching for postcodes with query:", q);
+        // Query length guard prevents expensive searches on very short strings.
+        const searchResult = (await searchForPostcode(
+            q,
+            resolvedPage + 1,
+            pageSize,
+        )) as unknown as {
+            searchResponse: {
+                body: {
+                    hits: {
+                        hits: PostcodeSearchHit[];
+                        total: { value: number };
+                    };
+                };
+            };
+            page: number;
+            size: number;
+            totalHits: number;
+        };
+
+        // Extract hits from the nested searchResponse structure
+        const hits = searchResult.searchResponse.body.hits.hits;
+        const totalHits = searchResult.totalHits;
+        const totalPages = Math.ceil(totalHits / pageSize);
+        const currentPage = resolvedPage + 1;
+
+        // Get max score for normalization (first hit typically has highest score)
+        const maxScore = hits.length > 0 ? hits[0]._score : 1;
+
+        // Map the search hits to JSON:API resources
+        const data = hits.map((hit) =>
+            mapPostcodeSearchHitToResource(hit, maxScore),
+        );
+
+        // Build JSON:API document
+        const jsonApiDocument: PostcodeAutocompleteDocument = {
+            jsonapi: { version: "1.1" },
+            data,
+            links: {
+                self: `${baseUrl}${currentPage > 1 ? `&page[number]=${currentPage}` : ""}`,
+                first: baseUrl,
+                ...(currentPage > 1 && {
+                    prev:
+                        currentPage === 2
+                            ? baseUrl
+                            : `${baseUrl}&page[number]=${currentPage - 1}`,
+                }),
+                ...(currentPage < totalPages && {
+                    next: `${baseUrl}&page[number]=${currentPage + 1}`,
+                }),
+                ...(totalPages > 0 && {
+                    last:
+                        totalPages === 1
+                            ? baseUrl
+                            : `${baseUrl}&page[number]=${totalPages}`,
+                }),
+            },
+            meta: {
+                total: totalHits,
+                page: currentPage,
+                pageSize,
+                totalPages,
+            },
+        };
+
+        // Create a hash of the body to use as the ETag.
+        const responseHash = createHash("md5")
+            .update(JSON.stringify(jsonApiDocument))
+            .digest("hex");
+
+        // Return the JSON:API document, hasMore, and headers.
+        return {
+            body: jsonApiDocument,
+            hasMore: currentPage < totalPages,
+            headers: {
+                etag: `"${version}-${responseHash}"`,
+                "cache-control": `public, max-age=${ONE_WEEK}`,
+            },
+        };
+    }
+
+    // Empty query responses still carry cache headers for intermediary caches.
+    const emptyDocument: PostcodeAutocompleteDocument = {
+        jsonapi: { version: "1.1" },
+        data: [],
+        links: {
+            self: baseUrl,
+        },
+        meta: {
+            total: 0,
+            page: 1,
+            pageSize,
+            totalPages: 0,
+        },
+    };
+
+    return {
+        body: emptyDocument,
+        hasMore: false,
+        headers: {
+            etag: `"${version}"`,
+            "cache-control": `public, max-age=${ONE_WEEK}`,
+        },
+    };
+}
+
 /**
  * Starts the REST server and registers hypermedia resources.
  *
@@ -689,6 +2083,23 @@ export async function startRest2Server(): Promise<string> {
         res.json(swaggerSpec);
     });
 
+    // These routes are registered ahead of WayCharter so `/addresses/search`,
+    // `/addresses/validate`, `/addresses/batch`, `/addresses/parse` and
+    // `/addresses/reverse` are not captured by the `/addresses/:pid` item route,
+    // and so the address sub-resources are served alongside them.
+    app.post("/addresses/search", parseJsonBody, handleSearchAddresses);
+    app.post("/addresses/validate", parseJsonBody, handleValidateAddress);
+    app.post(
+        "/addresses/batch",
+        parseBatchJsonBody,
+        handleValidateAddressBatch,
+    );
+    app.get("/addresses/parse", handleParseAddress);
+    app.get("/addresses/reverse", handleReverseGeocode);
+    app.get("/addresses/:pid/secondaries", handleAddressSecondaries);
+    app.get("/addresses/:pid/primary", handleAddressPrimary);
+    app.get("/addresses/:pid/site-siblings", handleAddressSiteSiblings);
+
     // WayCharter provides hypermedia routing; attach its router before custom handlers.
     // Create a new WayCharter instance
     const waycharter = new WayCharter();
@@ -722,6 +2133,34 @@ export async function startRest2Server(): Promise<string> {
         ],
     });
 
+    // Register the streets collection.
+    const streetsType = waycharter.registerCollection({
+        itemPath: "/:streetLocalityPid",
+        itemLoader: loadStreetItem,
+        collectionPath: "/streets",
+        collectionLoader: loadStreetCollection,
+        filters: [
+            {
+                rel: "https://addressr.io/rels/street-search",
+                parameters: ["q"],
+            },
+        ],
+    });
+
+    // Register the postcodes collection.
+    const postcodesType = waycharter.registerCollection({
+        itemPath: "/:postcode",
+        itemLoader: loadPostcodeItem,
+        collectionPath: "/postcodes",
+        collectionLoader: loadPostcodeCollection,
+        filters: [
+            {
+                rel: "https://addressr.io/rels/postcode-search",
+                parameters: ["q"],
+            },
+        ],
+    });
+
     /**
      * Builds the API index resource, exposing links to available collections.
      *
@@ -732,12 +2171,19 @@ export async function startRest2Server(): Promise<string> {
         links: unknown;
         headers: Record<string, string>;
     }> => {
-        // Combine links from both collections
+        // Combine links from all collections
         const addressLinks = addressesType.additionalPaths as unknown[];
         const localityLinks = localitiesType.additionalPaths as unknown[];
+        const streetLinks = streetsType.additionalPaths as unknown[];
+        const postcodeLinks = postcodesType.additionalPaths as unknown[];
         return {
             body: {},
-            links: [...addressLinks, ...localityLinks],
+            links: [
+                ...addressLinks,
+                ...localityLinks,
+                ...streetLinks,
+                ...postcodeLinks,
+            ],
             headers: {
                 etag: `"${version}"`,
                 "cache-control": `public, max-age=${ONE_WEEK}`,
@@ -1,5 +1,5 @@
 declare module "@mountainpass/waycharter" {
-    import type { Router } from "express";
+    import type { Request, Response, Router } from "express";
 
     type LoaderResult = {
         body: unknown;
@@ -15,9 +15,21 @@ declare module "@mountainpass/waycharter" {
         router: Router;
         registerCollection(config: {
             itemPath: string;
-            itemLoader: (params: LoaderParams) => Promise<LoaderResult>;
+            itemLoader: (
+                params: LoaderParams,
+                headers: Record<string, string>,
+                selfUri: string,
+                request: Request,
+                response: Response,
+            ) => Promise<LoaderResult>;
             collectionPath: string;
-            collectionLoader: (params: LoaderParams) => Promise<LoaderResult>;
+            collectionLoader: (
+                params: LoaderParams,
+                headers: Record<string, string>,
+                selfUri: string,
+                request: Request,
+                response: Response,
+            ) => Promise<LoaderResult>;
             filters?: Array<{ rel: string; parameters: string[] }>;
         }): {
             additionalPaths: unknown;
@@ -39,6 +39,18 @@ const ES_INDEX_NAME = process.env.ES_INDEX_NAME ?? "addresskit";
 const ES_LOCALITY_INDEX_NAME =
     process.env.ES_LOCALITY_INDEX_NAME ?? "addresskit-localities";
 
+/**
+ * The name of the Elasticsearch index for streets.
+ */
+const ES_STREET_INDEX_NAME =
+    process.env.ES_STREET_INDEX_NAME ?? "addresskit-streets";
+
+/**
+ * The name of the Elasticsearch index for postcodes.
+ */
+const ES_POSTCODE_INDEX_NAME =
+    process.env.ES_POSTCODE_INDEX_NAME ?? "addresskit-postcodes";
+
 /**
  * Configuration values for the Elasticsearch server
  */
@@ -114,12 +126,16 @@ type IndexBody = {
  * @param {Client} esClient - Connected OpenSearch client.
  * @param {boolean} [clear] - When true, drop the index before recreating.
  * @param {SynonymsList} [synonyms] - Optional synonyms list to seed the analyzer.
+ * @param {Record<string, unknown>} [meta] - Optional mapping metadata (`_meta`) stored with the index.
+ * @param {boolean} [edgeNgram] - When true, add `edge` subfields indexing the leading characters of each word, for search-as-you-type queries.
  * @returns {Promise<void>} Resolves once the index is ready.
  */
 export async function initIndex(
     esClient: Client,
     clear?: boolean,
     synonyms?: SynonymsList,
+    meta?: Record<string, unknown>,
+    edgeNgram?: boolean,
 ): Promise<void> {
     // If the clear flag is set, drop the index
     if (clear) await dropIndex(esClient);
@@ -128,6 +144,23 @@ export async function initIndex(
     const exists = await esClient.indices.exists({ index: ES_INDEX_NAME });
     if (VERBOSE) logger("index exists:", exists.body);
 
+    // Subfields of the single-line address fields. The edge n-gram subfield
+    // indexes every leading slice of each word ("B", "BA", "BAR", ...) so a
+    // partly typed word matches with a plain term lookup, while searches are
+    // analyzed without n-grams.
+    const slaFields = {
+        raw: {
+            type: "keyword",
+        },
+        ...(edgeNgram && {
+            edge: {
+                type: "text",
+                analyzer: "edge_ngram_analyzer",
+                search_analyzer: "my_analyzer",
+            },
+        }),
+    };
+
     // Build the index body
     const indexBody: IndexBody = {
         settings: {
@@ -144,6 +177,13 @@ export async function initIndex(
                             pattern: ",",
                             replacement: "",
                         },
+                        ...(edgeNgram && {
+                            edge_ngram_filter: {
+                                type: "edge_ngram",
+                                min_gram: 1,
+                                max_gram: 20,
+                            },
+                        }),
                     },
                     analyzer: {
                         my_analyzer: {
@@ -156,6 +196,19 @@ export async function initIndex(
                                 "trim",
                             ],
                         },
+                        ...(edgeNgram && {
+                            edge_ngram_analyzer: {
+                                tokenizer: "whitecomma",
+                                filter: [
+                                    "uppercase",
+                                    "asciifolding",
+                                    "my_synonym_filter",
+                                    "comma_stripper",
+                                    "trim",
+                                    "edge_ngram_filter",
+                                ],
+                            },
+                        }),
                     },
                     tokenizer: {
                         whitecomma: {
@@ -169,6 +222,7 @@ export async function initIndex(
         },
         aliases: {},
         mappings: {
+            ...(meta !== undefined && { _meta: meta }),
             properties: {
                 structured: {
                     type: "object",
@@ -177,22 +231,64 @@ export async function initIndex(
                 sla: {
                     type: "text",
                     analyzer: "my_analyzer",
-                    fields: {
-                        raw: {
-                            type: "keyword",
-                        },
-                    },
+                    fields: slaFields,
                 },
                 ssla: {
                     type: "text",
                     analyzer: "my_analyzer",
-                    fields: {
-                        raw: {
-                            type: "keyword",
+                    fields: slaFields,
+                },
+                // Single line address under each alternative locality name
+                aliasSla: {
+                    type: "text",
+                    analyzer: "my_analyzer",
+                    fields: slaFields,
+                },
+                localityAliases: { type: "keyword" },
+                // Single line address under each former or alternate street name
+                streetAliasSla: {
+                    type: "text",
+                    analyzer: "my_analyzer",
+                    fields: slaFields,
+                },
+                // "P" for principal addresses, "A" for aliases of another address
+                aliasPrincipal: { type: "keyword" },
+                principalPid: { type: "keyword" },
+                aliasTypeCode: { type: "keyword" },
+                // Building primary/secondary links (G-NAF PRIMARY_SECONDARY)
+                precedence: { type: "keyword" },
+                primaryPid: { type: "keyword" },
+                // The primary address PID for units, otherwise the address's own PID
+                buildingPid: { type: "keyword" },
+                secondaryCount: { type: "integer" },
+                // Level and flat numbers, for ordering secondaries naturally
+                levelNumber: { type: "integer" },
+                flatNumber: { type: "integer" },
+                // First and last street numbers, for matching numbers inside a range
+                number: {
+                    properties: {
+                        number: { type: "integer" },
+                        last: {
+                            properties: {
+                                number: { type: "integer" },
+                            },
                         },
                     },
                 },
                 confidence: { type: "integer" },
+                // Filterable copies of structured fields (structured is not indexed)
+                state: { type: "keyword" },
+                postcode: { type: "keyword" },
+                localityPid: { type: "keyword" },
+                legalParcelId: { type: "keyword" },
+                // The address site and G-NAF property the address belongs to
+                addressSitePid: { type: "keyword" },
+                gnafPropertyPid: { type: "keyword" },
+                // Retirement date and successor, on retired address tombstones
+                dateRetired: { type: "date", format: "yyyy-MM-dd" },
+                successorPid: { type: "keyword" },
+                // Default geocode, populated when geocodes are loaded
+                location: { type: "geo_point" },
             },
         },
     };
@@ -360,6 +456,16 @@ export async function initLocalityIndex(
                         },
                     },
                 },
+                // Alternative locality names from LOCALITY_ALIAS
+                aliases: {
+                    type: "text",
+                    analyzer: "locality_analyzer",
+                    fields: {
+                        raw: {
+                            type: "keyword",
+                        },
+                    },
+                },
                 // State abbreviation for filtering
                 stateAbbreviation: {
                     type: "keyword",
@@ -388,6 +494,10 @@ export async function initLocalityIndex(
                 localityPid: {
                     type: "keyword",
                 },
+                // Locality centre point from LOCALITY_POINT
+                location: {
+                    type: "geo_point",
+                },
             },
         },
     };
@@ -440,6 +550,414 @@ export async function initLocalityIndex(
         );
 }
 
+/**
+ * Shape of the street index configuration payload we send to OpenSearch.
+ */
+type StreetIndexBody = {
+    settings: Record<string, unknown>;
+    aliases: Record<string, unknown>;
+    mappings: Record<string, unknown>;
+};
+
+/**
+ * Drops the configured OpenSearch street index if it exists.
+ *
+ * @param esClient - Connected OpenSearch client.
+ * @returns Resolves after the index is removed or confirmed absent.
+ */
+export async function dropStreetIndex(esClient: Client): Promise<void> {
+    // Check if the index exists
+    const exists = await esClient.indices.exists({
+        index: ES_STREET_INDEX_NAME,
+    });
+
+    // If the index exists, delete it
+    if (exists.body === true) {
+        const deleteIndexResult = await esClient.indices.delete({
+            index: ES_STREET_INDEX_NAME,
+        });
+
+        // Log the result
+        if (VERBOSE) logger({ deleteIndexResult });
+    }
+
+    // Check if the index exists again
+    const postExists = await esClient.indices.exists({
+        index: ES_STREET_INDEX_NAME,
+    });
+
+    // Log the result
+    if (VERBOSE) logger("street index exists:", postExists);
+}
+
+/**
+ * Ensures the street index exists and is configured with analyzers and mappings.
+ *
+ * @param esClient - Connected OpenSearch client.
+ * @param clear - When true, drop the index before recreating.
+ * @returns Resolves once the index is ready.
+ */
+export async function initStreetIndex(
+    esClient: Client,
+    clear?: boolean,
+): Promise<void> {
+    // If the clear flag is set, drop the index
+    if (clear) await dropStreetIndex(esClient);
+
+    // Check if the index exists
+    const exists = await esClient.indices.exists({
+        index: ES_STREET_INDEX_NAME,
+    });
+    if (VERBOSE) logger("street index exists:", exists.body);
+
+    // Build the index body with mappings optimized for street search
+    const indexBody: StreetIndexBody = {
+        settings: {
+            index: {
+                analysis: {
+                    filter: {
+                        comma_stripper: {
+                            type: "pattern_replace",
+                            pattern: ",",
+                            replacement: "",
+                        },
+                    },
+                    analyzer: {
+                        street_analyzer: {
+                            tokenizer: "whitecomma",
+                            filter: [
+                                "uppercase",
+                                "asciifolding",
+                                "comma_stripper",
+                                "trim",
+                            ],
+                        },
+                    },
+                    tokenizer: {
+                        whitecomma: {
+                            type: "pattern",
+                            pattern: "[\\W,]+",
+                            lowercase: false,
+                        },
+                    },
+                },
+            },
+        },
+        aliases: {},
+        mappings: {
+            properties: {
+                // Display string for autocomplete (e.g., "GEORGE STREET, SYDNEY NSW 2000")
+                display: {
+                    type: "text",
+                    analyzer: "street_analyzer",
+                    fields: {
+                        raw: {
+                            type: "keyword",
+                        },
+                    },
+                },
+                // Full street name including type and suffix (e.g., "GEORGE STREET")
+                name: {
+                    type: "text",
+                    analyzer: "street_analyzer",
+                    fields: {
+                        raw: {
+                            type: "keyword",
+                        },
+                    },
+                },
+                // Street name without type or suffix (e.g., "GEORGE")
+                streetName: {
+                    type: "keyword",
+                },
+                // Street type code and name
+                typeCode: {
+                    type: "keyword",
+                },
+                typeName: {
+                    type: "keyword",
+                },
+                // Street suffix code and name
+                suffixCode: {
+                    type: "keyword",
+                },
+                suffixName: {
+                    type: "keyword",
+                },
+                // Street class code and name
+                classCode: {
+                    type: "keyword",
+                },
+                className: {
+                    type: "keyword",
+                },
+                // Locality the street belongs to
+                localityPid: {
+                    type: "keyword",
+                },
+                localityName: {
+                    type: "keyword",
+                },
+                // State abbreviation for filtering
+                stateAbbreviation: {
+                    type: "keyword",
+                },
+                // State full name
+                stateName: {
+                    type: "keyword",
+                },
+                // Primary postcode
+                postcode: {
+                    type: "keyword",
+                },
+                // All postcodes used by addresses on this street
+                postcodes: {
+                    type: "keyword",
+                },
+                // Number of addresses on this street
+                addressCount: {
+                    type: "integer",
+                },
+                // Original G-NAF street locality PID
+                streetLocalityPid: {
+                    type: "keyword",
+                },
+            },
+        },
+    };
+
+    // If the index does not exist, create it
+    if (exists.body !== true) {
+        if (VERBOSE) logger(`creating street index: ${ES_STREET_INDEX_NAME}`);
+        const indexCreateResult = await esClient.indices.create({
+            index: ES_STREET_INDEX_NAME,
+            body: indexBody,
+        });
+        if (VERBOSE) logger({ indexCreateResult });
+    } else {
+        // When the index already exists, update settings and mappings then reopen.
+        const indexCloseResult = await esClient.indices.close({
+            index: ES_STREET_INDEX_NAME,
+        });
+        if (VERBOSE) logger({ indexCloseResult });
+        const indexPutSettingsResult = await esClient.indices.putSettings({
+            index: ES_STREET_INDEX_NAME,
+            body: indexBody,
+        });
+        if (VERBOSE) logger({ indexPutSettingsResult });
+        const indexPutMappingResult = await esClient.indices.putMapping({
+            index: ES_STREET_INDEX_NAME,
+            body: indexBody.mappings,
+        });
+        if (VERBOSE) logger({ indexPutMappingResult });
+        const indexOpenResult = await esClient.indices.open({
+            index: ES_STREET_INDEX_NAME,
+        });
+        if (VERBOSE) logger({ indexOpenResult });
+        const refreshResult = await esClient.indices.refresh({
+            index: ES_STREET_INDEX_NAME,
+        });
+        if (VERBOSE) logger({ refreshResult });
+    }
+
+    // Get the index
+    const indexGetResult = await esClient.indices.get({
+        index: ES_STREET_INDEX_NAME,
+        include_defaults: true,
+    });
+
+    // Log the result
+    if (VERBOSE)
+        logger(
+            `streetIndexGetResult:\n${JSON.stringify(indexGetResult, undefined, 2)}`,
+        );
+}
+
+/**
+ * Shape of the postcode index configuration payload we send to OpenSearch.
+ */
+type PostcodeIndexBody = {
+    settings: Record<string, unknown>;
+    aliases: Record<string, unknown>;
+    mappings: Record<string, unknown>;
+};
+
+/**
+ * Drops the configured OpenSearch postcode index if it exists.
+ *
+ * @param esClient - Connected OpenSearch client.
+ * @returns Resolves after the index is removed or confirmed absent.
+ */
+export async function dropPostcodeIndex(esClient: Client): Promise<void> {
+    // Check if the index exists
+    const exists = await esClient.indices.exists({
+        index: ES_POSTCODE_INDEX_NAME,
+    });
+
+    // If the index exists, delete it
+    if (exists.body === true) {
+        const deleteIndexResult = await esClient.indices.delete({
+            index: ES_POSTCODE_INDEX_NAME,
+        });
+
+        // Log the result
+        if (VERBOSE) logger({ deleteIndexResult });
+    }
+
+    // Check if the index exists again
+    const postExists = await esClient.indices.exists({
+        index: ES_POSTCODE_INDEX_NAME,
+    });
+
+    // Log the result
+    if (VERBOSE) logger("postcode index exists:", postExists);
+}
+
+/**
+ * Ensures the postcode index exists and is configured with analyzers and mappings.
+ *
+ * @param esClient - Connected OpenSearch client.
+ * @param clear - When true, drop the index before recreating.
+ * @returns Resolves once the index is ready.
+ */
+export async function initPostcodeIndex(
+    esClient: Client,
+    clear?: boolean,
+): Promise<void> {
+    // If the clear flag is set, drop the index
+    if (clear) await dropPostcodeIndex(esClient);
+
+    // Check if the index exists
+    const exists = await esClient.indices.exists({
+        index: ES_POSTCODE_INDEX_NAME,
+    });
+    if (VERBOSE) logger("postcode index exists:", exists.body);
+
+    // Build the index body with mappings optimized for postcode search
+    const indexBody: PostcodeIndexBody = {
+        settings: {
+            index: {
+                analysis: {
+                    filter: {
+                        comma_stripper: {
+                            type: "pattern_replace",
+                            pattern: ",",
+                            replacement: "",
+                        },
+                    },
+                    analyzer: {
+                        postcode_analyzer: {
+                            tokenizer: "whitecomma",
+                            filter: [
+                                "uppercase",
+                                "asciifolding",
+                                "comma_stripper",
+                                "trim",
+                            ],
+                        },
+                    },
+                    tokenizer: {
+                        whitecomma: {
+                            type: "pattern",
+                            pattern: "[\\W,]+",
+                            lowercase: false,
+                        },
+                    },
+                },
+            },
+        },
+        aliases: {},
+        mappings: {
+            properties: {
+                // Display string for autocomplete (e.g., "2000 NSW")
+                display: {
+                    type: "text",
+                    analyzer: "postcode_analyzer",
+                    fields: {
+                        raw: {
+                            type: "keyword",
+                        },
+                    },
+                },
+                // The 4-digit postcode
+                postcode: {
+                    type: "keyword",
+                },
+                // Names of the localities using this postcode, for searching by suburb
+                localityNames: {
+                    type: "text",
+                    analyzer: "postcode_analyzer",
+                },
+                // State abbreviations the postcode spans
+                stateAbbreviations: {
+                    type: "keyword",
+                },
+                // States the postcode spans with their full names
+                states: {
+                    type: "object",
+                    enabled: false,
+                },
+                // Localities using this postcode with their address counts
+                localities: {
+                    type: "object",
+                    enabled: false,
+                },
+                // Number of addresses with this postcode
+                addressCount: {
+                    type: "integer",
+                },
+            },
+        },
+    };
+
+    // If the index does not exist, create it
+    if (exists.body !== true) {
+        if (VERBOSE)
+            logger(`creating postcode index: ${ES_POSTCODE_INDEX_NAME}`);
+        const indexCreateResult = await esClient.indices.create({
+            index: ES_POSTCODE_INDEX_NAME,
+            body: indexBody,
+        });
+        if (VERBOSE) logger({ indexCreateResult });
+    } else {
+        // When the index already exists, update settings and mappings then reopen.
+        const indexCloseResult = await esClient.indices.close({
+            index: ES_POSTCODE_INDEX_NAME,
+        });
+        if (VERBOSE) logger({ indexCloseResult });
+        const indexPutSettingsResult = await esClient.indices.putSettings({
+            index: ES_POSTCODE_INDEX_NAME,
+            body: indexBody,
+        });
+        if (VERBOSE) logger({ indexPutSettingsResult });
+        const indexPutMappingResult = await esClient.indices.putMapping({
+            index: ES_POSTCODE_INDEX_NAME,
+            body: indexBody.mappings,
+        });
+        if (VERBOSE) logger({ indexPutMappingResult });
+        const indexOpenResult = await esClient.indices.open({
+            index: ES_POSTCODE_INDEX_NAME,
+        });
+        if (VERBOSE) logger({ indexOpenResult });
+        const refreshResult = await esClient.indices.refresh({
+            index: ES_POSTCODE_INDEX_NAME,
+        });
+        if (VERBOSE) logger({ refreshResult });
+    }
+
+    // Get the index
+    const indexGetResult = await esClient.indices.get({
+        index: ES_POSTCODE_INDEX_NAME,
+        include_defaults: true,
+    });
+
+    // Log the result
+    if (VERBOSE)
+        logger(
+            `postcodeIndexGetResult:\n${JSON.stringify(indexGetResult, undefined, 2)}`,
+        );
+}
+
 /**
  * Connects to OpenSearch, waiting for the port to be reachable and retrying until success.
  *